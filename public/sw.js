@@ -0,0 +1,127 @@
+// Service worker: keeps the app shell available offline and serves downloaded courses.
+// Downloads are written by src/lib/offlineDownloads.ts into OFFLINE_CACHE under /offline/;
+// keep the cache name and path prefix in sync with it.
+
+const SHELL_CACHE = 'skillcy-shell-v1';
+const OFFLINE_CACHE = 'skillcy-offline-courses';
+const OFFLINE_PREFIX = '/offline/';
+
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/favicon.ico', '/icon-192.png'];
+
+// index.html only names the entry bundles; cache those too so the first offline load works
+const cacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_FILES);
+
+  const response = await cache.match('/index.html');
+  const html = response ? await response.text() : '';
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+  await cache.addAll(assets);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('skillcy-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// A cached file's blob is backed by the cache on disk, so slicing it reads only the
+// requested bytes. It is kept per download so each Range request doesn't open it again.
+const downloadBlobs = new Map();
+
+const downloadBlob = async (url, response) => {
+  const version = response.headers.get('X-Downloaded-At');
+  const known = downloadBlobs.get(url);
+  if (known && known.version === version) return known.blob;
+
+  const blob = await response.blob();
+  downloadBlobs.set(url, { version, blob });
+  return blob;
+};
+
+// Video players seek with Range requests, which the Cache API does not answer by itself
+const rangeResponse = async (request, response) => {
+  const range = request.headers.get('range');
+  const match = range && /^bytes=(\d*)-(\d*)$/.exec(range);
+  if (!match || (!match[1] && !match[2])) return response;
+
+  const blob = await downloadBlob(new URL(request.url).pathname, response);
+  const size = blob.size;
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+};
+
+const serveDownload = async (request) => {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const response = await cache.match(request.url, { ignoreSearch: true });
+  if (!response) {
+    downloadBlobs.delete(new URL(request.url).pathname);
+    return new Response('Not downloaded', { status: 404 });
+  }
+  return rangeResponse(request, response);
+};
+
+// Pages are network-first so deploys show up at once; every route is the same index.html
+const serveNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+const serveAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith(OFFLINE_PREFIX)) {
+    event.respondWith(serveDownload(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(serveNavigation(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(serveAsset(request));
+  }
+});
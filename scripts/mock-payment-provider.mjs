@@ -0,0 +1,179 @@
+// Local stand-in for the payment provider.
+//
+// Implements the subset of the Stripe API used by create-checkout, serves a fake
+// hosted checkout page and sends signed webhook events to payment-webhook.
+//
+//   npm run mock:payments
+//
+// Point the edge functions at it with STRIPE_API_BASE=http://host.docker.internal:12111
+// and use the same STRIPE_WEBHOOK_SECRET on both sides.
+//
+// Lifecycle endpoints for manual testing:
+//   GET  /v1/subscriptions              list subscriptions
+//   POST /v1/subscriptions/:id/renew    invoice.paid + customer.subscription.updated
+//   POST /v1/subscriptions/:id/cancel   customer.subscription.updated (cancel at period end)
+//   POST /v1/subscriptions/:id/expire   customer.subscription.deleted
+
+import { createServer } from 'node:http';
+import { createHmac, randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_PROVIDER_PORT || 12111);
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:54321/functions/v1/payment-webhook';
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || 'whsec_test';
+const PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+const sessions = new Map();
+const subscriptions = new Map();
+
+const newId = (prefix) => `${prefix}_${randomBytes(8).toString('hex')}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+const sendEvent = async (type, object) => {
+  const payload = JSON.stringify({ id: newId('evt'), type, created: now(), data: { object } });
+  const timestamp = String(now());
+  const signature = createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${payload}`).digest('hex');
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': `t=${timestamp},v1=${signature}` },
+    body: payload,
+  });
+  console.log(`${type} -> ${response.status}`);
+};
+
+// Turns form keys like "subscription_data[metadata][plan]" into nested objects
+const parseForm = (body) => {
+  const result = {};
+  for (const [key, value] of new URLSearchParams(body)) {
+    const path = key.replace(/\]/g, '').split('[');
+    let target = result;
+    path.slice(0, -1).forEach((part) => {
+      target[part] = target[part] || {};
+      target = target[part];
+    });
+    target[path[path.length - 1]] = value;
+  }
+  return result;
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+
+const json = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const redirect = (res, location) => {
+  res.writeHead(303, { Location: location });
+  res.end();
+};
+
+// Form values arrive as strings; Stripe defaults the quantity to 1
+const lineItemQuantity = (session) => Math.max(Number(session.line_items?.[0]?.quantity) || 1, 1);
+
+const checkoutPage = (session) => `<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 480px; margin: 4rem auto">
+    <h1>Mock checkout</h1>
+    <p>Plan: <strong>${session.subscription_data?.metadata?.plan}</strong></p>
+    <p>Seats: ${lineItemQuantity(session)}</p>
+    <p>Customer: ${session.customer_email || 'unknown'}</p>
+    <form method="post" action="/checkout/${session.id}/pay"><button>Pay</button></form>
+    <form method="post" action="/checkout/${session.id}/cancel"><button>Cancel</button></form>
+  </body>
+</html>`;
+
+const routes = [
+  ['POST', /^\/v1\/checkout\/sessions$/, async (req, res) => {
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      return json(res, 401, { error: { message: 'Missing API key' } });
+    }
+    const params = parseForm(await readBody(req));
+    const id = newId('cs');
+    const session = { ...params, id, object: 'checkout.session', url: `http://localhost:${PORT}/checkout/${id}` };
+    sessions.set(session.id, session);
+    json(res, 200, session);
+  }],
+  ['GET', /^\/checkout\/([\w]+)$/, async (req, res, [id]) => {
+    const session = sessions.get(id);
+    if (!session) return json(res, 404, { error: { message: 'No such session' } });
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(checkoutPage(session));
+  }],
+  ['POST', /^\/checkout\/([\w]+)\/pay$/, async (req, res, [id]) => {
+    const session = sessions.get(id);
+    if (!session) return json(res, 404, { error: { message: 'No such session' } });
+
+    const subscription = {
+      id: newId('sub'),
+      object: 'subscription',
+      customer: newId('cus'),
+      status: 'active',
+      current_period_end: now() + PERIOD_SECONDS,
+      cancel_at_period_end: false,
+      metadata: session.subscription_data?.metadata || {},
+      items: {
+        object: 'list',
+        data: [{ object: 'subscription_item', price: { id: session.line_items?.[0]?.price }, quantity: lineItemQuantity(session) }],
+      },
+    };
+    subscriptions.set(subscription.id, subscription);
+
+    await sendEvent('checkout.session.completed', { ...session, subscription: subscription.id, customer: subscription.customer });
+    await sendEvent('customer.subscription.created', subscription);
+    redirect(res, session.success_url);
+  }],
+  ['POST', /^\/checkout\/([\w]+)\/cancel$/, async (req, res, [id]) => {
+    const session = sessions.get(id);
+    if (!session) return json(res, 404, { error: { message: 'No such session' } });
+    redirect(res, session.cancel_url);
+  }],
+  ['GET', /^\/v1\/subscriptions$/, async (req, res) => {
+    json(res, 200, { object: 'list', data: [...subscriptions.values()] });
+  }],
+  ['POST', /^\/v1\/subscriptions\/([\w]+)\/(renew|cancel|expire)$/, async (req, res, [id, action]) => {
+    const subscription = subscriptions.get(id);
+    if (!subscription) return json(res, 404, { error: { message: 'No such subscription' } });
+
+    if (action === 'renew') {
+      subscription.status = 'active';
+      subscription.current_period_end += PERIOD_SECONDS;
+      await sendEvent('invoice.paid', {
+        id: newId('in'),
+        subscription: id,
+        lines: { data: [{ period: { end: subscription.current_period_end } }] },
+      });
+      await sendEvent('customer.subscription.updated', subscription);
+    } else if (action === 'cancel') {
+      subscription.cancel_at_period_end = true;
+      await sendEvent('customer.subscription.updated', subscription);
+    } else {
+      subscription.status = 'canceled';
+      await sendEvent('customer.subscription.deleted', subscription);
+    }
+    json(res, 200, subscription);
+  }],
+];
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  for (const [method, pattern, handler] of routes) {
+    const match = pathname.match(pattern);
+    if (req.method === method && match) {
+      try {
+        return await handler(req, res, match.slice(1));
+      } catch (error) {
+        console.error(error);
+        return json(res, 500, { error: { message: String(error) } });
+      }
+    }
+  }
+  json(res, 404, { error: { message: `No route for ${req.method} ${pathname}` } });
+}).listen(PORT, () => {
+  console.log(`Mock payment provider on http://localhost:${PORT}, sending webhooks to ${WEBHOOK_URL}`);
+});
@@ -14,6 +14,15 @@ import { Library } from "@/pages/Library";
 import { Learn } from "@/pages/Learn";
 import { Premium } from "@/pages/Premium";
 import { Profile } from "@/pages/Profile";
+import { AdminModeration } from "@/pages/AdminModeration";
+import { AdminCategories } from "@/pages/AdminCategories";
+import { Certificate } from "@/pages/Certificate";
+import { Organizations } from "@/pages/Organizations";
+import { Organization } from "@/pages/Organization";
+import { JoinOrganization } from "@/pages/JoinOrganization";
+import { CreatorAnalytics } from "@/pages/CreatorAnalytics";
+import { LearningPaths } from "@/pages/LearningPaths";
+import { LearningPath } from "@/pages/LearningPath";
 import NotFound from "./pages/NotFound";
 import { Analytics } from "@vercel/analytics/react"
 import { SpeedInsights } from "@vercel/speed-insights/react"
@@ -34,11 +43,21 @@ const App = () => (
                   <Route path="/" element={<Home />} />
                   <Route path="/auth" element={<Auth />} />
                   <Route path="/browse" element={<Browse />} />
+                  <Route path="/browse/:categorySlug" element={<Browse />} />
                   <Route path="/dashboard" element={<Dashboard />} />
                   <Route path="/library" element={<Library />} />
+                  <Route path="/paths" element={<LearningPaths />} />
+                  <Route path="/paths/:pathId" element={<LearningPath />} />
                   <Route path="/learn/:courseId" element={<Learn />} />
                   <Route path="/premium" element={<Premium />} />
                   <Route path="/profile" element={<Profile />} />
+                  <Route path="/admin/moderation" element={<AdminModeration />} />
+                  <Route path="/admin/categories" element={<AdminCategories />} />
+                  <Route path="/certificates/:certificateId" element={<Certificate />} />
+                  <Route path="/organizations" element={<Organizations />} />
+                  <Route path="/organizations/:organizationId" element={<Organization />} />
+                  <Route path="/join/:token" element={<JoinOrganization />} />
+                  <Route path="/analytics" element={<CreatorAnalytics />} />
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                   <Route path="*" element={<NotFound />} />
                 </Routes>
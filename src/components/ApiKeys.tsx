@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Copy, KeyRound } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  API_BASE_URL,
+  API_DOCS_URL,
+  API_SCOPES,
+  ApiKey,
+  ApiScope,
+  createApiKey,
+  fetchApiKeys,
+  revokeApiKey,
+} from '@/lib/apiKeys';
+
+interface ApiKeysProps {
+  // Whether the user's plan includes API access; existing keys can still be revoked without it
+  hasAccess: boolean;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+export const ApiKeys: React.FC<ApiKeysProps> = ({ hasAccess }) => {
+  const { user } = useAuth();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiScope[]>(['catalog:read']);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchApiKeys(user.id)
+      .then(setKeys)
+      .catch(error => console.error('Error fetching API keys:', error));
+  }, [user]);
+
+  const toggleScope = (scope: ApiScope, checked: boolean) => {
+    setScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      setNewKey(await createApiKey(name.trim(), scopes));
+      setName('');
+      setKeys(await fetchApiKeys(user.id));
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the API key. You can have at most 10 keys.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast({ title: "Copied", description: "The API key is on your clipboard." });
+    } catch (error) {
+      console.error('Error copying key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Apps using it stop working immediately.`)) return;
+
+    try {
+      await revokeApiKey(key.id);
+      setKeys(prev => prev.filter(k => k.id !== key.id));
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke the API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card id="api-keys" className="lg:col-span-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Use the REST API at <code className="text-xs">{API_BASE_URL}</code>, described in the{' '}
+          <a href={API_DOCS_URL} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+            OpenAPI document
+          </a>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {hasAccess ? (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Key name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Reporting script"
+                maxLength={60}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              {(Object.keys(API_SCOPES) as ApiScope[]).map(scope => (
+                <label key={scope} htmlFor={`scope-${scope}`} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-medium">{API_SCOPES[scope].label}</span>
+                    <span className="block text-gray-500">{API_SCOPES[scope].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Button
+              type="submit"
+              disabled={saving || !name.trim() || scopes.length === 0}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              {saving ? 'Creating...' : 'Create Key'}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-500">
+            API access comes with Pro.{' '}
+            <Link to="/premium" className="text-blue-600 hover:underline">Upgrade</Link> to create API keys.
+          </p>
+        )}
+
+        {newKey && (
+          <div className="p-4 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 space-y-2">
+            <p className="text-sm font-medium">Copy your new key now. It will not be shown again.</p>
+            <div className="flex gap-2">
+              <Input value={newKey} readOnly className="font-mono text-xs" aria-label="New API key" />
+              <Button variant="outline" size="icon" onClick={() => copyKey(newKey)} aria-label="Copy API key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">Send it as <code>Authorization: Bearer &lt;key&gt;</code>.</p>
+          </div>
+        )}
+
+        {keys.length > 0 && (
+          <div className="divide-y">
+            {keys.map(key => (
+              <div key={key.id} className="flex flex-wrap items-center gap-2 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">{key.name}</p>
+                  <p className="text-sm text-gray-500">
+                    <span className="font-mono">{key.key_prefix}…</span>
+                    {' · '}created {formatDate(key.created_at)}
+                    {' · '}{key.last_used_at ? `last used ${formatDate(key.last_used_at)}` : 'never used'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {key.scopes.map(scope => (
+                    <Badge key={scope} variant="secondary">{scope}</Badge>
+                  ))}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(key)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CategoryNode, buildCategoryTree, fetchCategories } from '@/lib/categories';
+
+const NO_CATEGORY = 'none';
+
+interface CategorySelectProps {
+  // Empty string when the course is uncategorized
+  value: string;
+  onChange: (categoryId: string) => void;
+}
+
+export const CategorySelect: React.FC<CategorySelectProps> = ({ value, onChange }) => {
+  const [tree, setTree] = useState<CategoryNode[]>([]);
+
+  useEffect(() => {
+    fetchCategories()
+      .then(categories => setTree(buildCategoryTree(categories)))
+      .catch(error => console.error('Error fetching categories:', error));
+  }, []);
+
+  return (
+    <Select
+      value={value || NO_CATEGORY}
+      onValueChange={(selected) => onChange(selected === NO_CATEGORY ? '' : selected)}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Select category" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+        {tree.map(category => (
+          <React.Fragment key={category.id}>
+            <SelectItem value={category.id} className="font-medium">{category.name}</SelectItem>
+            {category.children.map(child => (
+              <SelectItem key={child.id} value={child.id} className="pl-12">{child.name}</SelectItem>
+            ))}
+          </React.Fragment>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
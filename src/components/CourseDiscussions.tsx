@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle, MessagesSquare, Plus } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { DiscussionThreadView } from '@/components/DiscussionThreadView';
+import { DiscussionThread, fetchThreads, startThread } from '@/lib/discussions';
+import type { Lesson } from '@/lib/courseOutline';
+
+interface CourseDiscussionsProps {
+  courseId: string;
+  uploaderId: string;
+  // Threads started while a lesson is open belong to that lesson
+  lesson: Lesson | null;
+  lessonTitles: Record<string, string>;
+  canPost: boolean;
+  // Opens this thread first, e.g. when following a notification
+  initialThreadId?: string | null;
+}
+
+export const CourseDiscussions: React.FC<CourseDiscussionsProps> = ({
+  courseId,
+  uploaderId,
+  lesson,
+  lessonTitles,
+  canPost,
+  initialThreadId,
+}) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [threads, setThreads] = useState<DiscussionThread[]>([]);
+  const [lessonOnly, setLessonOnly] = useState(true);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(initialThreadId || null);
+  const [creating, setCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const scopeLessonId = lesson && lessonOnly ? lesson.id : undefined;
+
+  useEffect(() => {
+    loadThreads();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId, scopeLessonId]);
+
+  useEffect(() => {
+    setSelectedThreadId(initialThreadId || null);
+  }, [initialThreadId]);
+
+  // Opening another lesson leaves the current thread
+  const lessonId = lesson?.id;
+  const previousLessonId = useRef(lessonId);
+  useEffect(() => {
+    if (previousLessonId.current === lessonId) return;
+    previousLessonId.current = lessonId;
+    setSelectedThreadId(null);
+    setLessonOnly(true);
+  }, [lessonId]);
+
+  const loadThreads = async () => {
+    try {
+      setThreads(await fetchThreads(courseId, scopeLessonId));
+    } catch (error) {
+      console.error('Error fetching discussions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartThread = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const threadId = await startThread(courseId, lesson?.id || null, title, body);
+      setCreating(false);
+      setTitle('');
+      setBody('');
+      await loadThreads();
+      setSelectedThreadId(threadId);
+    } catch (error) {
+      console.error('Error starting thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start the discussion",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const closeThread = () => {
+    setSelectedThreadId(null);
+    loadThreads();
+  };
+
+  return (
+    <Card className="mt-8 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessagesSquare className="h-5 w-5" />
+          Discussions
+        </CardTitle>
+        <CardDescription>
+          {lesson && lessonOnly ? `Questions and answers about ${lesson.title}` : 'Questions and answers about this course'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {selectedThreadId ? (
+          <DiscussionThreadView
+            threadId={selectedThreadId}
+            uploaderId={uploaderId}
+            canPost={canPost}
+            onBack={closeThread}
+            onThreadDeleted={closeThread}
+          />
+        ) : creating ? (
+          <form onSubmit={handleStartThread} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="discussion-title">Title</Label>
+              <Input
+                id="discussion-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="What's your question?"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discussion-body">Details</Label>
+              <MarkdownEditor
+                id="discussion-body"
+                value={body}
+                onChange={setBody}
+                placeholder="Describe what you tried and where you got stuck"
+                required
+                compact
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setCreating(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saving || !title.trim() || !body.trim()}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                {saving ? 'Posting...' : 'Start Discussion'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {lesson && (
+                <div className="flex gap-1">
+                  <Button size="sm" variant={lessonOnly ? 'secondary' : 'ghost'} onClick={() => setLessonOnly(true)}>
+                    This Lesson
+                  </Button>
+                  <Button size="sm" variant={lessonOnly ? 'ghost' : 'secondary'} onClick={() => setLessonOnly(false)}>
+                    Whole Course
+                  </Button>
+                </div>
+              )}
+              {canPost && (
+                <Button size="sm" className="ml-auto" onClick={() => setCreating(true)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Thread
+                </Button>
+              )}
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading discussions...</p>
+            ) : threads.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No discussions yet.{canPost && ' Ask the first question!'}
+              </p>
+            ) : (
+              <div className="divide-y">
+                {threads.map(thread => (
+                  <button
+                    key={thread.id}
+                    type="button"
+                    onClick={() => setSelectedThreadId(thread.id)}
+                    className="w-full text-left py-3 px-2 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="font-medium">{thread.title}</span>
+                      {thread.accepted_post_id && (
+                        <Badge className="bg-green-600 hover:bg-green-600 shrink-0">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Answered
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-sm text-gray-500 mt-1">
+                      <span>{thread.profiles?.full_name || 'Anonymous'}</span>
+                      <span>{new Date(thread.created_at).toLocaleDateString()}</span>
+                      <span>{thread.reply_count} {thread.reply_count === 1 ? 'reply' : 'replies'}</span>
+                      {thread.lesson_id && !scopeLessonId && lessonTitles[thread.lesson_id] && (
+                        <span>{lessonTitles[thread.lesson_id]}</span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {!canPost && (
+              <p className="text-sm text-gray-500">
+                {user ? 'Add the course to your library to join the discussion.' : 'Sign in to join the discussion.'}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ClipboardCheck, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { CourseModule, Lesson, fetchCourseOutline } from '@/lib/courseOutline';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { LessonQuizDialog } from '@/components/LessonQuizDialog';
+
+interface CourseOutlineEditorProps {
+  courseId: string;
+}
+
+const emptyLesson = {
+  title: '',
+  content_type: 'video',
+  content_url: '',
+  content_text: '',
+  duration_minutes: '',
+};
+
+export const CourseOutlineEditor: React.FC<CourseOutlineEditorProps> = ({ courseId }) => {
+  const [modules, setModules] = useState<CourseModule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newModuleTitle, setNewModuleTitle] = useState('');
+  const [lessonForms, setLessonForms] = useState<{ [moduleId: string]: typeof emptyLesson }>({});
+  const [quizLesson, setQuizLesson] = useState<Lesson | null>(null);
+
+  const loadOutline = useCallback(async () => {
+    try {
+      setModules(await fetchCourseOutline(courseId));
+    } catch (error) {
+      console.error('Error fetching course outline:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load course modules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    loadOutline();
+  }, [loadOutline]);
+
+  const runAndReload = async (action: () => PromiseLike<{ error: unknown }>, failure: string) => {
+    const { error } = await action();
+    if (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    }
+    loadOutline();
+  };
+
+  const addModule = async () => {
+    if (!newModuleTitle.trim()) return;
+    await runAndReload(
+      () => supabase.from('course_modules').insert([{
+        course_id: courseId,
+        title: newModuleTitle.trim(),
+        position: modules.length,
+      }]),
+      'Failed to add module'
+    );
+    setNewModuleTitle('');
+  };
+
+  const deleteModule = (moduleId: string) => {
+    if (!window.confirm('Delete this module and all of its lessons?')) return;
+    runAndReload(() => supabase.from('course_modules').delete().eq('id', moduleId), 'Failed to delete module');
+  };
+
+  // Swap positions with the neighbouring row and persist both
+  const moveRow = async (table: 'course_modules' | 'lessons', rows: { id: string }[], index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rows.length) return;
+    await runAndReload(
+      async () => {
+        const first = await supabase.from(table).update({ position: target }).eq('id', rows[index].id);
+        if (first.error) return first;
+        return supabase.from(table).update({ position: index }).eq('id', rows[target].id);
+      },
+      'Failed to reorder'
+    );
+  };
+
+  const updateLessonForm = (moduleId: string, values: Partial<typeof emptyLesson>) => {
+    setLessonForms(prev => ({ ...prev, [moduleId]: { ...(prev[moduleId] || emptyLesson), ...values } }));
+  };
+
+  const addLesson = async (module: CourseModule) => {
+    const form = lessonForms[module.id] || emptyLesson;
+    if (!form.title.trim()) return;
+    await runAndReload(
+      () => supabase.from('lessons').insert([{
+        module_id: module.id,
+        title: form.title.trim(),
+        position: module.lessons.length,
+        content_type: form.content_type,
+        content_url: form.content_type === 'text' ? null : form.content_url || null,
+        content_text: form.content_type === 'text' ? form.content_text || null : null,
+        duration_minutes: form.duration_minutes ? parseInt(form.duration_minutes, 10) : null,
+      }]),
+      'Failed to add lesson'
+    );
+    setLessonForms(prev => ({ ...prev, [module.id]: emptyLesson }));
+  };
+
+  const deleteLesson = (lessonId: string) => {
+    runAndReload(() => supabase.from('lessons').delete().eq('id', lessonId), 'Failed to delete lesson');
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading modules...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {modules.map((module, moduleIndex) => {
+        const form = lessonForms[module.id] || emptyLesson;
+        return (
+          <div key={module.id} className="p-4 border rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="font-semibold">{moduleIndex + 1}. {module.title}</h4>
+              <div className="flex gap-1">
+                <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => moveRow('course_modules', modules, moduleIndex, -1)}>
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => moveRow('course_modules', modules, moduleIndex, 1)}>
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button type="button" size="sm" variant="destructive" className="h-6 w-6 p-0" onClick={() => deleteModule(module.id)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+
+            {module.lessons.map((lesson, lessonIndex) => (
+              <div key={lesson.id} className="flex items-center justify-between text-sm pl-4">
+                <span>
+                  {lessonIndex + 1}. {lesson.title}
+                  <span className="text-gray-500"> ({lesson.content_type}{lesson.duration_minutes ? `, ${lesson.duration_minutes} min` : ''})</span>
+                </span>
+                <div className="flex gap-1">
+                  <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => setQuizLesson(lesson)} title="Lesson quiz">
+                    <ClipboardCheck className="h-3 w-3" />
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => moveRow('lessons', module.lessons, lessonIndex, -1)}>
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => moveRow('lessons', module.lessons, lessonIndex, 1)}>
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button type="button" size="sm" variant="destructive" className="h-6 w-6 p-0" onClick={() => deleteLesson(lesson.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-2 gap-2 pt-2 border-t">
+              <Input
+                placeholder="Lesson title"
+                value={form.title}
+                onChange={(e) => updateLessonForm(module.id, { title: e.target.value })}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={form.content_type}
+                  onValueChange={(value) => updateLessonForm(module.id, { content_type: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="video">Video</SelectItem>
+                    <SelectItem value="pdf">PDF</SelectItem>
+                    <SelectItem value="text">Text/Article</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Minutes"
+                  value={form.duration_minutes}
+                  onChange={(e) => updateLessonForm(module.id, { duration_minutes: e.target.value })}
+                />
+              </div>
+              {form.content_type === 'text' ? (
+                <div className="col-span-2">
+                  <MarkdownEditor
+                    placeholder="Write your lesson here..."
+                    value={form.content_text}
+                    onChange={(content_text) => updateLessonForm(module.id, { content_text })}
+                  />
+                </div>
+              ) : (
+                <Input
+                  className="col-span-2"
+                  type="url"
+                  placeholder="https://example.com/your-lesson"
+                  value={form.content_url}
+                  onChange={(e) => updateLessonForm(module.id, { content_url: e.target.value })}
+                />
+              )}
+              <Button type="button" variant="outline" size="sm" className="col-span-2" onClick={() => addLesson(module)} disabled={!form.title.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Lesson
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Label htmlFor="new_module" className="sr-only">Module title</Label>
+          <Input
+            id="new_module"
+            placeholder="New module title"
+            value={newModuleTitle}
+            onChange={(e) => setNewModuleTitle(e.target.value)}
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={addModule} disabled={!newModuleTitle.trim()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Module
+        </Button>
+      </div>
+
+      <LessonQuizDialog courseId={courseId} lesson={quizLesson} onClose={() => setQuizLesson(null)} />
+    </div>
+  );
+};
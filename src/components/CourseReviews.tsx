@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare, Pencil, ThumbsUp, Trash2 } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { StarRating } from '@/components/StarRating';
+import {
+  CourseReview,
+  CourseStats,
+  ReviewRevision,
+  ReviewSort,
+  deleteReview,
+  fetchCourseReviews,
+  fetchReviewRevisions,
+  fetchVotedReviewIds,
+  formatCount,
+  formatRating,
+  replyToReview,
+  saveReview,
+  setReviewVote,
+} from '@/lib/reviews';
+
+interface CourseReviewsProps {
+  courseId: string;
+  uploaderId: string;
+  stats: CourseStats;
+  // Only learners with the course in their library can write a review
+  canReview: boolean;
+  onReviewsChanged?: () => void;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+export const CourseReviews: React.FC<CourseReviewsProps> = ({ courseId, uploaderId, stats, canReview, onReviewsChanged }) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<CourseReview[]>([]);
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [history, setHistory] = useState<Record<string, ReviewRevision[]>>({});
+
+  const ownReview = user ? reviews.find(review => review.user_id === user.id) : undefined;
+  const isUploader = user?.id === uploaderId;
+
+  useEffect(() => {
+    fetchReviews();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId, sort, user]);
+
+  const fetchReviews = async () => {
+    try {
+      const loaded = await fetchCourseReviews(courseId, sort);
+      setReviews(loaded);
+      setVotedIds(user ? await fetchVotedReviewIds(user.id, loaded.map(review => review.id)) : new Set());
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = () => {
+    setRating(ownReview?.rating || 0);
+    setBody(ownReview?.body || '');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (rating < 1) {
+      toast({
+        title: "Rating Required",
+        description: "Choose between one and five stars.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveReview(user.id, courseId, { rating, body }, ownReview?.id);
+      setEditing(false);
+      await fetchReviews();
+      onReviewsChanged?.();
+      toast({
+        title: "Review Saved",
+        description: "Thanks for sharing your thoughts on this course.",
+      });
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your review",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ownReview || !window.confirm('Delete your review?')) return;
+    try {
+      await deleteReview(ownReview.id);
+      await fetchReviews();
+      onReviewsChanged?.();
+    } catch (error) {
+      console.error('Error deleting review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete your review",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleHelpful = async (review: CourseReview) => {
+    if (!user) return;
+    const helpful = !votedIds.has(review.id);
+    try {
+      await setReviewVote(user.id, review.id, helpful);
+      setVotedIds(prev => {
+        const next = new Set(prev);
+        if (helpful) next.add(review.id);
+        else next.delete(review.id);
+        return next;
+      });
+      setReviews(prev => prev.map(r =>
+        r.id === review.id ? { ...r, helpful_count: r.helpful_count + (helpful ? 1 : -1) } : r
+      ));
+    } catch (error) {
+      console.error('Error voting on review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record your vote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startReply = (review: CourseReview) => {
+    setReplyingTo(review.id);
+    setReplyText(review.uploader_reply || '');
+  };
+
+  const handleReply = async (reviewId: string, reply: string) => {
+    try {
+      await replyToReview(reviewId, reply);
+      setReplyingTo(null);
+      await fetchReviews();
+    } catch (error) {
+      console.error('Error replying to review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your reply",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleHistory = async (reviewId: string) => {
+    if (history[reviewId]) {
+      setHistory(prev => {
+        const next = { ...prev };
+        delete next[reviewId];
+        return next;
+      });
+      return;
+    }
+    try {
+      const revisions = await fetchReviewRevisions(reviewId);
+      setHistory(prev => ({ ...prev, [reviewId]: revisions }));
+    } catch (error) {
+      console.error('Error fetching review history:', error);
+    }
+  };
+
+  // Share of reviews per star value, five stars first
+  const distribution = [5, 4, 3, 2, 1].map(star => ({
+    star,
+    count: reviews.filter(review => review.rating === star).length,
+  }));
+
+  return (
+    <Card className="mt-8 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Reviews
+        </CardTitle>
+        <CardDescription>
+          {formatCount(stats.rating_count, 'rating')} • {formatCount(stats.enrollment_count, 'student')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {stats.rating_count > 0 && (
+          <div className="flex flex-col sm:flex-row gap-6">
+            <div className="text-center sm:w-32">
+              <div className="text-5xl font-bold">{formatRating(stats.rating_average)}</div>
+              <StarRating value={stats.rating_average} className="justify-center my-1" />
+              <div className="text-sm text-gray-500">out of 5</div>
+            </div>
+            <div className="flex-1 space-y-1">
+              {distribution.map(({ star, count }) => (
+                <div key={star} className="flex items-center gap-2 text-sm">
+                  <span className="w-12 text-gray-500">{star} star</span>
+                  <Progress value={reviews.length ? (count / reviews.length) * 100 : 0} className="h-2 flex-1" />
+                  <span className="w-8 text-right text-gray-500">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {user && !isUploader && (editing ? (
+          <div className="p-4 border rounded-lg space-y-3">
+            <p className="font-medium">{ownReview ? 'Edit your review' : 'Write a review'}</p>
+            <StarRating value={rating} onChange={setRating} starClassName="h-6 w-6" />
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="What did you like? What could be better?"
+              rows={4}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                {saving ? 'Saving...' : 'Save Review'}
+              </Button>
+            </div>
+          </div>
+        ) : !ownReview && (
+          canReview ? (
+            <Button variant="outline" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Write a Review
+            </Button>
+          ) : (
+            <p className="text-sm text-gray-500">Add the course to your library to review it.</p>
+          )
+        ))}
+
+        {reviews.length > 0 && (
+          <div className="flex justify-end">
+            <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="helpful">Most helpful</SelectItem>
+                <SelectItem value="recent">Most recent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading reviews...</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-gray-500">No reviews yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map(review => {
+              const own = review.user_id === user?.id;
+              const edited = review.updated_at !== review.created_at;
+              return (
+                <div key={review.id} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {review.profiles?.full_name || 'Anonymous'}
+                        {own && <span className="text-gray-500 font-normal"> (you)</span>}
+                      </span>
+                      <StarRating value={review.rating} />
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(review.created_at)}
+                      {edited && (
+                        <button
+                          type="button"
+                          onClick={() => toggleHistory(review.id)}
+                          className="ml-2 underline hover:text-gray-700 dark:hover:text-gray-300"
+                        >
+                          edited {formatDate(review.updated_at)}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {review.body && (
+                    <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{review.body}</p>
+                  )}
+
+                  {history[review.id] && (
+                    <div className="pl-4 border-l-2 space-y-2">
+                      {history[review.id].map(revision => (
+                        <div key={revision.id} className="text-sm text-gray-500">
+                          <div className="flex items-center gap-2">
+                            <StarRating value={revision.rating} starClassName="h-3 w-3" />
+                            <span className="text-xs">{formatDate(revision.written_at)}</span>
+                          </div>
+                          {revision.body && <p className="whitespace-pre-line">{revision.body}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.uploader_reply && replyingTo !== review.id && (
+                    <div className="ml-4 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm">
+                      <p className="font-medium mb-1">
+                        Instructor reply
+                        {review.replied_at && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">{formatDate(review.replied_at)}</span>
+                        )}
+                      </p>
+                      <p className="whitespace-pre-line">{review.uploader_reply}</p>
+                    </div>
+                  )}
+
+                  {replyingTo === review.id && (
+                    <div className="ml-4 space-y-2">
+                      <Textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        placeholder="Reply publicly to this review"
+                        rows={3}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                          Cancel
+                        </Button>
+                        {review.uploader_reply && (
+                          <Button size="sm" variant="outline" onClick={() => handleReply(review.id, '')}>
+                            Remove Reply
+                          </Button>
+                        )}
+                        <Button size="sm" onClick={() => handleReply(review.id, replyText)} disabled={!replyText.trim()}>
+                          Post Reply
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 pt-1">
+                    <Button
+                      size="sm"
+                      variant={votedIds.has(review.id) ? 'secondary' : 'ghost'}
+                      onClick={() => toggleHelpful(review)}
+                      disabled={!user || own}
+                      title={own ? "You can't vote on your own review" : 'Mark as helpful'}
+                    >
+                      <ThumbsUp className="h-4 w-4 mr-1" />
+                      Helpful ({review.helpful_count})
+                    </Button>
+                    {own && !editing && (
+                      <>
+                        <Button size="sm" variant="ghost" onClick={startEditing}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={handleDelete}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                    {isUploader && !own && replyingTo !== review.id && (
+                      <Button size="sm" variant="ghost" onClick={() => startReply(review)}>
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        {review.uploader_reply ? 'Edit Reply' : 'Reply'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ArrowUp, CheckCircle, MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import {
+  DiscussionThread,
+  PostNode,
+  acceptAnswer,
+  buildPostTree,
+  deletePost,
+  deleteThread,
+  editPost,
+  fetchThread,
+  fetchThreadPosts,
+  fetchUpvotedPostIds,
+  removePost,
+  replyToPost,
+  setPostUpvote,
+} from '@/lib/discussions';
+
+interface DiscussionThreadViewProps {
+  threadId: string;
+  uploaderId: string;
+  canPost: boolean;
+  onBack: () => void;
+  onThreadDeleted: () => void;
+}
+
+// Nested replies stop indenting past this depth so narrow screens stay readable
+const MAX_INDENT_DEPTH = 4;
+
+interface PostActions {
+  userId: string | null;
+  canPost: boolean;
+  canModerate: boolean;
+  isUploader: boolean;
+  acceptedPostId: string | null;
+  upvotedIds: Set<string>;
+  onReply: (post: PostNode, body: string) => Promise<boolean>;
+  onEdit: (post: PostNode, body: string) => Promise<boolean>;
+  onDelete: (post: PostNode) => void;
+  onRemove: (post: PostNode) => void;
+  onUpvote: (post: PostNode) => void;
+  onAccept: (post: PostNode) => void;
+}
+
+const PostItem: React.FC<{ post: PostNode; depth: number; actions: PostActions }> = ({ post, depth, actions }) => {
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const own = post.user_id === actions.userId;
+  const accepted = post.id === actions.acceptedPostId;
+  const deleted = !!post.deleted_at;
+
+  const open = (next: 'reply' | 'edit') => {
+    setDraft(next === 'edit' ? post.body : '');
+    setMode(next);
+  };
+
+  const submit = async () => {
+    setSaving(true);
+    const done = mode === 'edit' ? await actions.onEdit(post, draft) : await actions.onReply(post, draft);
+    setSaving(false);
+    if (done) setMode('view');
+  };
+
+  return (
+    <div className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'pl-4 border-l-2 border-gray-200 dark:border-gray-700' : ''}>
+      <div className={`p-3 rounded-lg ${accepted ? 'bg-green-50 dark:bg-green-900/20' : ''}`}>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500 mb-1">
+          <span className="font-medium text-gray-700 dark:text-gray-300">
+            {deleted ? '[deleted]' : post.profiles?.full_name || 'Anonymous'}
+          </span>
+          <span>{new Date(post.created_at).toLocaleString()}</span>
+          {post.edited_at && !deleted && <span>(edited)</span>}
+          {accepted && (
+            <Badge className="bg-green-600 hover:bg-green-600">
+              <CheckCircle className="h-3 w-3 mr-1" />
+              Accepted answer
+            </Badge>
+          )}
+        </div>
+
+        {mode === 'edit' ? null : deleted ? (
+          <p className="text-sm italic text-gray-500">This post was deleted.</p>
+        ) : (
+          <MarkdownContent content={post.body} />
+        )}
+
+        {mode !== 'view' ? (
+          <div className="mt-2 space-y-2">
+            <MarkdownEditor value={draft} onChange={setDraft} placeholder={mode === 'edit' ? '' : 'Write a reply'} compact />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setMode('view')} disabled={saving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={submit} disabled={saving || !draft.trim()}>
+                {saving ? 'Saving...' : mode === 'edit' ? 'Save' : 'Post Reply'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-1 mt-1">
+            <Button
+              size="sm"
+              variant={actions.upvotedIds.has(post.id) ? 'secondary' : 'ghost'}
+              onClick={() => actions.onUpvote(post)}
+              disabled={!actions.canPost || own || deleted}
+              title={own ? "You can't upvote your own post" : 'Upvote'}
+            >
+              <ArrowUp className="h-4 w-4 mr-1" />
+              {post.upvote_count}
+            </Button>
+            {actions.canPost && (
+              <Button size="sm" variant="ghost" onClick={() => open('reply')}>
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Reply
+              </Button>
+            )}
+            {own && !deleted && (
+              <>
+                <Button size="sm" variant="ghost" onClick={() => open('edit')}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => actions.onDelete(post)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              </>
+            )}
+            {actions.isUploader && depth === 1 && !deleted && (
+              <Button size="sm" variant="ghost" onClick={() => actions.onAccept(post)}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                {accepted ? 'Unaccept' : 'Accept Answer'}
+              </Button>
+            )}
+            {actions.canModerate && !own && (
+              <Button size="sm" variant="ghost" className="text-red-600" onClick={() => actions.onRemove(post)}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remove
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {post.replies.length > 0 && (
+        <div className="space-y-2 mt-2">
+          {post.replies.map(reply => (
+            <PostItem key={reply.id} post={reply} depth={depth + 1} actions={actions} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const DiscussionThreadView: React.FC<DiscussionThreadViewProps> = ({
+  threadId,
+  uploaderId,
+  canPost,
+  onBack,
+  onThreadDeleted,
+}) => {
+  const { user } = useAuth();
+  const { can } = useEntitlements();
+  const [loading, setLoading] = useState(true);
+  const [thread, setThread] = useState<DiscussionThread | null>(null);
+  const [opening, setOpening] = useState<PostNode | null>(null);
+  const [upvotedIds, setUpvotedIds] = useState<Set<string>>(new Set());
+
+  const isUploader = user?.id === uploaderId;
+
+  useEffect(() => {
+    loadThread();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [threadId, user]);
+
+  const loadThread = async () => {
+    try {
+      const [loadedThread, posts] = await Promise.all([fetchThread(threadId), fetchThreadPosts(threadId)]);
+      setThread(loadedThread);
+      setOpening(buildPostTree(posts, loadedThread?.accepted_post_id || null));
+      setUpvotedIds(user ? await fetchUpvotedPostIds(user.id, posts.map(post => post.id)) : new Set());
+    } catch (error) {
+      console.error('Error fetching discussion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the discussion",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs a change, reloads the thread and reports whether it worked
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await loadThread();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const actions: PostActions = {
+    userId: user?.id || null,
+    canPost,
+    canModerate: isUploader || can('moderate_courses'),
+    isUploader,
+    acceptedPostId: thread?.accepted_post_id || null,
+    upvotedIds,
+    onReply: async (post, body) =>
+      !!user && run(() => replyToPost(user.id, threadId, post.id, body), 'Failed to post your reply'),
+    onEdit: (post, body) => run(() => editPost(post.id, body), 'Failed to save your changes'),
+    onDelete: (post) => {
+      if (!window.confirm('Delete this post? Replies to it will stay.')) return;
+      run(() => deletePost(post.id), 'Failed to delete the post');
+    },
+    onRemove: (post) => {
+      if (!window.confirm('Remove this post and all replies to it?')) return;
+      if (post.id === opening?.id) {
+        run(() => deleteThread(threadId), 'Failed to remove the thread').then(done => done && onThreadDeleted());
+      } else {
+        run(() => removePost(post.id), 'Failed to remove the post');
+      }
+    },
+    onUpvote: (post) => {
+      if (!user) return;
+      run(() => setPostUpvote(user.id, post.id, !upvotedIds.has(post.id)), 'Failed to record your vote');
+    },
+    onAccept: (post) =>
+      run(() => acceptAnswer(threadId, post.id === thread?.accepted_post_id ? null : post.id), 'Failed to update the accepted answer'),
+  };
+
+  const handleDeleteThread = async () => {
+    if (!window.confirm('Delete this thread?')) return;
+    if (await run(() => deleteThread(threadId), 'Failed to delete the thread')) {
+      onThreadDeleted();
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading discussion...</p>;
+  }
+
+  if (!thread || !opening) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">This thread is no longer available.</p>
+        <Button variant="outline" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All Discussions
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All Discussions
+        </Button>
+        {thread.user_id === user?.id && thread.reply_count === 0 && (
+          <Button variant="ghost" size="sm" onClick={handleDeleteThread}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Thread
+          </Button>
+        )}
+      </div>
+
+      <h3 className="text-xl font-semibold">{thread.title}</h3>
+
+      <PostItem post={opening} depth={0} actions={actions} />
+
+      {!canPost && (
+        <p className="text-sm text-gray-500">
+          {user ? 'Add the course to your library to join the discussion.' : 'Sign in to join the discussion.'}
+        </p>
+      )}
+    </div>
+  );
+};
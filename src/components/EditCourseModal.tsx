@@ -5,9 +5,28 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { CategorySelect } from '@/components/CategorySelect';
+import { CourseOutlineEditor } from '@/components/CourseOutlineEditor';
+import { FileUploadField } from '@/components/FileUploadField';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { QuizEditor } from '@/components/QuizEditor';
+import { isHttpUrl, isUploadKind } from '@/lib/storage';
+import { QuizDraft, deleteQuiz, fetchQuizDraft, saveQuizDraft, validateQuizDraft } from '@/lib/quizzes';
+import { OrganizationMembership, fetchUserOrganizations } from '@/lib/organizations';
+import {
+  MAX_PREREQUISITES,
+  PREREQUISITE_GATING_OPTIONS,
+  PrerequisiteCandidate,
+  fetchCoursePrerequisites,
+  fetchPrerequisiteCandidates,
+  setCoursePrerequisites,
+} from '@/lib/coursePrerequisites';
 
 interface Course {
   id: string;
@@ -15,9 +34,13 @@ interface Course {
   description: string;
   content_type: string;
   content_url: string;
+  content_path: string | null;
   content_text: string;
   access_type: string;
+  organization_id: string | null;
   difficulty: string;
+  category_id: string | null;
+  prerequisite_gating: string;
   tags: string[];
   image_url: string;
 }
@@ -37,16 +60,27 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
   onClose,
   onSuccess,
 }) => {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [imageValidating, setImageValidating] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [quizDraft, setQuizDraft] = useState<QuizDraft | null>(null);
+  const [savedQuizId, setSavedQuizId] = useState<string | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
+  const [prerequisiteIds, setPrerequisiteIds] = useState<string[]>([]);
+  const [prerequisiteCandidates, setPrerequisiteCandidates] = useState<PrerequisiteCandidate[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     content_type: '',
     content_url: '',
+    content_path: '',
     content_text: '',
     access_type: 'public',
+    organization_id: '',
     difficulty: '',
+    category_id: '',
+    prerequisite_gating: 'soft',
     tags: '',
     image_url: '',
   });
@@ -58,15 +92,44 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
         description: course.description || '',
         content_type: course.content_type || '',
         content_url: course.content_url || '',
+        content_path: course.content_path || '',
         content_text: course.content_text || '',
         access_type: course.access_type || 'public',
+        organization_id: course.organization_id || '',
         difficulty: course.difficulty || '',
+        category_id: course.category_id || '',
+        prerequisite_gating: course.prerequisite_gating || 'soft',
         tags: course.tags ? course.tags.join(', ') : '',
         image_url: course.image_url || '',
       });
+
+      setQuizDraft(null);
+      setSavedQuizId(null);
+      fetchQuizDraft(course.id, null)
+        .then((draft) => {
+          setQuizDraft(draft);
+          setSavedQuizId(draft?.id || null);
+        })
+        .catch((error) => console.error('Error fetching quiz:', error));
+
+      setPrerequisiteIds([]);
+      fetchCoursePrerequisites(course.id)
+        .then((prerequisites) => setPrerequisiteIds(prerequisites.map(prerequisite => prerequisite.course_id)))
+        .catch((error) => console.error('Error fetching prerequisites:', error));
+      fetchPrerequisiteCandidates(course.id)
+        .then(setPrerequisiteCandidates)
+        .catch((error) => console.error('Error fetching courses:', error));
     }
   }, [isOpen, course]);
 
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    fetchUserOrganizations(user.id)
+      .then(setOrganizations)
+      .catch((error) => console.error('Error fetching organizations:', error));
+  }, [isOpen, user]);
+
   const validateImageUrl = async (url: string): Promise<boolean> => {
     if (!url) return true;
     
@@ -98,10 +161,40 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
     }
   };
 
+  const contentUrlValid = !formData.content_url || isHttpUrl(formData.content_url);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!course) return;
 
+    if (formData.content_type !== 'text' && !contentUrlValid) {
+      toast({
+        title: "Invalid Content URL",
+        description: "Content URL must be a valid http(s) link.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.access_type === 'organization' && !formData.organization_id) {
+      toast({
+        title: "Missing Organization",
+        description: "Choose the organization that can see this course.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const quizProblem = quizDraft && validateQuizDraft(quizDraft);
+    if (quizProblem) {
+      toast({
+        title: "Incomplete Quiz",
+        description: quizProblem,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       let finalImageUrl = DEFAULT_IMAGE_URL;
@@ -117,26 +210,43 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0);
 
-      const { error } = await supabase
+      const { data: updated, error } = await supabase
         .from('courses')
         .update({
           title: formData.title,
           description: formData.description,
           content_type: formData.content_type,
           content_url: formData.content_url || null,
+          content_path: formData.content_path || null,
           content_text: formData.content_text || null,
           access_type: formData.access_type,
+          organization_id: formData.access_type === 'organization' ? formData.organization_id : null,
           difficulty: formData.difficulty || null,
+          category_id: formData.category_id || null,
+          prerequisite_gating: formData.prerequisite_gating,
           tags: tagsArray.length > 0 ? tagsArray : null,
           image_url: finalImageUrl,
         })
-        .eq('id', course.id);
+        .eq('id', course.id)
+        .select('moderation_status')
+        .single();
 
       if (error) throw error;
 
+      await setCoursePrerequisites(course.id, prerequisiteIds);
+
+      if (quizDraft) {
+        setSavedQuizId(await saveQuizDraft(course.id, null, quizDraft));
+      } else if (savedQuizId) {
+        await deleteQuiz(savedQuizId);
+        setSavedQuizId(null);
+      }
+
       toast({
         title: "Success",
-        description: "Course updated successfully!",
+        description: updated?.moderation_status === 'pending'
+          ? "Course updated! Your changes will be reviewed by a moderator."
+          : "Course updated successfully!",
       });
 
       onSuccess();
@@ -144,7 +254,7 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
       console.error('Error updating course:', error);
       toast({
         title: "Error",
-        description: "Failed to update course",
+        description: error instanceof Error && error.message ? error.message : "Failed to update course",
         variant: "destructive",
       });
     } finally {
@@ -152,11 +262,15 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
     }
   };
 
+  const prerequisiteTitle = (courseId: string) =>
+    prerequisiteCandidates.find(candidate => candidate.id === courseId)?.title || 'Unlisted course';
+  const availablePrerequisites = prerequisiteCandidates.filter(candidate => !prerequisiteIds.includes(candidate.id));
+
   if (!course) return null;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Course</DialogTitle>
           <DialogDescription>
@@ -197,13 +311,26 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
             {imageValidating && (
               <p className="text-sm text-gray-500 mt-1">Validating image...</p>
             )}
+            <div className="mt-2">
+              <Label htmlFor="image_file" className="text-sm text-gray-600">Or upload an image</Label>
+              <FileUploadField
+                id="image_file"
+                kind="cover"
+                onUploaded={(file) => setFormData(prev => ({ ...prev, image_url: file.url || '' }))}
+                onUploadingChange={setUploading}
+              />
+            </div>
           </div>
 
           <div>
             <Label>Content Type</Label>
             <Select
               value={formData.content_type}
-              onValueChange={(value) => setFormData({ ...formData, content_type: value })}
+              onValueChange={(value) => setFormData({
+                ...formData,
+                content_type: value,
+                content_path: value === course.content_type ? course.content_path || '' : '',
+              })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select type" />
@@ -219,24 +346,46 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
           {formData.content_type === 'text' ? (
             <div>
               <Label htmlFor="content_text">Content</Label>
-              <Textarea
+              <MarkdownEditor
                 id="content_text"
                 value={formData.content_text}
-                onChange={(e) => setFormData({ ...formData, content_text: e.target.value })}
-                rows={6}
+                onChange={(content_text) => setFormData(prev => ({ ...prev, content_text }))}
                 placeholder="Write your content here..."
               />
             </div>
           ) : (
             <div>
-              <Label htmlFor="content_url">Content URL</Label>
+              {isUploadKind(formData.content_type) && (
+                <div className="mb-3">
+                  <Label htmlFor="content_file">
+                    {formData.content_path ? 'Replace uploaded file' : `Upload ${formData.content_type === 'pdf' ? 'PDF' : 'Video'}`}
+                  </Label>
+                  <FileUploadField
+                    key={formData.content_type}
+                    id="content_file"
+                    kind={formData.content_type}
+                    onUploaded={(file) => setFormData(prev => ({ ...prev, content_path: file.path, content_url: '' }))}
+                    onUploadingChange={setUploading}
+                  />
+                </div>
+              )}
+              <Label htmlFor="content_url">
+                {isUploadKind(formData.content_type) ? 'Or Content URL' : 'Content URL'}
+              </Label>
               <Input
                 id="content_url"
                 type="url"
                 value={formData.content_url}
-                onChange={(e) => setFormData({ ...formData, content_url: e.target.value })}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  content_url: e.target.value,
+                  content_path: e.target.value ? '' : formData.content_path,
+                })}
                 placeholder="https://example.com/your-content"
               />
+              {!contentUrlValid && (
+                <p className="text-sm text-red-500 mt-1">Content URL must be a valid http(s) link.</p>
+              )}
             </div>
           )}
 
@@ -253,6 +402,9 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
                 <SelectContent>
                   <SelectItem value="public">Public (Free)</SelectItem>
                   <SelectItem value="premium">Premium Only</SelectItem>
+                  <SelectItem value="organization" disabled={organizations.length === 0}>
+                    Organization Only
+                  </SelectItem>
                   <SelectItem value="private">Private</SelectItem>
                 </SelectContent>
               </Select>
@@ -276,6 +428,38 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
             </div>
           </div>
 
+          {formData.access_type === 'organization' && (
+            <div>
+              <Label>
+                Organization
+              </Label>
+              <Select
+                value={formData.organization_id}
+                onValueChange={(value) => setFormData({ ...formData, organization_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select organization" />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations.map(organization => (
+                    <SelectItem key={organization.id} value={organization.id}>
+                      {organization.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500 mt-1">Only members of this organization can see the course.</p>
+            </div>
+          )}
+
+          <div>
+            <Label>Category</Label>
+            <CategorySelect
+              value={formData.category_id}
+              onChange={(categoryId) => setFormData({ ...formData, category_id: categoryId })}
+            />
+          </div>
+
           <div>
             <Label htmlFor="tags">Tags (comma-separated)</Label>
             <Input
@@ -286,13 +470,88 @@ export const EditCourseModal: React.FC<EditCourseModalProps> = ({
             />
           </div>
 
+          <div>
+            <Label>Prerequisites</Label>
+            <p className="text-sm text-gray-500 mb-2">
+              Courses learners should finish before starting this one, in the order to take them.
+            </p>
+            {prerequisiteIds.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {prerequisiteIds.map(prerequisiteId => (
+                  <Badge key={prerequisiteId} variant="secondary" className="gap-1">
+                    {prerequisiteTitle(prerequisiteId)}
+                    <button
+                      type="button"
+                      onClick={() => setPrerequisiteIds(prev => prev.filter(id => id !== prerequisiteId))}
+                      title="Remove"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                value=""
+                onValueChange={(value) => setPrerequisiteIds(prev => [...prev, value])}
+                disabled={prerequisiteIds.length >= MAX_PREREQUISITES}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Add a prerequisite" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePrerequisites.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.title}{candidate.access_type === 'premium' ? ' (Premium)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={formData.prerequisite_gating}
+                onValueChange={(value) => setFormData({ ...formData, prerequisite_gating: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PREREQUISITE_GATING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              {PREREQUISITE_GATING_OPTIONS.find(option => option.value === formData.prerequisite_gating)?.description}
+            </p>
+          </div>
+
+          <div>
+            <Label>Modules & Lessons</Label>
+            <p className="text-sm text-gray-500 mb-2">
+              Split your course into modules and lessons. Changes here are saved immediately and are reviewed like other content edits.
+            </p>
+            <CourseOutlineEditor courseId={course.id} />
+          </div>
+
+          <div>
+            <Label>Course Quiz</Label>
+            <p className="text-sm text-gray-500 mb-2">
+              A quiz on the whole course, saved together with the other changes. Lesson quizzes are managed from the lessons above.
+            </p>
+            <QuizEditor value={quizDraft} onChange={setQuizDraft} defaultTitle={formData.title ? `${formData.title} Quiz` : undefined} />
+          </div>
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
             <Button 
               type="submit" 
-              disabled={loading || !formData.title || !formData.content_type}
+              disabled={loading || uploading || !formData.title || !formData.content_type}
               className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
             >
               {loading ? 'Updating...' : 'Update Course'}
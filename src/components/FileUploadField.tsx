@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, X } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { UPLOAD_LIMITS, UPLOAD_RULES, UploadKind, UploadedFile, formatBytes, uploadFile, validateUpload } from '@/lib/storage';
+
+interface FileUploadFieldProps {
+  id: string;
+  kind: UploadKind;
+  onUploaded: (file: UploadedFile) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+  disabled?: boolean;
+}
+
+export const FileUploadField: React.FC<FileUploadFieldProps> = ({
+  id,
+  kind,
+  onUploaded,
+  onUploadingChange,
+  disabled,
+}) => {
+  const { user } = useAuth();
+  const { role } = useEntitlements();
+  const [progress, setProgress] = useState<number | null>(null);
+  const [uploadedName, setUploadedName] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Stop an upload in flight when the form goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const setUploading = (percent: number | null) => {
+    setProgress(percent);
+    onUploadingChange?.(percent !== null);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file || !user) return;
+
+    const problem = validateUpload(file, kind, role);
+    if (problem) {
+      toast({
+        title: "File not accepted",
+        description: problem,
+        variant: "destructive",
+      });
+      if (inputRef.current) inputRef.current.value = '';
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setUploadedName(null);
+    setUploading(0);
+    try {
+      const uploaded = await uploadFile(file, kind, {
+        userId: user.id,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setUploadedName(file.name);
+      onUploaded(uploaded);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error uploading file:', error);
+      toast({
+        title: "Upload failed",
+        description: "The upload was interrupted. Choose the same file again to resume it.",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setUploading(null);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        ref={inputRef}
+        id={id}
+        type="file"
+        accept={UPLOAD_RULES[kind].mimeTypes.join(',')}
+        onChange={(e) => handleFileChange(e.target.files?.[0])}
+        disabled={disabled || progress !== null}
+      />
+      {progress !== null ? (
+        <div className="flex items-center gap-2">
+          <Progress value={progress} className="h-2 flex-1" />
+          <span className="text-xs text-gray-500 w-10 text-right">{progress}%</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => abortRef.current?.abort()}
+            title="Cancel upload"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : uploadedName ? (
+        <p className="flex items-center gap-1 text-sm text-green-600">
+          <CheckCircle className="h-4 w-4" />
+          Uploaded {uploadedName}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {UPLOAD_RULES[kind].label}, up to {formatBytes(UPLOAD_LIMITS[kind][role || 'user'])} on your plan
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders search highlights wrapped in <mark> by ts_headline without injecting HTML
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => {
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
@@ -8,6 +8,8 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSepara
 import { Moon, Sun, User, Settings, LogOut, BookOpen, Upload, BarChart3, Library } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { NotificationBell } from '@/components/NotificationBell';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -21,6 +23,7 @@ interface Profile {
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { can } = useEntitlements();
   const location = useLocation();
   const navigate = useNavigate();
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -107,6 +110,15 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               >
                 Browse
               </button>
+              <button
+                className={`text-sm font-medium transition-colors hover:text-blue-600 bg-transparent border-0 outline-none ${
+                  isActive('/paths') ? 'text-blue-600' : 'text-gray-700 dark:text-gray-300'
+                }`}
+                onClick={() => handleNav('/paths')}
+                type="button"
+              >
+                Paths
+              </button>
               <button
                 className={`text-sm font-medium transition-colors hover:text-blue-600 bg-transparent border-0 outline-none ${
                   isActive('/dashboard') ? 'text-blue-600' : 'text-gray-700 dark:text-gray-300'
@@ -154,6 +166,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
 
               {user ? (
                 <>
+                  <NotificationBell />
+
                   {/* Dashboard Link for Mobile */}
                   <Button
                     variant="ghost"
@@ -203,6 +217,32 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                           Profile Settings
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link to="/organizations" className="flex items-center">
+                          Organizations
+                        </Link>
+                      </DropdownMenuItem>
+                      {can('creator_analytics') && (
+                        <DropdownMenuItem asChild>
+                          <Link to="/analytics" className="flex items-center">
+                            Creator Analytics
+                          </Link>
+                        </DropdownMenuItem>
+                      )}
+                      {can('moderate_courses') && (
+                        <DropdownMenuItem asChild>
+                          <Link to="/admin/moderation" className="flex items-center">
+                            Moderation Queue
+                          </Link>
+                        </DropdownMenuItem>
+                      )}
+                      {can('manage_categories') && (
+                        <DropdownMenuItem asChild>
+                          <Link to="/admin/categories" className="flex items-center">
+                            Categories
+                          </Link>
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuSeparator />
                       <DropdownMenuItem onClick={handleSignOut}>
                         <LogOut className="mr-2 h-4 w-4" />
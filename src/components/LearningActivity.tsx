@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CalendarDays, Flame, Target, Trophy } from 'lucide-react';
+import { formatDuration } from '@/lib/courseOutline';
+import {
+  EMPTY_LEARNING_SUMMARY,
+  LearningDay,
+  LearningSummary,
+  fetchLearningActivity,
+  fetchLearningSummary,
+  getGoalPercent,
+  toMinutes,
+} from '@/lib/learningActivity';
+
+const DAILY_CHART_DAYS = 30;
+const WEEKLY_CHART_WEEKS = 12;
+
+const dailyConfig = {
+  minutes: { label: 'Minutes', color: '#2563eb' },
+} satisfies ChartConfig;
+
+const weeklyConfig = {
+  minutes: { label: 'Minutes', color: '#9333ea' },
+} satisfies ChartConfig;
+
+const parseDay = (day: string) => new Date(`${day}T00:00:00`);
+
+const formatDay = (day: string) => parseDay(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Monday is the first row of the heatmap, matching the weekly goal
+const weekdayIndex = (day: string) => (parseDay(day).getDay() + 6) % 7;
+
+const HEATMAP_LEVELS = [
+  'bg-gray-100 dark:bg-gray-700',
+  'bg-green-200 dark:bg-green-900',
+  'bg-green-400 dark:bg-green-700',
+  'bg-green-600 dark:bg-green-500',
+  'bg-green-800 dark:bg-green-300',
+];
+
+// A finished lesson alone still marks the day as active
+const heatmapColor = (day: LearningDay) => {
+  const minutes = toMinutes(day.seconds);
+  if (minutes === 0 && day.lessons_completed === 0) return HEATMAP_LEVELS[0];
+  if (minutes < 15) return HEATMAP_LEVELS[1];
+  if (minutes < 30) return HEATMAP_LEVELS[2];
+  if (minutes < 60) return HEATMAP_LEVELS[3];
+  return HEATMAP_LEVELS[4];
+};
+
+interface LearningActivityProps {
+  canViewAnalytics: boolean;
+}
+
+export const LearningActivity: React.FC<LearningActivityProps> = ({ canViewAnalytics }) => {
+  const [summary, setSummary] = useState<LearningSummary>(EMPTY_LEARNING_SUMMARY);
+  const [activity, setActivity] = useState<LearningDay[]>([]);
+
+  useEffect(() => {
+    fetchLearningSummary()
+      .then(setSummary)
+      .catch(error => console.error('Error fetching learning summary:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!canViewAnalytics) return;
+
+    fetchLearningActivity()
+      .then(setActivity)
+      .catch(error => console.error('Error fetching learning activity:', error));
+  }, [canViewAnalytics]);
+
+  // Columns of seven days, padded so every column starts on a Monday
+  const weeks = useMemo(() => {
+    if (activity.length === 0) return [];
+    const cells: (LearningDay | null)[] = [
+      ...Array(weekdayIndex(activity[0].day)).fill(null),
+      ...activity,
+    ];
+    const columns: (LearningDay | null)[][] = [];
+    for (let i = 0; i < cells.length; i += 7) {
+      columns.push(cells.slice(i, i + 7));
+    }
+    return columns;
+  }, [activity]);
+
+  const dailyData = useMemo(() => activity.slice(-DAILY_CHART_DAYS).map(day => ({
+    day: day.day,
+    minutes: toMinutes(day.seconds),
+  })), [activity]);
+
+  const weeklyData = useMemo(() => weeks.slice(-WEEKLY_CHART_WEEKS).map(week => {
+    const days = week.filter((day): day is LearningDay => day !== null);
+    return {
+      week: days[0].day,
+      minutes: toMinutes(days.reduce((total, day) => total + day.seconds, 0)),
+    };
+  }), [weeks]);
+
+  const activeDays = activity.filter(day => day.seconds > 0 || day.lessons_completed > 0).length;
+  const streakAtRisk = summary.current_streak > 0 && !summary.active_today;
+
+  return (
+    <div className="space-y-8 mb-8">
+      <div className="grid md:grid-cols-3 gap-6">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Current Streak</CardTitle>
+            <Flame className={`h-4 w-4 ${summary.current_streak > 0 ? 'text-orange-500' : 'text-gray-400'}`} />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {summary.current_streak} {summary.current_streak === 1 ? 'day' : 'days'}
+            </div>
+            <p className={`text-xs ${streakAtRisk ? 'text-orange-600 font-medium' : 'text-gray-500'}`}>
+              {streakAtRisk
+                ? 'Learn something today to keep your streak'
+                : summary.active_today
+                  ? 'You learned today, nice work'
+                  : 'Open a course in your library to start a streak'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Longest Streak</CardTitle>
+            <Trophy className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {summary.longest_streak} {summary.longest_streak === 1 ? 'day' : 'days'}
+            </div>
+            <p className="text-xs text-gray-500">
+              {summary.week_lessons} {summary.week_lessons === 1 ? 'lesson' : 'lessons'} finished this week
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Weekly Goal</CardTitle>
+            <Target className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatDuration(toMinutes(summary.week_seconds))}</div>
+            {summary.weekly_goal_minutes ? (
+              <>
+                <p className="text-xs text-gray-500 mb-2">of {formatDuration(summary.weekly_goal_minutes)} this week</p>
+                <Progress value={getGoalPercent(summary)} className="h-2" />
+              </>
+            ) : (
+              <p className="text-xs text-gray-500">
+                learned this week.{' '}
+                <Link to="/profile" className="text-blue-600 hover:underline">Set a weekly goal</Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {canViewAnalytics ? (
+        <>
+          <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                Learning Activity
+              </CardTitle>
+              <CardDescription>
+                {activeDays} active {activeDays === 1 ? 'day' : 'days'} in the last year
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <div className="flex gap-1 w-max">
+                  {weeks.map((week, weekIndex) => (
+                    <div key={weekIndex} className="flex flex-col gap-1">
+                      {week.map((day, dayIndex) => day ? (
+                        <div
+                          key={day.day}
+                          className={`h-3 w-3 rounded-sm ${heatmapColor(day)}`}
+                          title={`${formatDay(day.day)}: ${formatDuration(toMinutes(day.seconds))}, ${day.lessons_completed} ${day.lessons_completed === 1 ? 'lesson' : 'lessons'}`}
+                        />
+                      ) : (
+                        <div key={`empty-${dayIndex}`} className="h-3 w-3" />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-end gap-1 mt-2 text-xs text-gray-500">
+                <span className="mr-1">Less</span>
+                {HEATMAP_LEVELS.map(color => (
+                  <div key={color} className={`h-3 w-3 rounded-sm ${color}`} />
+                ))}
+                <span className="ml-1">More</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid lg:grid-cols-2 gap-8">
+            <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+              <CardHeader>
+                <CardTitle>Daily Learning Time</CardTitle>
+                <CardDescription>Minutes spent on your courses over the last {DAILY_CHART_DAYS} days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={dailyConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={dailyData} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+              <CardHeader>
+                <CardTitle>Weekly Totals</CardTitle>
+                <CardDescription>
+                  Minutes per week over the last {WEEKLY_CHART_WEEKS} weeks
+                  {summary.weekly_goal_minutes ? ', with your goal marked' : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={weeklyConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={weeklyData} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => `Week of ${formatDay(String(value))}`} />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                    {summary.weekly_goal_minutes && (
+                      <ReferenceLine y={summary.weekly_goal_minutes} stroke="#16a34a" strokeDasharray="4 4" />
+                    )}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      ) : (
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-6">
+            <div className="flex items-center gap-3">
+              <CalendarDays className="h-8 w-8 text-gray-400" />
+              <div>
+                <p className="font-semibold">See your learning history</p>
+                <p className="text-sm text-gray-500">
+                  Premium adds an activity calendar and charts of your daily and weekly learning time.
+                </p>
+              </div>
+            </div>
+            <Link to="/premium">
+              <Button className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
+                Upgrade
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  LearningPathCourse,
+  LearningPathStep,
+  LearningPathSummary,
+  MAX_PATH_COURSES,
+  PathableCourse,
+  createLearningPath,
+  fetchPathableCourses,
+  setLearningPathCourses,
+  updateLearningPath,
+} from '@/lib/learningPaths';
+
+interface LearningPathEditorProps {
+  // null creates a new path
+  path: LearningPathSummary | null;
+  courses: LearningPathCourse[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (pathId: string) => void;
+}
+
+export const LearningPathEditor: React.FC<LearningPathEditorProps> = ({
+  path,
+  courses,
+  isOpen,
+  onClose,
+  onSaved,
+}) => {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [isPublished, setIsPublished] = useState(false);
+  const [steps, setSteps] = useState<LearningPathStep[]>([]);
+  const [pathableCourses, setPathableCourses] = useState<PathableCourse[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setTitle(path?.title || '');
+    setDescription(path?.description || '');
+    setIsPublished(path?.is_published ?? false);
+    setSteps(courses.map(course => ({
+      course_id: course.course_id,
+      title: course.title,
+      prerequisite_course_ids: course.prerequisite_course_ids,
+    })));
+
+    fetchPathableCourses()
+      .then(setPathableCourses)
+      .catch((error) => console.error('Error fetching courses:', error));
+  }, [isOpen, path, courses]);
+
+  const addCourse = (courseId: string) => {
+    const course = pathableCourses.find(c => c.id === courseId);
+    if (!course) return;
+    setSteps(prev => [...prev, { course_id: course.id, title: course.title, prerequisite_course_ids: [] }]);
+  };
+
+  // Prerequisites that would end up after the step are dropped
+  const moveStep = (index: number, offset: number) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next.map((step, position) => {
+        const earlier = next.slice(0, position).map(s => s.course_id);
+        return {
+          ...step,
+          prerequisite_course_ids: step.prerequisite_course_ids.filter(id => earlier.includes(id)),
+        };
+      });
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => {
+      const removed = prev[index].course_id;
+      return prev
+        .filter((_, position) => position !== index)
+        .map(step => ({
+          ...step,
+          prerequisite_course_ids: step.prerequisite_course_ids.filter(id => id !== removed),
+        }));
+    });
+  };
+
+  const togglePrerequisite = (index: number, courseId: string) => {
+    setSteps(prev => prev.map((step, position) => {
+      if (position !== index) return step;
+      const required = step.prerequisite_course_ids.includes(courseId);
+      return {
+        ...step,
+        prerequisite_course_ids: required
+          ? step.prerequisite_course_ids.filter(id => id !== courseId)
+          : [...step.prerequisite_course_ids, courseId],
+      };
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (isPublished && steps.length === 0) {
+      toast({
+        title: "Add courses first",
+        description: "A published path needs at least one course.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = { title, description, isPublished };
+      let pathId = path?.id;
+      if (pathId) {
+        await updateLearningPath(pathId, input);
+      } else {
+        pathId = await createLearningPath(user.id, input);
+      }
+      await setLearningPathCourses(pathId, steps);
+
+      toast({
+        title: "Success",
+        description: isPublished ? "Learning path saved and published." : "Learning path saved as a draft.",
+      });
+      onSaved(pathId);
+    } catch (error) {
+      console.error('Error saving learning path:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to save learning path",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const availableCourses = pathableCourses.filter(course => !steps.some(step => step.course_id === course.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{path ? 'Edit Learning Path' : 'Create Learning Path'}</DialogTitle>
+          <DialogDescription>
+            Put courses in the order they should be taken. A course can ask for earlier ones to be finished first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="path_title">Title</Label>
+            <Input
+              id="path_title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Frontend Developer"
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="path_description">Description</Label>
+            <Textarea
+              id="path_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              placeholder="Who the path is for and what it leads to"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="path_published" checked={isPublished} onCheckedChange={setIsPublished} />
+            <Label htmlFor="path_published">Published (listed on the Learning Paths page)</Label>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Courses</Label>
+            {steps.length === 0 && (
+              <p className="text-sm text-gray-500">No courses yet. Add the first one below.</p>
+            )}
+            {steps.map((step, index) => (
+              <div key={step.course_id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">
+                    <span className="text-gray-500 mr-2">{index + 1}.</span>
+                    {step.title}
+                  </p>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeStep(index)} title="Remove">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {index > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-500">Finish first:</span>
+                    {steps.slice(0, index).map(earlier => (
+                      <Badge
+                        key={earlier.course_id}
+                        variant={step.prerequisite_course_ids.includes(earlier.course_id) ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => togglePrerequisite(index, earlier.course_id)}
+                      >
+                        {earlier.title}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {steps.length < MAX_PATH_COURSES && (
+              <Select value="" onValueChange={addCourse}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add a course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableCourses.map(course => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.title}{course.access_type === 'premium' ? ' (Premium)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saving || !title.trim()}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              {saving ? 'Saving...' : 'Save Path'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
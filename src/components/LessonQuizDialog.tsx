@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { QuizEditor } from '@/components/QuizEditor';
+import { QuizDraft, deleteQuiz, fetchQuizDraft, saveQuizDraft, validateQuizDraft } from '@/lib/quizzes';
+import type { Lesson } from '@/lib/courseOutline';
+
+interface LessonQuizDialogProps {
+  courseId: string;
+  lesson: Lesson | null;
+  onClose: () => void;
+}
+
+export const LessonQuizDialog: React.FC<LessonQuizDialogProps> = ({ courseId, lesson, onClose }) => {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<QuizDraft | null>(null);
+  const [savedQuizId, setSavedQuizId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!lesson) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchQuizDraft(courseId, lesson.id)
+      .then((quiz) => {
+        if (cancelled) return;
+        setDraft(quiz);
+        setSavedQuizId(quiz?.id || null);
+      })
+      .catch((error) => {
+        console.error('Error fetching quiz:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the lesson quiz",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, lesson]);
+
+  const handleSave = async () => {
+    if (!lesson) return;
+
+    const problem = draft && validateQuizDraft(draft);
+    if (problem) {
+      toast({
+        title: "Incomplete Quiz",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (draft) {
+        await saveQuizDraft(courseId, lesson.id, draft);
+      } else if (savedQuizId) {
+        await deleteQuiz(savedQuizId);
+      }
+      toast({
+        title: "Success",
+        description: draft ? "Lesson quiz saved." : "Lesson quiz removed.",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving quiz:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the lesson quiz",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!lesson} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lesson Quiz</DialogTitle>
+          <DialogDescription>{lesson?.title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading quiz...</p>
+        ) : (
+          <QuizEditor
+            value={draft}
+            onChange={setDraft}
+            defaultTitle={lesson ? `${lesson.title} Quiz` : undefined}
+          />
+        )}
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={loading || saving || (!draft && !savedQuizId)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            {saving ? 'Saving...' : 'Save Quiz'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeSlug from 'rehype-slug';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+import { extractHeadings, markdownSanitizeSchema } from '@/lib/markdown';
+
+// A table of contents is only worth showing for longer documents
+const MIN_TOC_HEADINGS = 3;
+
+type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+
+const anchoredHeading = (Tag: HeadingTag): Components[HeadingTag] =>
+  ({ node: _node, id, children, ...props }) => (
+    <Tag id={id} className="group scroll-mt-20" {...props}>
+      {children}
+      {id && (
+        <a
+          href={`#${id}`}
+          className="ml-2 no-underline text-gray-400 opacity-0 group-hover:opacity-100 focus:opacity-100"
+          aria-label="Link to this section"
+        >
+          #
+        </a>
+      )}
+    </Tag>
+  );
+
+const components: Components = {
+  h1: anchoredHeading('h1'),
+  h2: anchoredHeading('h2'),
+  h3: anchoredHeading('h3'),
+  h4: anchoredHeading('h4'),
+  h5: anchoredHeading('h5'),
+  h6: anchoredHeading('h6'),
+  a: ({ node: _node, href, ...props }) => {
+    const external = !!href && /^https?:\/\//i.test(href);
+    return (
+      <a
+        href={href}
+        {...props}
+        {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+      />
+    );
+  },
+};
+
+interface MarkdownContentProps {
+  content: string;
+  showTableOfContents?: boolean;
+  className?: string;
+}
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, showTableOfContents, className }) => {
+  const headings = useMemo(
+    () => (showTableOfContents ? extractHeadings(content) : []),
+    [content, showTableOfContents]
+  );
+  const minDepth = Math.min(...headings.map(heading => heading.depth));
+
+  return (
+    <div className={className}>
+      {headings.length >= MIN_TOC_HEADINGS && (
+        <nav className="mb-6 rounded-lg border bg-gray-50 dark:bg-gray-900/50 p-4" aria-label="Table of contents">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Contents</p>
+          <ul className="space-y-1 text-sm">
+            {headings.map((heading, index) => (
+              <li key={`${heading.id}-${index}`} style={{ paddingLeft: `${heading.depth - minDepth}rem` }}>
+                <a href={`#${heading.id}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {heading.text}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </nav>
+      )}
+      <div className="prose dark:prose-invert max-w-none prose-pre:p-0 prose-pre:bg-transparent">
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm, remarkMath]}
+          rehypePlugins={[
+            [rehypeSanitize, markdownSanitizeSchema],
+            rehypeSlug,
+            rehypeKatex,
+            [rehypeHighlight, { detect: false }],
+          ]}
+          components={components}
+        >
+          {content}
+        </ReactMarkdown>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Textarea } from '@/components/ui/textarea';
+import { Bold, Code, Heading2, Italic, Link, List, Sigma } from 'lucide-react';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { cn } from '@/lib/utils';
+
+interface FormatAction {
+  label: string;
+  icon: React.ElementType;
+  before: string;
+  after: string;
+  placeholder: string;
+  // Prefixes the current line instead of wrapping the selection
+  linePrefix?: boolean;
+}
+
+const FORMAT_ACTIONS: FormatAction[] = [
+  { label: 'Bold', icon: Bold, before: '**', after: '**', placeholder: 'bold text' },
+  { label: 'Italic', icon: Italic, before: '_', after: '_', placeholder: 'italic text' },
+  { label: 'Heading', icon: Heading2, before: '## ', after: '', placeholder: 'Heading', linePrefix: true },
+  { label: 'List', icon: List, before: '- ', after: '', placeholder: 'List item', linePrefix: true },
+  { label: 'Link', icon: Link, before: '[', after: '](https://)', placeholder: 'link text' },
+  { label: 'Code block', icon: Code, before: '```\n', after: '\n```', placeholder: 'code' },
+  { label: 'Formula', icon: Sigma, before: '$', after: '$', placeholder: 'E = mc^2' },
+];
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  required?: boolean;
+  // Shorter editing area, for replies and other short posts
+  compact?: boolean;
+}
+
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ id, value, onChange, placeholder, required, compact }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormat = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    let start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    if (action.linePrefix) {
+      start = value.lastIndexOf('\n', start - 1) + 1;
+    }
+    const selected = value.slice(start, end) || action.placeholder;
+    const next = value.slice(0, start) + action.before + selected + action.after + value.slice(end);
+    onChange(next);
+
+    // Select the wrapped text once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + action.before.length, start + action.before.length + selected.length);
+    });
+  };
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex flex-wrap items-center gap-1 border-b p-1">
+        {FORMAT_ACTIONS.map(action => (
+          <Button
+            key={action.label}
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => applyFormat(action)}
+            title={action.label}
+          >
+            <action.icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <span className="ml-auto pr-2 text-xs text-gray-500">Markdown supported</span>
+      </div>
+      <ResizablePanelGroup direction="horizontal" className={compact ? 'min-h-[160px]' : 'min-h-[320px]'}>
+        <ResizablePanel defaultSize={50} minSize={25}>
+          <Textarea
+            ref={textareaRef}
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            required={required}
+            className={cn(
+              'h-full resize-none rounded-none border-0 font-mono text-sm focus-visible:ring-0 focus-visible:ring-offset-0',
+              compact ? 'min-h-[160px]' : 'min-h-[320px]'
+            )}
+          />
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={50} minSize={25}>
+          <div className="h-full max-h-[480px] overflow-y-auto p-3">
+            {value.trim() ? (
+              <MarkdownContent content={value} />
+            ) : (
+              <p className="text-sm text-gray-500">Nothing to preview yet</p>
+            )}
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { HardDriveDownload } from 'lucide-react';
+import { formatBytes } from '@/lib/storage';
+import { DownloadEntry, OFFLINE_GRACE_DAYS, StorageUsage } from '@/lib/offlineDownloads';
+
+interface OfflineDownloadsProps {
+  downloads: DownloadEntry[];
+  usage: StorageUsage | null;
+  canDownload: boolean;
+  onRemove: (courseId: string) => void;
+}
+
+export const OfflineDownloads: React.FC<OfflineDownloadsProps> = ({ downloads, usage, canDownload, onRemove }) => {
+  const downloadedBytes = downloads.reduce((total, entry) => total + entry.bytes, 0);
+
+  return (
+    <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDriveDownload className="h-5 w-5" />
+          Offline Downloads
+        </CardTitle>
+        <CardDescription>
+          {canDownload
+            ? `Downloaded courses open without a connection. Go online at least every ${OFFLINE_GRACE_DAYS} days to keep them.`
+            : 'Offline downloads come with premium.'}
+          {!canDownload && (
+            <>
+              {' '}<Link to="/premium" className="text-blue-600 hover:underline">Upgrade</Link> to save courses to this device.
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      {(downloads.length > 0 || usage) && (
+        <CardContent className="space-y-4">
+          {usage && usage.quota > 0 && (
+            <div>
+              <div className="flex justify-between mb-1 text-xs text-gray-500">
+                <span>{formatBytes(downloadedBytes)} in {downloads.length} {downloads.length === 1 ? 'course' : 'courses'}</span>
+                <span>{formatBytes(usage.usage)} of {formatBytes(usage.quota)} browser storage used</span>
+              </div>
+              <Progress value={Math.min((usage.usage / usage.quota) * 100, 100)} className="h-2" />
+            </div>
+          )}
+          {downloads.length > 0 && (
+            <div className="divide-y">
+              {downloads.map(entry => (
+                <div key={entry.courseId} className="flex items-center gap-2 py-2 text-sm">
+                  <Link to={`/learn/${entry.courseId}`} className="flex-1 font-medium hover:underline">
+                    {entry.title}
+                  </Link>
+                  <span className="text-gray-500">{formatBytes(entry.bytes)}</span>
+                  <Button variant="ghost" size="sm" onClick={() => onRemove(entry.courseId)}>
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList, Download } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import type { OrganizationGroup, OrganizationMember } from '@/lib/organizations';
+import {
+  AssignableCourse,
+  AssignmentReportRow,
+  CourseAssignment,
+  createAssignment,
+  deleteAssignment,
+  downloadReportCsv,
+  dueDateToTimestamp,
+  fetchAssignableCourses,
+  fetchAssignmentReport,
+  fetchAssignments,
+  formatDueDate,
+  isOverdue,
+  summarizeReport,
+} from '@/lib/assignments';
+
+interface OrganizationAssignmentsProps {
+  organizationId: string;
+  organizationName: string;
+  members: OrganizationMember[];
+  groups: OrganizationGroup[];
+}
+
+export const OrganizationAssignments: React.FC<OrganizationAssignmentsProps> = ({
+  organizationId,
+  organizationName,
+  members,
+  groups,
+}) => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<AssignableCourse[]>([]);
+  const [assignments, setAssignments] = useState<CourseAssignment[]>([]);
+  const [report, setReport] = useState<AssignmentReportRow[]>([]);
+  const [courseId, setCourseId] = useState('');
+  // "user:<id>" or "group:<id>"
+  const [assignee, setAssignee] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadAssignments = async () => {
+    try {
+      const [assignmentList, reportRows] = await Promise.all([
+        fetchAssignments(organizationId),
+        fetchAssignmentReport(organizationId),
+      ]);
+      setAssignments(assignmentList);
+      setReport(reportRows);
+    } catch (error) {
+      console.error('Error fetching assignments:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAssignableCourses(organizationId)
+      .then(setCourses)
+      .catch((error) => console.error('Error fetching courses:', error));
+  }, [organizationId]);
+
+  // Group changes reach learners' libraries, so the report is reloaded with them
+  useEffect(() => {
+    loadAssignments();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationId, groups]);
+
+  const memberNames = useMemo(
+    () => Object.fromEntries(members.map(member => [member.user_id, member.profiles?.full_name || 'Anonymous'])),
+    [members]
+  );
+  const groupNames = useMemo(
+    () => Object.fromEntries(groups.map(group => [group.id, group.name])),
+    [groups]
+  );
+  const completion = useMemo(() => summarizeReport(report), [report]);
+  const overdueRows = useMemo(() => report.filter(row => isOverdue(row.due_at, row.completed)), [report]);
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !courseId || !assignee) return;
+
+    const [kind, id] = assignee.split(':');
+    setSaving(true);
+    try {
+      await createAssignment(
+        user.id,
+        organizationId,
+        courseId,
+        kind === 'group' ? { groupId: id } : { userId: id },
+        dueDateToTimestamp(dueDate)
+      );
+      setCourseId('');
+      setAssignee('');
+      setDueDate('');
+      toast({
+        title: "Course Assigned",
+        description: "It has been added to the learners' libraries.",
+      });
+      await loadAssignments();
+    } catch (error) {
+      console.error('Error assigning course:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign the course. It may already be assigned to them.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnassign = async (assignment: CourseAssignment) => {
+    try {
+      await deleteAssignment(assignment.id);
+      await loadAssignments();
+    } catch (error) {
+      console.error('Error removing assignment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the assignment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Assignments
+          </CardTitle>
+          <CardDescription>
+            Assigned courses go straight into the learners' libraries
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAssign} className="grid sm:grid-cols-4 gap-2 items-end">
+            <div className="space-y-1 sm:col-span-2">
+              <Label>Course</Label>
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map(course => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.title}{course.access_type === 'organization' && ' (organization)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Assign to</Label>
+              <Select value={assignee} onValueChange={setAssignee}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Member or group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groups.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Groups</SelectLabel>
+                      {groups.map(group => (
+                        <SelectItem key={group.id} value={`group:${group.id}`}>{group.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                  <SelectGroup>
+                    <SelectLabel>Members</SelectLabel>
+                    {members.map(member => (
+                      <SelectItem key={member.user_id} value={`user:${member.user_id}`}>
+                        {memberNames[member.user_id]}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="assignment-due">Due date</Label>
+              <Input id="assignment-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            <Button
+              type="submit"
+              disabled={saving || !courseId || !assignee}
+              className="sm:col-start-4 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              {saving ? 'Assigning...' : 'Assign Course'}
+            </Button>
+          </form>
+
+          {assignments.length > 0 && (
+            <div className="divide-y">
+              {assignments.map(assignment => (
+                <div key={assignment.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                  <Link to={`/learn/${assignment.course_id}`} className="font-medium hover:underline">
+                    {assignment.courses?.title || 'Course'}
+                  </Link>
+                  <span className="text-gray-500">→</span>
+                  <span>
+                    {assignment.group_id
+                      ? `${groupNames[assignment.group_id] || 'Group'} (group)`
+                      : memberNames[assignment.user_id || ''] || 'Member'}
+                  </span>
+                  <span className="flex-1 text-gray-500">
+                    {assignment.due_at ? `due ${formatDueDate(assignment.due_at)}` : 'no due date'}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleUnassign(assignment)}>
+                    Unassign
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle>Compliance Report</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadReportCsv(organizationName, report)}
+              disabled={report.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+          <CardDescription>
+            Completion of assigned courses by everyone they reach, directly or through a group
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {completion.length === 0 ? (
+            <p className="text-sm text-gray-500">Assign a course to start tracking completion.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Course</TableHead>
+                  <TableHead className="w-48">Completed</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {completion.map(course => {
+                  const percent = Math.round((course.completed / course.assigned) * 100);
+                  return (
+                    <TableRow key={course.course_id}>
+                      <TableCell className="font-medium">{course.course_title}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={percent} className="h-2" />
+                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                            {course.completed}/{course.assigned}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {course.overdue > 0 ? <Badge variant="destructive">{course.overdue}</Badge> : '0'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {overdueRows.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2">Overdue Learners</h4>
+              <div className="divide-y">
+                {overdueRows.map(row => (
+                  <div key={`${row.course_id}-${row.user_id}`} className="flex flex-wrap justify-between gap-2 py-2 text-sm">
+                    <span>
+                      <span className="font-medium">{row.learner_name || 'Anonymous'}</span>
+                      <span className="text-gray-500"> · {row.course_title}</span>
+                    </span>
+                    <span className="text-red-600">Due {row.due_at && formatDueDate(row.due_at)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { UsersRound } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import {
+  OrganizationGroup,
+  OrganizationMember,
+  createGroup,
+  deleteGroup,
+  setGroupMembership,
+} from '@/lib/organizations';
+
+interface OrganizationGroupsProps {
+  organizationId: string;
+  members: OrganizationMember[];
+  groups: OrganizationGroup[];
+  onGroupsChange: (groups: OrganizationGroup[]) => void;
+}
+
+export const OrganizationGroups: React.FC<OrganizationGroupsProps> = ({
+  organizationId,
+  members,
+  groups,
+  onGroupsChange,
+}) => {
+  const [name, setName] = useState('');
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const group = await createGroup(organizationId, name);
+      onGroupsChange([...groups, group].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setExpandedGroupId(group.id);
+    } catch (error) {
+      console.error('Error creating group:', error);
+      showError('Failed to create the group. Group names must be unique.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (group: OrganizationGroup) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Courses assigned to it are unassigned.`)) return;
+    try {
+      await deleteGroup(group.id);
+      onGroupsChange(groups.filter(g => g.id !== group.id));
+    } catch (error) {
+      console.error('Error deleting group:', error);
+      showError('Failed to delete the group');
+    }
+  };
+
+  const toggleMember = async (group: OrganizationGroup, userId: string, inGroup: boolean) => {
+    try {
+      await setGroupMembership(organizationId, group.id, userId, inGroup);
+      onGroupsChange(groups.map(g => (
+        g.id === group.id
+          ? { ...g, member_ids: inGroup ? [...g.member_ids, userId] : g.member_ids.filter(id => id !== userId) }
+          : g
+      )));
+    } catch (error) {
+      console.error('Error updating group members:', error);
+      showError('Failed to update the group');
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5" />
+          Groups
+        </CardTitle>
+        <CardDescription>
+          Assign courses to a whole team at once. People added to a group later get its courses too.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Engineering"
+            aria-label="Group name"
+          />
+          <Button type="submit" variant="outline" disabled={saving || !name.trim()}>
+            Add Group
+          </Button>
+        </form>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No groups yet.</p>
+        ) : (
+          <div className="divide-y">
+            {groups.map(group => (
+              <div key={group.id} className="py-3">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 font-medium">{group.name}</span>
+                  <span className="text-sm text-gray-500">
+                    {group.member_ids.length} {group.member_ids.length === 1 ? 'member' : 'members'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedGroupId(expandedGroupId === group.id ? null : group.id)}
+                  >
+                    {expandedGroupId === group.id ? 'Done' : 'Edit Members'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(group)}>
+                    Delete
+                  </Button>
+                </div>
+                {expandedGroupId === group.id && (
+                  <div className="grid sm:grid-cols-2 gap-2 mt-3">
+                    {members.map(member => {
+                      const checkboxId = `group-${group.id}-${member.user_id}`;
+                      return (
+                        <label key={member.user_id} htmlFor={checkboxId} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            id={checkboxId}
+                            checked={group.member_ids.includes(member.user_id)}
+                            onCheckedChange={(checked) => toggleMember(group, member.user_id, checked === true)}
+                          />
+                          {member.profiles?.full_name || 'Anonymous'}
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronLeft, ChevronRight, ExternalLink, Moon, Search, Sun, ZoomIn, ZoomOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { fetchReadingProgress, saveReadingProgress } from '@/lib/readingProgress';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+
+// Page changes are saved once the reader settles on a page
+const SAVE_DELAY_MS = 800;
+
+interface PdfViewerProps {
+  courseId: string;
+  lessonId: string | null;
+  url: string;
+}
+
+export const PdfViewer: React.FC<PdfViewerProps> = ({ courseId, lessonId, url }) => {
+  const { user } = useAuth();
+  const { theme } = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pageTexts = useRef<Map<number, string>>(new Map());
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [page, setPage] = useState<number | null>(null);
+  const [pageInput, setPageInput] = useState('');
+  const [scale, setScale] = useState(1.25);
+  const [darkPages, setDarkPages] = useState(theme === 'dark');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [matches, setMatches] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    setDarkPages(theme === 'dark');
+  }, [theme]);
+
+  // Load the document and the page to resume from
+  useEffect(() => {
+    let cancelled = false;
+    const loadingTask = pdfjsLib.getDocument(url);
+    setPdf(null);
+    setPage(null);
+    setLoadError(false);
+    setMatches(null);
+    pageTexts.current = new Map();
+
+    Promise.all([
+      loadingTask.promise,
+      user ? fetchReadingProgress(user.id, courseId, lessonId).catch((error) => {
+        console.error('Error fetching reading progress:', error);
+        return null;
+      }) : null,
+    ])
+      .then(([loadedPdf, progress]) => {
+        if (cancelled) return;
+        setPdf(loadedPdf);
+        setPage(Math.min(progress?.lastPage || 1, loadedPdf.numPages));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error loading PDF:', error);
+        setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [url, user, courseId, lessonId]);
+
+  // Render the current page
+  useEffect(() => {
+    if (!pdf || !page) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+    setPageInput(String(page));
+
+    pdf.getPage(page).then((pdfPage) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = pdfPage.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTask = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      renderTask.promise.catch((error) => {
+        if (error?.name !== 'RenderingCancelledException') {
+          console.error('Error rendering PDF page:', error);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, scale]);
+
+  // Remember where the reader is
+  useEffect(() => {
+    if (!pdf || !page || !user) return;
+
+    const timeout = setTimeout(() => {
+      saveReadingProgress(courseId, lessonId, page, pdf.numPages).catch((error) => {
+        console.error('Error saving reading progress:', error);
+      });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [pdf, page, user, courseId, lessonId]);
+
+  const goToPage = (target: number) => {
+    if (!pdf) return;
+    setPage(Math.min(Math.max(target, 1), pdf.numPages));
+  };
+
+  const getPageText = async (pageNumber: number) => {
+    const cached = pageTexts.current.get(pageNumber);
+    if (cached !== undefined || !pdf) return cached || '';
+
+    const content = await (await pdf.getPage(pageNumber)).getTextContent();
+    const text = content.items.map(item => ('str' in item ? item.str : '')).join(' ').toLowerCase();
+    pageTexts.current.set(pageNumber, text);
+    return text;
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = searchTerm.trim().toLowerCase();
+    if (!pdf || !term) {
+      setMatches(null);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const found: number[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        if ((await getPageText(pageNumber)).includes(term)) {
+          found.push(pageNumber);
+        }
+      }
+      setMatches(found);
+      if (found.length > 0) {
+        goToPage(found.find(match => page !== null && match >= page) || found[0]);
+      }
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const jumpToMatch = (direction: 1 | -1) => {
+    if (!matches || matches.length === 0 || page === null) return;
+    const next = direction === 1
+      ? matches.find(match => match > page) || matches[0]
+      : [...matches].reverse().find(match => match < page) || matches[matches.length - 1];
+    goToPage(next);
+  };
+
+  if (loadError) {
+    return (
+      <div className="p-6 text-center border rounded-lg">
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
+          This PDF can't be displayed here. It may not allow embedding.
+        </p>
+        <Button variant="outline" asChild>
+          <a href={url} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="h-4 w-4 mr-2" />
+            Open in new tab
+          </a>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!pdf || page === null) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const matchIndex = matches ? matches.indexOf(page) : -1;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="icon" variant="outline" onClick={() => goToPage(page - 1)} disabled={page <= 1} title="Previous page">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            goToPage(Number(pageInput) || page);
+          }}
+          className="flex items-center gap-1 text-sm"
+        >
+          <Input
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            className="w-16 h-9 text-center"
+            inputMode="numeric"
+            aria-label="Page number"
+          />
+          <span className="text-gray-500">of {pdf.numPages}</span>
+        </form>
+        <Button size="icon" variant="outline" onClick={() => goToPage(page + 1)} disabled={page >= pdf.numPages} title="Next page">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+
+        <div className="flex items-center gap-1 ml-2">
+          <Button size="icon" variant="outline" onClick={() => setScale(s => Math.max(MIN_SCALE, s - SCALE_STEP))} disabled={scale <= MIN_SCALE} title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-500 w-12 text-center">{Math.round(scale * 100)}%</span>
+          <Button size="icon" variant="outline" onClick={() => setScale(s => Math.min(MAX_SCALE, s + SCALE_STEP))} disabled={scale >= MAX_SCALE} title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Button size="icon" variant="outline" onClick={() => setDarkPages(!darkPages)} title={darkPages ? 'Light pages' : 'Dark pages'}>
+          {darkPages ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+        </Button>
+
+        <form onSubmit={handleSearch} className="flex items-center gap-1 ml-auto">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search in document"
+              className="pl-8 h-9 w-48"
+            />
+          </div>
+          <Button type="submit" size="sm" variant="outline" disabled={searching}>
+            {searching ? 'Searching...' : 'Find'}
+          </Button>
+        </form>
+      </div>
+
+      {matches && (
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          {matches.length === 0 ? (
+            <span>No matches</span>
+          ) : (
+            <>
+              <span>
+                {matchIndex >= 0 ? `Match ${matchIndex + 1} of ${matches.length}` : `${matches.length} pages match`}
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => jumpToMatch(-1)}>Previous</Button>
+              <Button size="sm" variant="ghost" onClick={() => jumpToMatch(1)}>Next</Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-auto max-h-[80vh] rounded-lg border bg-gray-100 dark:bg-gray-900 p-4">
+        <canvas
+          ref={canvasRef}
+          className="mx-auto shadow-lg"
+          style={darkPages ? { filter: 'invert(1) hue-rotate(180deg)' } : undefined}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useId } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import {
+  QUESTION_TYPES,
+  QuestionDraft,
+  QuestionType,
+  QuizDraft,
+  createQuestionDraft,
+  createQuizDraft,
+  isChoiceQuestion,
+} from '@/lib/quizzes';
+
+interface QuizEditorProps {
+  // null while there is no quiz, onChange(null) removes it
+  value: QuizDraft | null;
+  onChange: (draft: QuizDraft | null) => void;
+  defaultTitle?: string;
+  // Describes what "required" blocks, e.g. completing the course
+  requiredLabel?: string;
+}
+
+export const QuizEditor: React.FC<QuizEditorProps> = ({
+  value,
+  onChange,
+  defaultTitle,
+  requiredLabel = 'Learners must pass this quiz to complete the course',
+}) => {
+  const fieldId = useId();
+
+  if (!value) {
+    return (
+      <Button type="button" variant="outline" onClick={() => onChange(createQuizDraft(defaultTitle))}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Quiz
+      </Button>
+    );
+  }
+
+  const update = (values: Partial<QuizDraft>) => onChange({ ...value, ...values });
+
+  const updateQuestion = (index: number, values: Partial<QuestionDraft>) => {
+    update({
+      questions: value.questions.map((question, i) => (i === index ? { ...question, ...values } : question)),
+    });
+  };
+
+  const changeType = (index: number, type: QuestionType) => {
+    const question = value.questions[index];
+    const wasChoice = isChoiceQuestion(question.question_type);
+    updateQuestion(index, {
+      question_type: type,
+      options: isChoiceQuestion(type) && !wasChoice ? ['', ''] : question.options,
+      // Multiple choice has a single correct option
+      correct_options: type === 'multiple_choice' ? question.correct_options.slice(0, 1) : question.correct_options,
+    });
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.questions.length) return;
+    const questions = [...value.questions];
+    [questions[index], questions[target]] = [questions[target], questions[index]];
+    update({ questions });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = value.questions[index];
+    updateQuestion(index, {
+      options: question.options.filter((_, i) => i !== optionIndex),
+      // Later options shift down by one
+      correct_options: question.correct_options
+        .filter(option => option !== optionIndex)
+        .map(option => (option > optionIndex ? option - 1 : option)),
+    });
+  };
+
+  const toggleCorrect = (index: number, optionIndex: number) => {
+    const question = value.questions[index];
+    const isCorrect = question.correct_options.includes(optionIndex);
+    const correct_options = question.question_type === 'multiple_choice'
+      ? [optionIndex]
+      : isCorrect
+        ? question.correct_options.filter(option => option !== optionIndex)
+        : [...question.correct_options, optionIndex].sort((a, b) => a - b);
+    updateQuestion(index, { correct_options });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="col-span-2">
+          <Label htmlFor={`${fieldId}-quiz_title`}>Quiz title</Label>
+          <Input
+            id={`${fieldId}-quiz_title`}
+            value={value.title}
+            onChange={(e) => update({ title: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${fieldId}-quiz_pass_percent`}>Pass mark (%)</Label>
+          <Input
+            id={`${fieldId}-quiz_pass_percent`}
+            type="number"
+            min={0}
+            max={100}
+            value={value.pass_percent}
+            onChange={(e) => update({ pass_percent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor={`${fieldId}-quiz_description`}>Instructions (Optional)</Label>
+        <Textarea
+          id={`${fieldId}-quiz_description`}
+          value={value.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={2}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${fieldId}-quiz_required`}
+          checked={value.required_for_completion}
+          onCheckedChange={(checked) => update({ required_for_completion: checked })}
+        />
+        <Label htmlFor={`${fieldId}-quiz_required`}>{requiredLabel}</Label>
+      </div>
+
+      {value.questions.map((question, index) => (
+        <div key={question.id} className="p-4 border rounded-lg space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="font-semibold">Question {index + 1}</h4>
+            <div className="flex items-center gap-1">
+              <Select value={question.question_type} onValueChange={(type) => changeType(index, type as QuestionType)}>
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                value={question.points}
+                onChange={(e) => updateQuestion(index, { points: Math.max(1, Number(e.target.value) || 1) })}
+                title="Points"
+                aria-label="Points"
+              />
+              <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => moveQuestion(index, -1)}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button type="button" size="sm" variant="outline" className="h-6 w-6 p-0" onClick={() => moveQuestion(index, 1)}>
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="destructive"
+                className="h-6 w-6 p-0"
+                onClick={() => update({ questions: value.questions.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+
+          <Textarea
+            placeholder="Question"
+            value={question.prompt}
+            onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+            rows={2}
+          />
+
+          {question.question_type === 'code_output' && (
+            <Textarea
+              placeholder="Code snippet - learners type what it prints"
+              value={question.code}
+              onChange={(e) => updateQuestion(index, { code: e.target.value })}
+              rows={5}
+              className="font-mono text-sm"
+            />
+          )}
+
+          {isChoiceQuestion(question.question_type) ? (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-500">
+                {question.question_type === 'multiple_choice' ? 'Tick the correct option' : 'Tick every correct option'}
+              </p>
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={question.correct_options.includes(optionIndex)}
+                    onCheckedChange={() => toggleCorrect(index, optionIndex)}
+                    aria-label={`Option ${optionIndex + 1} is correct`}
+                  />
+                  <Input
+                    placeholder={`Option ${optionIndex + 1}`}
+                    value={option}
+                    onChange={(e) => updateQuestion(index, {
+                      options: question.options.map((o, i) => (i === optionIndex ? e.target.value : o)),
+                    })}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => removeOption(index, optionIndex)}
+                    disabled={question.options.length <= 2}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Option
+              </Button>
+            </div>
+          ) : question.question_type === 'code_output' ? (
+            <Textarea
+              placeholder="Expected output"
+              value={question.accepted_answers[0] || ''}
+              onChange={(e) => updateQuestion(index, { accepted_answers: [e.target.value] })}
+              rows={3}
+              className="font-mono text-sm"
+            />
+          ) : (
+            <div>
+              <Textarea
+                placeholder="Accepted answers, one per line"
+                value={question.accepted_answers.join('\n')}
+                onChange={(e) => updateQuestion(index, { accepted_answers: e.target.value.split('\n') })}
+                rows={2}
+              />
+              <p className="text-sm text-gray-500 mt-1">Matching ignores case and extra spaces.</p>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-between gap-2">
+        <Button type="button" variant="outline" onClick={() => update({ questions: [...value.questions, createQuestionDraft()] })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Question
+        </Button>
+        <Button type="button" variant="ghost" className="text-red-600" onClick={() => onChange(null)}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Remove Quiz
+        </Button>
+      </div>
+    </div>
+  );
+};
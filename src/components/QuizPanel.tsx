@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, ClipboardCheck, XCircle } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import {
+  Quiz,
+  QuizAnswers,
+  QuizAttempt,
+  QuizQuestion,
+  fetchLatestQuizAttempt,
+  fetchQuizQuestions,
+  submitQuizAttempt,
+} from '@/lib/quizzes';
+
+interface QuizPanelProps {
+  quiz: Quiz;
+  // Only learners with the course in their library can submit attempts
+  canAttempt: boolean;
+  onSubmitted?: (attempt: QuizAttempt) => void;
+}
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({ quiz, canAttempt, onSubmitted }) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [taking, setTaking] = useState(false);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setTaking(false);
+    setAnswers({});
+
+    Promise.all([
+      fetchQuizQuestions(quiz.id),
+      user ? fetchLatestQuizAttempt(user.id, quiz.id) : null,
+    ])
+      .then(([loadedQuestions, latest]) => {
+        if (cancelled) return;
+        setQuestions(loadedQuestions);
+        setAttempt(latest);
+      })
+      .catch((error) => console.error('Error fetching quiz:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quiz.id, user]);
+
+  const setAnswer = (questionId: string, answer: number[] | string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  };
+
+  const toggleOption = (questionId: string, option: number) => {
+    const current = Array.isArray(answers[questionId]) ? answers[questionId] as number[] : [];
+    setAnswer(
+      questionId,
+      current.includes(option) ? current.filter(o => o !== option) : [...current, option]
+    );
+  };
+
+  const unanswered = questions.filter(question => {
+    const answer = answers[question.id];
+    return Array.isArray(answer) ? answer.length === 0 : !answer?.trim();
+  }).length;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const result = await submitQuizAttempt(quiz.id, answers);
+      setAttempt(result);
+      setTaking(false);
+      onSubmitted?.(result);
+      toast({
+        title: result.passed ? "Quiz Passed" : "Quiz Not Passed",
+        description: `You scored ${result.score_percent}% (pass mark ${quiz.pass_percent}%).`,
+        variant: result.passed ? undefined : "destructive",
+      });
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to submit your answers",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          {quiz.title}
+          {quiz.required_for_completion && <Badge variant="secondary">Required</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {questions.length} {questions.length === 1 ? 'question' : 'questions'} • Pass mark {quiz.pass_percent}%
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading quiz...</p>
+        ) : !taking ? (
+          <>
+            {quiz.description && (
+              <p className="text-gray-600 dark:text-gray-400">{quiz.description}</p>
+            )}
+            {attempt && (
+              <div className={`flex items-center gap-2 p-3 rounded-lg ${
+                attempt.passed ? 'bg-green-50 dark:bg-green-900/20' : 'bg-red-50 dark:bg-red-900/20'
+              }`}>
+                {attempt.passed ? <CheckCircle className="h-5 w-5 text-green-600" /> : <XCircle className="h-5 w-5 text-red-600" />}
+                <span className="text-sm">
+                  Last attempt: {attempt.score}/{attempt.max_score} points ({attempt.score_percent}%) – {attempt.passed ? 'passed' : 'not passed'}
+                </span>
+              </div>
+            )}
+            <Button onClick={() => setTaking(true)} disabled={!canAttempt || questions.length === 0}>
+              {attempt ? 'Retake Quiz' : 'Start Quiz'}
+            </Button>
+            {!canAttempt && (
+              <p className="text-sm text-gray-500">Add the course to your library to take this quiz.</p>
+            )}
+          </>
+        ) : (
+          <>
+            {questions.map((question, index) => {
+              const answer = answers[question.id];
+              return (
+                <div key={question.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex justify-between gap-2 text-sm text-gray-500">
+                    <span>Question {index + 1}</span>
+                    <span>{question.points} {question.points === 1 ? 'point' : 'points'}</span>
+                  </div>
+                  <MarkdownContent content={question.prompt} />
+
+                  {question.question_type === 'code_output' && question.code && (
+                    <pre className="p-3 rounded-lg bg-gray-900 text-gray-100 text-sm overflow-x-auto">
+                      <code>{question.code}</code>
+                    </pre>
+                  )}
+
+                  {question.question_type === 'multiple_choice' && (
+                    <RadioGroup
+                      value={Array.isArray(answer) && answer.length > 0 ? String(answer[0]) : ''}
+                      onValueChange={(value) => setAnswer(question.id, [Number(value)])}
+                    >
+                      {question.options.map((option, optionIndex) => (
+                        <div key={optionIndex} className="flex items-center gap-2">
+                          <RadioGroupItem value={String(optionIndex)} id={`${question.id}-${optionIndex}`} />
+                          <Label htmlFor={`${question.id}-${optionIndex}`} className="font-normal">{option}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+
+                  {question.question_type === 'multi_select' && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-gray-500">Select all that apply</p>
+                      {question.options.map((option, optionIndex) => (
+                        <div key={optionIndex} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`${question.id}-${optionIndex}`}
+                            checked={Array.isArray(answer) && answer.includes(optionIndex)}
+                            onCheckedChange={() => toggleOption(question.id, optionIndex)}
+                          />
+                          <Label htmlFor={`${question.id}-${optionIndex}`} className="font-normal">{option}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {question.question_type === 'short_answer' && (
+                    <Input
+                      value={typeof answer === 'string' ? answer : ''}
+                      onChange={(e) => setAnswer(question.id, e.target.value)}
+                      placeholder="Your answer"
+                    />
+                  )}
+
+                  {question.question_type === 'code_output' && (
+                    <Textarea
+                      value={typeof answer === 'string' ? answer : ''}
+                      onChange={(e) => setAnswer(question.id, e.target.value)}
+                      placeholder="What does this code print?"
+                      rows={3}
+                      className="font-mono text-sm"
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex items-center justify-end gap-2">
+              {unanswered > 0 && (
+                <span className="text-sm text-gray-500 mr-auto">
+                  {unanswered} {unanswered === 1 ? 'question' : 'questions'} unanswered
+                </span>
+              )}
+              <Button variant="outline" onClick={() => setTaking(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={submitting}>
+                {submitting ? 'Submitting...' : 'Submit Answers'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number | null;
+  // Makes the stars clickable
+  onChange?: (value: number) => void;
+  className?: string;
+  starClassName?: string;
+}
+
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, className, starClassName = 'h-4 w-4' }) => {
+  const filled = Math.round(value || 0);
+
+  return (
+    <div
+      className={cn('flex items-center gap-0.5', className)}
+      role={onChange ? 'radiogroup' : 'img'}
+      aria-label={onChange ? 'Rating' : `Rated ${value?.toFixed(1) ?? 0} out of 5`}
+    >
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={cn(
+              starClassName,
+              star <= filled ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300 dark:text-gray-600'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === value}
+            aria-label={`${star} ${star === 1 ? 'star' : 'stars'}`}
+            onClick={() => onChange(star)}
+            className="p-0.5 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
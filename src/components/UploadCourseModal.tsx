@@ -7,7 +7,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
 import { toast } from '@/components/ui/use-toast';
+import { CategorySelect } from '@/components/CategorySelect';
+import { FileUploadField } from '@/components/FileUploadField';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { QuizEditor } from '@/components/QuizEditor';
+import { isHttpUrl, isUploadKind } from '@/lib/storage';
+import { QuizDraft, saveQuizDraft, validateQuizDraft } from '@/lib/quizzes';
+import { OrganizationMembership, fetchUserOrganizations } from '@/lib/organizations';
 
 interface UploadCourseModalProps {
   isOpen: boolean;
@@ -23,22 +31,37 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
   onSuccess,
 }) => {
   const { user } = useAuth();
+  const { can } = useEntitlements();
   const [loading, setLoading] = useState(false);
   const [imageValidating, setImageValidating] = useState(false);
   const [contentUrlValid, setContentUrlValid] = useState(true);
   const [contentUrlValidating, setContentUrlValidating] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [quizDraft, setQuizDraft] = useState<QuizDraft | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     content_type: '',
     content_url: '',
+    content_path: '',
     content_text: '',
     access_type: 'public',
+    organization_id: '',
     difficulty: '',
+    category_id: '',
     tags: '',
     image_url: '',
   });
 
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    fetchUserOrganizations(user.id)
+      .then(setOrganizations)
+      .catch((error) => console.error('Error fetching organizations:', error));
+  }, [isOpen, user]);
+
   const validateImageUrl = async (url: string): Promise<boolean> => {
     if (!url) return true; // Empty URL is valid (we'll use default)
     
@@ -71,13 +94,15 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
     }
   };
 
-  // Validate content URL (for video/pdf)
+  // Validate content URL (for video/pdf); a typed URL replaces any uploaded file
   const handleContentUrlChange = (url: string) => {
-    setFormData({ ...formData, content_url: url });
-    setContentUrlValid(true);
+    setFormData({ ...formData, content_url: url, content_path: url ? '' : formData.content_path });
+    setContentUrlValid(!url || isHttpUrl(url));
     setContentUrlValidating(false);
   };
 
+  const hasContentSource = !!formData.content_url || !!formData.content_path;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -88,7 +113,7 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
       !formData.description ||
       !formData.content_type ||
       (formData.content_type === "text" && !formData.content_text) ||
-      ((formData.content_type === "video" || formData.content_type === "pdf") && !formData.content_url) ||
+      ((formData.content_type === "video" || formData.content_type === "pdf") && !hasContentSource) ||
       !formData.access_type ||
       !formData.difficulty ||
       !formData.tags
@@ -100,14 +125,32 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
       });
       return;
     }
+    if (formData.access_type === 'organization' && !formData.organization_id) {
+      toast({
+        title: "Missing Organization",
+        description: "Choose the organization that can see this course.",
+        variant: "destructive",
+      });
+      return;
+    }
     // Content URL validation for video/pdf
     if (
       (formData.content_type === "video" || formData.content_type === "pdf") &&
-      (!formData.content_url || !contentUrlValid)
+      (!hasContentSource || !contentUrlValid)
     ) {
       toast({
         title: "Invalid Content URL",
-        description: "Please provide a valid and reachable content URL.",
+        description: "Please upload a file or provide a valid http(s) content URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const quizProblem = quizDraft && validateQuizDraft(quizDraft);
+    if (quizProblem) {
+      toast({
+        title: "Incomplete Quiz",
+        description: quizProblem,
         variant: "destructive",
       });
       return;
@@ -129,27 +172,38 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0);
 
-      const { error } = await supabase
+      const { data: created, error } = await supabase
         .from('courses')
         .insert([{
           title: formData.title,
           description: formData.description,
           content_type: formData.content_type,
           content_url: formData.content_url || null,
+          content_path: formData.content_path || null,
           content_text: formData.content_text || null,
           uploader_id: user.id,
           access_type: formData.access_type,
+          organization_id: formData.access_type === 'organization' ? formData.organization_id : null,
           difficulty: formData.difficulty || null,
+          category_id: formData.category_id || null,
           tags: tagsArray.length > 0 ? tagsArray : null,
           image_url: finalImageUrl,
           uploader_email: user.email,
-        }]);
+        }])
+        .select('id, moderation_status')
+        .single();
 
       if (error) throw error;
 
+      if (quizDraft) {
+        await saveQuizDraft(created.id, null, quizDraft);
+      }
+
       toast({
         title: "Success",
-        description: "Course uploaded successfully!",
+        description: created?.moderation_status === 'pending'
+          ? "Course submitted! It will appear in Browse once a moderator approves it."
+          : "Course uploaded successfully!",
       });
 
       setFormData({
@@ -157,12 +211,16 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
         description: '',
         content_type: '',
         content_url: '',
+        content_path: '',
         content_text: '',
         access_type: 'public',
+        organization_id: '',
         difficulty: '',
+        category_id: '',
         tags: '',
         image_url: '',
       });
+      setQuizDraft(null);
 
       onSuccess();
     } catch (error) {
@@ -179,7 +237,7 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Upload New Course</DialogTitle>
           <DialogDescription>
@@ -228,6 +286,15 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
             <p className="text-sm text-gray-500 mt-1">
               If not provided or invalid, a default image will be used
             </p>
+            <div className="mt-2">
+              <Label htmlFor="image_file" className="text-sm text-gray-600">Or upload an image</Label>
+              <FileUploadField
+                id="image_file"
+                kind="cover"
+                onUploaded={(file) => setFormData(prev => ({ ...prev, image_url: file.url || '' }))}
+                onUploadingChange={setUploading}
+              />
+            </div>
           </div>
 
           <div>
@@ -236,7 +303,7 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
             </Label>
             <Select
               value={formData.content_type}
-              onValueChange={(value) => setFormData({ ...formData, content_type: value })}
+              onValueChange={(value) => setFormData({ ...formData, content_type: value, content_path: '' })}
               required
             >
               <SelectTrigger>
@@ -255,19 +322,32 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
               <Label htmlFor="content_text">
                 Content <span className="text-red-500">*</span>
               </Label>
-              <Textarea
+              <MarkdownEditor
                 id="content_text"
                 value={formData.content_text}
-                onChange={(e) => setFormData({ ...formData, content_text: e.target.value })}
-                rows={6}
+                onChange={(content_text) => setFormData(prev => ({ ...prev, content_text }))}
                 placeholder="Write your content here..."
                 required
               />
             </div>
           ) : (
             <div>
+              {isUploadKind(formData.content_type) && (
+                <div className="mb-3">
+                  <Label htmlFor="content_file">
+                    Upload {formData.content_type === 'pdf' ? 'PDF' : 'Video'}
+                  </Label>
+                  <FileUploadField
+                    key={formData.content_type}
+                    id="content_file"
+                    kind={formData.content_type}
+                    onUploaded={(file) => setFormData(prev => ({ ...prev, content_path: file.path, content_url: '' }))}
+                    onUploadingChange={setUploading}
+                  />
+                </div>
+              )}
               <Label htmlFor="content_url">
-                Content URL <span className="text-red-500">*</span>
+                {isUploadKind(formData.content_type) ? 'Or Content URL' : 'Content URL'} {!formData.content_path && <span className="text-red-500">*</span>}
               </Label>
               <Input
                 id="content_url"
@@ -277,13 +357,13 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
                   handleContentUrlChange(e.target.value);
                 }}
                 placeholder="https://example.com/your-content"
-                required
+                required={!formData.content_path}
               />
               {contentUrlValidating && (
                 <p className="text-sm text-gray-500 mt-1">Validating content URL...</p>
               )}
               {!contentUrlValid && (
-                <p className="text-sm text-red-500 mt-1">Content URL is not reachable or invalid. Please provide a valid URL.</p>
+                <p className="text-sm text-red-500 mt-1">Content URL must be a valid http(s) link.</p>
               )}
             </div>
           )}
@@ -303,9 +383,12 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="public">Public (Free)</SelectItem>
-                  <SelectItem value="premium" disabled>
+                  <SelectItem value="premium" disabled={!can('upload_premium_courses')}>
                     Premium (only for premium+ users)
                   </SelectItem>
+                  <SelectItem value="organization" disabled={organizations.length === 0}>
+                    Organization (members only)
+                  </SelectItem>
                   <SelectItem value="private">Private</SelectItem>
                 </SelectContent>
               </Select>
@@ -332,6 +415,38 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
             </div>
           </div>
 
+          {formData.access_type === 'organization' && (
+            <div>
+              <Label>
+                Organization <span className="text-red-500">*</span>
+              </Label>
+              <Select
+                value={formData.organization_id}
+                onValueChange={(value) => setFormData({ ...formData, organization_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select organization" />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations.map(organization => (
+                    <SelectItem key={organization.id} value={organization.id}>
+                      {organization.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500 mt-1">Only members of this organization can see the course.</p>
+            </div>
+          )}
+
+          <div>
+            <Label>Category</Label>
+            <CategorySelect
+              value={formData.category_id}
+              onChange={(categoryId) => setFormData({ ...formData, category_id: categoryId })}
+            />
+          </div>
+
           <div>
             <Label htmlFor="tags">
               Tags (comma-separated) <span className="text-red-500">*</span>
@@ -345,6 +460,14 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
             />
           </div>
 
+          <div>
+            <Label>Quiz (Optional)</Label>
+            <p className="text-sm text-gray-500 mb-2">
+              Check what learners took away from the course. Lesson quizzes can be added once the course has lessons.
+            </p>
+            <QuizEditor value={quizDraft} onChange={setQuizDraft} defaultTitle={formData.title ? `${formData.title} Quiz` : undefined} />
+          </div>
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
@@ -353,12 +476,13 @@ export const UploadCourseModal: React.FC<UploadCourseModalProps> = ({
               type="submit"
               disabled={
                 loading ||
+                uploading ||
                 !formData.title ||
                 !formData.description ||
                 !formData.content_type ||
                 (formData.content_type === "text" && !formData.content_text) ||
                 ((formData.content_type === "video" || formData.content_type === "pdf") &&
-                  (!formData.content_url || !contentUrlValid || contentUrlValidating)) ||
+                  (!hasContentSource || !contentUrlValid || contentUrlValidating)) ||
                 !formData.access_type ||
                 !formData.difficulty ||
                 !formData.tags
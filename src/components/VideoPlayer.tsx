@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/contexts/AuthContext';
+import { VIDEO_COMPLETION_PERCENT, fetchMediaProgress, getBucketsBetween, saveMediaProgress } from '@/lib/mediaProgress';
+import { parseVideoSource } from '@/lib/videoSource';
+
+interface YouTubePlayerInstance {
+  getCurrentTime(): number;
+  getDuration(): number;
+  destroy(): void;
+}
+
+interface VimeoPlayerInstance {
+  on(event: string, callback: (data: { seconds: number; duration: number }) => void): void;
+  setCurrentTime(seconds: number): Promise<number>;
+  destroy(): Promise<void>;
+}
+
+declare global {
+  interface Window {
+    YT?: {
+      Player: new (element: HTMLElement, options: object) => YouTubePlayerInstance;
+      PlayerState: { PLAYING: number; PAUSED: number; ENDED: number };
+    };
+    onYouTubeIframeAPIReady?: () => void;
+    Vimeo?: {
+      Player: new (element: HTMLElement, options: object) => VimeoPlayerInstance;
+    };
+  }
+}
+
+interface PlayerEvents {
+  onTime: (time: number, duration: number, playing: boolean) => void;
+  onPause: () => void;
+}
+
+interface ProviderPlayerProps {
+  startAt: number;
+  events: React.MutableRefObject<PlayerEvents>;
+}
+
+// Saved at most this often while playing, and always on pause, end and unmount
+const SAVE_INTERVAL_MS = 15000;
+
+// Larger jumps between two time updates are seeks, not watching
+const MAX_PLAYBACK_STEP_SECONDS = 3;
+
+// Resuming this close to the end starts the video over instead
+const RESTART_THRESHOLD_SECONDS = 5;
+
+const scriptLoads: Record<string, Promise<void>> = {};
+
+const loadScript = (src: string): Promise<void> => {
+  if (!scriptLoads[src]) {
+    scriptLoads[src] = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => reject(new Error(`Failed to load ${src}`));
+      document.head.appendChild(script);
+    });
+  }
+  return scriptLoads[src];
+};
+
+let youTubeApi: Promise<NonNullable<Window['YT']>> | null = null;
+
+const loadYouTubeApi = () => {
+  if (!youTubeApi) {
+    youTubeApi = new Promise((resolve) => {
+      if (window.YT?.Player) {
+        resolve(window.YT);
+        return;
+      }
+      const previous = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previous?.();
+        resolve(window.YT!);
+      };
+      loadScript('https://www.youtube.com/iframe_api');
+    });
+  }
+  return youTubeApi;
+};
+
+const FilePlayer: React.FC<ProviderPlayerProps & { url: string }> = ({ url, startAt, events }) => (
+  <video
+    src={url}
+    controls
+    className="w-full h-full"
+    onLoadedMetadata={(e) => {
+      if (startAt > 0) e.currentTarget.currentTime = startAt;
+    }}
+    onTimeUpdate={(e) => {
+      const video = e.currentTarget;
+      events.current.onTime(video.currentTime, video.duration, !video.paused);
+    }}
+    onPause={() => events.current.onPause()}
+    onEnded={() => events.current.onPause()}
+  />
+);
+
+const YouTubePlayer: React.FC<ProviderPlayerProps & { videoId: string }> = ({ videoId, startAt, events }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let player: YouTubePlayerInstance | null = null;
+    let poll: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+
+    loadYouTubeApi().then((YT) => {
+      if (cancelled) return;
+      // The API replaces its target element, so give it one React doesn't own
+      const host = document.createElement('div');
+      container.appendChild(host);
+      player = new YT.Player(host, {
+        videoId,
+        width: '100%',
+        height: '100%',
+        playerVars: { start: Math.floor(startAt), rel: 0 },
+        events: {
+          onStateChange: ({ data }: { data: number }) => {
+            clearInterval(poll);
+            if (data === YT.PlayerState.PLAYING) {
+              poll = setInterval(() => {
+                if (player) events.current.onTime(player.getCurrentTime(), player.getDuration(), true);
+              }, 1000);
+            } else if (data === YT.PlayerState.PAUSED || data === YT.PlayerState.ENDED) {
+              if (player) events.current.onTime(player.getCurrentTime(), player.getDuration(), false);
+              events.current.onPause();
+            }
+          },
+        },
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      clearInterval(poll);
+      player?.destroy();
+      container.innerHTML = '';
+    };
+  }, [videoId, startAt, events]);
+
+  return <div ref={containerRef} className="w-full h-full" />;
+};
+
+const VimeoPlayer: React.FC<ProviderPlayerProps & { videoId: string }> = ({ videoId, startAt, events }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let player: VimeoPlayerInstance | null = null;
+    let cancelled = false;
+
+    loadScript('https://player.vimeo.com/api/player.js').then(() => {
+      if (cancelled || !window.Vimeo) return;
+      const host = document.createElement('div');
+      host.className = 'w-full h-full';
+      container.appendChild(host);
+      player = new window.Vimeo.Player(host, { id: Number(videoId), responsive: true });
+      player.on('loaded', () => {
+        if (startAt > 0) player?.setCurrentTime(startAt);
+      });
+      player.on('timeupdate', ({ seconds, duration }) => events.current.onTime(seconds, duration, true));
+      player.on('pause', () => events.current.onPause());
+      player.on('ended', () => events.current.onPause());
+    });
+
+    return () => {
+      cancelled = true;
+      player?.destroy();
+      container.innerHTML = '';
+    };
+  }, [videoId, startAt, events]);
+
+  return <div ref={containerRef} className="w-full h-full" />;
+};
+
+interface VideoPlayerProps {
+  courseId: string;
+  lessonId: string | null;
+  url: string;
+  // Called once when the saved coverage first reaches the completion threshold
+  onCompleted?: () => void;
+}
+
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({ courseId, lessonId, url, onCompleted }) => {
+  const { user } = useAuth();
+  const source = useMemo(() => parseVideoSource(url), [url]);
+  const [startAt, setStartAt] = useState<number | null>(null);
+  const [watchedPercent, setWatchedPercent] = useState(0);
+  const tracker = useRef({
+    courseId,
+    lessonId,
+    lastTime: 0,
+    duration: 0,
+    lastSavedAt: 0,
+    pending: new Set<number>(),
+    watched: new Set<number>(),
+    completed: false,
+  });
+
+  const flush = () => {
+    const state = tracker.current;
+    if (!user || state.duration <= 0) return;
+
+    const buckets = [...state.pending];
+    state.pending.clear();
+    state.lastSavedAt = Date.now();
+
+    saveMediaProgress(state.courseId, state.lessonId, state.lastTime, state.duration, buckets)
+      .then((percent) => {
+        // A save for the previous lesson must not overwrite the open lesson's coverage
+        if (tracker.current === state) setWatchedPercent(percent);
+        if (percent >= VIDEO_COMPLETION_PERCENT && !state.completed) {
+          state.completed = true;
+          onCompleted?.();
+        }
+      })
+      .catch((error) => {
+        console.error('Error saving video progress:', error);
+        buckets.forEach(bucket => state.pending.add(bucket));
+      });
+  };
+
+  const events = useRef<PlayerEvents>({ onTime: () => {}, onPause: () => {} });
+  events.current = {
+    onTime: (time, duration, playing) => {
+      const state = tracker.current;
+      if (!Number.isFinite(duration) || duration <= 0) return;
+      state.duration = duration;
+
+      const step = time - state.lastTime;
+      if (playing && step >= 0 && step <= MAX_PLAYBACK_STEP_SECONDS) {
+        getBucketsBetween(state.lastTime, time, duration).forEach(bucket => {
+          if (!state.watched.has(bucket)) {
+            state.watched.add(bucket);
+            state.pending.add(bucket);
+          }
+        });
+        setWatchedPercent(state.watched.size);
+      }
+      state.lastTime = time;
+
+      if (Date.now() - state.lastSavedAt >= SAVE_INTERVAL_MS) {
+        flush();
+      }
+    },
+    onPause: flush,
+  };
+
+  useEffect(() => {
+    // Save what was watched of the previous lesson before starting over
+    events.current.onPause();
+    tracker.current = {
+      courseId,
+      lessonId,
+      lastTime: 0,
+      duration: 0,
+      lastSavedAt: Date.now(),
+      pending: new Set(),
+      watched: new Set(),
+      completed: false,
+    };
+    setStartAt(null);
+    setWatchedPercent(0);
+
+    if (!user) {
+      setStartAt(0);
+      return;
+    }
+
+    let cancelled = false;
+    fetchMediaProgress(user.id, courseId, lessonId)
+      .then((progress) => {
+        if (cancelled) return;
+        if (!progress) {
+          setStartAt(0);
+          return;
+        }
+
+        const state = tracker.current;
+        progress.watchedBuckets.forEach(bucket => state.watched.add(bucket));
+        state.completed = progress.watchedPercent >= VIDEO_COMPLETION_PERCENT;
+        setWatchedPercent(progress.watchedPercent);
+
+        // A saved position near the end would resume onto the end screen
+        const nearEnd = !!progress.durationSeconds &&
+          progress.positionSeconds > progress.durationSeconds - RESTART_THRESHOLD_SECONDS;
+        state.lastTime = nearEnd ? 0 : progress.positionSeconds;
+        setStartAt(state.lastTime);
+      })
+      .catch((error) => {
+        console.error('Error fetching video progress:', error);
+        if (!cancelled) setStartAt(0);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, courseId, lessonId]);
+
+  // Save what was watched when the learner leaves the page or the player closes
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') events.current.onPause();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      events.current.onPause();
+    };
+  }, []);
+
+  if (startAt === null) {
+    return (
+      <div className="aspect-video w-full rounded-lg bg-black flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="aspect-video w-full overflow-hidden rounded-lg bg-black">
+        {source.provider === 'youtube' ? (
+          <YouTubePlayer videoId={source.id} startAt={startAt} events={events} />
+        ) : source.provider === 'vimeo' ? (
+          <VimeoPlayer videoId={source.id} startAt={startAt} events={events} />
+        ) : (
+          <FilePlayer url={source.url} startAt={startAt} events={events} />
+        )}
+      </div>
+      {user && (
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-1 text-xs text-gray-500">
+            <span>Watched</span>
+            <span>{watchedPercent}%</span>
+          </div>
+          <Progress value={watchedPercent} className="h-1" />
+        </div>
+      )}
+    </div>
+  );
+};
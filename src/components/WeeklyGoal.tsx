@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Target } from 'lucide-react';
+import { formatDuration } from '@/lib/courseOutline';
+import {
+  EMPTY_LEARNING_SUMMARY,
+  LearningSummary,
+  WEEKLY_GOAL_OPTIONS,
+  fetchLearningSummary,
+  getGoalPercent,
+  setWeeklyGoal,
+  toMinutes,
+} from '@/lib/learningActivity';
+
+const NO_GOAL = 'none';
+
+export const WeeklyGoal: React.FC = () => {
+  const [summary, setSummary] = useState<LearningSummary>(EMPTY_LEARNING_SUMMARY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLearningSummary()
+      .then(setSummary)
+      .catch(error => console.error('Error fetching weekly goal:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleGoalChange = async (value: string) => {
+    const minutes = value === NO_GOAL ? null : Number(value);
+    const previous = summary;
+    setSummary({ ...previous, weekly_goal_minutes: minutes });
+    setSaving(true);
+    try {
+      await setWeeklyGoal(minutes);
+      toast({
+        title: "Goal Updated",
+        description: minutes ? `Your weekly goal is ${formatDuration(minutes)} of learning.` : 'Your weekly goal was removed.',
+      });
+    } catch (error) {
+      console.error('Error updating weekly goal:', error);
+      setSummary(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update your weekly goal",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="lg:col-span-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Weekly Goal
+        </CardTitle>
+        <CardDescription>
+          How much time you want to spend learning each week. Weeks start on Monday.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Label htmlFor="weekly-goal">Learning time per week</Label>
+          <Select
+            value={summary.weekly_goal_minutes ? String(summary.weekly_goal_minutes) : NO_GOAL}
+            onValueChange={handleGoalChange}
+            disabled={loading || saving}
+          >
+            <SelectTrigger id="weekly-goal" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_GOAL}>No goal</SelectItem>
+              {WEEKLY_GOAL_OPTIONS.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {summary.weekly_goal_minutes && (
+          <div>
+            <div className="flex justify-between mb-1 text-sm text-gray-500">
+              <span>This week</span>
+              <span>
+                {formatDuration(toMinutes(summary.week_seconds))} of {formatDuration(summary.weekly_goal_minutes)}
+              </span>
+            </div>
+            <Progress value={getGoalPercent(summary)} className="h-2" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Capability, Role, hasCapability, isRole } from '@/lib/entitlements';
+
+// Reads the signed-in user's role from profiles.role, the same column RLS checks
+export function useEntitlements() {
+  const { user } = useAuth();
+  const [role, setRole] = useState<Role | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setRole(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching role:', error);
+        }
+        setRole(data && isRole(data.role) ? data.role : 'user');
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const can = useCallback((capability: Capability) => hasCapability(role, capability), [role]);
+
+  return { role, loading, can };
+}
@@ -0,0 +1,63 @@
+import { useEffect } from 'react';
+import { HEARTBEAT_SECONDS, recordLearningTime } from '@/lib/learningActivity';
+
+const TICK_SECONDS = 5;
+
+// Without input for this long the learner counts as away, unless a video is playing
+const IDLE_SECONDS = 300;
+
+const INTERACTION_EVENTS = ['pointerdown', 'keydown', 'scroll', 'wheel', 'touchstart'] as const;
+
+const isVideoPlaying = () =>
+  Array.from(document.querySelectorAll('video')).some(video => !video.paused && !video.ended);
+
+/**
+ * Logs active time on a course or lesson to the learning activity log. Time only counts
+ * while the tab is visible and the learner is not idle. Each course or lesson gets a
+ * session of its own.
+ */
+export function useLearningSession(courseId: string | null, lessonId: string | null, enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || !courseId) return;
+
+    const sessionId = crypto.randomUUID();
+    let pendingSeconds = 0;
+    let lastInteraction = Date.now();
+
+    const flush = () => {
+      if (pendingSeconds === 0) return;
+      const seconds = pendingSeconds;
+      pendingSeconds = 0;
+      recordLearningTime(sessionId, courseId, lessonId, seconds).catch(error => {
+        console.error('Error recording learning time:', error);
+      });
+    };
+
+    const markInteraction = () => {
+      lastInteraction = Date.now();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+      else markInteraction();
+    };
+
+    const tick = window.setInterval(() => {
+      const idle = Date.now() - lastInteraction > IDLE_SECONDS * 1000 && !isVideoPlaying();
+      if (document.visibilityState === 'visible' && !idle) {
+        pendingSeconds += TICK_SECONDS;
+      }
+      if (pendingSeconds >= HEARTBEAT_SECONDS) flush();
+    }, TICK_SECONDS * 1000);
+
+    INTERACTION_EVENTS.forEach(event => window.addEventListener(event, markInteraction, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(tick);
+      INTERACTION_EVENTS.forEach(event => window.removeEventListener(event, markInteraction));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [courseId, lessonId, enabled]);
+}
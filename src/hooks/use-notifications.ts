@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Notification,
+  fetchNotifications,
+  fetchUnreadCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '@/lib/notifications';
+
+// The signed-in user's latest notifications, kept current through Supabase Realtime
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [latest, unread] = await Promise.all([fetchNotifications(user.id), fetchUnreadCount(user.id)]);
+      setNotifications(latest);
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    refresh();
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => refresh()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, refresh]);
+
+  const markRead = useCallback(async (notification: Notification) => {
+    if (notification.read_at) return;
+    try {
+      await markNotificationRead(notification.id);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read_at: readAt } : n)));
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  }, []);
+
+  const markAllRead = useCallback(async () => {
+    if (!user) return;
+    try {
+      await markAllNotificationsRead(user.id);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at || readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  }, [user]);
+
+  return { notifications, unreadCount, markRead, markAllRead, refresh };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/components/ui/use-toast';
+import {
+  DownloadEntry,
+  StorageUsage,
+  downloadCourse,
+  fetchStorageUsage,
+  isOfflineSupported,
+  listDownloads,
+  removeDownload,
+  syncDownloads,
+} from '@/lib/offlineDownloads';
+
+// The signed-in user's offline downloads, re-checked against their plan on mount
+export function useOfflineDownloads() {
+  const { user } = useAuth();
+  const [downloads, setDownloads] = useState<DownloadEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  const supported = isOfflineSupported();
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setDownloads(listDownloads(user.id));
+    setUsage(await fetchStorageUsage());
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !supported) return;
+
+    syncDownloads(user.id)
+      .then(removed => {
+        if (removed) {
+          toast({
+            title: "Offline Downloads Removed",
+            description: "Your plan no longer includes offline downloads.",
+          });
+        }
+      })
+      .catch(error => console.error('Error checking offline downloads:', error))
+      .finally(refresh);
+  }, [user, supported, refresh]);
+
+  const setCoursePending = (courseId: string, isPending: boolean) => {
+    setPending(prev => {
+      const next = new Set(prev);
+      if (isPending) next.add(courseId);
+      else next.delete(courseId);
+      return next;
+    });
+  };
+
+  const download = async (courseId: string) => {
+    if (!user) return;
+    setCoursePending(courseId, true);
+    try {
+      const entry = await downloadCourse(user.id, courseId);
+      toast({ title: "Downloaded", description: `${entry.title} is available offline.` });
+    } catch (error) {
+      console.error('Error downloading course:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download the course. Check your connection and free storage.",
+        variant: "destructive",
+      });
+    } finally {
+      setCoursePending(courseId, false);
+      await refresh();
+    }
+  };
+
+  const remove = async (courseId: string) => {
+    if (!user) return;
+    try {
+      await removeDownload(user.id, courseId);
+    } catch (error) {
+      console.error('Error removing download:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the download",
+        variant: "destructive",
+      });
+    } finally {
+      await refresh();
+    }
+  };
+
+  const isDownloaded = (courseId: string) => downloads.some(entry => entry.courseId === courseId);
+
+  return { supported, downloads, usage, pending, download, remove, isDownloaded };
+}
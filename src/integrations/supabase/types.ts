@@ -9,107 +9,1588 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          scopes: string[]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          scopes: string[]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          scopes?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      api_request_counts: {
+        Row: {
+          key_id: string
+          request_count: number
+          window_start: string
+        }
+        Insert: {
+          key_id: string
+          request_count?: number
+          window_start: string
+        }
+        Update: {
+          key_id?: string
+          request_count?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_request_counts_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificates: {
+        Row: {
+          completed_at: string
+          course_id: string | null
+          course_title: string
+          id: string
+          issued_at: string
+          learning_path_id: string | null
+          recipient_name: string
+          uploader_name: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at: string
+          course_id?: string | null
+          course_title: string
+          id?: string
+          issued_at?: string
+          learning_path_id?: string | null
+          recipient_name: string
+          uploader_name?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string
+          course_id?: string | null
+          course_title?: string
+          id?: string
+          issued_at?: string
+          learning_path_id?: string | null
+          recipient_name?: string
+          uploader_name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificates_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_learning_path_id_fkey"
+            columns: ["learning_path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_views: {
+        Row: {
+          course_id: string
+          id: string
+          lesson_id: string | null
+          user_id: string
+          viewed_on: string
+        }
+        Insert: {
+          course_id: string
+          id?: string
+          lesson_id?: string | null
+          user_id: string
+          viewed_on?: string
+        }
+        Update: {
+          course_id?: string
+          id?: string
+          lesson_id?: string | null
+          user_id?: string
+          viewed_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_views_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_views_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_assignments: {
+        Row: {
+          assigned_by: string | null
+          course_id: string
+          created_at: string
+          due_at: string | null
+          group_id: string | null
+          id: string
+          organization_id: string
+          user_id: string | null
+        }
+        Insert: {
+          assigned_by?: string | null
+          course_id: string
+          created_at?: string
+          due_at?: string | null
+          group_id?: string | null
+          id?: string
+          organization_id: string
+          user_id?: string | null
+        }
+        Update: {
+          assigned_by?: string | null
+          course_id?: string
+          created_at?: string
+          due_at?: string | null
+          group_id?: string | null
+          id?: string
+          organization_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_assignments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_assignments_group_id_organization_id_fkey"
+            columns: ["group_id", "organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization_groups"
+            referencedColumns: ["id", "organization_id"]
+          },
+          {
+            foreignKeyName: "course_assignments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_assignments_organization_id_user_id_fkey"
+            columns: ["organization_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "organization_members"
+            referencedColumns: ["organization_id", "user_id"]
+          },
+        ]
+      }
+      course_modules: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          position: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          position?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_modules_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_prerequisites: {
+        Row: {
+          course_id: string
+          position: number
+          prerequisite_id: string
+        }
+        Insert: {
+          course_id: string
+          position?: number
+          prerequisite_id: string
+        }
+        Update: {
+          course_id?: string
+          position?: number
+          prerequisite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_review_revisions: {
+        Row: {
+          body: string | null
+          id: string
+          rating: number
+          replaced_at: string
+          review_id: string
+          written_at: string
+        }
+        Insert: {
+          body?: string | null
+          id?: string
+          rating: number
+          replaced_at?: string
+          review_id: string
+          written_at: string
+        }
+        Update: {
+          body?: string | null
+          id?: string
+          rating?: number
+          replaced_at?: string
+          review_id?: string
+          written_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_review_revisions_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "course_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_reviews: {
+        Row: {
+          body: string | null
+          course_id: string
+          created_at: string
+          helpful_count: number
+          id: string
+          rating: number
+          replied_at: string | null
+          updated_at: string
+          uploader_reply: string | null
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          course_id: string
+          created_at?: string
+          helpful_count?: number
+          id?: string
+          rating: number
+          replied_at?: string | null
+          updated_at?: string
+          uploader_reply?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          course_id?: string
+          created_at?: string
+          helpful_count?: number
+          id?: string
+          rating?: number
+          replied_at?: string | null
+          updated_at?: string
+          uploader_reply?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_reviews_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      course_stats: {
+        Row: {
+          course_id: string
+          enrollment_count: number
+          rating_average: number | null
+          rating_count: number
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          enrollment_count?: number
+          rating_average?: number | null
+          rating_count?: number
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          enrollment_count?: number
+          rating_average?: number | null
+          rating_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_stats_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: true
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       courses: {
         Row: {
-          access_type: string
-          content_text: string | null
-          content_type: string
-          content_url: string | null
+          access_type: string
+          category_id: string | null
+          content_path: string | null
+          content_text: string | null
+          content_type: string
+          content_url: string | null
+          created_at: string
+          description: string | null
+          difficulty: string | null
+          id: string
+          image_url: string | null
+          is_approved: boolean | null
+          moderation_status: string
+          organization_id: string | null
+          prerequisite_gating: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          search_vector: unknown | null
+          tags: string[] | null
+          title: string
+          updated_at: string
+          uploader_email: string | null
+          uploader_id: string
+        }
+        Insert: {
+          access_type?: string
+          category_id?: string | null
+          content_path?: string | null
+          content_text?: string | null
+          content_type: string
+          content_url?: string | null
+          created_at?: string
+          description?: string | null
+          difficulty?: string | null
+          id?: string
+          image_url?: string | null
+          is_approved?: boolean | null
+          moderation_status?: string
+          organization_id?: string | null
+          prerequisite_gating?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          search_vector?: unknown | null
+          tags?: string[] | null
+          title: string
+          updated_at?: string
+          uploader_email?: string | null
+          uploader_id: string
+        }
+        Update: {
+          access_type?: string
+          category_id?: string | null
+          content_path?: string | null
+          content_text?: string | null
+          content_type?: string
+          content_url?: string | null
+          created_at?: string
+          description?: string | null
+          difficulty?: string | null
+          id?: string
+          image_url?: string | null
+          is_approved?: boolean | null
+          moderation_status?: string
+          organization_id?: string | null
+          prerequisite_gating?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          search_vector?: unknown | null
+          tags?: string[] | null
+          title?: string
+          updated_at?: string
+          uploader_email?: string | null
+          uploader_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "courses_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_courses_uploader_profiles"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "courses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discussion_posts: {
+        Row: {
+          body: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          parent_id: string | null
+          thread_id: string
+          upvote_count: number
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          parent_id?: string | null
+          thread_id: string
+          upvote_count?: number
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          parent_id?: string | null
+          thread_id?: string
+          upvote_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discussion_posts_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "discussion_posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discussion_posts_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "discussion_threads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discussion_posts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      discussion_threads: {
+        Row: {
+          accepted_post_id: string | null
+          course_id: string
+          created_at: string
+          id: string
+          lesson_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          accepted_post_id?: string | null
+          course_id: string
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          accepted_post_id?: string | null
+          course_id?: string
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discussion_threads_accepted_post_id_fkey"
+            columns: ["accepted_post_id"]
+            isOneToOne: false
+            referencedRelation: "discussion_posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discussion_threads_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discussion_threads_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discussion_threads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      discussion_votes: {
+        Row: {
+          created_at: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discussion_votes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "discussion_posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_goals: {
+        Row: {
+          last_active_at: string | null
+          streak_reminded_on: string | null
+          time_zone: string
+          updated_at: string
+          user_id: string
+          weekly_goal_minutes: number | null
+        }
+        Insert: {
+          last_active_at?: string | null
+          streak_reminded_on?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id: string
+          weekly_goal_minutes?: number | null
+        }
+        Update: {
+          last_active_at?: string | null
+          streak_reminded_on?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+          weekly_goal_minutes?: number | null
+        }
+        Relationships: []
+      }
+      learning_path_courses: {
+        Row: {
+          course_id: string
+          path_id: string
+          position: number
+          prerequisite_course_ids: string[]
+        }
+        Insert: {
+          course_id: string
+          path_id: string
+          position: number
+          prerequisite_course_ids?: string[]
+        }
+        Update: {
+          course_id?: string
+          path_id?: string
+          position?: number
+          prerequisite_course_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_path_courses_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_path_courses_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_path_enrollments: {
+        Row: {
+          completed_at: string | null
+          enrolled_at: string
+          path_id: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          enrolled_at?: string
+          path_id: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          enrolled_at?: string
+          path_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_path_enrollments_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_paths: {
+        Row: {
+          author_id: string
+          created_at: string
+          description: string | null
+          id: string
+          is_published: boolean
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          author_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_paths_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      learning_sessions: {
+        Row: {
+          active_seconds: number
+          activity_date: string
+          course_id: string
+          id: string
+          last_active_at: string
+          lesson_id: string | null
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          active_seconds?: number
+          activity_date: string
+          course_id: string
+          id: string
+          last_active_at?: string
+          lesson_id?: string | null
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          active_seconds?: number
+          activity_date?: string
+          course_id?: string
+          id?: string
+          last_active_at?: string
+          lesson_id?: string | null
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_sessions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_sessions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_progress: {
+        Row: {
+          completed_at: string
+          id: string
+          lesson_id: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string
+          id?: string
+          lesson_id: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string
+          id?: string
+          lesson_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_progress_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          content_text: string | null
+          content_type: string
+          content_url: string | null
+          course_id: string
+          created_at: string
+          duration_minutes: number | null
+          id: string
+          module_id: string
+          position: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          content_text?: string | null
+          content_type: string
+          content_url?: string | null
+          course_id?: string
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          module_id: string
+          position?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          content_text?: string | null
+          content_type?: string
+          content_url?: string | null
+          course_id?: string
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          module_id?: string
+          position?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lessons_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lessons_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "course_modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      media_progress: {
+        Row: {
+          course_id: string
+          duration_seconds: number | null
+          id: string
+          lesson_id: string | null
+          position_seconds: number
+          updated_at: string
+          user_id: string
+          watched_buckets: number[]
+          watched_percent: number
+        }
+        Insert: {
+          course_id: string
+          duration_seconds?: number | null
+          id?: string
+          lesson_id?: string | null
+          position_seconds?: number
+          updated_at?: string
+          user_id: string
+          watched_buckets?: number[]
+        }
+        Update: {
+          course_id?: string
+          duration_seconds?: number | null
+          id?: string
+          lesson_id?: string | null
+          position_seconds?: number
+          updated_at?: string
+          user_id?: string
+          watched_buckets?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_progress_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "media_progress_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          enabled: boolean
+          type: string
+          user_id: string
+        }
+        Insert: {
+          enabled?: boolean
+          type: string
+          user_id: string
+        }
+        Update: {
+          enabled?: boolean
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organization_group_members: {
+        Row: {
+          added_at: string
+          group_id: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          added_at?: string
+          group_id: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          added_at?: string
+          group_id?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_group_members_group_id_organization_id_fkey"
+            columns: ["group_id", "organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization_groups"
+            referencedColumns: ["id", "organization_id"]
+          },
+          {
+            foreignKeyName: "organization_group_members_organization_id_user_id_fkey"
+            columns: ["organization_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "organization_members"
+            referencedColumns: ["organization_id", "user_id"]
+          },
+        ]
+      }
+      organization_groups: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_groups_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          organization_id: string
+          role: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          organization_id: string
+          role?: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          organization_id?: string
+          role?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          joined_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          completed: number | null
+          created_at: string
+          enrolled: number | null
+          full_name: string | null
+          id: string
+          role: string
+          updated_at: string
+          uploads: number | null
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          completed?: number | null
+          created_at?: string
+          enrolled?: number | null
+          full_name?: string | null
+          id?: string
+          role?: string
+          updated_at?: string
+          uploads?: number | null
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          completed?: number | null
+          created_at?: string
+          enrolled?: number | null
+          full_name?: string | null
+          id?: string
+          role?: string
+          updated_at?: string
+          uploads?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      quiz_answer_keys: {
+        Row: {
+          accepted_answers: string[]
+          correct_options: number[]
+          question_id: string
+        }
+        Insert: {
+          accepted_answers?: string[]
+          correct_options?: number[]
+          question_id: string
+        }
+        Update: {
+          accepted_answers?: string[]
+          correct_options?: number[]
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answer_keys_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: true
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          id: string
+          max_score: number
+          passed: boolean
+          quiz_id: string
+          score: number
+          score_percent: number
+          submitted_at: string
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          id?: string
+          max_score: number
+          passed: boolean
+          quiz_id: string
+          score: number
+          score_percent: number
+          submitted_at?: string
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          id?: string
+          max_score?: number
+          passed?: boolean
+          quiz_id?: string
+          score?: number
+          score_percent?: number
+          submitted_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          code: string | null
+          created_at: string
+          id: string
+          options: string[]
+          points: number
+          position: number
+          prompt: string
+          question_type: string
+          quiz_id: string
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          options?: string[]
+          points?: number
+          position?: number
+          prompt: string
+          question_type: string
+          quiz_id: string
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          options?: string[]
+          points?: number
+          position?: number
+          prompt?: string
+          question_type?: string
+          quiz_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          course_id: string
           created_at: string
           description: string | null
-          difficulty: string | null
           id: string
-          image_url: string | null
-          is_approved: boolean | null
-          tags: string[] | null
+          lesson_id: string | null
+          pass_percent: number
+          required_for_completion: boolean
           title: string
           updated_at: string
-          uploader_email: string | null
-          uploader_id: string
         }
         Insert: {
-          access_type?: string
-          content_text?: string | null
-          content_type: string
-          content_url?: string | null
+          course_id: string
           created_at?: string
           description?: string | null
-          difficulty?: string | null
           id?: string
-          image_url?: string | null
-          is_approved?: boolean | null
-          tags?: string[] | null
+          lesson_id?: string | null
+          pass_percent?: number
+          required_for_completion?: boolean
           title: string
           updated_at?: string
-          uploader_email?: string | null
-          uploader_id: string
         }
         Update: {
-          access_type?: string
-          content_text?: string | null
-          content_type?: string
-          content_url?: string | null
+          course_id?: string
           created_at?: string
           description?: string | null
-          difficulty?: string | null
           id?: string
-          image_url?: string | null
-          is_approved?: boolean | null
-          tags?: string[] | null
+          lesson_id?: string | null
+          pass_percent?: number
+          required_for_completion?: boolean
           title?: string
           updated_at?: string
-          uploader_email?: string | null
-          uploader_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_courses_uploader_profiles"
-            columns: ["uploader_id"]
+            foreignKeyName: "quizzes_course_id_fkey"
+            columns: ["course_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quizzes_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      reading_progress: {
         Row: {
-          avatar_url: string | null
-          completed: number | null
-          created_at: string
-          enrolled: number | null
-          full_name: string | null
+          course_id: string
           id: string
+          last_page: number
+          lesson_id: string | null
+          page_count: number | null
+          pages_viewed: number[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          id?: string
+          last_page?: number
+          lesson_id?: string | null
+          page_count?: number | null
+          pages_viewed?: number[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          id?: string
+          last_page?: number
+          lesson_id?: string | null
+          page_count?: number | null
+          pages_viewed?: number[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_progress_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reading_progress_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_votes: {
+        Row: {
+          created_at: string
+          review_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          review_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "course_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_capabilities: {
+        Row: {
+          capability: string
           role: string
+        }
+        Insert: {
+          capability: string
+          role: string
+        }
+        Update: {
+          capability?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          cancel_at_period_end: boolean
+          created_at: string
+          current_period_end: string | null
+          id: string
+          plan: string
+          provider_customer_id: string | null
+          provider_subscription_id: string
+          seats: number
+          status: string
           updated_at: string
-          uploads: number | null
           user_id: string
         }
         Insert: {
-          avatar_url?: string | null
-          completed?: number | null
+          cancel_at_period_end?: boolean
           created_at?: string
-          enrolled?: number | null
-          full_name?: string | null
+          current_period_end?: string | null
           id?: string
-          role?: string
+          plan: string
+          provider_customer_id?: string | null
+          provider_subscription_id: string
+          seats?: number
+          status: string
           updated_at?: string
-          uploads?: number | null
           user_id: string
         }
         Update: {
-          avatar_url?: string | null
-          completed?: number | null
+          cancel_at_period_end?: boolean
           created_at?: string
-          enrolled?: number | null
-          full_name?: string | null
+          current_period_end?: string | null
           id?: string
-          role?: string
+          plan?: string
+          provider_customer_id?: string | null
+          provider_subscription_id?: string
+          seats?: number
+          status?: string
           updated_at?: string
-          uploads?: number | null
           user_id?: string
         }
         Relationships: []
       }
+      upload_limits: {
+        Row: {
+          kind: string
+          max_bytes: number
+          role: string
+        }
+        Insert: {
+          kind: string
+          max_bytes: number
+          role: string
+        }
+        Update: {
+          kind?: string
+          max_bytes?: number
+          role?: string
+        }
+        Relationships: []
+      }
       user_courses: {
         Row: {
           added_at: string
@@ -147,9 +1628,458 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      member_course_assignments: {
+        Row: {
+          course_id: string | null
+          due_at: string | null
+          organization_id: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_discussion_answer: {
+        Args: { target_thread_id: string; target_post_id?: string }
+        Returns: undefined
+      }
+      accept_organization_invite: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      authenticate_api_key: {
+        Args: { api_key_hash: string; requests_per_minute: number }
+        Returns: {
+          owner_id: string
+          key_scopes: string[]
+          requests_remaining: number
+          window_resets_at: string
+        }[]
+      }
+      can_add_course_to_library: {
+        Args: { course_uuid: string }
+        Returns: boolean
+      }
+      can_view_course_analytics: {
+        Args: { course_uuid: string }
+        Returns: boolean
+      }
+      can_post_discussion: {
+        Args: { course_uuid: string; user_uuid?: string }
+        Returns: boolean
+      }
+      can_view_learning_path: {
+        Args: { path_uuid: string }
+        Returns: boolean
+      }
+      claim_certificates: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      complete_learning_paths: {
+        Args: { user_uuid: string; path_uuid?: string }
+        Returns: undefined
+      }
+      create_api_key: {
+        Args: { key_name: string; key_scopes: string[] }
+        Returns: string
+      }
+      create_organization: {
+        Args: { organization_name: string }
+        Returns: string
+      }
+      enroll_learning_path: {
+        Args: { target_path_id: string }
+        Returns: number
+      }
+      get_assigned_courses: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          organization_id: string
+          organization_name: string
+          course_id: string
+          course_title: string
+          due_at: string | null
+          completed: boolean
+        }[]
+      }
+      get_assignment_report: {
+        Args: { target_organization_id: string }
+        Returns: {
+          course_id: string
+          course_title: string
+          user_id: string
+          learner_name: string | null
+          due_at: string | null
+          enrolled: boolean
+          completed: boolean
+          completed_at: string | null
+        }[]
+      }
+      get_category_counts: {
+        Args: {
+          search_text?: string
+          difficulty_filter?: string
+          content_type_filter?: string
+        }
+        Returns: {
+          category_id: string
+          course_count: number
+        }[]
+      }
+      get_course_daily_activity: {
+        Args: { target_course_id: string; days_back?: number }
+        Returns: {
+          day: string
+          enrollments: number
+          completions: number
+          views: number
+        }[]
+      }
+      get_course_funnel: {
+        Args: { target_course_id: string }
+        Returns: {
+          enrolled: number
+          started: number
+          halfway: number
+          completed: number
+        }[]
+      }
+      get_course_prerequisites: {
+        Args: { target_course_id: string }
+        Returns: {
+          course_id: string
+          title: string
+          access_type: string
+          difficulty: string
+          in_library: boolean
+          completed: boolean
+        }[]
+      }
+      get_course_progress: {
+        Args: { course_ids: string[] }
+        Returns: {
+          course_id: string
+          total_lessons: number
+          completed_lessons: number
+        }[]
+      }
+      get_creator_course_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          course_id: string
+          title: string
+          moderation_status: string
+          created_at: string
+          enrollments: number
+          completions: number
+          rating_average: number | null
+          rating_count: number
+          views: number
+          viewers: number
+        }[]
+      }
+      get_learning_activity: {
+        Args: { days_back?: number }
+        Returns: {
+          day: string
+          seconds: number
+          sessions: number
+          lessons_completed: number
+        }[]
+      }
+      get_learning_path_courses: {
+        Args: { target_path_id: string }
+        Returns: {
+          course_id: string
+          position: number
+          prerequisite_course_ids: string[]
+          title: string
+          description: string
+          image_url: string
+          content_type: string
+          access_type: string
+          difficulty: string
+          in_library: boolean
+          completed: boolean
+        }[]
+      }
+      get_learning_paths: {
+        Args: { target_path_id?: string; enrolled_only?: boolean }
+        Returns: {
+          id: string
+          title: string
+          description: string
+          author_id: string
+          author_name: string
+          is_published: boolean
+          updated_at: string
+          course_count: number
+          learner_count: number
+          enrolled: boolean
+          completed_count: number
+          completed_at: string
+        }[]
+      }
+      get_learning_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          current_streak: number
+          longest_streak: number
+          active_today: boolean
+          week_seconds: number
+          week_lessons: number
+          weekly_goal_minutes: number | null
+        }[]
+      }
+      get_lesson_dropoff: {
+        Args: { target_course_id: string }
+        Returns: {
+          lesson_id: string
+          lesson_title: string
+          module_title: string
+          lesson_number: number
+          completions: number
+          viewers: number
+        }[]
+      }
+      get_organization_invite: {
+        Args: { invite_token: string }
+        Returns: {
+          organization_id: string
+          organization_name: string
+          role: string
+          expires_at: string
+          member_count: number
+          seat_limit: number | null
+        }[]
+      }
+      grade_quiz_answer: {
+        Args: {
+          question_type: string
+          answer: Json
+          correct_options: number[]
+          accepted_answers: string[]
+        }
+        Returns: boolean
+      }
+      has_capability: {
+        Args: { capability_name: string; user_uuid?: string }
+        Returns: boolean
+      }
+      is_organization_member: {
+        Args: { org_uuid: string; user_uuid?: string }
+        Returns: boolean
+      }
+      issue_certificate: {
+        Args: { user_uuid: string; course_uuid: string }
+        Returns: undefined
+      }
+      issue_learning_path_certificate: {
+        Args: { user_uuid: string; path_uuid: string }
+        Returns: undefined
+      }
+      learner_today: {
+        Args: { user_uuid: string }
+        Returns: string
+      }
+      learning_days: {
+        Args: { user_uuid: string }
+        Returns: {
+          day: string
+          seconds: number
+          sessions: number
+          lessons_completed: number
+        }[]
+      }
+      learning_streaks: {
+        Args: { user_uuid: string }
+        Returns: {
+          first_day: string
+          last_day: string
+          length: number
+        }[]
+      }
+      merge_watched_buckets: {
+        Args: { current_buckets: number[]; new_buckets: number[] }
+        Returns: number[]
+      }
+      moderation_enabled: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      normalize_quiz_answer: {
+        Args: { question_type: string; answer: string }
+        Returns: string
+      }
+      notify_user: {
+        Args: {
+          user_uuid: string
+          notification_type: string
+          notification_title: string
+          notification_body?: string
+          notification_link?: string
+        }
+        Returns: undefined
+      }
+      organization_role: {
+        Args: { org_uuid: string; user_uuid?: string }
+        Returns: string
+      }
+      organization_seat_limit: {
+        Args: { org_uuid: string }
+        Returns: number
+      }
+      prerequisites_met: {
+        Args: { course_uuid: string; user_uuid?: string }
+        Returns: boolean
+      }
+      record_content_view: {
+        Args: { target_course_id: string; target_lesson_id?: string }
+        Returns: undefined
+      }
+      record_learning_time: {
+        Args: {
+          session_uuid: string
+          target_course_id: string
+          elapsed_seconds: number
+          client_time_zone: string
+          target_lesson_id?: string
+        }
+        Returns: undefined
+      }
+      refresh_course_stats: {
+        Args: { course_uuid: string }
+        Returns: undefined
+      }
+      reply_to_review: {
+        Args: { target_review_id: string; reply: string }
+        Returns: undefined
+      }
+      required_quizzes_passed: {
+        Args: { user_uuid: string; course_uuid: string }
+        Returns: boolean
+      }
+      save_media_progress: {
+        Args: {
+          target_course_id: string
+          position: number
+          duration: number
+          buckets: number[]
+          target_lesson_id?: string
+        }
+        Returns: number
+      }
+      save_reading_progress: {
+        Args: {
+          target_course_id: string
+          page: number
+          total_pages: number
+          target_lesson_id?: string
+        }
+        Returns: undefined
+      }
+      search_courses: {
+        Args: {
+          search_text?: string
+          difficulty_filter?: string
+          content_type_filter?: string
+          category_filter?: string
+          sort_by?: string
+          page_size?: number
+          cursor_rank?: number
+          cursor_created_at?: string
+          cursor_title?: string
+          cursor_id?: string
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          content_type: string
+          access_type: string
+          difficulty: string | null
+          tags: string[] | null
+          image_url: string | null
+          created_at: string
+          uploader_email: string | null
+          uploader_name: string | null
+          rank: number
+          title_highlight: string | null
+          description_snippet: string | null
+          rating_average: number | null
+          rating_count: number
+          enrollment_count: number
+          category_id: string | null
+          category_name: string | null
+          category_slug: string | null
+          prerequisite_gating: string
+          prerequisites_met: boolean
+        }[]
+      }
+      send_streak_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      set_course_prerequisites: {
+        Args: { target_course_id: string; prerequisite_ids: string[] }
+        Returns: undefined
+      }
+      set_learning_path_courses: {
+        Args: { target_path_id: string; steps: Json }
+        Returns: undefined
+      }
+      set_organization_member_role: {
+        Args: {
+          target_organization_id: string
+          target_user_id: string
+          new_role: string
+        }
+        Returns: undefined
+      }
+      set_weekly_goal: {
+        Args: { goal_minutes: number }
+        Returns: undefined
+      }
+      start_discussion_thread: {
+        Args: {
+          target_course_id: string
+          thread_title: string
+          thread_body: string
+          target_lesson_id?: string
+        }
+        Returns: string
+      }
+      submit_quiz_attempt: {
+        Args: { target_quiz_id: string; answers: Json }
+        Returns: {
+          answers: Json
+          id: string
+          max_score: number
+          passed: boolean
+          quiz_id: string
+          score: number
+          score_percent: number
+          submitted_at: string
+          user_id: string
+        }
+      }
+      sync_profile_role: {
+        Args: { user_uuid: string }
+        Returns: undefined
+      }
+      top_premium_courses: {
+        Args: { max_results?: number }
+        Returns: {
+          id: string
+          title: string
+          image_url: string | null
+          uploader_name: string
+          rating_average: number | null
+          rating_count: number
+          enrollment_count: number
+        }[]
+      }
       update_course_uploader_emails: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -158,6 +2088,23 @@ export type Database = {
         Args: { user_uuid: string }
         Returns: undefined
       }
+      upload_kind: {
+        Args: { bucket: string; mime_type: string }
+        Returns: string
+      }
+      verify_certificate: {
+        Args: { certificate_id: string }
+        Returns: {
+          id: string
+          course_id: string
+          learning_path_id: string
+          recipient_name: string
+          course_title: string
+          uploader_name: string
+          completed_at: string
+          issued_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Scopes are mirrored by the api_keys table check and the api-v1 function; keep all three in sync
+export type ApiScope = 'catalog:read' | 'library:read' | 'courses:write';
+
+export const API_SCOPES: Record<ApiScope, { label: string; description: string }> = {
+  'catalog:read': {
+    label: 'Read the catalogue',
+    description: 'List, search and open courses you can see in the app',
+  },
+  'library:read': {
+    label: 'Read your library',
+    description: 'Your saved courses and lesson progress',
+  },
+  'courses:write': {
+    label: 'Manage your uploads',
+    description: 'List, create and update the courses you upload',
+  },
+};
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiScope[];
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-v1`;
+
+export const API_DOCS_URL = `${API_BASE_URL}/openapi.json`;
+
+export const fetchApiKeys = async (userId: string): Promise<ApiKey[]> => {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, name, key_prefix, scopes, last_used_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ApiKey[];
+};
+
+// Returns the full key; only its hash is stored, so it cannot be shown again
+export const createApiKey = async (name: string, scopes: ApiScope[]): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_api_key', { key_name: name, key_scopes: scopes });
+  if (error) throw error;
+  return data;
+};
+
+export const revokeApiKey = async (keyId: string) => {
+  const { error } = await supabase
+    .from('api_keys')
+    .delete()
+    .eq('id', keyId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,170 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+
+export type AssignedCourse = Functions['get_assigned_courses']['Returns'][number];
+
+export type AssignmentReportRow = Functions['get_assignment_report']['Returns'][number];
+
+export interface CourseAssignment {
+  id: string;
+  course_id: string;
+  user_id: string | null;
+  group_id: string | null;
+  due_at: string | null;
+  created_at: string;
+  courses: { title: string } | null;
+}
+
+export interface AssignableCourse {
+  id: string;
+  title: string;
+  access_type: string;
+}
+
+export interface CourseCompletion {
+  course_id: string;
+  course_title: string;
+  assigned: number;
+  completed: number;
+  overdue: number;
+}
+
+export const isOverdue = (dueAt: string | null, completed: boolean, now = new Date()) =>
+  !completed && !!dueAt && new Date(dueAt) < now;
+
+export const formatDueDate = (dueAt: string) =>
+  new Date(dueAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// A date input value is a calendar day; the assignment is due at the end of it, local time
+export const dueDateToTimestamp = (date: string): string | null =>
+  date ? new Date(`${date}T23:59:59`).toISOString() : null;
+
+export const fetchAssignedCourses = async (): Promise<AssignedCourse[]> => {
+  const { data, error } = await supabase.rpc('get_assigned_courses');
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchAssignments = async (organizationId: string): Promise<CourseAssignment[]> => {
+  const { data, error } = await supabase
+    .from('course_assignments')
+    .select('id, course_id, user_id, group_id, due_at, created_at, courses(title)')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Courses every member can open: approved public courses and the organization's own
+export const fetchAssignableCourses = async (organizationId: string): Promise<AssignableCourse[]> => {
+  const { data, error } = await supabase
+    .from('courses')
+    .select('id, title, access_type')
+    .eq('is_approved', true)
+    .or(`access_type.eq.public,organization_id.eq.${organizationId}`)
+    .order('title');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createAssignment = async (
+  userId: string,
+  organizationId: string,
+  courseId: string,
+  assignee: { userId: string } | { groupId: string },
+  dueAt: string | null
+) => {
+  const { error } = await supabase
+    .from('course_assignments')
+    .insert([{
+      organization_id: organizationId,
+      course_id: courseId,
+      user_id: 'userId' in assignee ? assignee.userId : null,
+      group_id: 'groupId' in assignee ? assignee.groupId : null,
+      due_at: dueAt,
+      assigned_by: userId,
+    }]);
+
+  if (error) throw error;
+};
+
+// Learners keep the course in their library
+export const deleteAssignment = async (assignmentId: string) => {
+  const { error } = await supabase
+    .from('course_assignments')
+    .delete()
+    .eq('id', assignmentId);
+
+  if (error) throw error;
+};
+
+export const fetchAssignmentReport = async (organizationId: string): Promise<AssignmentReportRow[]> => {
+  const { data, error } = await supabase.rpc('get_assignment_report', { target_organization_id: organizationId });
+  if (error) throw error;
+  return data || [];
+};
+
+export const summarizeReport = (rows: AssignmentReportRow[], now = new Date()): CourseCompletion[] => {
+  const courses = new Map<string, CourseCompletion>();
+  for (const row of rows) {
+    const summary = courses.get(row.course_id) || {
+      course_id: row.course_id,
+      course_title: row.course_title,
+      assigned: 0,
+      completed: 0,
+      overdue: 0,
+    };
+    summary.assigned += 1;
+    if (row.completed) summary.completed += 1;
+    if (isOverdue(row.due_at, row.completed, now)) summary.overdue += 1;
+    courses.set(row.course_id, summary);
+  }
+  return [...courses.values()];
+};
+
+// Quotes where needed, and keeps names like "=SUM(...)" from running as spreadsheet formulas
+const csvCell = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// The local calendar day as YYYY-MM-DD, so a due date reads as the day picked in dueDateToTimestamp
+const csvDate = (value: string) => {
+  const date = new Date(value);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('-');
+};
+
+export const buildReportCsv = (rows: AssignmentReportRow[], now = new Date()): string => {
+  const header = ['Course', 'Learner', 'Due', 'Status', 'Completed at'];
+  const lines = rows.map(row => {
+    const status = row.completed
+      ? 'Completed'
+      : isOverdue(row.due_at, row.completed, now)
+        ? 'Overdue'
+        : row.enrolled ? 'In progress' : 'Removed from library';
+    return [
+      row.course_title,
+      row.learner_name || 'Anonymous',
+      row.due_at ? csvDate(row.due_at) : '',
+      status,
+      row.completed_at ? csvDate(row.completed_at) : '',
+    ].map(csvCell).join(',');
+  });
+  return [header.join(','), ...lines].join('\n');
+};
+
+export const downloadReportCsv = (organizationName: string, rows: AssignmentReportRow[]) => {
+  const blob = new Blob([buildReportCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${organizationName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-assignments.csv`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
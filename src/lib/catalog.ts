@@ -0,0 +1,139 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  Page,
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  nullableField,
+  textField,
+  timestampField,
+  uuidField,
+} from '@/lib/pagination';
+
+export type CatalogSort = 'relevance' | 'newest' | 'oldest' | 'title';
+
+export type CatalogCourse = Database['public']['Functions']['search_courses']['Returns'][number];
+
+export interface CatalogQuery {
+  search: string;
+  difficulty: string | null;
+  contentType: string | null;
+  // Includes the category's subcategories
+  categoryId: string | null;
+  sort: CatalogSort;
+  pageSize: number;
+  cursor: string | null;
+}
+
+const CATALOG_CURSOR = {
+  rank: nullableField((value) => typeof value === 'number' && Number.isFinite(value)),
+  created_at: timestampField,
+  title: textField,
+  id: uuidField,
+};
+
+// One page of the Browse catalogue; one extra row is requested to know whether more follow
+export const searchCourses = async (query: CatalogQuery): Promise<Page<CatalogCourse>> => {
+  const cursor = decodeCursor(query.cursor, CATALOG_CURSOR);
+  const { data, error } = await supabase.rpc('search_courses', {
+    search_text: query.search.trim() || null,
+    difficulty_filter: query.difficulty,
+    content_type_filter: query.contentType,
+    category_filter: query.categoryId,
+    sort_by: query.sort,
+    page_size: query.pageSize + 1,
+    cursor_rank: cursor?.rank as number,
+    cursor_created_at: cursor?.created_at as string,
+    cursor_title: cursor?.title as string,
+    cursor_id: cursor?.id as string,
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const items = rows.slice(0, query.pageSize);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > query.pageSize && last
+      ? encodeCursor({ rank: last.rank, created_at: last.created_at, title: last.title, id: last.id })
+      : null,
+    prevCursor: null,
+  };
+};
+
+export type LibrarySort = 'recent' | 'oldest';
+
+export interface LibraryQuery {
+  userId: string;
+  sort: LibrarySort;
+  pageSize: number;
+  after: string | null;
+  before: string | null;
+}
+
+const LIBRARY_SELECT = `
+  *,
+  courses(id, title, description, content_type, access_type, image_url, content_url, content_path, content_text)
+`;
+
+const libraryCursor = (row: { added_at: string; id: string }) =>
+  encodeCursor({ added_at: row.added_at, id: row.id });
+
+// One page of a user's library, navigable in both directions with after/before cursors
+export const fetchLibraryPage = async (query: LibraryQuery) => {
+  const ascending = query.sort === 'oldest';
+  const backwards = !!query.before;
+  const cursor = decodeCursor(query.before || query.after, { added_at: timestampField, id: uuidField });
+  const order = backwards ? !ascending : ascending;
+
+  let request = supabase
+    .from('user_courses')
+    .select(LIBRARY_SELECT)
+    .eq('user_id', query.userId);
+
+  if (cursor) {
+    request = request.or(keysetFilter('added_at', String(cursor.added_at), String(cursor.id), order));
+  }
+
+  const { data, error } = await request
+    .order('added_at', { ascending: order })
+    .order('id', { ascending: order })
+    .limit(query.pageSize + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const hasMore = rows.length > query.pageSize;
+  const items = rows.slice(0, query.pageSize);
+  if (backwards) items.reverse();
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const page: Page<(typeof items)[number]> = {
+    items,
+    nextCursor: last && (backwards || hasMore) ? libraryCursor(last) : null,
+    prevCursor: first && (backwards ? hasMore : !!cursor) ? libraryCursor(first) : null,
+  };
+  return page;
+};
+
+// Library totals come from head-only count queries so no rows are transferred
+export const fetchLibraryCounts = async (userId: string) => {
+  const [total, completed] = await Promise.all([
+    supabase
+      .from('user_courses')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId),
+    supabase
+      .from('user_courses')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('completed', true),
+  ]);
+
+  if (total.error) throw total.error;
+  if (completed.error) throw completed.error;
+  return { total: total.count || 0, completed: completed.count || 0 };
+};
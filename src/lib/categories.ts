@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Category = Tables<'categories'>;
+
+// A top-level category with its subcategories; the taxonomy is two levels deep
+export interface CategoryNode extends Category {
+  children: Category[];
+}
+
+export interface CategoryInput {
+  name: string;
+  slug: string;
+  description: string;
+  parentId: string | null;
+}
+
+export interface CategoryCountFilters {
+  search: string;
+  difficulty: string | null;
+  contentType: string | null;
+}
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const isValidSlug = (slug: string) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug);
+
+export const fetchCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Top-level categories in name order, each with its subcategories
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] =>
+  categories
+    .filter(category => !category.parent_id)
+    .map(category => ({
+      ...category,
+      children: categories.filter(child => child.parent_id === category.id),
+    }));
+
+export const findCategoryBySlug = (categories: Category[], slug: string | undefined) =>
+  slug ? categories.find(category => category.slug === slug) || null : null;
+
+// "Parent › Child" for subcategories, the plain name otherwise
+export const getCategoryLabel = (categories: Category[], category: Category) => {
+  const parent = category.parent_id ? categories.find(c => c.id === category.parent_id) : null;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+// Listed courses per category for the Browse facet; a category includes its subcategories
+export const fetchCategoryCounts = async (filters: CategoryCountFilters): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('get_category_counts', {
+    search_text: filters.search.trim() || null,
+    difficulty_filter: filters.difficulty,
+    content_type_filter: filters.contentType,
+  });
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.category_id, row.course_count]));
+};
+
+export const createCategory = async (input: CategoryInput) => {
+  const { error } = await supabase
+    .from('categories')
+    .insert([{
+      name: input.name.trim(),
+      slug: input.slug,
+      description: input.description.trim() || null,
+      parent_id: input.parentId,
+    }]);
+
+  if (error) throw error;
+};
+
+export const updateCategory = async (categoryId: string, input: CategoryInput) => {
+  const { error } = await supabase
+    .from('categories')
+    .update({
+      name: input.name.trim(),
+      slug: input.slug,
+      description: input.description.trim() || null,
+      parent_id: input.parentId,
+    })
+    .eq('id', categoryId);
+
+  if (error) throw error;
+};
+
+// Courses in a deleted category become uncategorized; categories with subcategories can't be deleted
+export const deleteCategory = async (categoryId: string) => {
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', categoryId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,128 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Certificate = Omit<Tables<'certificates'>, 'user_id'>;
+
+const CERTIFICATE_COLUMNS = 'id, course_id, learning_path_id, recipient_name, course_title, uploader_name, completed_at, issued_at';
+
+export const getCertificatePath = (certificateId: string) => `/certificates/${certificateId}`;
+
+export const getCertificateUrl = (certificateId: string) =>
+  `${window.location.origin}${getCertificatePath(certificateId)}`;
+
+// Public lookup, works signed out
+export const verifyCertificate = async (certificateId: string): Promise<Certificate | null> => {
+  const { data, error } = await supabase.rpc('verify_certificate', { certificate_id: certificateId });
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+export const fetchUserCertificates = async (userId: string): Promise<Certificate[]> => {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('user_id', userId)
+    .order('completed_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchCourseCertificate = async (userId: string, courseId: string): Promise<Certificate | null> => {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchLearningPathCertificate = async (userId: string, pathId: string): Promise<Certificate | null> => {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('learning_path_id', pathId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Issues certificates for courses and learning paths completed before the user's plan included them
+export const claimCertificates = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('claim_certificates');
+  if (error) throw error;
+  return data;
+};
+
+export const formatCertificateDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+
+// Greedy word wrap, SVG text does not wrap by itself
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+  }
+  return lines;
+};
+
+export const buildCertificateSvg = (certificate: Certificate): string => {
+  const titleLines = wrapText(certificate.course_title, 42, 3);
+  const titleTop = 500 - (titleLines.length - 1) * 26;
+  const title = titleLines
+    .map((line, index) => `<tspan x="600" y="${titleTop + index * 52}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="850" viewBox="0 0 1200 850" font-family="Georgia, 'Times New Roman', serif">
+  <defs>
+    <linearGradient id="accent" x1="0" y1="0" x2="1" y2="0">
+      <stop offset="0" stop-color="#2563eb"/>
+      <stop offset="1" stop-color="#9333ea"/>
+    </linearGradient>
+  </defs>
+  <rect width="1200" height="850" fill="#ffffff"/>
+  <rect x="30" y="30" width="1140" height="790" fill="none" stroke="url(#accent)" stroke-width="8"/>
+  <rect x="50" y="50" width="1100" height="750" fill="none" stroke="#e5e7eb" stroke-width="2"/>
+  <text x="600" y="150" text-anchor="middle" font-size="28" fill="#6b7280" letter-spacing="6">SKILLCY</text>
+  <text x="600" y="230" text-anchor="middle" font-size="56" fill="#111827">Certificate of Completion</text>
+  <text x="600" y="300" text-anchor="middle" font-size="24" fill="#6b7280">This certifies that</text>
+  <text x="600" y="370" text-anchor="middle" font-size="48" fill="url(#accent)" font-weight="bold">${escapeXml(certificate.recipient_name)}</text>
+  <text x="600" y="420" text-anchor="middle" font-size="24" fill="#6b7280">has successfully completed${certificate.learning_path_id ? ' the learning path' : ''}</text>
+  <text text-anchor="middle" font-size="40" fill="#111827">${title}</text>
+  ${certificate.uploader_name
+    ? `<text x="600" y="${titleTop + titleLines.length * 52 + 20}" text-anchor="middle" font-size="22" fill="#6b7280">${certificate.learning_path_id ? 'curated' : 'taught'} by ${escapeXml(certificate.uploader_name)}</text>`
+    : ''}
+  <text x="600" y="680" text-anchor="middle" font-size="24" fill="#111827">Completed on ${escapeXml(formatCertificateDate(certificate.completed_at))}</text>
+  <text x="600" y="750" text-anchor="middle" font-size="16" fill="#9ca3af" font-family="monospace">Certificate ID ${certificate.id}</text>
+  <text x="600" y="775" text-anchor="middle" font-size="16" fill="#9ca3af" font-family="monospace">Verify at ${escapeXml(getCertificateUrl(certificate.id))}</text>
+</svg>`;
+};
+
+export const downloadCertificate = (certificate: Certificate) => {
+  const blob = new Blob([buildCertificateSvg(certificate)], { type: 'image/svg+xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `certificate-${certificate.course_title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.svg`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Lesson = Tables<'lessons'>;
+
+export interface CourseModule extends Tables<'course_modules'> {
+  lessons: Lesson[];
+}
+
+// Fetch the modules of a course with their lessons, both in display order
+export const fetchCourseOutline = async (courseId: string): Promise<CourseModule[]> => {
+  const { data, error } = await supabase
+    .from('course_modules')
+    .select('*, lessons(*)')
+    .eq('course_id', courseId)
+    .order('position', { ascending: true })
+    .order('position', { referencedTable: 'lessons', ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(module => ({ ...module, lessons: module.lessons || [] }));
+};
+
+export const getOutlineLessons = (modules: CourseModule[]): Lesson[] =>
+  modules.flatMap(module => module.lessons);
+
+export const getTotalDuration = (lessons: Lesson[]): number =>
+  lessons.reduce((total, lesson) => total + (lesson.duration_minutes || 0), 0);
+
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}min` : `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+
+export type CoursePrerequisite = Functions['get_course_prerequisites']['Returns'][number];
+
+export type PrerequisiteGating = 'soft' | 'hard';
+
+export interface PrerequisiteCandidate {
+  id: string;
+  title: string;
+  access_type: string;
+}
+
+export const PREREQUISITE_GATING_OPTIONS: { value: PrerequisiteGating; label: string; description: string }[] = [
+  {
+    value: 'soft',
+    label: 'Recommended',
+    description: 'Learners see a warning but can still add the course to their library.',
+  },
+  {
+    value: 'hard',
+    label: 'Required',
+    description: 'Learners can only add the course once every prerequisite is completed.',
+  },
+];
+
+export const MAX_PREREQUISITES = 10;
+
+// Hard gating only blocks learners with unfinished prerequisites; uploaders can always add their course
+export const isLibraryLocked = (
+  gating: string,
+  prerequisites: CoursePrerequisite[],
+  isUploader: boolean,
+) => gating === 'hard' && !isUploader && prerequisites.some(prerequisite => !prerequisite.completed);
+
+export const fetchCoursePrerequisites = async (courseId: string): Promise<CoursePrerequisite[]> => {
+  const { data, error } = await supabase.rpc('get_course_prerequisites', { target_course_id: courseId });
+  if (error) throw error;
+  return data || [];
+};
+
+// Listed public and premium courses other than the course itself
+export const fetchPrerequisiteCandidates = async (courseId: string): Promise<PrerequisiteCandidate[]> => {
+  const { data, error } = await supabase
+    .from('courses')
+    .select('id, title, access_type')
+    .eq('is_approved', true)
+    .in('access_type', ['public', 'premium'])
+    .neq('id', courseId)
+    .order('title');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Replaces the course's prerequisites in the given order; the server rejects cycles
+export const setCoursePrerequisites = async (courseId: string, prerequisiteIds: string[]) => {
+  const { error } = await supabase.rpc('set_course_prerequisites', {
+    target_course_id: courseId,
+    prerequisite_ids: prerequisiteIds,
+  });
+
+  if (error) throw error;
+};
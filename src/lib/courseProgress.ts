@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LessonCounts {
+  totalLessons: number;
+  completedLessons: number;
+}
+
+// Lesson counts for the signed-in user, keyed by course id
+export const fetchCourseProgress = async (courseIds: string[]): Promise<Record<string, LessonCounts>> => {
+  if (courseIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_course_progress', { course_ids: courseIds });
+  if (error) throw error;
+
+  const progress: Record<string, LessonCounts> = {};
+  (data || []).forEach(row => {
+    progress[row.course_id] = {
+      totalLessons: row.total_lessons,
+      completedLessons: row.completed_lessons,
+    };
+  });
+  return progress;
+};
+
+// A course marked completed is always 100%, courses without lessons have nothing to count
+export const getProgressPercent = (counts: LessonCounts | undefined, courseCompleted: boolean): number => {
+  if (courseCompleted) return 100;
+  if (!counts || counts.totalLessons === 0) return 0;
+  return Math.round((counts.completedLessons / counts.totalLessons) * 100);
+};
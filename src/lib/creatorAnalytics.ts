@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+
+export type CreatorCourseStats = Functions['get_creator_course_stats']['Returns'][number];
+
+export type DailyActivity = Functions['get_course_daily_activity']['Returns'][number];
+
+export type CourseFunnel = Functions['get_course_funnel']['Returns'][number];
+
+export type LessonDropoff = Functions['get_lesson_dropoff']['Returns'][number];
+
+export const ACTIVITY_RANGES = [30, 90, 365];
+
+export const EMPTY_FUNNEL: CourseFunnel = { enrolled: 0, started: 0, halfway: 0, completed: 0 };
+
+export const getCompletionRate = (completions: number, enrollments: number) =>
+  enrollments > 0 ? Math.round((completions / enrollments) * 100) : 0;
+
+// Counted once per learner, content and day on the server
+export const recordContentView = async (courseId: string, lessonId: string | null) => {
+  const { error } = await supabase.rpc('record_content_view', {
+    target_course_id: courseId,
+    target_lesson_id: lessonId ?? undefined,
+  });
+  if (error) throw error;
+};
+
+export const fetchCreatorCourseStats = async (): Promise<CreatorCourseStats[]> => {
+  const { data, error } = await supabase.rpc('get_creator_course_stats');
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchDailyActivity = async (courseId: string, days: number): Promise<DailyActivity[]> => {
+  const { data, error } = await supabase.rpc('get_course_daily_activity', {
+    target_course_id: courseId,
+    days_back: days,
+  });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchCourseFunnel = async (courseId: string): Promise<CourseFunnel> => {
+  const { data, error } = await supabase.rpc('get_course_funnel', { target_course_id: courseId });
+  if (error) throw error;
+  return data?.[0] || EMPTY_FUNNEL;
+};
+
+export const fetchLessonDropoff = async (courseId: string): Promise<LessonDropoff[]> => {
+  const { data, error } = await supabase.rpc('get_lesson_dropoff', { target_course_id: courseId });
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,177 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Author = { profiles: { full_name: string | null } | null };
+
+export type DiscussionThread = Tables<'discussion_threads'> & Author & {
+  // Posts besides the opening one
+  reply_count: number;
+};
+
+export type DiscussionPost = Tables<'discussion_posts'> & Author;
+
+export interface PostNode extends DiscussionPost {
+  replies: PostNode[];
+}
+
+// Threads and posts both point at each other, so the embeds name their relationship
+const THREAD_SELECT = `
+  *,
+  profiles!discussion_threads_user_id_fkey(full_name),
+  discussion_posts!discussion_posts_thread_id_fkey(count)
+`;
+
+// Course-level and lesson threads alike unless a lesson is given
+export const fetchThreads = async (courseId: string, lessonId?: string): Promise<DiscussionThread[]> => {
+  let query = supabase
+    .from('discussion_threads')
+    .select(THREAD_SELECT)
+    .eq('course_id', courseId);
+
+  if (lessonId) {
+    query = query.eq('lesson_id', lessonId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+
+  return (data || []).map(({ discussion_posts, ...thread }) => ({
+    ...thread,
+    reply_count: Math.max((discussion_posts[0]?.count || 0) - 1, 0),
+  }));
+};
+
+export const fetchThread = async (threadId: string): Promise<DiscussionThread | null> => {
+  const { data, error } = await supabase
+    .from('discussion_threads')
+    .select(THREAD_SELECT)
+    .eq('id', threadId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const { discussion_posts, ...thread } = data;
+  return { ...thread, reply_count: Math.max((discussion_posts[0]?.count || 0) - 1, 0) };
+};
+
+export const fetchThreadPosts = async (threadId: string): Promise<DiscussionPost[]> => {
+  const { data, error } = await supabase
+    .from('discussion_posts')
+    .select('*, profiles(full_name)')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Nests replies under the post they answer. Returns the opening post, whose replies are
+// the thread's answers; the accepted answer comes first, then the most upvoted.
+export const buildPostTree = (posts: DiscussionPost[], acceptedPostId: string | null): PostNode | null => {
+  const nodes = new Map<string, PostNode>(posts.map(post => [post.id, { ...post, replies: [] }]));
+  let opening: PostNode | null = null;
+
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else if (!node.parent_id) {
+      opening = node;
+    }
+  }
+
+  opening?.replies.sort((a, b) =>
+    Number(b.id === acceptedPostId) - Number(a.id === acceptedPostId) ||
+    b.upvote_count - a.upvote_count ||
+    a.created_at.localeCompare(b.created_at)
+  );
+  return opening;
+};
+
+// Creates the thread with its opening post and returns the thread id
+export const startThread = async (
+  courseId: string,
+  lessonId: string | null,
+  title: string,
+  body: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('start_discussion_thread', {
+    target_course_id: courseId,
+    thread_title: title.trim(),
+    thread_body: body.trim(),
+    target_lesson_id: lessonId ?? undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const replyToPost = async (userId: string, threadId: string, parentId: string, body: string) => {
+  const { error } = await supabase
+    .from('discussion_posts')
+    .insert([{ user_id: userId, thread_id: threadId, parent_id: parentId, body: body.trim() }]);
+
+  if (error) throw error;
+};
+
+export const editPost = async (postId: string, body: string) => {
+  const { error } = await supabase
+    .from('discussion_posts')
+    .update({ body: body.trim() })
+    .eq('id', postId);
+
+  if (error) throw error;
+};
+
+// Authors delete by blanking the post, so the replies beneath it stay readable
+export const deletePost = async (postId: string) => {
+  const { error } = await supabase
+    .from('discussion_posts')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', postId);
+
+  if (error) throw error;
+};
+
+// Uploaders and moderators remove a post together with its replies
+export const removePost = async (postId: string) => {
+  const { error } = await supabase.from('discussion_posts').delete().eq('id', postId);
+  if (error) throw error;
+};
+
+export const deleteThread = async (threadId: string) => {
+  const { error } = await supabase.from('discussion_threads').delete().eq('id', threadId);
+  if (error) throw error;
+};
+
+export const fetchUpvotedPostIds = async (userId: string, postIds: string[]): Promise<Set<string>> => {
+  if (postIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('discussion_votes')
+    .select('post_id')
+    .eq('user_id', userId)
+    .in('post_id', postIds);
+
+  if (error) throw error;
+  return new Set(data?.map(vote => vote.post_id) || []);
+};
+
+export const setPostUpvote = async (userId: string, postId: string, upvoted: boolean) => {
+  const { error } = upvoted
+    ? await supabase.from('discussion_votes').insert([{ user_id: userId, post_id: postId }])
+    : await supabase.from('discussion_votes').delete().eq('user_id', userId).eq('post_id', postId);
+
+  if (error) throw error;
+};
+
+// Passing null clears the accepted answer
+export const acceptAnswer = async (threadId: string, postId: string | null) => {
+  const { error } = await supabase.rpc('accept_discussion_answer', {
+    target_thread_id: threadId,
+    target_post_id: postId ?? undefined,
+  });
+
+  if (error) throw error;
+};
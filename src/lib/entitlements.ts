@@ -0,0 +1,131 @@
+// Roles and the capabilities they grant. The database mirrors this mapping in
+// public.role_capabilities (see the entitlements migration); keep both in sync.
+
+export type Role = 'user' | 'premium' | 'pro' | 'admin';
+
+export const CAPABILITY_LABELS = {
+  view_public_courses: 'Access to public courses',
+  basic_progress_tracking: 'Basic progress tracking',
+  community_discussions: 'Community discussions',
+  mobile_access: 'Mobile app access',
+  view_premium_courses: 'Access to premium courses',
+  advanced_progress_analytics: 'Advanced progress analytics',
+  priority_support: 'Priority support',
+  offline_downloads: 'Offline downloads',
+  certificates: 'Certificates of completion',
+  upload_premium_courses: 'Premium course uploads',
+  unlimited_course_creation: 'Unlimited course creation',
+  creator_analytics: 'Advanced analytics dashboard',
+  team_collaboration: 'Team collaboration tools',
+  white_label: 'White-label options',
+  api_access: 'API access',
+  account_manager: 'Dedicated account manager',
+  moderate_courses: 'Course moderation',
+  manage_categories: 'Category management',
+  manage_learning_paths: 'Learning path management',
+} as const;
+
+export type Capability = keyof typeof CAPABILITY_LABELS;
+
+const FREE_CAPABILITIES: Capability[] = [
+  'view_public_courses',
+  'basic_progress_tracking',
+  'community_discussions',
+  'mobile_access',
+];
+
+const PREMIUM_CAPABILITIES: Capability[] = [
+  ...FREE_CAPABILITIES,
+  'view_premium_courses',
+  'advanced_progress_analytics',
+  'priority_support',
+  'offline_downloads',
+  'certificates',
+  'upload_premium_courses',
+];
+
+const PRO_CAPABILITIES: Capability[] = [
+  ...PREMIUM_CAPABILITIES,
+  'unlimited_course_creation',
+  'creator_analytics',
+  'team_collaboration',
+  'white_label',
+  'api_access',
+  'account_manager',
+];
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  user: FREE_CAPABILITIES,
+  premium: PREMIUM_CAPABILITIES,
+  pro: PRO_CAPABILITIES,
+  admin: Object.keys(CAPABILITY_LABELS) as Capability[],
+};
+
+export const isRole = (role: unknown): role is Role =>
+  typeof role === 'string' && role in ROLE_CAPABILITIES;
+
+export const hasCapability = (role: Role | null | undefined, capability: Capability): boolean =>
+  !!role && ROLE_CAPABILITIES[role].includes(capability);
+
+export interface PlanDefinition {
+  id: 'free' | 'premium' | 'pro';
+  role: Role;
+  name: string;
+  price: string;
+  period: string;
+  description: string;
+  cta: string;
+  popular?: boolean;
+}
+
+export const PLANS: PlanDefinition[] = [
+  {
+    id: 'free',
+    role: 'user',
+    name: 'Free',
+    price: '$0',
+    period: 'forever',
+    description: 'Perfect for getting started',
+    cta: 'Current Plan',
+  },
+  {
+    id: 'premium',
+    role: 'premium',
+    name: 'Premium',
+    price: '$9.99',
+    period: 'month',
+    description: 'Best for serious learners',
+    cta: 'Upgrade to Premium',
+    popular: true,
+  },
+  {
+    id: 'pro',
+    role: 'pro',
+    name: 'Pro',
+    price: '$19.99',
+    period: 'month',
+    description: 'For professionals and teams',
+    cta: 'Go Pro',
+  },
+];
+
+export const getPlanForRole = (role: Role | null | undefined): PlanDefinition | undefined =>
+  PLANS.find(plan => plan.role === role);
+
+// Feature list for a plan: what the previous tier already had is summarised in one line
+export const getPlanFeatures = (plan: PlanDefinition): string[] => {
+  const index = PLANS.indexOf(plan);
+  const capabilities = ROLE_CAPABILITIES[plan.role];
+  if (index <= 0) {
+    return capabilities.map(capability => CAPABILITY_LABELS[capability]);
+  }
+
+  const previous = PLANS[index - 1];
+  const inherited = ROLE_CAPABILITIES[previous.role];
+  return [
+    `All ${previous.name.toLowerCase()} features`,
+    ...capabilities
+      .filter(capability => !inherited.includes(capability))
+      .map(capability => CAPABILITY_LABELS[capability]),
+  ];
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+
+export type LearningSummary = Functions['get_learning_summary']['Returns'][number];
+
+export type LearningDay = Functions['get_learning_activity']['Returns'][number];
+
+export const EMPTY_LEARNING_SUMMARY: LearningSummary = {
+  current_streak: 0,
+  longest_streak: 0,
+  active_today: false,
+  week_seconds: 0,
+  week_lessons: 0,
+  weekly_goal_minutes: null,
+};
+
+// Active time is reported this often while a course is open
+export const HEARTBEAT_SECONDS = 60;
+
+// The heatmap covers a full year of weeks
+export const HEATMAP_DAYS = 371;
+
+export const WEEKLY_GOAL_OPTIONS = [30, 60, 120, 180, 300, 420, 600];
+
+export const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const toMinutes = (seconds: number) => Math.round(seconds / 60);
+
+// Share of the weekly goal reached, 0 when no goal is set
+export const getGoalPercent = (summary: LearningSummary): number => {
+  if (!summary.weekly_goal_minutes) return 0;
+  return Math.min(Math.round((toMinutes(summary.week_seconds) / summary.weekly_goal_minutes) * 100), 100);
+};
+
+export const recordLearningTime = async (
+  sessionId: string,
+  courseId: string,
+  lessonId: string | null,
+  seconds: number
+) => {
+  const { error } = await supabase.rpc('record_learning_time', {
+    session_uuid: sessionId,
+    target_course_id: courseId,
+    target_lesson_id: lessonId ?? undefined,
+    elapsed_seconds: seconds,
+    client_time_zone: getTimeZone(),
+  });
+  if (error) throw error;
+};
+
+export const fetchLearningSummary = async (): Promise<LearningSummary> => {
+  const { data, error } = await supabase.rpc('get_learning_summary');
+  if (error) throw error;
+  return data?.[0] || EMPTY_LEARNING_SUMMARY;
+};
+
+export const fetchLearningActivity = async (days = HEATMAP_DAYS): Promise<LearningDay[]> => {
+  const { data, error } = await supabase.rpc('get_learning_activity', { days_back: days });
+  if (error) throw error;
+  return data || [];
+};
+
+export const setWeeklyGoal = async (minutes: number | null) => {
+  const { error } = await supabase.rpc('set_weekly_goal', { goal_minutes: minutes });
+  if (error) throw error;
+};
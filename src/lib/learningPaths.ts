@@ -0,0 +1,138 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+
+export type LearningPathSummary = Functions['get_learning_paths']['Returns'][number];
+
+export type LearningPathCourse = Functions['get_learning_path_courses']['Returns'][number];
+
+export interface LearningPathInput {
+  title: string;
+  description: string;
+  isPublished: boolean;
+}
+
+// One course of a path as edited in LearningPathEditor
+export interface LearningPathStep {
+  course_id: string;
+  title: string;
+  prerequisite_course_ids: string[];
+}
+
+export interface PathableCourse {
+  id: string;
+  title: string;
+  access_type: string;
+}
+
+export const MAX_PATH_COURSES = 50;
+
+export const getPathProgressPercent = (path: Pick<LearningPathSummary, 'course_count' | 'completed_count'>) =>
+  path.course_count > 0 ? Math.round((path.completed_count / path.course_count) * 100) : 0;
+
+// Titles of the prerequisites of a path course that the viewer has not completed yet
+export const getOpenPrerequisites = (course: LearningPathCourse, courses: LearningPathCourse[]) =>
+  courses
+    .filter(other => course.prerequisite_course_ids.includes(other.course_id) && !other.completed)
+    .map(other => other.title);
+
+export const fetchLearningPaths = async (enrolledOnly = false): Promise<LearningPathSummary[]> => {
+  const { data, error } = await supabase.rpc('get_learning_paths', { enrolled_only: enrolledOnly });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchLearningPath = async (pathId: string): Promise<LearningPathSummary | null> => {
+  const { data, error } = await supabase.rpc('get_learning_paths', { target_path_id: pathId });
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+export const fetchLearningPathCourses = async (pathId: string): Promise<LearningPathCourse[]> => {
+  const { data, error } = await supabase.rpc('get_learning_path_courses', { target_path_id: pathId });
+  if (error) throw error;
+  return data || [];
+};
+
+// Listed public and premium courses the author can see; organization courses can't be in a path
+export const fetchPathableCourses = async (): Promise<PathableCourse[]> => {
+  const { data, error } = await supabase
+    .from('courses')
+    .select('id, title, access_type')
+    .eq('is_approved', true)
+    .in('access_type', ['public', 'premium'])
+    .order('title');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createLearningPath = async (userId: string, input: LearningPathInput): Promise<string> => {
+  const { data, error } = await supabase
+    .from('learning_paths')
+    .insert([{
+      author_id: userId,
+      title: input.title.trim(),
+      description: input.description.trim() || null,
+      is_published: input.isPublished,
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const updateLearningPath = async (pathId: string, input: LearningPathInput) => {
+  const { error } = await supabase
+    .from('learning_paths')
+    .update({
+      title: input.title.trim(),
+      description: input.description.trim() || null,
+      is_published: input.isPublished,
+    })
+    .eq('id', pathId);
+
+  if (error) throw error;
+};
+
+export const deleteLearningPath = async (pathId: string) => {
+  const { error } = await supabase
+    .from('learning_paths')
+    .delete()
+    .eq('id', pathId);
+
+  if (error) throw error;
+};
+
+// Replaces the path's courses; the server checks the order of the prerequisites
+export const setLearningPathCourses = async (pathId: string, steps: LearningPathStep[]) => {
+  const { error } = await supabase.rpc('set_learning_path_courses', {
+    target_path_id: pathId,
+    steps: steps.map(step => ({
+      course_id: step.course_id,
+      prerequisite_course_ids: step.prerequisite_course_ids,
+    })),
+  });
+
+  if (error) throw error;
+};
+
+// Returns how many courses were added to the library
+export const enrollLearningPath = async (pathId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('enroll_learning_path', { target_path_id: pathId });
+  if (error) throw error;
+  return data;
+};
+
+// The path's courses stay in the library
+export const leaveLearningPath = async (userId: string, pathId: string) => {
+  const { error } = await supabase
+    .from('learning_path_enrollments')
+    .delete()
+    .eq('path_id', pathId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,38 @@
+import GithubSlugger from 'github-slugger';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toString } from 'mdast-util-to-string';
+import { defaultSchema } from 'rehype-sanitize';
+import type { Options as SanitizeSchema } from 'rehype-sanitize';
+
+export interface MarkdownHeading {
+  depth: number;
+  id: string;
+  text: string;
+}
+
+// Headings for the table of contents. Ids are generated the same way rehype-slug
+// generates them on the rendered headings, so the links line up.
+export const extractHeadings = (markdown: string, maxDepth = 3): MarkdownHeading[] => {
+  const slugger = new GithubSlugger();
+  const headings: MarkdownHeading[] = [];
+
+  fromMarkdown(markdown).children.forEach((node) => {
+    if (node.type !== 'heading') return;
+    const text = toString(node);
+    const id = slugger.slug(text);
+    if (node.depth <= maxDepth) {
+      headings.push({ depth: node.depth, id, text });
+    }
+  });
+  return headings;
+};
+
+// GitHub's sanitizing rules, plus the classes remark-math puts on formulas so
+// rehype-katex can still find them after sanitizing
+export const markdownSanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Watched coverage is tracked in 100 buckets of 1% each; the database completes the
+// lesson or course once VIDEO_COMPLETION_PERCENT of them have been played
+export const WATCHED_BUCKET_COUNT = 100;
+export const VIDEO_COMPLETION_PERCENT = 90;
+
+export interface MediaProgress {
+  positionSeconds: number;
+  durationSeconds: number | null;
+  watchedBuckets: number[];
+  watchedPercent: number;
+}
+
+export const fetchMediaProgress = async (
+  userId: string,
+  courseId: string,
+  lessonId: string | null
+): Promise<MediaProgress | null> => {
+  let query = supabase
+    .from('media_progress')
+    .select('position_seconds, duration_seconds, watched_buckets, watched_percent')
+    .eq('user_id', userId)
+    .eq('course_id', courseId);
+  query = lessonId ? query.eq('lesson_id', lessonId) : query.is('lesson_id', null);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    positionSeconds: data.position_seconds,
+    durationSeconds: data.duration_seconds,
+    watchedBuckets: data.watched_buckets,
+    watchedPercent: data.watched_percent,
+  };
+};
+
+// Returns the watched percentage after merging the new buckets
+export const saveMediaProgress = async (
+  courseId: string,
+  lessonId: string | null,
+  positionSeconds: number,
+  durationSeconds: number,
+  buckets: number[]
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('save_media_progress', {
+    target_course_id: courseId,
+    target_lesson_id: lessonId ?? undefined,
+    position: positionSeconds,
+    duration: durationSeconds,
+    buckets,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Buckets covered by playing from one time to another
+export const getBucketsBetween = (from: number, to: number, duration: number): number[] => {
+  if (duration <= 0 || to < from) return [];
+  const toBucket = (time: number) =>
+    Math.min(WATCHED_BUCKET_COUNT - 1, Math.max(0, Math.floor((time / duration) * WATCHED_BUCKET_COUNT)));
+
+  const buckets: number[] = [];
+  for (let bucket = toBucket(from); bucket <= toBucket(to); bucket++) {
+    buckets.push(bucket);
+  }
+  return buckets;
+};
@@ -0,0 +1,106 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Notification types and what they cover. The database mirrors these in the
+// notifications migration; keep both in sync.
+export const NOTIFICATION_TYPES = {
+  discussion_reply: {
+    label: 'Discussion replies',
+    description: 'Someone replies to one of your discussion posts',
+  },
+  course_moderation: {
+    label: 'Course reviews by moderators',
+    description: 'A course you uploaded is approved or rejected',
+  },
+  course_review: {
+    label: 'Reviews of your courses',
+    description: 'A learner reviews a course you uploaded',
+  },
+  course_updated: {
+    label: 'Course updates',
+    description: 'A course in your library gets new or changed content',
+  },
+  streak_reminder: {
+    label: 'Streak reminders',
+    description: 'Your learning streak ends tonight unless you learn something today',
+  },
+} as const;
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+export type Notification = Tables<'notifications'>;
+
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export const isNotificationType = (value: string): value is NotificationType => value in NOTIFICATION_TYPES;
+
+export const fetchNotifications = async (userId: string, limit = 20): Promise<Notification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchUnreadCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+export const markNotificationRead = async (notificationId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (userId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
+
+// Every type is on until the user turns it off
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('type, enabled')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const preferences = Object.fromEntries(
+    Object.keys(NOTIFICATION_TYPES).map(type => [type, true])
+  ) as NotificationPreferences;
+  for (const row of data || []) {
+    if (isNotificationType(row.type)) {
+      preferences[row.type] = row.enabled;
+    }
+  }
+  return preferences;
+};
+
+export const setNotificationPreference = async (userId: string, type: NotificationType, enabled: boolean) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert([{ user_id: userId, type, enabled }], { onConflict: 'user_id,type' });
+
+  if (error) throw error;
+};
@@ -0,0 +1,222 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CourseModule, fetchCourseOutline } from '@/lib/courseOutline';
+import { getContentUrl } from '@/lib/storage';
+
+// public/sw.js serves everything under /offline/ from this cache; keep both in sync
+const OFFLINE_CACHE = 'skillcy-offline-courses';
+const INDEX_KEY = 'skillcy-offline-downloads';
+
+// Downloads stop opening once the plan has not been confirmed online for this long
+export const OFFLINE_GRACE_DAYS = 30;
+
+export interface OfflineCourse {
+  id: string;
+  title: string;
+  description: string | null;
+  content_type: string;
+  // Uploaded files point at their downloaded copy under /offline/files/
+  content_url: string | null;
+  content_text: string | null;
+  access_type: string;
+  difficulty: string | null;
+  tags: string[] | null;
+  image_url: string | null;
+  uploader_id: string;
+  uploader_name: string | null;
+}
+
+export interface OfflinePackage {
+  course: OfflineCourse;
+  modules: CourseModule[];
+}
+
+export interface DownloadEntry {
+  courseId: string;
+  title: string;
+  bytes: number;
+  downloadedAt: string;
+}
+
+interface DownloadIndex {
+  userId: string;
+  // Last time the server confirmed the offline_downloads capability
+  verifiedAt: string;
+  courses: Record<string, DownloadEntry>;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const packageUrl = (courseId: string) => `/offline/courses/${courseId}.json`;
+const fileUrl = (courseId: string) => `/offline/files/${courseId}`;
+
+export const isOfflineSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'caches' in window;
+
+export const registerServiceWorker = () => {
+  if (!isOfflineSupported()) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+};
+
+const readIndex = (): DownloadIndex | null => {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeIndex = (index: DownloadIndex) => localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+
+const isExpired = (index: DownloadIndex, now = new Date()) =>
+  now.getTime() - new Date(index.verifiedAt).getTime() > OFFLINE_GRACE_DAYS * 24 * 60 * 60 * 1000;
+
+// Downloads of another account, or past the grace period, are never returned
+const readUserIndex = (userId: string): DownloadIndex | null => {
+  const index = readIndex();
+  return index && index.userId === userId && !isExpired(index) ? index : null;
+};
+
+export const clearDownloads = async () => {
+  localStorage.removeItem(INDEX_KEY);
+  if (isOfflineSupported()) {
+    await caches.delete(OFFLINE_CACHE);
+  }
+};
+
+export const listDownloads = (userId: string): DownloadEntry[] =>
+  Object.values(readUserIndex(userId)?.courses || {})
+    .sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt));
+
+/**
+ * Re-checks the plan while online. Downloads are deleted when the plan no longer
+ * includes them, when they belong to another account or when the grace period ran out.
+ * Returns whether anything was deleted.
+ */
+export const syncDownloads = async (userId: string): Promise<boolean> => {
+  const index = readIndex();
+  if (!index) return false;
+
+  if (index.userId !== userId || isExpired(index)) {
+    await clearDownloads();
+    return true;
+  }
+
+  const { data: allowed, error } = await supabase.rpc('has_capability', { capability_name: 'offline_downloads' });
+  // Offline or failing requests prove nothing either way
+  if (error) return false;
+
+  if (!allowed) {
+    await clearDownloads();
+    return Object.keys(index.courses).length > 0;
+  }
+
+  writeIndex({ ...index, verifiedAt: new Date().toISOString() });
+  return false;
+};
+
+// Saves the course, its lesson outline and its uploaded file for offline use
+export const downloadCourse = async (userId: string, courseId: string): Promise<DownloadEntry> => {
+  const { data: course, error } = await supabase
+    .from('courses')
+    .select('*, profiles!fk_courses_uploader_profiles(full_name)')
+    .eq('id', courseId)
+    .single();
+
+  if (error) throw error;
+
+  const cache = await caches.open(OFFLINE_CACHE);
+  const downloadedAt = new Date().toISOString();
+  let bytes = 0;
+  let contentUrl = course.content_url;
+
+  if (course.content_path) {
+    const signedUrl = await getContentUrl(course);
+    if (!signedUrl) throw new Error('Could not access the course file');
+
+    const response = await fetch(signedUrl);
+    if (!response.ok || !response.body) throw new Error(`Download failed with status ${response.status}`);
+
+    // Streamed straight into the cache so large videos are never held in memory
+    let fileBytes = 0;
+    const file = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        fileBytes += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    }));
+    const headers = new Headers({
+      'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+      // Lets the service worker tell a re-download from the copy it already has open
+      'X-Downloaded-At': downloadedAt,
+    });
+    const contentLength = response.headers.get('Content-Length');
+    if (contentLength) headers.set('Content-Length', contentLength);
+
+    await cache.put(fileUrl(courseId), new Response(file, { headers }));
+    bytes += fileBytes;
+    contentUrl = fileUrl(courseId);
+  }
+
+  const offlinePackage: OfflinePackage = {
+    course: {
+      id: course.id,
+      title: course.title,
+      description: course.description,
+      content_type: course.content_type,
+      content_url: contentUrl,
+      content_text: course.content_text,
+      access_type: course.access_type,
+      difficulty: course.difficulty,
+      tags: course.tags,
+      image_url: course.image_url,
+      uploader_id: course.uploader_id,
+      uploader_name: course.profiles?.full_name || null,
+    },
+    modules: await fetchCourseOutline(courseId),
+  };
+  const body = JSON.stringify(offlinePackage);
+  await cache.put(packageUrl(courseId), new Response(body, { headers: { 'Content-Type': 'application/json' } }));
+  bytes += new Blob([body]).size;
+
+  const entry: DownloadEntry = {
+    courseId,
+    title: course.title,
+    bytes,
+    downloadedAt,
+  };
+  const index = readUserIndex(userId) || { userId, verifiedAt: new Date().toISOString(), courses: {} };
+  writeIndex({ ...index, courses: { ...index.courses, [courseId]: entry } });
+  return entry;
+};
+
+export const removeDownload = async (userId: string, courseId: string) => {
+  const cache = await caches.open(OFFLINE_CACHE);
+  await Promise.all([cache.delete(packageUrl(courseId)), cache.delete(fileUrl(courseId))]);
+
+  const index = readUserIndex(userId);
+  if (index) {
+    const { [courseId]: _removed, ...courses } = index.courses;
+    writeIndex({ ...index, courses });
+  }
+};
+
+export const loadOfflineCourse = async (userId: string, courseId: string): Promise<OfflinePackage | null> => {
+  if (!isOfflineSupported() || !readUserIndex(userId)?.courses[courseId]) return null;
+
+  const response = await caches.match(packageUrl(courseId), { cacheName: OFFLINE_CACHE });
+  return response ? response.json() : null;
+};
+
+export const fetchStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
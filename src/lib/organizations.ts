@@ -0,0 +1,240 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export type Organization = Tables<'organizations'>;
+
+export type OrganizationInvite = Tables<'organization_invites'>;
+
+export interface OrganizationMembership extends Organization {
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  role: OrganizationRole;
+  joined_at: string;
+  profiles: { full_name: string | null; avatar_url: string | null } | null;
+}
+
+export interface InvitePreview {
+  organization_id: string;
+  organization_name: string;
+  role: OrganizationRole;
+  expires_at: string;
+  member_count: number;
+  // null means the organization has no seat limit
+  seat_limit: number | null;
+}
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export const canManageOrganization = (role: OrganizationRole | null | undefined) =>
+  role === 'owner' || role === 'admin';
+
+export const getOrganizationPath = (organizationId: string) => `/organizations/${organizationId}`;
+
+export const getInviteUrl = (token: string) => `${window.location.origin}/join/${token}`;
+
+export const hasFreeSeat = (memberCount: number, seatLimit: number | null) =>
+  seatLimit === null || memberCount < seatLimit;
+
+export const formatSeats = (memberCount: number, seatLimit: number | null) =>
+  seatLimit === null ? `${memberCount} members` : `${memberCount} of ${seatLimit} seats used`;
+
+export const fetchUserOrganizations = async (userId: string): Promise<OrganizationMembership[]> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, organizations(*)')
+    .eq('user_id', userId)
+    .order('joined_at');
+
+  if (error) throw error;
+  return (data || [])
+    .filter(row => row.organizations)
+    .map(row => ({ ...row.organizations!, role: row.role as OrganizationRole }));
+};
+
+export const fetchOrganization = async (organizationId: string): Promise<Organization | null> => {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchOrganizationMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id, role, joined_at, profiles(full_name, avatar_url)')
+    .eq('organization_id', organizationId)
+    .order('joined_at');
+
+  if (error) throw error;
+  return (data || []) as OrganizationMember[];
+};
+
+export const fetchSeatLimit = async (organizationId: string): Promise<number | null> => {
+  const { data, error } = await supabase.rpc('organization_seat_limit', { org_uuid: organizationId });
+  if (error) throw error;
+  return data;
+};
+
+export const createOrganization = async (name: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_organization', { organization_name: name });
+  if (error) throw error;
+  return data;
+};
+
+export const renameOrganization = async (organizationId: string, name: string) => {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', organizationId);
+
+  if (error) throw error;
+};
+
+// Courses shared with the organization become their uploaders' private courses
+export const deleteOrganization = async (organizationId: string) => {
+  const { error } = await supabase
+    .from('organizations')
+    .delete()
+    .eq('id', organizationId);
+
+  if (error) throw error;
+};
+
+export const setMemberRole = async (organizationId: string, userId: string, role: Exclude<OrganizationRole, 'owner'>) => {
+  const { error } = await supabase.rpc('set_organization_member_role', {
+    target_organization_id: organizationId,
+    target_user_id: userId,
+    new_role: role,
+  });
+  if (error) throw error;
+};
+
+// Also how members leave an organization
+export const removeMember = async (organizationId: string, userId: string) => {
+  const { error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+export const fetchInvites = async (organizationId: string): Promise<OrganizationInvite[]> => {
+  const { data, error } = await supabase
+    .from('organization_invites')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createInvite = async (
+  userId: string,
+  organizationId: string,
+  role: Exclude<OrganizationRole, 'owner'>
+): Promise<OrganizationInvite> => {
+  const { data, error } = await supabase
+    .from('organization_invites')
+    .insert([{ organization_id: organizationId, role, created_by: userId }])
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const revokeInvite = async (inviteId: string) => {
+  const { error } = await supabase
+    .from('organization_invites')
+    .delete()
+    .eq('id', inviteId);
+
+  if (error) throw error;
+};
+
+export const fetchInvitePreview = async (token: string): Promise<InvitePreview | null> => {
+  const { data, error } = await supabase.rpc('get_organization_invite', { invite_token: token });
+  if (error) throw error;
+  return (data?.[0] as InvitePreview | undefined) || null;
+};
+
+// Returns the organization joined
+export const acceptInvite = async (token: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_organization_invite', { invite_token: token });
+  if (error) throw error;
+  return data;
+};
+
+export interface OrganizationGroup {
+  id: string;
+  name: string;
+  member_ids: string[];
+}
+
+export const fetchGroups = async (organizationId: string): Promise<OrganizationGroup[]> => {
+  const { data, error } = await supabase
+    .from('organization_groups')
+    .select('id, name, organization_group_members(user_id)')
+    .eq('organization_id', organizationId)
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(group => ({
+    id: group.id,
+    name: group.name,
+    member_ids: group.organization_group_members.map(member => member.user_id),
+  }));
+};
+
+export const createGroup = async (organizationId: string, name: string): Promise<OrganizationGroup> => {
+  const { data, error } = await supabase
+    .from('organization_groups')
+    .insert([{ organization_id: organizationId, name: name.trim() }])
+    .select('id, name')
+    .single();
+
+  if (error) throw error;
+  return { ...data, member_ids: [] };
+};
+
+// Assignments made to the group are removed with it
+export const deleteGroup = async (groupId: string) => {
+  const { error } = await supabase
+    .from('organization_groups')
+    .delete()
+    .eq('id', groupId);
+
+  if (error) throw error;
+};
+
+// Adding someone enrolls them in the courses already assigned to the group
+export const setGroupMembership = async (organizationId: string, groupId: string, userId: string, inGroup: boolean) => {
+  const { error } = inGroup
+    ? await supabase
+        .from('organization_group_members')
+        .insert([{ organization_id: organizationId, group_id: groupId, user_id: userId }])
+    : await supabase
+        .from('organization_group_members')
+        .delete()
+        .eq('group_id', groupId)
+        .eq('user_id', userId);
+
+  if (error) throw error;
+};
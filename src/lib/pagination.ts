@@ -0,0 +1,53 @@
+// Opaque keyset cursors: the sort values of the last row seen, plus its id as a tie-breaker
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export type Cursor = Record<string, string | number | null>;
+
+export const encodeCursor = (cursor: Cursor): string => btoa(JSON.stringify(cursor));
+
+export type CursorField = (value: unknown) => boolean;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:\d{2})?)$/;
+
+export const uuidField: CursorField = (value) => typeof value === 'string' && UUID_PATTERN.test(value);
+
+export const timestampField: CursorField = (value) => typeof value === 'string' && TIMESTAMP_PATTERN.test(value);
+
+export const textField: CursorField = (value) => typeof value === 'string';
+
+export const nullableField = (check: CursorField): CursorField => (value) => value === null || check(value);
+
+// Cursors come from the URL, so one that doesn't match the expected fields starts from the first page
+export const decodeCursor = (raw: string | null, fields: Record<string, CursorField>): Cursor | null => {
+  if (!raw) return null;
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(atob(raw));
+  } catch {
+    return null;
+  }
+  if (!cursor || typeof cursor !== 'object' || Array.isArray(cursor)) return null;
+  const values = cursor as Record<string, unknown>;
+  return Object.entries(fields).every(([field, check]) => check(values[field])) ? (values as Cursor) : null;
+};
+
+// Double-quoted PostgREST values escape quotes and backslashes with a backslash
+const quoteFilterValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// PostgREST `or` filter matching rows strictly after (column, id) in the given direction
+export const keysetFilter = (column: string, value: string, id: string, ascending: boolean): string => {
+  const op = ascending ? 'gt' : 'lt';
+  const quoted = quoteFilterValue(value);
+  return `${column}.${op}.${quoted},and(${column}.eq.${quoted},id.${op}.${id})`;
+};
+
+export const parsePageSize = (raw: string | null, allowed: number[], fallback: number): number => {
+  const size = Number(raw);
+  return allowed.includes(size) ? size : fallback;
+};
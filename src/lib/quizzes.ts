@@ -0,0 +1,250 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type QuestionType = 'multiple_choice' | 'multi_select' | 'short_answer' | 'code_output';
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'multiple_choice', label: 'Multiple choice' },
+  { value: 'multi_select', label: 'Multi-select' },
+  { value: 'short_answer', label: 'Short answer' },
+  { value: 'code_output', label: 'Code output' },
+];
+
+export const isChoiceQuestion = (type: string) => type === 'multiple_choice' || type === 'multi_select';
+
+export type Quiz = Tables<'quizzes'>;
+export type QuizQuestion = Tables<'quiz_questions'>;
+export type QuizAttempt = Tables<'quiz_attempts'>;
+
+// Option indexes for choice questions, the typed text otherwise, keyed by question id
+export type QuizAnswers = Record<string, number[] | string>;
+
+// Editable copy of a quiz including its answer keys, saved in one go by saveQuizDraft
+export interface QuestionDraft {
+  id: string;
+  question_type: QuestionType;
+  prompt: string;
+  code: string;
+  options: string[];
+  correct_options: number[];
+  accepted_answers: string[];
+  points: number;
+}
+
+export interface QuizDraft {
+  id: string | null;
+  title: string;
+  description: string;
+  pass_percent: number;
+  required_for_completion: boolean;
+  questions: QuestionDraft[];
+}
+
+export const DEFAULT_PASS_PERCENT = 70;
+
+export const createQuestionDraft = (type: QuestionType = 'multiple_choice'): QuestionDraft => ({
+  id: crypto.randomUUID(),
+  question_type: type,
+  prompt: '',
+  code: '',
+  options: isChoiceQuestion(type) ? ['', ''] : [],
+  correct_options: [],
+  accepted_answers: [],
+  points: 1,
+});
+
+export const createQuizDraft = (title = 'Quiz'): QuizDraft => ({
+  id: null,
+  title,
+  description: '',
+  pass_percent: DEFAULT_PASS_PERCENT,
+  required_for_completion: false,
+  questions: [createQuestionDraft()],
+});
+
+// Returns what is missing before the draft can be saved, or null when it is complete
+export const validateQuizDraft = (draft: QuizDraft): string | null => {
+  if (!draft.title.trim()) return 'Give the quiz a title.';
+  if (draft.questions.length === 0) return 'Add at least one question.';
+
+  for (const [index, question] of draft.questions.entries()) {
+    const label = `Question ${index + 1}`;
+    if (!question.prompt.trim()) return `${label} needs a prompt.`;
+
+    if (isChoiceQuestion(question.question_type)) {
+      if (question.options.length < 2 || question.options.some(option => !option.trim())) {
+        return `${label} needs at least two options, none of them empty.`;
+      }
+      if (question.correct_options.length === 0) return `${label} needs a correct option.`;
+      if (question.question_type === 'multiple_choice' && question.correct_options.length > 1) {
+        return `${label} can only have one correct option.`;
+      }
+    } else {
+      if (question.question_type === 'code_output' && !question.code.trim()) return `${label} needs a code snippet.`;
+      if (!question.accepted_answers.some(answer => answer.trim())) return `${label} needs an accepted answer.`;
+    }
+  }
+  return null;
+};
+
+// Every quiz of a course, the course-level one and those attached to lessons
+export const fetchCourseQuizzes = async (courseId: string): Promise<Quiz[]> => {
+  const { data, error } = await supabase
+    .from('quizzes')
+    .select('*')
+    .eq('course_id', courseId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchQuizQuestions = async (quizId: string): Promise<QuizQuestion[]> => {
+  const { data, error } = await supabase
+    .from('quiz_questions')
+    .select('*')
+    .eq('quiz_id', quizId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The quiz with its answer keys, for the course uploader to edit
+export const fetchQuizDraft = async (courseId: string, lessonId: string | null): Promise<QuizDraft | null> => {
+  let query = supabase
+    .from('quizzes')
+    .select('*, quiz_questions(*, quiz_answer_keys(*))')
+    .eq('course_id', courseId)
+    .order('position', { referencedTable: 'quiz_questions', ascending: true });
+  query = lessonId ? query.eq('lesson_id', lessonId) : query.is('lesson_id', null);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    title: data.title,
+    description: data.description || '',
+    pass_percent: data.pass_percent,
+    required_for_completion: data.required_for_completion,
+    questions: data.quiz_questions.map(question => ({
+      id: question.id,
+      question_type: question.question_type as QuestionType,
+      prompt: question.prompt,
+      code: question.code || '',
+      options: question.options,
+      correct_options: question.quiz_answer_keys?.correct_options || [],
+      accepted_answers: question.quiz_answer_keys?.accepted_answers || [],
+      points: question.points,
+    })),
+  };
+};
+
+// Creates or updates the quiz, then brings its questions and answer keys in line with the draft
+export const saveQuizDraft = async (courseId: string, lessonId: string | null, draft: QuizDraft): Promise<string> => {
+  const fields = {
+    title: draft.title.trim(),
+    description: draft.description.trim() || null,
+    pass_percent: draft.pass_percent,
+    required_for_completion: draft.required_for_completion,
+    updated_at: new Date().toISOString(),
+  };
+
+  let quizId = draft.id;
+  if (quizId) {
+    const { error } = await supabase.from('quizzes').update(fields).eq('id', quizId);
+    if (error) throw error;
+  } else {
+    const { data, error } = await supabase
+      .from('quizzes')
+      .insert([{ ...fields, course_id: courseId, lesson_id: lessonId }])
+      .select('id')
+      .single();
+    if (error) throw error;
+    quizId = data.id;
+  }
+
+  // Questions removed in the editor
+  let removed = supabase.from('quiz_questions').delete().eq('quiz_id', quizId);
+  if (draft.questions.length > 0) {
+    removed = removed.not('id', 'in', `(${draft.questions.map(question => question.id).join(',')})`);
+  }
+  const { error: removeError } = await removed;
+  if (removeError) throw removeError;
+
+  if (draft.questions.length === 0) return quizId;
+
+  const { error: questionsError } = await supabase.from('quiz_questions').upsert(
+    draft.questions.map((question, index) => ({
+      id: question.id,
+      quiz_id: quizId,
+      position: index,
+      question_type: question.question_type,
+      prompt: question.prompt.trim(),
+      code: question.question_type === 'code_output' ? question.code : null,
+      options: isChoiceQuestion(question.question_type) ? question.options.map(option => option.trim()) : [],
+      points: question.points,
+    }))
+  );
+  if (questionsError) throw questionsError;
+
+  const { error: keysError } = await supabase.from('quiz_answer_keys').upsert(
+    draft.questions.map(question => ({
+      question_id: question.id,
+      correct_options: isChoiceQuestion(question.question_type) ? question.correct_options : [],
+      accepted_answers: isChoiceQuestion(question.question_type)
+        ? []
+        : question.accepted_answers.filter(answer => answer.trim()),
+    }))
+  );
+  if (keysError) throw keysError;
+
+  return quizId;
+};
+
+export const deleteQuiz = async (quizId: string) => {
+  const { error } = await supabase.from('quizzes').delete().eq('id', quizId);
+  if (error) throw error;
+};
+
+// Graded on the server so learners never see the answer keys
+export const submitQuizAttempt = async (quizId: string, answers: QuizAnswers): Promise<QuizAttempt> => {
+  const { data, error } = await supabase.rpc('submit_quiz_attempt', {
+    target_quiz_id: quizId,
+    answers,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchLatestQuizAttempt = async (userId: string, quizId: string): Promise<QuizAttempt | null> => {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('quiz_id', quizId)
+    .order('submitted_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Ids of the given quizzes the user has passed at least once
+export const fetchPassedQuizIds = async (userId: string, quizIds: string[]): Promise<Set<string>> => {
+  if (quizIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('quiz_id')
+    .eq('user_id', userId)
+    .eq('passed', true)
+    .in('quiz_id', quizIds);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => row.quiz_id));
+};
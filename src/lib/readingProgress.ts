@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ReadingProgress {
+  lastPage: number;
+  pageCount: number | null;
+  pagesViewed: number[];
+}
+
+export const fetchReadingProgress = async (
+  userId: string,
+  courseId: string,
+  lessonId: string | null
+): Promise<ReadingProgress | null> => {
+  let query = supabase
+    .from('reading_progress')
+    .select('last_page, page_count, pages_viewed')
+    .eq('user_id', userId)
+    .eq('course_id', courseId);
+  query = lessonId ? query.eq('lesson_id', lessonId) : query.is('lesson_id', null);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  return { lastPage: data.last_page, pageCount: data.page_count, pagesViewed: data.pages_viewed };
+};
+
+// Course-level PDF progress for several courses, keyed by course id
+export const fetchCourseReadingProgress = async (
+  userId: string,
+  courseIds: string[]
+): Promise<Record<string, ReadingProgress>> => {
+  if (courseIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('reading_progress')
+    .select('course_id, last_page, page_count, pages_viewed')
+    .eq('user_id', userId)
+    .is('lesson_id', null)
+    .in('course_id', courseIds);
+
+  if (error) {
+    console.error('Error fetching reading progress:', error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map(row => [
+    row.course_id,
+    { lastPage: row.last_page, pageCount: row.page_count, pagesViewed: row.pages_viewed },
+  ]));
+};
+
+export const saveReadingProgress = async (
+  courseId: string,
+  lessonId: string | null,
+  page: number,
+  totalPages: number
+) => {
+  const { error } = await supabase.rpc('save_reading_progress', {
+    target_course_id: courseId,
+    target_lesson_id: lessonId ?? undefined,
+    page,
+    total_pages: totalPages,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,113 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type CourseReview = Tables<'course_reviews'> & {
+  profiles: { full_name: string | null } | null;
+};
+
+export type ReviewRevision = Tables<'course_review_revisions'>;
+
+export type CourseStats = Pick<Tables<'course_stats'>, 'rating_average' | 'rating_count' | 'enrollment_count'>;
+
+export type PremiumCoursePreview = Database['public']['Functions']['top_premium_courses']['Returns'][number];
+
+export type ReviewSort = 'helpful' | 'recent';
+
+export const EMPTY_COURSE_STATS: CourseStats = { rating_average: null, rating_count: 0, enrollment_count: 0 };
+
+export const formatRating = (rating: number | null) => (rating === null ? '–' : rating.toFixed(1));
+
+export const formatCount = (count: number, singular: string, plural = `${singular}s`) =>
+  `${count.toLocaleString()} ${count === 1 ? singular : plural}`;
+
+// Courses nobody has enrolled in yet have no stats row
+export const fetchCourseStats = async (courseId: string): Promise<CourseStats> => {
+  const { data, error } = await supabase
+    .from('course_stats')
+    .select('rating_average, rating_count, enrollment_count')
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data || EMPTY_COURSE_STATS;
+};
+
+export const fetchCourseReviews = async (courseId: string, sort: ReviewSort): Promise<CourseReview[]> => {
+  let query = supabase
+    .from('course_reviews')
+    .select('*, profiles(full_name)')
+    .eq('course_id', courseId);
+
+  if (sort === 'helpful') {
+    query = query.order('helpful_count', { ascending: false });
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchReviewRevisions = async (reviewId: string): Promise<ReviewRevision[]> => {
+  const { data, error } = await supabase
+    .from('course_review_revisions')
+    .select('*')
+    .eq('review_id', reviewId)
+    .order('replaced_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchVotedReviewIds = async (userId: string, reviewIds: string[]): Promise<Set<string>> => {
+  if (reviewIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('review_votes')
+    .select('review_id')
+    .eq('user_id', userId)
+    .in('review_id', reviewIds);
+
+  if (error) throw error;
+  return new Set(data?.map(vote => vote.review_id) || []);
+};
+
+// Creates the user's review, or updates it when they already wrote one
+export const saveReview = async (
+  userId: string,
+  courseId: string,
+  review: { rating: number; body: string },
+  existingId?: string
+) => {
+  const fields = { rating: review.rating, body: review.body.trim() || null };
+  const { error } = existingId
+    ? await supabase.from('course_reviews').update(fields).eq('id', existingId)
+    : await supabase.from('course_reviews').insert([{ ...fields, user_id: userId, course_id: courseId }]);
+
+  if (error) throw error;
+};
+
+export const deleteReview = async (reviewId: string) => {
+  const { error } = await supabase.from('course_reviews').delete().eq('id', reviewId);
+  if (error) throw error;
+};
+
+export const setReviewVote = async (userId: string, reviewId: string, helpful: boolean) => {
+  const { error } = helpful
+    ? await supabase.from('review_votes').insert([{ user_id: userId, review_id: reviewId }])
+    : await supabase.from('review_votes').delete().eq('user_id', userId).eq('review_id', reviewId);
+
+  if (error) throw error;
+};
+
+// An empty reply removes the uploader's existing reply
+export const replyToReview = async (reviewId: string, reply: string) => {
+  const { error } = await supabase.rpc('reply_to_review', { target_review_id: reviewId, reply });
+  if (error) throw error;
+};
+
+// Works for learners who can't open premium courses yet
+export const fetchTopPremiumCourses = async (maxResults = 3): Promise<PremiumCoursePreview[]> => {
+  const { data, error } = await supabase.rpc('top_premium_courses', { max_results: maxResults });
+  if (error) throw error;
+  return data || [];
+};
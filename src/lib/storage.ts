@@ -0,0 +1,188 @@
+import * as tus from 'tus-js-client';
+import { supabase } from '@/integrations/supabase/client';
+import type { Role } from '@/lib/entitlements';
+
+// Uploaded course files. Limits are mirrored by public.upload_limits and the bucket
+// settings in the storage migration; keep them in sync.
+
+export type UploadKind = 'cover' | 'pdf' | 'video';
+
+interface UploadRule {
+  bucket: 'course-covers' | 'course-content';
+  mimeTypes: string[];
+  label: string;
+}
+
+export const UPLOAD_RULES: Record<UploadKind, UploadRule> = {
+  cover: {
+    bucket: 'course-covers',
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+    label: 'JPEG, PNG, WebP or GIF image',
+  },
+  pdf: {
+    bucket: 'course-content',
+    mimeTypes: ['application/pdf'],
+    label: 'PDF document',
+  },
+  video: {
+    bucket: 'course-content',
+    mimeTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    label: 'MP4, WebM or MOV video',
+  },
+};
+
+const MB = 1024 * 1024;
+
+export const UPLOAD_LIMITS: Record<UploadKind, Record<Role, number>> = {
+  cover: { user: 2 * MB, premium: 5 * MB, pro: 10 * MB, admin: 10 * MB },
+  pdf: { user: 25 * MB, premium: 100 * MB, pro: 250 * MB, admin: 250 * MB },
+  video: { user: 250 * MB, premium: 2048 * MB, pro: 5120 * MB, admin: 5120 * MB },
+};
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * MB;
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const isUploadKind = (value: string): value is UploadKind => value in UPLOAD_RULES;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * MB) return `${(bytes / (1024 * MB)).toFixed(1)} GB`;
+  if (bytes >= MB) return `${Math.round(bytes / MB)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+export const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Returns a message describing why the file can't be uploaded, or null when it can
+export const validateUpload = (file: File, kind: UploadKind, role: Role | null): string | null => {
+  const rule = UPLOAD_RULES[kind];
+  if (!rule.mimeTypes.includes(file.type)) {
+    return `Please choose a ${rule.label}.`;
+  }
+
+  const limit = UPLOAD_LIMITS[kind][role || 'user'];
+  if (file.size > limit) {
+    return `Files of this type are limited to ${formatBytes(limit)} on your plan.`;
+  }
+  return null;
+};
+
+export interface UploadedFile {
+  path: string;
+  // Public URL for covers; content files are private and resolved with getContentUrl
+  url: string | null;
+}
+
+interface UploadOptions {
+  userId: string;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+// The object name depends only on the file, so an interrupted upload of the same file
+// resumes where it stopped instead of starting over
+const buildObjectName = (file: File, userId: string) => {
+  const safeName = file.name.toLowerCase().replace(/[^a-z0-9.]+/g, '-');
+  return `${userId}/${file.lastModified}-${file.size}-${safeName}`;
+};
+
+export const uploadFile = async (file: File, kind: UploadKind, options: UploadOptions): Promise<UploadedFile> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You need to be logged in to upload files');
+
+  const { bucket } = UPLOAD_RULES[kind];
+  const objectName = buildObjectName(file, options.userId);
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = new tus.Upload(file, {
+      endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'x-upsert': 'true',
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      chunkSize: CHUNK_SIZE,
+      metadata: {
+        bucketName: bucket,
+        objectName,
+        contentType: file.type,
+        cacheControl: '3600',
+      },
+      onProgress: (bytesUploaded, bytesTotal) => {
+        options.onProgress?.(Math.round((bytesUploaded / bytesTotal) * 100));
+      },
+      onError: reject,
+      onSuccess: () => resolve(),
+    });
+
+    options.signal?.addEventListener('abort', () => {
+      upload.abort();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    });
+
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    }, reject);
+  });
+
+  return {
+    path: objectName,
+    url: bucket === 'course-covers'
+      ? supabase.storage.from(bucket).getPublicUrl(objectName).data.publicUrl
+      : null,
+  };
+};
+
+interface ContentSource {
+  content_url: string | null;
+  content_path?: string | null;
+}
+
+// Signed URLs are only issued when storage policies let the caller see the course
+export const getContentUrl = async (source: ContentSource): Promise<string | null> => {
+  if (!source.content_path) return source.content_url;
+
+  const { data, error } = await supabase.storage
+    .from('course-content')
+    .createSignedUrl(source.content_path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing content URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+// Same as getContentUrl for a list of rows, in one request
+export const withContentUrls = async <T extends ContentSource>(rows: T[]): Promise<T[]> => {
+  const paths = rows.map(row => row.content_path).filter((path): path is string => !!path);
+  if (paths.length === 0) return rows;
+
+  const { data, error } = await supabase.storage
+    .from('course-content')
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing content URLs:', error);
+    return rows;
+  }
+
+  const signed = new Map((data || []).map(item => [item.path, item.signedUrl]));
+  return rows.map(row => row.content_path
+    ? { ...row, content_url: signed.get(row.content_path) || null }
+    : row);
+};
@@ -0,0 +1,34 @@
+// Works out which player a video URL needs
+
+export type VideoSource =
+  | { provider: 'youtube'; id: string }
+  | { provider: 'vimeo'; id: string }
+  | { provider: 'file'; url: string };
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+
+export const parseVideoSource = (rawUrl: string): VideoSource => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { provider: 'file', url: rawUrl };
+  }
+
+  if (url.hostname === 'youtu.be') {
+    const id = url.pathname.slice(1).split('/')[0];
+    if (id) return { provider: 'youtube', id };
+  }
+
+  if (YOUTUBE_HOSTS.includes(url.hostname)) {
+    const id = url.searchParams.get('v') || url.pathname.match(/^\/(?:embed|shorts|live)\/([^/?]+)/)?.[1];
+    if (id) return { provider: 'youtube', id };
+  }
+
+  if (url.hostname === 'vimeo.com' || url.hostname === 'www.vimeo.com' || url.hostname === 'player.vimeo.com') {
+    const id = url.pathname.match(/\/(\d+)/)?.[1];
+    if (id) return { provider: 'vimeo', id };
+  }
+
+  return { provider: 'file', url: rawUrl };
+};
@@ -1,5 +1,11 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerServiceWorker } from './lib/offlineDownloads'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// The dev server's modules change on every edit, so only production builds cache the app
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
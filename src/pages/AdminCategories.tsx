@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ExternalLink, FolderTree, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { Link } from 'react-router-dom';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import {
+  Category,
+  CategoryInput,
+  buildCategoryTree,
+  createCategory,
+  deleteCategory,
+  fetchCategories,
+  isValidSlug,
+  slugify,
+  updateCategory,
+} from '@/lib/categories';
+import NotFound from './NotFound';
+
+const NO_PARENT = 'none';
+
+const EMPTY_INPUT: CategoryInput = { name: '', slug: '', description: '', parentId: null };
+
+interface CategoryFieldsProps {
+  input: CategoryInput;
+  onChange: (input: CategoryInput) => void;
+  // Top-level categories the category may be placed under
+  parents: Category[];
+  // Whether the slug still follows the name
+  slugLinked: boolean;
+  onSlugEdited: () => void;
+}
+
+const CategoryFields: React.FC<CategoryFieldsProps> = ({ input, onChange, parents, slugLinked, onSlugEdited }) => (
+  <div className="space-y-4">
+    <div className="grid md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor="category_name">Name</Label>
+        <Input
+          id="category_name"
+          value={input.name}
+          onChange={(e) => onChange({
+            ...input,
+            name: e.target.value,
+            slug: slugLinked ? slugify(e.target.value) : input.slug,
+          })}
+          placeholder="e.g. Web Development"
+        />
+      </div>
+      <div>
+        <Label htmlFor="category_slug">Slug</Label>
+        <Input
+          id="category_slug"
+          value={input.slug}
+          onChange={(e) => {
+            onSlugEdited();
+            onChange({ ...input, slug: e.target.value.toLowerCase() });
+          }}
+          placeholder="web-development"
+        />
+        {input.slug && !isValidSlug(input.slug) && (
+          <p className="text-sm text-red-500 mt-1">Use lowercase letters, numbers and single dashes.</p>
+        )}
+      </div>
+    </div>
+    <div>
+      <Label>Parent category</Label>
+      <Select
+        value={input.parentId || NO_PARENT}
+        onValueChange={(value) => onChange({ ...input, parentId: value === NO_PARENT ? null : value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="None (top level)" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+          {parents.map(parent => (
+            <SelectItem key={parent.id} value={parent.id}>{parent.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div>
+      <Label htmlFor="category_description">Description</Label>
+      <Textarea
+        id="category_description"
+        value={input.description}
+        onChange={(e) => onChange({ ...input, description: e.target.value })}
+        rows={2}
+        placeholder="Shown on the category's Browse page"
+      />
+    </div>
+  </div>
+);
+
+export const AdminCategories: React.FC = () => {
+  const { can, loading: roleLoading } = useEntitlements();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newCategory, setNewCategory] = useState<CategoryInput>(EMPTY_INPUT);
+  const [newSlugLinked, setNewSlugLinked] = useState(true);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [editInput, setEditInput] = useState<CategoryInput>(EMPTY_INPUT);
+
+  const isAdmin = can('manage_categories');
+  const tree = buildCategoryTree(categories);
+  const topLevel = categories.filter(category => !category.parent_id);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadCategories();
+    }
+  }, [isAdmin]);
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await fetchCategories());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load categories",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canSave = (input: CategoryInput) => input.name.trim().length > 0 && isValidSlug(input.slug);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave(newCategory)) return;
+
+    setSaving(true);
+    try {
+      await createCategory(newCategory);
+      toast({
+        title: "Category created",
+        description: `"${newCategory.name.trim()}" is now available to course creators.`,
+      });
+      setNewCategory(EMPTY_INPUT);
+      setNewSlugLinked(true);
+      await loadCategories();
+    } catch (error) {
+      console.error('Error creating category:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to create category",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openEdit = (category: Category) => {
+    setEditingCategory(category);
+    setEditInput({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || '',
+      parentId: category.parent_id,
+    });
+  };
+
+  const handleUpdate = async () => {
+    if (!editingCategory || !canSave(editInput)) return;
+
+    setSaving(true);
+    try {
+      await updateCategory(editingCategory.id, editInput);
+      toast({
+        title: "Category updated",
+        description: editInput.slug !== editingCategory.slug
+          ? "Links to the old Browse page no longer work."
+          : "Your changes have been saved.",
+      });
+      setEditingCategory(null);
+      await loadCategories();
+    } catch (error) {
+      console.error('Error updating category:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to update category",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (categories.some(child => child.parent_id === category.id)) {
+      toast({
+        title: "Category has subcategories",
+        description: "Move or delete its subcategories first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!window.confirm(`Delete "${category.name}"? Its courses will become uncategorized.`)) return;
+
+    try {
+      await deleteCategory(category.id);
+      setCategories(prev => prev.filter(c => c.id !== category.id));
+      toast({
+        title: "Category deleted",
+        description: `"${category.name}" has been removed.`,
+      });
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete category",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderRow = (category: Category, nested: boolean) => (
+    <div
+      key={category.id}
+      className={`flex items-center justify-between gap-4 py-3 border-b last:border-b-0 ${nested ? 'pl-8' : ''}`}
+    >
+      <div className="min-w-0">
+        <p className={nested ? 'text-sm' : 'font-semibold'}>{category.name}</p>
+        <p className="text-xs text-gray-500 truncate">
+          /browse/{category.slug}{category.description ? ` • ${category.description}` : ''}
+        </p>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <Link to={`/browse/${category.slug}`}>
+          <Button variant="ghost" size="icon" title="View in Browse">
+            <ExternalLink className="h-4 w-4" />
+          </Button>
+        </Link>
+        <Button variant="outline" size="icon" onClick={() => openEdit(category)} title="Edit category">
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button variant="destructive" size="icon" onClick={() => handleDelete(category)} title="Delete category">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (roleLoading || (isAdmin && loading)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return <NotFound />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          Categories
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Organize the catalogue into categories and subcategories
+        </p>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        <Card className="lg:col-span-2 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FolderTree className="h-5 w-5" />
+              Taxonomy
+            </CardTitle>
+            <CardDescription>
+              {topLevel.length} {topLevel.length === 1 ? 'category' : 'categories'}, {categories.length - topLevel.length} {categories.length - topLevel.length === 1 ? 'subcategory' : 'subcategories'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tree.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No categories yet</p>
+            ) : (
+              tree.map(category => (
+                <React.Fragment key={category.id}>
+                  {renderRow(category, false)}
+                  {category.children.map(child => renderRow(child, true))}
+                </React.Fragment>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 h-fit">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              New Category
+            </CardTitle>
+            <CardDescription>Subcategories sit one level below a top-level category</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <CategoryFields
+                input={newCategory}
+                onChange={setNewCategory}
+                parents={topLevel}
+                slugLinked={newSlugLinked}
+                onSlugEdited={() => setNewSlugLinked(false)}
+              />
+              <Button
+                type="submit"
+                disabled={saving || !canSave(newCategory)}
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                Create Category
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!editingCategory} onOpenChange={(open) => !open && setEditingCategory(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit "{editingCategory?.name}"</DialogTitle>
+            <DialogDescription>
+              Changing the slug changes the category's Browse address.
+            </DialogDescription>
+          </DialogHeader>
+          <CategoryFields
+            input={editInput}
+            onChange={setEditInput}
+            // A category can't sit under itself, and one with subcategories must stay top level
+            parents={categories.some(c => c.parent_id === editingCategory?.id)
+              ? []
+              : topLevel.filter(c => c.id !== editingCategory?.id)}
+            slugLinked={false}
+            onSlugEdited={() => undefined}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingCategory(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={saving || !canSave(editInput)}
+              onClick={handleUpdate}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
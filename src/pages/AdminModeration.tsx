@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CheckCircle, ExternalLink, ShieldCheck, XCircle } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { Link } from 'react-router-dom';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { withContentUrls } from '@/lib/storage';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import NotFound from './NotFound';
+
+interface PendingCourse {
+  id: string;
+  title: string;
+  description: string | null;
+  content_type: string;
+  content_url: string | null;
+  content_path: string | null;
+  content_text: string | null;
+  access_type: string;
+  difficulty: string | null;
+  tags: string[] | null;
+  updated_at: string;
+  uploader_email: string | null;
+  profiles: { full_name: string | null } | null;
+}
+
+export const AdminModeration: React.FC = () => {
+  const { can, loading: roleLoading } = useEntitlements();
+  const [courses, setCourses] = useState<PendingCourse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [moderationEnabled, setModerationEnabled] = useState(true);
+  const [rejectingCourse, setRejectingCourse] = useState<PendingCourse | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isModerator = can('moderate_courses');
+
+  useEffect(() => {
+    if (isModerator) {
+      fetchQueue();
+    }
+  }, [isModerator]);
+
+  const fetchQueue = async () => {
+    try {
+      const [{ data, error }, { data: setting }] = await Promise.all([
+        supabase
+          .from('courses')
+          .select(`
+            id, title, description, content_type, content_url, content_path, content_text,
+            access_type, difficulty, tags, updated_at, uploader_email,
+            profiles!fk_courses_uploader_profiles(full_name)
+          `)
+          .eq('moderation_status', 'pending')
+          .order('updated_at', { ascending: true }),
+        supabase
+          .from('app_settings')
+          .select('value')
+          .eq('key', 'moderation_enabled')
+          .maybeSingle(),
+      ]);
+
+      if (error) throw error;
+      setCourses(await withContentUrls(data || []));
+      setModerationEnabled(setting?.value === true);
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load moderation queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reviewCourse = async (courseId: string, status: 'approved' | 'rejected', reason: string | null) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('courses')
+        .update({ moderation_status: status, rejection_reason: reason })
+        .eq('id', courseId);
+
+      if (error) throw error;
+
+      toast({
+        title: status === 'approved' ? "Course approved" : "Course rejected",
+        description: status === 'approved'
+          ? "The course is now visible in Browse."
+          : "The uploader will see your note on their dashboard.",
+      });
+
+      setCourses(prev => prev.filter(course => course.id !== courseId));
+      setRejectingCourse(null);
+      setRejectionReason('');
+    } catch (error) {
+      console.error('Error reviewing course:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update course status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleModeration = async (enabled: boolean) => {
+    const { error } = await supabase
+      .from('app_settings')
+      .update({ value: enabled, updated_at: new Date().toISOString() })
+      .eq('key', 'moderation_enabled');
+
+    if (error) {
+      console.error('Error updating moderation setting:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update moderation setting",
+        variant: "destructive",
+      });
+      return;
+    }
+    setModerationEnabled(enabled);
+  };
+
+  if (roleLoading || (isModerator && loading)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isModerator) {
+    return <NotFound />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Course Moderation
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Review new and edited courses before they appear in Browse
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="moderation_enabled"
+            checked={moderationEnabled}
+            onCheckedChange={toggleModeration}
+          />
+          <Label htmlFor="moderation_enabled">Require review for new uploads</Label>
+        </div>
+      </div>
+
+      {courses.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <ShieldCheck className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Nothing to review</h3>
+            <p className="text-gray-600">
+              New submissions will show up here
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {courses.map((course) => (
+            <Card key={course.id} className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+              <CardHeader>
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <CardTitle>{course.title}</CardTitle>
+                    <CardDescription>
+                      By {course.profiles?.full_name || course.uploader_email || 'Anonymous'} • submitted {new Date(course.updated_at).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Badge variant={course.access_type === 'premium' ? 'secondary' : 'default'}>
+                      {course.access_type}
+                    </Badge>
+                    <Badge variant="outline">{course.content_type}</Badge>
+                    {course.difficulty && <Badge variant="outline">{course.difficulty}</Badge>}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">{course.description}</p>
+
+                {course.content_type === 'text' && course.content_text ? (
+                  <div className="max-h-48 overflow-y-auto p-3 border rounded-lg text-sm">
+                    <MarkdownContent content={course.content_text} />
+                  </div>
+                ) : course.content_url && (
+                  <a
+                    href={course.content_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                    {course.content_path ? 'Open uploaded file' : course.content_url}
+                  </a>
+                )}
+
+                {course.tags && course.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {course.tags.map((tag, index) => (
+                      <Badge key={index} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => reviewCourse(course.id, 'approved', null)}
+                    disabled={saving}
+                    className="bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button variant="destructive" onClick={() => setRejectingCourse(course)} disabled={saving}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                  <Link to={`/learn/${course.id}`}>
+                    <Button variant="outline">Preview</Button>
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog
+        open={!!rejectingCourse}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingCourse(null);
+            setRejectionReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject "{rejectingCourse?.title}"</DialogTitle>
+            <DialogDescription>
+              Tell the uploader what needs to change. They will see this note on their dashboard.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            rows={4}
+            placeholder="Reason for rejection"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingCourse(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={saving || !rejectionReason.trim()}
+              onClick={() => rejectingCourse && reviewCourse(rejectingCourse.id, 'rejected', rejectionReason.trim())}
+            >
+              Reject Course
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
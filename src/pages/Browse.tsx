@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -6,9 +6,23 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Search, Filter, BookOpen, Plus } from 'lucide-react';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Search, Filter, BookOpen, Lock, Plus, Star, Users } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { HighlightedText } from '@/components/HighlightedText';
+import { CatalogCourse, CatalogQuery, CatalogSort, searchCourses } from '@/lib/catalog';
+import { parsePageSize } from '@/lib/pagination';
+import { formatCount, formatRating } from '@/lib/reviews';
+import { Category, buildCategoryTree, fetchCategories, fetchCategoryCounts, findCategoryBySlug } from '@/lib/categories';
+import NotFound from './NotFound';
 
 interface Course {
   id: string;
@@ -21,89 +35,158 @@ interface Course {
   image_url: string;
   created_at: string;
   uploader_email: string | null;
-  profiles: { full_name: string } | null;
+  uploader_name: string | null;
+  title_highlight: string;
+  description_snippet: string;
+  rating_average: number | null;
+  rating_count: number;
+  enrollment_count: number;
+  category_name: string | null;
+  category_slug: string | null;
+  prerequisite_gating: string;
+  prerequisites_met: boolean;
 }
 
 const DEFAULT_IMAGE_URL = 'https://www.shutterstock.com/image-photo/elearning-education-internet-lessons-online-600nw-2158034833.jpg';
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: CatalogSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'title', label: 'Title A–Z' },
+];
+
+const PAGE_SIZES = [12, 24, 48];
+
+const isCatalogSort = (value: string | null): value is CatalogSort =>
+  SORT_OPTIONS.some(option => option.value === value);
+
+const toCourse = (course: CatalogCourse): Course => ({
+  id: course.id,
+  title: course.title,
+  description: course.description || '',
+  content_type: course.content_type,
+  access_type: course.access_type,
+  difficulty: course.difficulty || '',
+  tags: course.tags || [],
+  image_url: course.image_url || '',
+  created_at: course.created_at,
+  uploader_email: course.uploader_email,
+  uploader_name: course.uploader_name,
+  title_highlight: course.title_highlight || course.title,
+  description_snippet: course.description_snippet || course.description || '',
+  rating_average: course.rating_average,
+  rating_count: course.rating_count,
+  enrollment_count: course.enrollment_count,
+  category_name: course.category_name,
+  category_slug: course.category_slug,
+  prerequisite_gating: course.prerequisite_gating,
+  prerequisites_met: course.prerequisites_met,
+});
+
 export const Browse: React.FC = () => {
   const { user } = useAuth();
+  const { categorySlug } = useParams<{ categorySlug: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [courses, setCourses] = useState<Course[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [userLibrary, setUserLibrary] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState('all');
   const [selectedContentType, setSelectedContentType] = useState('all');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoriesLoaded, setCategoriesLoaded] = useState(false);
+  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped on every new query so late responses for an older query are dropped
+  const queryVersion = useRef(0);
+
+  const sortParam = searchParams.get('sort');
+  const sort: CatalogSort = isCatalogSort(sortParam) ? sortParam : 'relevance';
+  const pageSize = parsePageSize(searchParams.get('pageSize'), PAGE_SIZES, 24);
+
+  const categoryTree = buildCategoryTree(categories);
+  const activeCategory = findCategoryBySlug(categories, categorySlug);
+  const parentCategory = activeCategory?.parent_id
+    ? categories.find(category => category.id === activeCategory.parent_id)
+    : null;
+  const subcategories = activeCategory
+    ? categories.filter(category => category.parent_id === activeCategory.id)
+    : [];
+
+  const buildQuery = (cursor: string | null): CatalogQuery => ({
+    search: searchTerm,
+    difficulty: selectedDifficulty === 'all' ? null : selectedDifficulty,
+    contentType: selectedContentType === 'all' ? null : selectedContentType,
+    categoryId: activeCategory?.id ?? null,
+    sort,
+    pageSize,
+    cursor,
+  });
 
   useEffect(() => {
-    fetchData();
-  }, [user]);
+    fetchCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error fetching categories:', error))
+      .finally(() => setCategoriesLoaded(true));
+  }, []);
 
-  const fetchData = async () => {
-    try {
-      // Fetch courses with proper joins
-      const { data: coursesData, error: coursesError } = await supabase
-        .from('courses')
-        .select(`
-          *,
-          profiles!courses_uploader_id_fkey(full_name)
-        `)
-        .eq('is_approved', true)
-        .order('created_at', { ascending: false });
-
-      if (coursesError) {
-        console.error('Courses error:', coursesError);
-        // Fallback to basic query if join fails
-        const { data: fallbackData, error: fallbackError } = await supabase
-          .from('courses')
-          .select('*')
-          .eq('is_approved', true)
-          .order('created_at', { ascending: false });
-        
-        if (fallbackError) throw fallbackError;
-        
-        // Transform fallback data to match Course interface
-        const transformedCourses: Course[] = (fallbackData || []).map(course => ({
-          ...course,
-          profiles: null,
-          tags: course.tags || []
-        }));
-        setCourses(transformedCourses);
-      } else {
-        // Transform the data to ensure proper typing
-        const transformedCourses: Course[] = (coursesData || []).map(course => ({
-          id: course.id,
-          title: course.title,
-          description: course.description || '',
-          content_type: course.content_type,
-          access_type: course.access_type,
-          difficulty: course.difficulty || '',
-          tags: course.tags || [],
-          image_url: course.image_url || '',
-          created_at: course.created_at,
-          uploader_email: course.uploader_email,
-          profiles: course.profiles && 
-                   typeof course.profiles === 'object' && 
-                   course.profiles !== null &&
-                   course.profiles !== undefined
-            ? { full_name: (course.profiles as any).full_name }
-            : null
-        }));
-        setCourses(transformedCourses);
-      }
+  useEffect(() => {
+    // A category landing page waits for the slug to resolve
+    if (categorySlug && !categoriesLoaded) return;
+
+    // Debounce typing; the filters and the search run server-side
+    const timeout = setTimeout(() => {
+      fetchCourses();
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, selectedDifficulty, selectedContentType, activeCategory?.id, categoriesLoaded, sort, pageSize]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchCategoryCounts({
+        search: searchTerm,
+        difficulty: selectedDifficulty === 'all' ? null : selectedDifficulty,
+        contentType: selectedContentType === 'all' ? null : selectedContentType,
+      })
+        .then(setCategoryCounts)
+        .catch(error => console.error('Error fetching category counts:', error));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, selectedDifficulty, selectedContentType]);
 
-      // Fetch user's library if logged in
-      if (user) {
-        const { data: libraryData, error: libraryError } = await supabase
-          .from('user_courses')
-          .select('course_id')
-          .eq('user_id', user.id);
+  useEffect(() => {
+    fetchLibrary(courses.map(course => course.id), true);
+  }, [user]);
 
-        if (libraryError) throw libraryError;
-        setUserLibrary(new Set(libraryData?.map(item => item.course_id) || []));
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMore();
       }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  const fetchCourses = async () => {
+    const version = ++queryVersion.current;
+    try {
+      const page = await searchCourses(buildQuery(null));
+      if (version !== queryVersion.current) return;
+      setCourses(page.items.map(toCourse));
+      setNextCursor(page.nextCursor);
+      fetchLibrary(page.items.map(course => course.id), true);
     } catch (error) {
-      console.error('Error fetching data:', error);
+      console.error('Error fetching courses:', error);
       toast({
         title: "Error",
         description: "Failed to load courses",
@@ -114,6 +197,69 @@ export const Browse: React.FC = () => {
     }
   };
 
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const version = queryVersion.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchCourses(buildQuery(nextCursor));
+      if (version !== queryVersion.current) return;
+      setCourses(prev => [...prev, ...page.items.map(toCourse)]);
+      setNextCursor(page.nextCursor);
+      fetchLibrary(page.items.map(course => course.id));
+    } catch (error) {
+      console.error('Error loading more courses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load more courses",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const updateParam = (key: string, value: string) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      params.set(key, value);
+      return params;
+    }, { replace: true });
+  };
+
+  // Categories are part of the path so landing pages can be linked; sort and page size carry over
+  const selectCategory = (slug: string | null) => {
+    navigate({
+      pathname: slug ? `/browse/${slug}` : '/browse',
+      search: searchParams.toString(),
+    });
+  };
+
+  const categoryOptionLabel = (category: Category) =>
+    `${category.name} (${(categoryCounts[category.id] || 0).toLocaleString()})`;
+
+  // Looks up library membership for the loaded courses only; replace starts over for a new query
+  const fetchLibrary = async (courseIds: string[], replace = false) => {
+    if (!user || courseIds.length === 0) {
+      if (replace) setUserLibrary(new Set());
+      return;
+    }
+    const version = queryVersion.current;
+    const { data: libraryData, error: libraryError } = await supabase
+      .from('user_courses')
+      .select('course_id')
+      .eq('user_id', user.id)
+      .in('course_id', courseIds);
+
+    if (version !== queryVersion.current) return;
+    if (libraryError) {
+      console.error('Error fetching library:', libraryError);
+      return;
+    }
+    const libraryIds = libraryData?.map(item => item.course_id) || [];
+    setUserLibrary(prev => new Set([...(replace ? [] : prev), ...libraryIds]));
+  };
+
   const addToLibrary = async (courseId: string) => {
     if (!user) {
       toast({
@@ -133,6 +279,15 @@ export const Browse: React.FC = () => {
           completed: false
         }]);
 
+      // The lock above can be stale if prerequisites changed since the page loaded
+      if (error?.code === '42501') {
+        toast({
+          title: "Prerequisites Required",
+          description: "Complete the prerequisites listed on the course page first.",
+          variant: "destructive",
+        });
+        return;
+      }
       if (error) throw error;
 
       toast({
@@ -151,16 +306,7 @@ export const Browse: React.FC = () => {
     }
   };
 
-  const filteredCourses = courses.filter(course => {
-    const matchesSearch = course.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         course.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesDifficulty = !selectedDifficulty || selectedDifficulty === 'all' || course.difficulty === selectedDifficulty;
-    const matchesContentType = !selectedContentType || selectedContentType === 'all' || course.content_type === selectedContentType;
-
-    return matchesSearch && matchesDifficulty && matchesContentType;
-  });
-
-  if (loading) {
+  if (loading || (categorySlug && !categoriesLoaded)) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-center h-64">
@@ -170,16 +316,67 @@ export const Browse: React.FC = () => {
     );
   }
 
+  if (categorySlug && !activeCategory) {
+    return <NotFound />;
+  }
+
   return (
     <div className="container mx-auto px-4 py-8">
-      <div className="mb-8">
-        <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-          Browse Courses
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400">
-          Discover and learn from our extensive course library
-        </p>
-      </div>
+      {activeCategory ? (
+        <div className="mb-8">
+          <Breadcrumb className="mb-4">
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to={{ pathname: '/browse', search: searchParams.toString() }}>Browse</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              {parentCategory && (
+                <>
+                  <BreadcrumbSeparator />
+                  <BreadcrumbItem>
+                    <BreadcrumbLink asChild>
+                      <Link to={{ pathname: `/browse/${parentCategory.slug}`, search: searchParams.toString() }}>
+                        {parentCategory.name}
+                      </Link>
+                    </BreadcrumbLink>
+                  </BreadcrumbItem>
+                </>
+              )}
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage>{activeCategory.name}</BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+          <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            {activeCategory.name}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {activeCategory.description || `Courses in ${activeCategory.name}`}
+          </p>
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {subcategories.map(subcategory => (
+                <Link key={subcategory.id} to={{ pathname: `/browse/${subcategory.slug}`, search: searchParams.toString() }}>
+                  <Badge variant="secondary" className="hover:bg-gray-200 dark:hover:bg-gray-700">
+                    {categoryOptionLabel(subcategory)}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Browse Courses
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Discover and learn from our extensive course library
+          </p>
+        </div>
+      )}
 
       {/* Search and Filters */}
       <Card className="mb-8 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
@@ -190,12 +387,12 @@ export const Browse: React.FC = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div className="lg:col-span-2">
+          <div className="grid md:grid-cols-3 lg:grid-cols-7 gap-4">
+            <div className="md:col-span-3 lg:col-span-2">
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                 <Input
-                  placeholder="Search courses..."
+                  placeholder="Search by title, tag, description or author..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -203,6 +400,26 @@ export const Browse: React.FC = () => {
               </div>
             </div>
 
+            <Select
+              value={activeCategory?.id ?? 'all'}
+              onValueChange={(value) => selectCategory(value === 'all' ? null : categories.find(c => c.id === value)?.slug)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="All Categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categoryTree.map(category => (
+                  <React.Fragment key={category.id}>
+                    <SelectItem value={category.id} className="font-medium">{categoryOptionLabel(category)}</SelectItem>
+                    {category.children.map(child => (
+                      <SelectItem key={child.id} value={child.id} className="pl-12">{categoryOptionLabel(child)}</SelectItem>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </SelectContent>
+            </Select>
+
             <Select value={selectedDifficulty} onValueChange={setSelectedDifficulty}>
               <SelectTrigger>
                 <SelectValue placeholder="All Levels" />
@@ -226,13 +443,35 @@ export const Browse: React.FC = () => {
                 <SelectItem value="text">Text/Article</SelectItem>
               </SelectContent>
             </Select>
+
+            <Select value={sort} onValueChange={(value) => updateParam('sort', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={String(pageSize)} onValueChange={(value) => updateParam('pageSize', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Per page" />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map(size => (
+                  <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
 
       {/* Course Grid */}
       <div className="grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {filteredCourses.map((course) => (
+        {courses.map((course) => (
           <Card key={course.id} className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 hover:shadow-lg transition-shadow">
             <div className="relative">
               <img
@@ -248,16 +487,43 @@ export const Browse: React.FC = () => {
               </div>
             </div>
             <CardHeader className="pb-2">
-              <CardTitle className="text-lg line-clamp-1">{course.title}</CardTitle>
+              <CardTitle className="text-lg line-clamp-1">
+                <HighlightedText text={course.title_highlight} />
+              </CardTitle>
               <CardDescription
                 className="line-clamp-2 min-h-[3em]" // Reserve space for 2 lines
                 style={{ minHeight: '3em' }}
               >
-                {course.description || <span>&nbsp;</span>}
+                {course.description_snippet ? <HighlightedText text={course.description_snippet} /> : <span>&nbsp;</span>}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
+                {(course.uploader_name || course.category_slug) && (
+                  <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                    <span>{course.uploader_name && `By ${course.uploader_name}`}</span>
+                    {course.category_slug && (
+                      <Link to={`/browse/${course.category_slug}`} className="text-blue-600 hover:underline truncate">
+                        {course.category_name}
+                      </Link>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center gap-4 text-sm text-gray-500">
+                  <span className="flex items-center gap-1" title={formatCount(course.rating_count, 'rating')}>
+                    <Star className={`h-4 w-4 ${course.rating_count > 0 ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                    {course.rating_count > 0 ? (
+                      <>
+                        <span className="font-medium text-gray-700 dark:text-gray-300">{formatRating(course.rating_average)}</span>
+                        ({course.rating_count.toLocaleString()})
+                      </>
+                    ) : 'No ratings'}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Users className="h-4 w-4" />
+                    {formatCount(course.enrollment_count, 'student')}
+                  </span>
+                </div>
                 <div className="flex justify-between items-center text-sm">
                   <Badge variant="outline">{course.content_type}</Badge>
                   {course.difficulty && (
@@ -272,14 +538,25 @@ export const Browse: React.FC = () => {
                     </Button>
                   </Link>
                   {user && !userLibrary.has(course.id) && (
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={() => addToLibrary(course.id)}
-                      title="Add to Library"
-                    >
-                      <Plus className="h-4 w-4" />
-                    </Button>
+                    course.prerequisite_gating === 'hard' && !course.prerequisites_met ? (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        disabled
+                        title="Complete the prerequisites to add this course"
+                      >
+                        <Lock className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => addToLibrary(course.id)}
+                        title="Add to Library"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    )
                   )}
                   {user && userLibrary.has(course.id) && (
                     <Button
@@ -298,7 +575,15 @@ export const Browse: React.FC = () => {
         ))}
       </div>
 
-      {filteredCourses.length === 0 && (
+      {/* Infinite scroll sentinel */}
+      <div ref={sentinelRef} className="h-1" />
+      {loadingMore && (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {courses.length === 0 && (
         <Card className="text-center py-12">
           <CardContent>
             <BookOpen className="h-16 w-16 mx-auto text-gray-400 mb-4" />
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BadgeCheck, Copy, Download, ShieldX } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import {
+  Certificate as CertificateRecord,
+  buildCertificateSvg,
+  downloadCertificate,
+  formatCertificateDate,
+  getCertificateUrl,
+  verifyCertificate,
+} from '@/lib/certificates';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const Certificate: React.FC = () => {
+  const { certificateId } = useParams<{ certificateId: string }>();
+  const [certificate, setCertificate] = useState<CertificateRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Anything that isn't a UUID can't be a certificate id, and would fail the RPC cast
+    if (!certificateId || !UUID_PATTERN.test(certificateId)) {
+      setCertificate(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    verifyCertificate(certificateId)
+      .then(setCertificate)
+      .catch((error) => {
+        console.error('Error verifying certificate:', error);
+        setCertificate(null);
+      })
+      .finally(() => setLoading(false));
+  }, [certificateId]);
+
+  const preview = useMemo(
+    () => certificate && `data:image/svg+xml;charset=utf-8,${encodeURIComponent(buildCertificateSvg(certificate))}`,
+    [certificate]
+  );
+
+  const copyLink = async () => {
+    if (!certificate) return;
+    try {
+      await navigator.clipboard.writeText(getCertificateUrl(certificate.id));
+      toast({
+        title: "Link Copied",
+        description: "Share it with anyone who needs to verify this certificate.",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!certificate) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 text-center">
+          <CardHeader>
+            <ShieldX className="h-12 w-12 mx-auto text-red-500 mb-2" />
+            <CardTitle>Certificate Not Found</CardTitle>
+            <CardDescription>
+              No certificate was issued with this ID. Check the link, or ask the holder to share it again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link to="/">
+              <Button variant="outline">Return to Home</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-green-600">
+            <BadgeCheck className="h-6 w-6" />
+            Verified Certificate
+          </CardTitle>
+          <CardDescription>
+            This certificate was issued by Skillcy and its details below match our records.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Awarded to</dt>
+              <dd className="font-medium">{certificate.recipient_name}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{certificate.learning_path_id ? 'Learning path' : 'Course'}</dt>
+              <dd className="font-medium">
+                {certificate.learning_path_id ? (
+                  <Link to={`/paths/${certificate.learning_path_id}`} className="text-blue-600 hover:underline">
+                    {certificate.course_title}
+                  </Link>
+                ) : certificate.course_id ? (
+                  <Link to={`/learn/${certificate.course_id}`} className="text-blue-600 hover:underline">
+                    {certificate.course_title}
+                  </Link>
+                ) : certificate.course_title}
+              </dd>
+            </div>
+            {certificate.uploader_name && (
+              <div>
+                <dt className="text-gray-500">{certificate.learning_path_id ? 'Curated by' : 'Instructor'}</dt>
+                <dd className="font-medium">{certificate.uploader_name}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-gray-500">Completed on</dt>
+              <dd className="font-medium">{formatCertificateDate(certificate.completed_at)}</dd>
+            </div>
+            <div className="sm:col-span-2">
+              <dt className="text-gray-500">Certificate ID</dt>
+              <dd className="font-mono">{certificate.id}</dd>
+            </div>
+          </dl>
+          <div className="flex flex-wrap gap-2 mt-6">
+            <Button onClick={() => downloadCertificate(certificate)}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button variant="outline" onClick={copyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <img
+          src={preview}
+          alt={`Certificate of completion for ${certificate.course_title}`}
+          className="w-full rounded-lg shadow-lg"
+        />
+      )}
+    </div>
+  );
+};
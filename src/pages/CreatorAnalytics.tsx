@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { BarChart3, Eye, Star, TrendingUp, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { formatCount, formatRating } from '@/lib/reviews';
+import {
+  ACTIVITY_RANGES,
+  CourseFunnel,
+  CreatorCourseStats,
+  DailyActivity,
+  EMPTY_FUNNEL,
+  LessonDropoff,
+  fetchCourseFunnel,
+  fetchCreatorCourseStats,
+  fetchDailyActivity,
+  fetchLessonDropoff,
+  getCompletionRate,
+} from '@/lib/creatorAnalytics';
+
+const activityConfig = {
+  enrollments: { label: 'Enrollments', color: '#2563eb' },
+  completions: { label: 'Completions', color: '#22c55e' },
+  views: { label: 'Content views', color: '#9333ea' },
+} satisfies ChartConfig;
+
+const funnelConfig = {
+  learners: { label: 'Learners', color: '#2563eb' },
+} satisfies ChartConfig;
+
+const dropoffConfig = {
+  completions: { label: 'Completed', color: '#22c55e' },
+  viewers: { label: 'Opened', color: '#9333ea' },
+} satisfies ChartConfig;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const CreatorAnalytics: React.FC = () => {
+  const { user } = useAuth();
+  const { can, loading: entitlementsLoading } = useEntitlements();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [courses, setCourses] = useState<CreatorCourseStats[]>([]);
+  const [activity, setActivity] = useState<DailyActivity[]>([]);
+  const [funnel, setFunnel] = useState<CourseFunnel>(EMPTY_FUNNEL);
+  const [dropoff, setDropoff] = useState<LessonDropoff[]>([]);
+  const [days, setDays] = useState(ACTIVITY_RANGES[0]);
+  const [loading, setLoading] = useState(true);
+
+  const hasAccess = can('creator_analytics');
+  const selectedId = searchParams.get('course') || courses[0]?.course_id || null;
+  const selected = courses.find(course => course.course_id === selectedId) || null;
+
+  useEffect(() => {
+    if (!user || entitlementsLoading) return;
+    if (!hasAccess) {
+      setLoading(false);
+      return;
+    }
+
+    fetchCreatorCourseStats()
+      .then(setCourses)
+      .catch(error => console.error('Error fetching creator analytics:', error))
+      .finally(() => setLoading(false));
+  }, [user, entitlementsLoading, hasAccess]);
+
+  useEffect(() => {
+    if (!selectedId || !hasAccess) return;
+
+    Promise.all([fetchCourseFunnel(selectedId), fetchLessonDropoff(selectedId)])
+      .then(([courseFunnel, lessons]) => {
+        setFunnel(courseFunnel);
+        setDropoff(lessons);
+      })
+      .catch(error => console.error('Error fetching course analytics:', error));
+  }, [selectedId, hasAccess]);
+
+  useEffect(() => {
+    if (!selectedId || !hasAccess) return;
+
+    fetchDailyActivity(selectedId, days)
+      .then(setActivity)
+      .catch(error => console.error('Error fetching course activity:', error));
+  }, [selectedId, hasAccess, days]);
+
+  const funnelData = useMemo(() => [
+    { stage: 'Enrolled', learners: funnel.enrolled },
+    { stage: 'Started', learners: funnel.started },
+    { stage: 'Halfway', learners: funnel.halfway },
+    { stage: 'Completed', learners: funnel.completed },
+  ], [funnel]);
+
+  const activityTotals = useMemo(() => activity.reduce(
+    (totals, day) => ({
+      enrollments: totals.enrollments + day.enrollments,
+      completions: totals.completions + day.completions,
+      views: totals.views + day.views,
+    }),
+    { enrollments: 0, completions: 0, views: 0 }
+  ), [activity]);
+
+  const selectCourse = (courseId: string) => {
+    setSearchParams({ course: courseId });
+  };
+
+  if (loading || entitlementsLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 text-center">
+          <CardHeader>
+            <BarChart3 className="h-12 w-12 mx-auto text-gray-400 mb-2" />
+            <CardTitle>Creator Analytics</CardTitle>
+            <CardDescription>
+              See enrollments, completion, ratings and lesson drop-off for every course you upload with Pro.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link to="/premium">
+              <Button className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
+                View Plans
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          Creator Analytics
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          How learners find, follow and finish the courses you upload
+        </p>
+      </div>
+
+      {courses.length === 0 ? (
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 text-center py-12">
+          <CardContent>
+            <BarChart3 className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-xl font-semibold mb-2">No uploads yet</h3>
+            <p className="text-gray-600 mb-4">Upload a course from your dashboard to start collecting analytics.</p>
+            <Link to="/dashboard">
+              <Button variant="outline">Go to Dashboard</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* All courses */}
+          <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+            <CardHeader>
+              <CardTitle>Your Courses</CardTitle>
+              <CardDescription>Select a course to see its charts</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Course</TableHead>
+                    <TableHead className="text-right">Enrollments</TableHead>
+                    <TableHead className="text-right">Completion</TableHead>
+                    <TableHead className="text-right">Rating</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {courses.map(course => (
+                    <TableRow
+                      key={course.course_id}
+                      onClick={() => selectCourse(course.course_id)}
+                      className={`cursor-pointer ${course.course_id === selectedId ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                    >
+                      <TableCell className="font-medium">
+                        {course.title}
+                        {course.moderation_status !== 'approved' && (
+                          <Badge variant="outline" className="ml-2">{course.moderation_status}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{course.enrollments}</TableCell>
+                      <TableCell className="text-right">{getCompletionRate(course.completions, course.enrollments)}%</TableCell>
+                      <TableCell className="text-right">
+                        {course.rating_count > 0 ? `${formatRating(course.rating_average)} (${course.rating_count})` : '–'}
+                      </TableCell>
+                      <TableCell className="text-right">{course.views}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-2xl font-semibold">{selected.title}</h2>
+                <Link to={`/learn/${selected.course_id}`}>
+                  <Button variant="outline" size="sm">Open Course</Button>
+                </Link>
+              </div>
+
+              <div className="grid md:grid-cols-4 gap-6">
+                <Card className="bg-gradient-to-r from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-800/20 border-0">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Enrollments</CardTitle>
+                    <Users className="h-4 w-4 text-blue-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-blue-600">{selected.enrollments}</div>
+                  </CardContent>
+                </Card>
+                <Card className="bg-gradient-to-r from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 border-0">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Completion Rate</CardTitle>
+                    <TrendingUp className="h-4 w-4 text-green-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-green-600">
+                      {getCompletionRate(selected.completions, selected.enrollments)}%
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card className="bg-gradient-to-r from-orange-50 to-orange-100 dark:from-orange-900/20 dark:to-orange-800/20 border-0">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Average Rating</CardTitle>
+                    <Star className="h-4 w-4 text-orange-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-orange-600">
+                      {formatRating(selected.rating_average)}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {formatCount(selected.rating_count, 'rating')}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card className="bg-gradient-to-r from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 border-0">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Content Views</CardTitle>
+                    <Eye className="h-4 w-4 text-purple-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-purple-600">{selected.views}</div>
+                    <p className="text-xs text-gray-500">
+                      by {formatCount(selected.viewers, 'learner')}
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Activity over time */}
+              <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                <CardHeader>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <CardTitle>Enrollments Over Time</CardTitle>
+                      <CardDescription>
+                        {activityTotals.enrollments} enrollments, {activityTotals.completions} completions
+                        and {activityTotals.views} content views in the last {days} days
+                      </CardDescription>
+                    </div>
+                    <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACTIVITY_RANGES.map(range => (
+                          <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={activityConfig} className="h-72 w-full aspect-auto">
+                    <LineChart data={activity} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="enrollments" type="monotone" stroke="var(--color-enrollments)" strokeWidth={2} dot={false} />
+                      <Line dataKey="completions" type="monotone" stroke="var(--color-completions)" strokeWidth={2} dot={false} />
+                      <Line dataKey="views" type="monotone" stroke="var(--color-views)" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <div className="grid lg:grid-cols-2 gap-8">
+                {/* Completion funnel */}
+                <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>Completion Funnel</CardTitle>
+                    <CardDescription>
+                      Learners who opened the content, got halfway through it and finished it
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={funnelConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={funnelData} layout="vertical" margin={{ left: 8, right: 12 }}>
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                        <YAxis type="category" dataKey="stage" tickLine={false} axisLine={false} width={72} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="learners" fill="var(--color-learners)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                {/* Lesson drop-off */}
+                <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>Lesson Drop-off</CardTitle>
+                    <CardDescription>
+                      Learners who opened and completed each lesson, in course order
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {dropoff.length === 0 ? (
+                      <p className="text-sm text-gray-500">This course has no lessons.</p>
+                    ) : (
+                      <ChartContainer config={dropoffConfig} className="h-64 w-full aspect-auto">
+                        <BarChart data={dropoff} margin={{ left: 0, right: 12 }}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="lesson_number" tickLine={false} axisLine={false} />
+                          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                          <ChartTooltip
+                            content={
+                              <ChartTooltipContent
+                                labelFormatter={(_, payload) => {
+                                  const lesson = payload?.[0]?.payload as LessonDropoff | undefined;
+                                  return lesson ? `${lesson.lesson_number}. ${lesson.lesson_title}` : '';
+                                }}
+                              />
+                            }
+                          />
+                          <ChartLegend content={<ChartLegendContent />} />
+                          <Bar dataKey="viewers" fill="var(--color-viewers)" radius={4} />
+                          <Bar dataKey="completions" fill="var(--color-completions)" radius={4} />
+                        </BarChart>
+                      </ChartContainer>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -5,11 +5,18 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { BookOpen, Upload, BarChart3, Clock, Plus, Edit, Trash2, CheckCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { BookOpen, Upload, BarChart3, Clock, Plus, Edit, Trash2, CheckCircle, ClipboardList, Route, Trophy } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { Link } from 'react-router-dom';
 import { UploadCourseModal } from '@/components/UploadCourseModal';
 import { EditCourseModal } from '@/components/EditCourseModal';
+import { LearningActivity } from '@/components/LearningActivity';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { LessonCounts, fetchCourseProgress, getProgressPercent } from '@/lib/courseProgress';
+import { fetchLibraryCounts } from '@/lib/catalog';
+import { AssignedCourse, fetchAssignedCourses, formatDueDate, isOverdue } from '@/lib/assignments';
+import { LearningPathSummary, fetchLearningPaths, getPathProgressPercent } from '@/lib/learningPaths';
 
 interface UserCourse {
   id: string;
@@ -30,13 +37,19 @@ interface UploadedCourse {
   description: string;
   content_type: string;
   content_url: string;
+  content_path: string | null;
   content_text: string;
   access_type: string;
+  organization_id: string | null;
   difficulty: string;
+  category_id: string | null;
+  prerequisite_gating: string;
   tags: string[];
   image_url: string;
   created_at: string;
   uploader_email: string;
+  moderation_status: string;
+  rejection_reason: string | null;
 }
 
 interface ProfileStats {
@@ -45,10 +58,16 @@ interface ProfileStats {
   uploads: number;
 }
 
+const RECENT_COURSES_LIMIT = 3;
+
 export const Dashboard: React.FC = () => {
   const { user } = useAuth();
+  const { can, loading: entitlementsLoading } = useEntitlements();
   const [userCourses, setUserCourses] = useState<UserCourse[]>([]);
+  const [courseProgress, setCourseProgress] = useState<Record<string, LessonCounts>>({});
   const [uploadedCourses, setUploadedCourses] = useState<UploadedCourse[]>([]);
+  const [assignedCourses, setAssignedCourses] = useState<AssignedCourse[]>([]);
+  const [learningPaths, setLearningPaths] = useState<LearningPathSummary[]>([]);
   const [profileStats, setProfileStats] = useState<ProfileStats>({ completed: 0, enrolled: 0, uploads: 0 });
   const [loading, setLoading] = useState(true);
   const [showUploadModal, setShowUploadModal] = useState(false);
@@ -62,6 +81,7 @@ export const Dashboard: React.FC = () => {
   }, [user]);
 
   const fetchDashboardData = async () => {
+    if (!user) return;
     try {
       // Fetch user's enrolled courses
       const { data: enrolledData, error: enrolledError } = await supabase
@@ -71,7 +91,8 @@ export const Dashboard: React.FC = () => {
           courses(id, title, description, content_type, access_type)
         `)
         .eq('user_id', user?.id)
-        .order('added_at', { ascending: false });
+        .order('added_at', { ascending: false })
+        .limit(RECENT_COURSES_LIMIT);
 
       if (enrolledError) throw enrolledError;
 
@@ -80,7 +101,8 @@ export const Dashboard: React.FC = () => {
         .from('courses')
         .select('*')
         .eq('uploader_id', user?.id)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: false })
+        .limit(RECENT_COURSES_LIMIT);
 
       if (uploadedError) throw uploadedError;
 
@@ -93,11 +115,15 @@ export const Dashboard: React.FC = () => {
 
       if (profileError) {
         console.error('Profile error:', profileError);
-        // Calculate stats manually if profile fetch fails
-        const enrolledCount = enrolledData?.length || 0;
-        const completedCount = enrolledData?.filter(uc => uc.completed).length || 0;
-        const uploadsCount = uploadedData?.length || 0;
-        setProfileStats({ completed: completedCount, enrolled: enrolledCount, uploads: uploadsCount });
+        // Count rows directly if profile fetch fails; the lists above only hold the latest few
+        const [libraryCounts, { count: uploadsCount }] = await Promise.all([
+          fetchLibraryCounts(user.id),
+          supabase
+            .from('courses')
+            .select('id', { count: 'exact', head: true })
+            .eq('uploader_id', user?.id),
+        ]);
+        setProfileStats({ completed: libraryCounts.completed, enrolled: libraryCounts.total, uploads: uploadsCount || 0 });
       } else {
         setProfileStats({
           completed: profileData?.completed || 0,
@@ -107,7 +133,10 @@ export const Dashboard: React.FC = () => {
       }
 
       setUserCourses(enrolledData || []);
+      setCourseProgress(await fetchCourseProgress((enrolledData || []).map(uc => uc.courses.id)));
       setUploadedCourses(uploadedData || []);
+      setAssignedCourses(await fetchAssignedCourses());
+      setLearningPaths(await fetchLearningPaths(true));
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
       toast({
@@ -241,6 +270,93 @@ export const Dashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Streaks, weekly goal and, with premium, the activity calendar and charts */}
+      {!entitlementsLoading && <LearningActivity canViewAnalytics={can('advanced_progress_analytics')} />}
+
+      {/* Courses assigned by the user's organizations */}
+      {assignedCourses.length > 0 && (
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Assigned to You
+            </CardTitle>
+            <CardDescription>
+              Courses your organizations want you to complete
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {assignedCourses.map((assigned) => (
+                <div
+                  key={`${assigned.organization_id}-${assigned.course_id}`}
+                  className="flex flex-wrap items-center justify-between gap-2 p-4 border rounded-lg"
+                >
+                  <div>
+                    <h4 className="font-semibold">{assigned.course_title}</h4>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                      {assigned.organization_name}
+                      {assigned.due_at && ` · due ${formatDueDate(assigned.due_at)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {assigned.completed ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : isOverdue(assigned.due_at, assigned.completed) && (
+                      <Badge variant="destructive">Overdue</Badge>
+                    )}
+                    <Link to={`/learn/${assigned.course_id}`}>
+                      <Button variant="outline" size="sm">
+                        {assigned.completed ? 'Review' : 'Continue'}
+                      </Button>
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Learning paths the user follows, unfinished ones first */}
+      {learningPaths.length > 0 && (
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 mb-8">
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle className="flex items-center gap-2">
+                <Route className="h-5 w-5" />
+                My Learning Paths
+              </CardTitle>
+              <Link to="/paths">
+                <Button variant="outline" size="sm">
+                  Browse Paths
+                </Button>
+              </Link>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {learningPaths.map((path) => (
+                <Link key={path.id} to={`/paths/${path.id}`} className="block p-4 border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <h4 className="font-semibold">{path.title}</h4>
+                    {path.completed_at ? (
+                      <Badge className="bg-yellow-500 hover:bg-yellow-500">
+                        <Trophy className="h-3 w-3 mr-1" />
+                        Completed
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-gray-500">{path.completed_count} / {path.course_count}</span>
+                    )}
+                  </div>
+                  <Progress value={getPathProgressPercent(path)} className="h-2" />
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid lg:grid-cols-2 gap-8">
         {/* My Library */}
         <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
@@ -269,7 +385,7 @@ export const Dashboard: React.FC = () => {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {userCourses.slice(0, 3).map((userCourse) => (
+              {userCourses.map((userCourse) => (
                 <div key={userCourse.id} className="p-4 border rounded-lg">
                   <div className="flex justify-between items-start mb-2">
                     <h4 className="font-semibold">{userCourse.courses.title}</h4>
@@ -290,9 +406,15 @@ export const Dashboard: React.FC = () => {
                       {userCourse.courses.content_type}
                     </Badge>
                     <span className="text-xs text-gray-500">
-                      {userCourse.completed ? 'Completed' : 'In Progress'}
+                      {userCourse.completed
+                        ? 'Completed'
+                        : `${getProgressPercent(courseProgress[userCourse.courses.id], false)}% complete`}
                     </span>
                   </div>
+                  <Progress
+                    value={getProgressPercent(courseProgress[userCourse.courses.id], userCourse.completed)}
+                    className="h-2 mt-2"
+                  />
                   <Link to={`/learn/${userCourse.courses.id}`} className="inline-block mt-2">
                     <Button size="sm" variant="outline">
                       {userCourse.completed ? 'Review Course' : 'Continue Learning'}
@@ -317,14 +439,22 @@ export const Dashboard: React.FC = () => {
                 <Upload className="h-5 w-5" />
                 My Uploads
               </CardTitle>
-              <Button 
-                onClick={() => setShowUploadModal(true)}
-                size="sm"
-                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Course
-              </Button>
+              <div className="flex gap-2">
+                <Link to="/analytics">
+                  <Button variant="outline" size="sm">
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Analytics
+                  </Button>
+                </Link>
+                <Button 
+                  onClick={() => setShowUploadModal(true)}
+                  size="sm"
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Course
+                </Button>
+              </div>
             </div>
             <CardDescription>
               Courses you've shared with the community
@@ -332,7 +462,7 @@ export const Dashboard: React.FC = () => {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {uploadedCourses.slice(0, 3).map((course) => (
+              {uploadedCourses.map((course) => (
                 <div key={course.id} className="p-4 border rounded-lg">
                   <div className="flex justify-between items-start mb-2">
                     <h4 className="font-semibold">{course.title}</h4>
@@ -361,9 +491,19 @@ export const Dashboard: React.FC = () => {
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
                     {course.description}
                   </p>
+                  {course.moderation_status === 'rejected' && course.rejection_reason && (
+                    <p className="text-sm text-red-600 mb-2">
+                      Rejected: {course.rejection_reason}
+                    </p>
+                  )}
                   <div className="flex justify-between items-center">
-                    <span className="text-xs text-gray-500">
+                    <span className="text-xs text-gray-500 flex items-center gap-2">
                       {new Date(course.created_at).toLocaleDateString()}
+                      {course.moderation_status !== 'approved' && (
+                        <Badge variant={course.moderation_status === 'rejected' ? 'destructive' : 'outline'}>
+                          {course.moderation_status === 'rejected' ? 'Rejected' : 'Pending review'}
+                        </Badge>
+                      )}
                     </span>
                     <Badge variant="outline">
                       {course.content_type}
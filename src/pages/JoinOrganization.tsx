@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Building2, Link2Off } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  InvitePreview,
+  ROLE_LABELS,
+  acceptInvite,
+  fetchInvitePreview,
+  formatSeats,
+  getOrganizationPath,
+  hasFreeSeat,
+} from '@/lib/organizations';
+
+export const JoinOrganization: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    if (authLoading) return;
+    // The invite lookup needs a signed-in user
+    if (!user || !token) {
+      setLoading(false);
+      return;
+    }
+
+    fetchInvitePreview(token)
+      .then(setInvite)
+      .catch((error) => console.error('Error fetching invite:', error))
+      .finally(() => setLoading(false));
+  }, [user, authLoading, token]);
+
+  const handleJoin = async () => {
+    if (!token) return;
+    setJoining(true);
+    try {
+      const organizationId = await acceptInvite(token);
+      navigate(getOrganizationPath(organizationId));
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to join. The invite may have expired or the seats may have run out.",
+        variant: "destructive",
+      });
+      setJoining(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const expired = !!invite && new Date(invite.expires_at) < new Date();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 text-center">
+        {!user ? (
+          <>
+            <CardHeader>
+              <Building2 className="h-12 w-12 mx-auto text-blue-600 mb-2" />
+              <CardTitle>You've Been Invited</CardTitle>
+              <CardDescription>Sign in or create an account, then open this link again to join.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link to="/auth">
+                <Button className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
+                  Sign In
+                </Button>
+              </Link>
+            </CardContent>
+          </>
+        ) : !invite || expired ? (
+          <>
+            <CardHeader>
+              <Link2Off className="h-12 w-12 mx-auto text-red-500 mb-2" />
+              <CardTitle>Invite Not Valid</CardTitle>
+              <CardDescription>
+                This invite link has expired or was revoked. Ask an organization admin for a new one.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link to="/">
+                <Button variant="outline">Return to Home</Button>
+              </Link>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <Building2 className="h-12 w-12 mx-auto text-blue-600 mb-2" />
+              <CardTitle>Join {invite.organization_name}</CardTitle>
+              <CardDescription>
+                You'll join as {ROLE_LABELS[invite.role].toLowerCase()} and get access to the organization's courses.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-500">{formatSeats(invite.member_count, invite.seat_limit)}</p>
+              {hasFreeSeat(invite.member_count, invite.seat_limit) ? (
+                <Button
+                  onClick={handleJoin}
+                  disabled={joining}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  {joining ? 'Joining...' : 'Join Organization'}
+                </Button>
+              ) : (
+                <p className="text-sm text-red-500">
+                  This organization has no free seats. Ask its owner to add more.
+                </p>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
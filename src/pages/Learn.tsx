@@ -1,13 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { ArrowLeft, BookOpen, Clock, User, Star, Play, FileText, Video, ExternalLink } from 'lucide-react';
+import { ArrowLeft, BookOpen, Clock, User, Play, FileText, Video, ExternalLink, CheckCircle, ClipboardCheck, Award, Users, Lock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { useLearningSession } from '@/hooks/use-learning-session';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
+import { CourseModule, Lesson, fetchCourseOutline, formatDuration, getOutlineLessons, getTotalDuration } from '@/lib/courseOutline';
+import { getProgressPercent } from '@/lib/courseProgress';
+import { getContentUrl } from '@/lib/storage';
+import { loadOfflineCourse } from '@/lib/offlineDownloads';
+import { recordContentView } from '@/lib/creatorAnalytics';
+import { VideoPlayer } from '@/components/VideoPlayer';
+import { PdfViewer } from '@/components/PdfViewer';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { QuizPanel } from '@/components/QuizPanel';
+import { Quiz, fetchCourseQuizzes, fetchPassedQuizIds } from '@/lib/quizzes';
+import { Certificate, fetchCourseCertificate, getCertificatePath } from '@/lib/certificates';
+import { CoursePrerequisite, fetchCoursePrerequisites, isLibraryLocked } from '@/lib/coursePrerequisites';
+import { CourseStats, EMPTY_COURSE_STATS, fetchCourseStats, formatCount, formatRating } from '@/lib/reviews';
+import { CourseReviews } from '@/components/CourseReviews';
+import { CourseDiscussions } from '@/components/CourseDiscussions';
+import { StarRating } from '@/components/StarRating';
 
 interface Course {
   id: string;
@@ -18,71 +36,39 @@ interface Course {
   content_text: string | null;
   access_type: string;
   difficulty: string;
+  prerequisite_gating: string;
   tags: string[];
   image_url: string;
-  categories: { name: string } | null;
+  uploader_id: string;
+  categories: { name: string; slug: string } | null;
   profiles: { full_name: string | null } | null;
 }
 
 const DEFAULT_IMAGE_URL = 'https://www.shutterstock.com/image-photo/elearning-education-internet-lessons-online-600nw-2158034833.jpg';
 
-// Sample course data (matches the Browse page)
-const dummyCourseData: { [key: string]: any } = {
-  '1': {
-    id: '1',
-    title: 'Complete React Development Course',
-    description: 'Master React from basics to advanced concepts including hooks, context, and state management. This comprehensive course covers everything you need to become a React developer.',
-    content_type: 'video',
-    content_url: 'https://www.youtube.com/watch?v=dGcsHMXbSOA',
-    access_type: 'public',
-    difficulty: 'intermediate',
-    tags: ['React', 'JavaScript', 'Frontend'],
-    instructor: 'Sarah Johnson',
-    duration: '12 hours',
-    rating: 4.8,
-    students: 1250,
-    image_url: 'https://images.unsplash.com/photo-1633356122544-f134324a6cee?w=800&h=400&fit=crop',
-    modules: [
-      { title: 'Introduction to React', duration: '45 min', completed: true },
-      { title: 'Components and JSX', duration: '60 min', completed: true },
-      { title: 'State and Props', duration: '75 min', completed: false },
-      { title: 'Event Handling', duration: '50 min', completed: false },
-      { title: 'Hooks in Detail', duration: '90 min', completed: false }
-    ]
-  },
-  '2': {
-    id: '2',
-    title: 'Python for Data Science',
-    description: 'Learn Python programming with focus on data analysis, pandas, numpy, and machine learning basics.',
-    content_type: 'pdf',
-    content_url: 'https://example.com/python-data-science.pdf',
-    access_type: 'premium',
-    difficulty: 'beginner',
-    tags: ['Python', 'Data Science', 'Machine Learning'],
-    instructor: 'Dr. Michael Chen',
-    duration: '15 hours',
-    rating: 4.9,
-    students: 890,
-    image_url: 'https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800&h=400&fit=crop',
-    modules: [
-      { title: 'Python Basics', duration: '60 min', completed: false },
-      { title: 'Data Structures', duration: '80 min', completed: false },
-      { title: 'NumPy Fundamentals', duration: '70 min', completed: false },
-      { title: 'Pandas for Data Analysis', duration: '90 min', completed: false },
-      { title: 'Introduction to ML', duration: '100 min', completed: false }
-    ]
-  }
-};
-
 export const Learn: React.FC = () => {
   const { courseId } = useParams<{ courseId: string }>();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
+  const { can } = useEntitlements();
   const [course, setCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
-  const [progress, setProgress] = useState(40);
+  const [modules, setModules] = useState<CourseModule[]>([]);
+  const [activeLesson, setActiveLesson] = useState<Lesson | null>(null);
+  const [courseContentOpen, setCourseContentOpen] = useState(false);
   const [inLibrary, setInLibrary] = useState(false);
   const [userCourseId, setUserCourseId] = useState<string | null>(null);
   const [completed, setCompleted] = useState(false);
+  const [completedLessons, setCompletedLessons] = useState<Set<string>>(new Set());
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [passedQuizIds, setPassedQuizIds] = useState<Set<string>>(new Set());
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [stats, setStats] = useState<CourseStats>(EMPTY_COURSE_STATS);
+  const [offlineCopy, setOfflineCopy] = useState(false);
+  const [prerequisites, setPrerequisites] = useState<CoursePrerequisite[]>([]);
+
+  // Time spent on courses in the library feeds streaks and the weekly goal
+  useLearningSession(course?.id ?? null, activeLesson?.id ?? null, !!user && inLibrary && !offlineCopy);
 
   useEffect(() => {
     if (courseId) {
@@ -90,6 +76,13 @@ export const Learn: React.FC = () => {
     }
   }, [courseId]);
 
+  // Completion of the prerequisites depends on who is signed in
+  useEffect(() => {
+    if (courseId) {
+      fetchPrerequisites(courseId);
+    }
+  }, [courseId, user]);
+
   useEffect(() => {
     if (user && courseId) {
       checkLibraryStatus();
@@ -97,6 +90,37 @@ export const Learn: React.FC = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, courseId, loading]);
 
+  // Without a connection, open the copy downloaded from the Library page instead
+  useEffect(() => {
+    if (loading || course || !user || !courseId || navigator.onLine) return;
+
+    loadOfflineCourse(user.id, courseId)
+      .then(offlinePackage => {
+        if (!offlinePackage) return;
+        const { uploader_name, ...offlineCourse } = offlinePackage.course;
+        setCourse({
+          ...offlineCourse,
+          image_url: offlineCourse.image_url || DEFAULT_IMAGE_URL,
+          tags: offlineCourse.tags || [],
+          prerequisite_gating: 'soft',
+          categories: null,
+          profiles: { full_name: uploader_name },
+        });
+        setModules(offlinePackage.modules);
+        setOfflineCopy(true);
+        setInLibrary(true);
+      })
+      .catch(error => console.error('Error opening offline copy:', error));
+  }, [loading, course, user, courseId]);
+
+  // Library links here with ?resume=1 to reopen the course content where the learner left off
+  useEffect(() => {
+    if (searchParams.get('resume') && course && inLibrary && !courseContentOpen) {
+      handleAccessContent();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [course, inLibrary]);
+
   const fetchCourse = async (id: string) => {
     try {
       setLoading(true);
@@ -106,32 +130,37 @@ export const Learn: React.FC = () => {
         .from('courses')
         .select(`
           *,
-          profiles!fk_courses_uploader_profiles(full_name)
+          profiles!fk_courses_uploader_profiles(full_name),
+          categories(name, slug)
         `)
         .eq('id', id)
         .single();
 
       if (error || !data) {
-        // Fallback to dummy data
-        const dummyCourse = dummyCourseData[id];
-        if (dummyCourse) {
-          setCourse({
-            ...dummyCourse,
-            categories: null,
-            profiles: { full_name: dummyCourse.instructor }
-          });
-        } else {
-          setCourse(null);
-        }
+        setCourse(null);
+        setModules([]);
       } else {
         setCourse({
           ...data,
+          content_url: await getContentUrl(data),
           image_url: data.image_url || DEFAULT_IMAGE_URL,
           tags: data.tags || [],
-          categories: null,
+          categories: data.categories,
           profiles: data.profiles ? { full_name: data.profiles.full_name } : null
         });
+        setModules(await fetchCourseOutline(id));
+        setQuizzes(await fetchCourseQuizzes(id).catch((quizError) => {
+          console.error('Error fetching quizzes:', quizError);
+          return [];
+        }));
+        setStats(await fetchCourseStats(id).catch((statsError) => {
+          console.error('Error fetching course stats:', statsError);
+          return EMPTY_COURSE_STATS;
+        }));
       }
+      setActiveLesson(null);
+      setCourseContentOpen(false);
+      setOfflineCopy(false);
     } catch (error) {
       console.error('Error fetching course:', error);
       setCourse(null);
@@ -140,6 +169,22 @@ export const Learn: React.FC = () => {
     }
   };
 
+  const fetchStats = async (id: string) => {
+    try {
+      setStats(await fetchCourseStats(id));
+    } catch (error) {
+      console.error('Error fetching course stats:', error);
+    }
+  };
+
+  const fetchPrerequisites = async (id: string) => {
+    try {
+      setPrerequisites(await fetchCoursePrerequisites(id));
+    } catch (error) {
+      console.error('Error fetching prerequisites:', error);
+    }
+  };
+
   const checkLibraryStatus = async () => {
     const { data, error } = await supabase
       .from('user_courses')
@@ -147,21 +192,96 @@ export const Learn: React.FC = () => {
       .eq('user_id', user?.id)
       .eq('course_id', courseId)
       .single();
+    // Offline the request fails; keep what the offline copy set up
+    if (!data && !navigator.onLine) return;
     if (data) {
       setInLibrary(true);
       setUserCourseId(data.id);
       setCompleted(data.completed);
+      fetchLessonProgress();
+      fetchQuizProgress();
+      if (data.completed) {
+        fetchCertificate();
+      } else {
+        setCertificate(null);
+      }
     } else {
       setInLibrary(false);
       setUserCourseId(null);
       setCompleted(false);
+      setCompletedLessons(new Set());
+      setPassedQuizIds(new Set());
+      setCertificate(null);
+    }
+  };
+
+  const fetchCertificate = async () => {
+    if (!user || !courseId) return;
+    try {
+      setCertificate(await fetchCourseCertificate(user.id, courseId));
+    } catch (error) {
+      console.error('Error fetching certificate:', error);
     }
   };
 
-  const handleAccessContent = () => {
+  const fetchQuizProgress = async () => {
+    if (!user || quizzes.length === 0) return;
+    try {
+      setPassedQuizIds(await fetchPassedQuizIds(user.id, quizzes.map(quiz => quiz.id)));
+    } catch (error) {
+      console.error('Error fetching quiz progress:', error);
+    }
+  };
+
+  const fetchLessonProgress = async () => {
+    const lessonIds = getOutlineLessons(modules).map(lesson => lesson.id);
+    if (!user || lessonIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('lesson_progress')
+      .select('lesson_id')
+      .eq('user_id', user.id)
+      .in('lesson_id', lessonIds);
+    if (error) {
+      console.error('Error fetching lesson progress:', error);
+      return;
+    }
+    setCompletedLessons(new Set(data?.map(item => item.lesson_id) || []));
+  };
+
+  const toggleLessonComplete = async (lesson: Lesson) => {
+    if (!user || !inLibrary) return;
+    const isDone = completedLessons.has(lesson.id);
+
+    const { error } = isDone
+      ? await supabase
+          .from('lesson_progress')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('lesson_id', lesson.id)
+      : await supabase
+          .from('lesson_progress')
+          .insert([{ user_id: user.id, lesson_id: lesson.id }]);
+
+    if (error) {
+      console.error('Error updating lesson progress:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update lesson progress",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Finishing the last lesson completes the course on the server
+    checkLibraryStatus();
+  };
+
+  // Opens the given lesson, or the course-level content when no lesson is passed
+  const handleAccessContent = (lesson?: Lesson) => {
     if (!course) return;
 
-    if (course.access_type === 'premium' && user && !['premium', 'admin'].includes(user.user_metadata?.role)) {
+    if (course.access_type === 'premium' && !can('view_premium_courses')) {
       toast({
         title: "Premium Required",
         description: "This is a premium course. Please upgrade to access the content.",
@@ -170,15 +290,29 @@ export const Learn: React.FC = () => {
       return;
     }
 
-    if (course.content_type === 'text' && course.content_text) {
+    const content = lesson || course;
+
+    setActiveLesson(lesson || null);
+
+    // Feeds the uploader's content view analytics
+    if (user && !offlineCopy) {
+      recordContentView(course.id, lesson?.id ?? null).catch((error) => {
+        console.error('Error recording content view:', error);
+      });
+    }
+
+    if (content.content_type === 'text' && content.content_text) {
       // Display text content in a modal or new section
       toast({
         title: "Text Content",
         description: "Text content will be displayed below",
       });
-    } else if (course.content_url) {
-      // Open PDF or video link in new tab
-      window.open(course.content_url, '_blank');
+    } else if ((content.content_type === 'video' || content.content_type === 'pdf') && content.content_url) {
+      // Videos and PDFs open in the page so the learner's place can be saved
+      setCourseContentOpen(!lesson);
+    } else if (content.content_url) {
+      // Open any other link in a new tab
+      window.open(content.content_url, '_blank');
     } else {
       toast({
         title: "No Content Available",
@@ -196,10 +330,20 @@ export const Learn: React.FC = () => {
     if (!error) {
       setInLibrary(true);
       checkLibraryStatus();
+      fetchStats(courseId);
       toast({
         title: "Added to Library",
         description: "Course added to your library. You can now access and track progress.",
       });
+    } else {
+      console.error('Error adding course to library:', error);
+      toast({
+        title: "Error",
+        description: error.code === '42501'
+          ? "Complete the prerequisites of this course first."
+          : "Failed to add course to library",
+        variant: "destructive",
+      });
     }
   };
 
@@ -207,14 +351,23 @@ export const Learn: React.FC = () => {
     if (!userCourseId) return;
     const { error } = await supabase
       .from('user_courses')
-      .update({ completed: !completed, completed_at: !completed ? new Date().toISOString() : null })
+      .update({ completed: !completed })
       .eq('id', userCourseId);
     if (!error) {
       setCompleted(!completed);
+      // Completing issues a certificate on the server
+      checkLibraryStatus();
       toast({
         title: !completed ? "Marked as Completed" : "Marked as Incomplete",
         description: !completed ? "Course marked as completed!" : "Course marked as incomplete.",
       });
+    } else {
+      console.error('Error updating course completion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update course completion",
+        variant: "destructive",
+      });
     }
   };
 
@@ -244,10 +397,21 @@ export const Learn: React.FC = () => {
     );
   }
 
-  const dummyCourse = dummyCourseData[course.id];
-  const completedModules = dummyCourse?.modules?.filter((m: any) => m.completed).length || 0;
-  const totalModules = dummyCourse?.modules?.length || 5;
-  const courseProgress = (completedModules / totalModules) * 100;
+  const lessons = getOutlineLessons(modules);
+  const totalDuration = getTotalDuration(lessons);
+  // The selected lesson's quiz, or the course quiz when no lesson is open
+  const activeQuiz = quizzes.find(quiz => quiz.lesson_id === (activeLesson?.id ?? null));
+  const pendingQuizzes = quizzes.filter(quiz => quiz.required_for_completion && !passedQuizIds.has(quiz.id));
+  // Mirrors can_post_discussion: premium courses need the course in the library or a premium plan
+  const canDiscuss = !!user && can('community_discussions') && (
+    inLibrary || user.id === course.uploader_id || course.access_type !== 'premium' || can('view_premium_courses')
+  );
+  const openPrerequisites = prerequisites.filter(prerequisite => !prerequisite.completed);
+  const libraryLocked = isLibraryLocked(course.prerequisite_gating, prerequisites, user?.id === course.uploader_id);
+  const courseProgress = getProgressPercent(
+    { totalLessons: lessons.length, completedLessons: lessons.filter(lesson => completedLessons.has(lesson.id)).length },
+    completed
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-blue-900 dark:to-purple-900">
@@ -279,8 +443,18 @@ export const Learn: React.FC = () => {
               
               <div className="flex flex-wrap gap-2 mb-4">
                 <Badge variant={course.access_type === 'premium' ? 'secondary' : 'default'}>
-                  {course.access_type === 'premium' ? '✨ Premium' : '🆓 Free'}
+                  {course.access_type === 'premium'
+                    ? '✨ Premium'
+                    : course.access_type === 'organization' ? '🏢 Organization' : '🆓 Free'}
                 </Badge>
+                {offlineCopy && <Badge variant="outline">📥 Offline copy</Badge>}
+                {course.categories && (
+                  <Link to={`/browse/${course.categories.slug}`}>
+                    <Badge variant="outline" className="hover:bg-gray-100 dark:hover:bg-gray-700">
+                      {course.categories.name}
+                    </Badge>
+                  </Link>
+                )}
                 <Badge variant="outline">{course.difficulty}</Badge>
                 <Badge variant="outline">
                   {course.content_type === 'video' ? <Video className="h-3 w-3 mr-1" /> : <FileText className="h-3 w-3 mr-1" />}
@@ -303,21 +477,26 @@ export const Learn: React.FC = () => {
                 </div>
                 <div className="flex items-center gap-1">
                   <Clock className="h-4 w-4" />
-                  {dummyCourse?.duration || 'Self-paced'}
+                  {totalDuration > 0 ? formatDuration(totalDuration) : 'Self-paced'}
                 </div>
-                {dummyCourse?.rating && (
+                {stats.rating_count > 0 && (
                   <div className="flex items-center gap-1">
-                    <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                    {dummyCourse.rating} ({dummyCourse.students} students)
+                    <StarRating value={stats.rating_average} />
+                    <span className="font-medium text-gray-700 dark:text-gray-300">{formatRating(stats.rating_average)}</span>
+                    ({formatCount(stats.rating_count, 'rating')})
                   </div>
                 )}
+                <div className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  {formatCount(stats.enrollment_count, 'student')}
+                </div>
               </div>
 
-              {user && dummyCourse?.modules && (
+              {user && inLibrary && (
                 <div className="mb-6">
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-sm font-medium">Your Progress</span>
-                    <span className="text-sm text-gray-500">{Math.round(courseProgress)}% Complete</span>
+                    <span className="text-sm text-gray-500">{courseProgress}% Complete</span>
                   </div>
                   <Progress value={courseProgress} className="h-2" />
                 </div>
@@ -326,12 +505,18 @@ export const Learn: React.FC = () => {
               {/* Content Access Button and Add/Mark as Completed */}
               <div className="mb-6 flex flex-col md:flex-row md:items-center md:gap-4">
                 <Button 
-                  onClick={handleAccessContent}
+                  onClick={() => handleAccessContent()}
                   className="bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white"
                   size="lg"
                   disabled={!inLibrary}
                 >
-                  <ExternalLink className="h-4 w-4 mr-2" />
+                  {course.content_type === 'video' ? (
+                    <Play className="h-4 w-4 mr-2" />
+                  ) : course.content_type === 'pdf' ? (
+                    <FileText className="h-4 w-4 mr-2" />
+                  ) : (
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                  )}
                   Access {course.content_type === 'video' ? 'Video' : course.content_type === 'pdf' ? 'PDF' : 'Content'}
                 </Button>
                 {user && (
@@ -340,6 +525,7 @@ export const Learn: React.FC = () => {
                       variant={completed ? "outline" : "default"}
                       className="ml-0 mt-2 md:mt-0 md:ml-2"
                       onClick={handleMarkCompleted}
+                      disabled={!completed && pendingQuizzes.length > 0}
                     >
                       {completed ? "Mark as Incomplete" : "Mark as Completed"}
                     </Button>
@@ -348,27 +534,141 @@ export const Learn: React.FC = () => {
                       variant="outline"
                       className="ml-0 mt-2 md:mt-0 md:ml-2"
                       onClick={handleAddToLibrary}
+                      disabled={libraryLocked}
                     >
+                      {libraryLocked && <Lock className="h-4 w-4 mr-2" />}
                       Add to Library to access material
                     </Button>
                   )
                 )}
               </div>
 
+              {user && !inLibrary && openPrerequisites.length > 0 && (
+                <p className={`mb-6 text-sm ${libraryLocked ? 'text-red-600' : 'text-orange-600'}`}>
+                  {libraryLocked
+                    ? `Complete ${openPrerequisites.map(prerequisite => `"${prerequisite.title}"`).join(', ')} to unlock this course.`
+                    : `We recommend finishing ${openPrerequisites.map(prerequisite => `"${prerequisite.title}"`).join(', ')} before starting this course.`}
+                </p>
+              )}
+
+              {user && inLibrary && completed && (
+                certificate ? (
+                  <div className="mb-6">
+                    <Link to={getCertificatePath(certificate.id)}>
+                      <Button variant="outline">
+                        <Award className="h-4 w-4 mr-2" />
+                        View Certificate
+                      </Button>
+                    </Link>
+                  </div>
+                ) : !can('certificates') && (
+                  <p className="mb-6 text-sm text-gray-600 dark:text-gray-400">
+                    <Link to="/premium" className="text-blue-600 hover:underline">Upgrade to premium</Link> to earn a certificate for this course.
+                  </p>
+                )
+              )}
+
+              {user && inLibrary && !completed && pendingQuizzes.length > 0 && (
+                <p className="mb-6 text-sm text-gray-600 dark:text-gray-400">
+                  Pass {pendingQuizzes.map(quiz => `"${quiz.title}"`).join(', ')} to complete this course.
+                </p>
+              )}
+
+              {/* Play the selected video lesson, or the course video */}
+              {activeLesson && activeLesson.content_type === 'video' && activeLesson.content_url && (
+                <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>{activeLesson.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <VideoPlayer
+                      key={activeLesson.id}
+                      courseId={course.id}
+                      lessonId={activeLesson.id}
+                      url={activeLesson.content_url}
+                      onCompleted={checkLibraryStatus}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Read the selected PDF lesson, or the course PDF */}
+              {activeLesson && activeLesson.content_type === 'pdf' && activeLesson.content_url && (
+                <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>{activeLesson.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <PdfViewer
+                      key={activeLesson.id}
+                      courseId={course.id}
+                      lessonId={activeLesson.id}
+                      url={activeLesson.content_url}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {!activeLesson && courseContentOpen && course.content_type === 'pdf' && course.content_url && (
+                <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>Course PDF</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <PdfViewer courseId={course.id} lessonId={null} url={course.content_url} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {!activeLesson && courseContentOpen && course.content_type === 'video' && course.content_url && (
+                <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>Course Video</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <VideoPlayer
+                      courseId={course.id}
+                      lessonId={null}
+                      url={course.content_url}
+                      onCompleted={checkLibraryStatus}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Display the selected text lesson */}
+              {activeLesson && activeLesson.content_type === 'text' && activeLesson.content_text && (
+                <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle>{activeLesson.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <MarkdownContent content={activeLesson.content_text} showTableOfContents />
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Display text content if available */}
-              {course.content_type === 'text' && course.content_text && (
+              {!activeLesson && course.content_type === 'text' && course.content_text && (
                 <Card className="mb-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
                   <CardHeader>
                     <CardTitle>Course Content</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="prose dark:prose-invert max-w-none">
-                      <div className="whitespace-pre-wrap">{course.content_text}</div>
-                    </div>
+                    <MarkdownContent content={course.content_text} showTableOfContents />
                   </CardContent>
                 </Card>
               )}
 
+              {activeQuiz && (
+                <QuizPanel
+                  key={activeQuiz.id}
+                  quiz={activeQuiz}
+                  canAttempt={inLibrary}
+                  onSubmitted={checkLibraryStatus}
+                />
+              )}
+
               <div className="flex flex-wrap gap-2 mb-6">
                 {course.tags.map((tag: string, index: number) => (
                   <Badge key={index} variant="secondary">
@@ -379,7 +679,7 @@ export const Learn: React.FC = () => {
             </div>
 
             {/* Course Modules (if available) */}
-            {dummyCourse?.modules && (
+            {modules.length > 0 && (
               <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -387,36 +687,94 @@ export const Learn: React.FC = () => {
                     Course Content
                   </CardTitle>
                   <CardDescription>
-                    {totalModules} modules • {dummyCourse.duration} total
+                    {modules.length} {modules.length === 1 ? 'module' : 'modules'} • {lessons.length} {lessons.length === 1 ? 'lesson' : 'lessons'}
+                    {totalDuration > 0 && ` • ${formatDuration(totalDuration)} total`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {dummyCourse.modules.map((module: any, index: number) => (
-                      <div key={index} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
-                        <div className="flex items-center gap-3">
-                          <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                            module.completed 
-                              ? 'bg-green-500 text-white' 
-                              : 'bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
-                          }`}>
-                            {module.completed ? '✓' : index + 1}
-                          </div>
-                          <div>
-                            <h4 className="font-medium">{module.title}</h4>
-                            <p className="text-sm text-gray-500">{module.duration}</p>
-                          </div>
+                  <div className="space-y-6">
+                    {modules.map((module, moduleIndex) => (
+                      <div key={module.id}>
+                        <h3 className="font-semibold mb-3">
+                          {moduleIndex + 1}. {module.title}
+                        </h3>
+                        <div className="space-y-3">
+                          {module.lessons.map((lesson, lessonIndex) => {
+                            const lessonDone = completedLessons.has(lesson.id);
+                            return (
+                              <div
+                                key={lesson.id}
+                                className={`flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
+                                  activeLesson?.id === lesson.id ? 'border-blue-500' : ''
+                                }`}
+                              >
+                                <div className="flex items-center gap-3">
+                                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                                    lessonDone
+                                      ? 'bg-green-500 text-white'
+                                      : 'bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
+                                  }`}>
+                                    {lessonDone ? '✓' : lessonIndex + 1}
+                                  </div>
+                                  <div>
+                                    <h4 className="font-medium">{lesson.title}</h4>
+                                    <p className="text-sm text-gray-500 flex items-center gap-1">
+                                      {lesson.content_type === 'video' ? <Video className="h-3 w-3" /> : <FileText className="h-3 w-3" />}
+                                      {lesson.duration_minutes ? formatDuration(lesson.duration_minutes) : lesson.content_type}
+                                      {quizzes.some(quiz => quiz.lesson_id === lesson.id) && (
+                                        <>
+                                          <ClipboardCheck className="h-3 w-3 ml-2" />
+                                          Quiz
+                                        </>
+                                      )}
+                                    </p>
+                                  </div>
+                                </div>
+                                <div className="flex gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => toggleLessonComplete(lesson)}
+                                    disabled={!inLibrary}
+                                    title={lessonDone ? 'Mark as not done' : 'Mark as done'}
+                                  >
+                                    <CheckCircle className={`h-4 w-4 ${lessonDone ? 'text-green-500' : ''}`} />
+                                  </Button>
+                                  <Button size="sm" variant={lessonDone ? "outline" : "default"} onClick={() => handleAccessContent(lesson)} disabled={!inLibrary}>
+                                    <Play className="h-4 w-4 mr-2" />
+                                    {lessonDone ? 'Review' : 'Start'}
+                                  </Button>
+                                </div>
+                              </div>
+                            );
+                          })}
+                          {module.lessons.length === 0 && (
+                            <p className="text-sm text-gray-500">No lessons in this module yet.</p>
+                          )}
                         </div>
-                        <Button size="sm" variant={module.completed ? "outline" : "default"} onClick={handleAccessContent}>
-                          <Play className="h-4 w-4 mr-2" />
-                          {module.completed ? 'Review' : 'Start'}
-                        </Button>
                       </div>
                     ))}
                   </div>
                 </CardContent>
               </Card>
             )}
+
+            <CourseDiscussions
+              courseId={course.id}
+              uploaderId={course.uploader_id}
+              lesson={activeLesson}
+              lessonTitles={Object.fromEntries(lessons.map(lesson => [lesson.id, lesson.title]))}
+              canPost={canDiscuss}
+              initialThreadId={searchParams.get('thread')}
+            />
+
+            <CourseReviews
+              courseId={course.id}
+              uploaderId={course.uploader_id}
+              stats={stats}
+              canReview={inLibrary && (course.access_type !== 'premium' || can('view_premium_courses'))}
+              onReviewsChanged={() => fetchStats(course.id)}
+            />
           </div>
 
           {/* Sidebar */}
@@ -439,7 +797,7 @@ export const Learn: React.FC = () => {
               </Card>
             )}
 
-            {course.access_type === 'premium' && (
+            {course.access_type === 'premium' && !can('view_premium_courses') && (
               <Card className="bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 border-0">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -459,6 +817,38 @@ export const Learn: React.FC = () => {
               </Card>
             )}
 
+            {prerequisites.length > 0 && (
+              <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                <CardHeader>
+                  <CardTitle>Before You Start</CardTitle>
+                  <CardDescription>
+                    {course.prerequisite_gating === 'hard'
+                      ? 'Complete these courses to unlock this one'
+                      : 'Courses we recommend finishing first'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {prerequisites.map(prerequisite => (
+                    <div key={prerequisite.course_id} className="flex items-start justify-between gap-2">
+                      <Link to={`/learn/${prerequisite.course_id}`} className="font-medium hover:text-blue-600">
+                        {prerequisite.title}
+                      </Link>
+                      {prerequisite.completed ? (
+                        <Badge className="bg-green-600 hover:bg-green-600 shrink-0">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Completed
+                        </Badge>
+                      ) : user && prerequisite.in_library ? (
+                        <Badge variant="secondary" className="shrink-0">In library</Badge>
+                      ) : (
+                        <Badge variant="outline" className="shrink-0">Not started</Badge>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
               <CardHeader>
                 <CardTitle>Course Stats</CardTitle>
@@ -476,12 +866,22 @@ export const Learn: React.FC = () => {
                   <span className="text-gray-600 dark:text-gray-400">Access</span>
                   <span className="font-medium capitalize">{course.access_type}</span>
                 </div>
-                {dummyCourse?.students && (
+                {lessons.length > 0 && (
                   <div className="flex justify-between">
-                    <span className="text-gray-600 dark:text-gray-400">Students</span>
-                    <span className="font-medium">{dummyCourse.students.toLocaleString()}</span>
+                    <span className="text-gray-600 dark:text-gray-400">Lessons</span>
+                    <span className="font-medium">{lessons.length}</span>
                   </div>
                 )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Rating</span>
+                  <span className="font-medium">
+                    {stats.rating_count > 0 ? `${formatRating(stats.rating_average)} / 5` : 'Not yet rated'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Students</span>
+                  <span className="font-medium">{stats.enrollment_count.toLocaleString()}</span>
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, Award, CheckCircle, Edit, Lock, Route, Trash2, Trophy, Users } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { LearningPathEditor } from '@/components/LearningPathEditor';
+import { Certificate, fetchLearningPathCertificate, formatCertificateDate, getCertificatePath } from '@/lib/certificates';
+import {
+  LearningPathCourse,
+  LearningPathSummary,
+  deleteLearningPath,
+  enrollLearningPath,
+  fetchLearningPath,
+  fetchLearningPathCourses,
+  getOpenPrerequisites,
+  getPathProgressPercent,
+  leaveLearningPath,
+} from '@/lib/learningPaths';
+import { formatCount } from '@/lib/reviews';
+import NotFound from './NotFound';
+
+const DEFAULT_IMAGE_URL = 'https://www.shutterstock.com/image-photo/elearning-education-internet-lessons-online-600nw-2158034833.jpg';
+
+export const LearningPath: React.FC = () => {
+  const { pathId } = useParams<{ pathId: string }>();
+  const { user } = useAuth();
+  const { can } = useEntitlements();
+  const navigate = useNavigate();
+  const [path, setPath] = useState<LearningPathSummary | null>(null);
+  const [courses, setCourses] = useState<LearningPathCourse[]>([]);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [enrolling, setEnrolling] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+
+  const canEdit = !!user && !!path && (path.author_id === user.id || can('manage_learning_paths'));
+
+  useEffect(() => {
+    if (pathId) {
+      fetchPath(pathId);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathId, user]);
+
+  const fetchPath = async (id: string) => {
+    try {
+      const [summary, pathCourses] = await Promise.all([
+        fetchLearningPath(id),
+        fetchLearningPathCourses(id),
+      ]);
+      setPath(summary);
+      setCourses(pathCourses);
+      setCertificate(user && summary?.completed_at
+        ? await fetchLearningPathCertificate(user.id, id).catch((certificateError) => {
+          console.error('Error fetching certificate:', certificateError);
+          return null;
+        })
+        : null);
+    } catch (error) {
+      console.error('Error fetching learning path:', error);
+      setPath(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!path) return;
+    if (!user) {
+      toast({
+        title: "Login Required",
+        description: "Please login to follow a learning path",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEnrolling(true);
+    try {
+      const added = await enrollLearningPath(path.id);
+      toast({
+        title: "Enrolled",
+        description: added > 0
+          ? `${formatCount(added, 'course')} added to your library.`
+          : "Every course in this path is already in your library.",
+      });
+      await fetchPath(path.id);
+    } catch (error) {
+      console.error('Error enrolling in learning path:', error);
+      toast({
+        title: "Error",
+        description: "Failed to enroll in learning path",
+        variant: "destructive",
+      });
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!path || !user) return;
+    if (!window.confirm('Leave this learning path? Its courses stay in your library.')) return;
+
+    try {
+      await leaveLearningPath(user.id, path.id);
+      await fetchPath(path.id);
+    } catch (error) {
+      console.error('Error leaving learning path:', error);
+      toast({
+        title: "Error",
+        description: "Failed to leave learning path",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!path) return;
+    if (!window.confirm(`Delete "${path.title}"? Learners following it lose their progress badge.`)) return;
+
+    try {
+      await deleteLearningPath(path.id);
+      toast({
+        title: "Deleted",
+        description: "The learning path has been removed.",
+      });
+      navigate('/paths');
+    } catch (error) {
+      console.error('Error deleting learning path:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete learning path",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!path) {
+    return <NotFound />;
+  }
+
+  const progress = getPathProgressPercent(path);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <Link to="/paths" className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All learning paths
+        </Link>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2">
+          <div className="mb-8">
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Badge variant="outline">
+                <Route className="h-3 w-3 mr-1" />
+                Learning Path
+              </Badge>
+              {!path.is_published && <Badge variant="secondary">Draft</Badge>}
+            </div>
+            <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              {path.title}
+            </h1>
+            {path.description && (
+              <p className="text-gray-600 dark:text-gray-400 mb-4 whitespace-pre-line">{path.description}</p>
+            )}
+            <div className="flex items-center gap-4 text-sm text-gray-500">
+              {path.author_name && <span>Curated by {path.author_name}</span>}
+              <span className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                {formatCount(path.learner_count, 'learner')}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {courses.length === 0 && (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <Route className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+                  <h3 className="text-xl font-semibold mb-2">No courses yet</h3>
+                  <p className="text-gray-600">
+                    {canEdit ? 'Edit the path to add its first course' : 'The author has not added any courses yet'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+            {courses.map((course, index) => {
+              const openPrerequisites = getOpenPrerequisites(course, courses);
+              const premiumLocked = course.access_type === 'premium' && !can('view_premium_courses');
+              return (
+                <Card key={course.course_id} className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardContent className="flex gap-4 pt-6">
+                    <div className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-sm font-semibold ${
+                      course.completed ? 'bg-green-600 text-white' : 'bg-gray-100 dark:bg-gray-700'
+                    }`}>
+                      {course.completed ? <CheckCircle className="h-5 w-5" /> : index + 1}
+                    </div>
+                    <img
+                      src={course.image_url || DEFAULT_IMAGE_URL}
+                      alt={course.title}
+                      className="hidden sm:block h-20 w-32 rounded-md object-cover"
+                    />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Link to={`/learn/${course.course_id}`} className="font-semibold hover:text-blue-600">
+                          {course.title}
+                        </Link>
+                        {course.completed ? (
+                          <Badge className="bg-green-600 hover:bg-green-600">Completed</Badge>
+                        ) : course.in_library ? (
+                          <Badge variant="secondary">In library</Badge>
+                        ) : null}
+                      </div>
+                      {course.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{course.description}</p>
+                      )}
+                      <div className="flex flex-wrap gap-2 text-sm">
+                        <Badge variant="outline">{course.content_type}</Badge>
+                        {course.difficulty && <Badge variant="outline">{course.difficulty}</Badge>}
+                        {course.access_type === 'premium' && (
+                          premiumLocked ? (
+                            <Link to="/premium">
+                              <Badge variant="secondary">
+                                <Lock className="h-3 w-3 mr-1" />
+                                Premium
+                              </Badge>
+                            </Link>
+                          ) : <Badge variant="secondary">✨ Premium</Badge>
+                        )}
+                      </div>
+                      {!course.completed && openPrerequisites.length > 0 && (
+                        <p className="text-xs text-orange-600">
+                          Finish {openPrerequisites.join(', ')} first
+                        </p>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+            <CardHeader>
+              <CardTitle>{path.completed_at ? 'Path Completed' : 'Your Progress'}</CardTitle>
+              <CardDescription>
+                {path.enrolled
+                  ? `${path.completed_count} of ${formatCount(path.course_count, 'course')} completed`
+                  : `${formatCount(path.course_count, 'course')} in this path`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {path.enrolled && <Progress value={progress} className="h-2" />}
+
+              {path.completed_at ? (
+                <div className="flex items-center gap-3 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20">
+                  <Trophy className="h-8 w-8 text-yellow-500" />
+                  <div>
+                    <p className="font-semibold">Path badge earned</p>
+                    <p className="text-sm text-gray-500">Completed {formatCertificateDate(path.completed_at)}</p>
+                  </div>
+                </div>
+              ) : path.enrolled ? (
+                <p className="text-sm text-gray-500">
+                  Finish every course to earn the path badge{can('certificates') ? ' and a certificate' : ''}.
+                </p>
+              ) : (
+                <Button
+                  onClick={handleEnroll}
+                  disabled={enrolling || courses.length === 0}
+                  className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  {enrolling ? 'Enrolling...' : 'Enroll in Path'}
+                </Button>
+              )}
+
+              {certificate ? (
+                <Link to={getCertificatePath(certificate.id)}>
+                  <Button variant="outline" className="w-full">
+                    <Award className="h-4 w-4 mr-2" />
+                    View Certificate
+                  </Button>
+                </Link>
+              ) : path.completed_at && !can('certificates') && (
+                <p className="text-sm text-gray-500">
+                  <Link to="/premium" className="text-blue-600 hover:underline">Upgrade</Link> to get a certificate for this path.
+                </p>
+              )}
+
+              {path.enrolled && (
+                <div className="flex flex-col gap-2">
+                  {!path.completed_at && (
+                    <Button variant="outline" onClick={handleEnroll} disabled={enrolling}>
+                      Add missing courses to library
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={handleLeave}>
+                    Leave path
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {canEdit && (
+            <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+              <CardHeader>
+                <CardTitle>Manage Path</CardTitle>
+                <CardDescription>
+                  {path.is_published ? 'Published on the Learning Paths page' : 'Only you and admins can see this draft'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex gap-2">
+                <Button variant="outline" onClick={() => setShowEditor(true)}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button variant="destructive" onClick={handleDelete}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <LearningPathEditor
+        path={path}
+        courses={courses}
+        isOpen={showEditor}
+        onClose={() => setShowEditor(false)}
+        onSaved={(id) => {
+          setShowEditor(false);
+          fetchPath(id);
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { BookOpen, Plus, Route, Trophy, Users } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { LearningPathEditor } from '@/components/LearningPathEditor';
+import { LearningPathSummary, fetchLearningPaths, getPathProgressPercent } from '@/lib/learningPaths';
+import { formatCount } from '@/lib/reviews';
+
+export const LearningPaths: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [paths, setPaths] = useState<LearningPathSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEditor, setShowEditor] = useState(false);
+
+  useEffect(() => {
+    fetchPaths();
+  }, [user]);
+
+  const fetchPaths = async () => {
+    try {
+      setPaths(await fetchLearningPaths());
+    } catch (error) {
+      console.error('Error fetching learning paths:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load learning paths",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Learning Paths
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Curated sequences of courses that take you from the basics to a goal
+          </p>
+        </div>
+        {user && (
+          <Button
+            onClick={() => setShowEditor(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Path
+          </Button>
+        )}
+      </div>
+
+      {paths.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Route className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-xl font-semibold mb-2">No learning paths yet</h3>
+            <p className="text-gray-600">
+              {user ? 'Create the first one from courses in the catalogue' : 'Check back soon'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {paths.map(path => (
+            <Link key={path.id} to={`/paths/${path.id}`}>
+              <Card className="h-full bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-lg line-clamp-2">{path.title}</CardTitle>
+                    {path.completed_at ? (
+                      <Trophy className="h-5 w-5 text-yellow-500 shrink-0" />
+                    ) : !path.is_published && (
+                      <Badge variant="outline">Draft</Badge>
+                    )}
+                  </div>
+                  <CardDescription className="line-clamp-2">
+                    {path.description || 'No description'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {path.author_name && (
+                    <p className="text-xs text-gray-500">Curated by {path.author_name}</p>
+                  )}
+                  <div className="flex items-center gap-4 text-sm text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <BookOpen className="h-4 w-4" />
+                      {formatCount(path.course_count, 'course')}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Users className="h-4 w-4" />
+                      {formatCount(path.learner_count, 'learner')}
+                    </span>
+                  </div>
+                  {path.enrolled && (
+                    <div>
+                      <div className="flex justify-between text-xs text-gray-500 mb-1">
+                        <span>{path.completed_at ? 'Completed' : 'Your progress'}</span>
+                        <span>{path.completed_count} / {path.course_count}</span>
+                      </div>
+                      <Progress value={getPathProgressPercent(path)} className="h-2" />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <LearningPathEditor
+        path={null}
+        courses={[]}
+        isOpen={showEditor}
+        onClose={() => setShowEditor(false)}
+        onSaved={(pathId) => navigate(`/paths/${pathId}`)}
+      />
+    </div>
+  );
+};
@@ -6,9 +6,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { BookOpen, Trash2, CheckCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { BookOpen, Trash2, CheckCircle, Download, Loader2 } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
+import { LessonCounts, fetchCourseProgress, getProgressPercent } from '@/lib/courseProgress';
+import { LibrarySort, fetchLibraryCounts, fetchLibraryPage } from '@/lib/catalog';
+import { parsePageSize } from '@/lib/pagination';
+import { withContentUrls } from '@/lib/storage';
+import { ReadingProgress, fetchCourseReadingProgress } from '@/lib/readingProgress';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { useOfflineDownloads } from '@/hooks/use-offline-downloads';
+import { OfflineDownloads } from '@/components/OfflineDownloads';
 
 interface UserCourse {
   id: string;
@@ -23,36 +40,65 @@ interface UserCourse {
     access_type: string;
     image_url: string;
     content_url: string | null;
+    content_path: string | null;
     content_text: string | null;
   };
 }
 
 const DEFAULT_IMAGE_URL = 'https://www.shutterstock.com/image-photo/elearning-education-internet-lessons-online-600nw-2158034833.jpg';
 
+const PAGE_SIZES = [9, 18, 36];
+
 export const Library: React.FC = () => {
   const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [userCourses, setUserCourses] = useState<UserCourse[]>([]);
+  const [courseProgress, setCourseProgress] = useState<Record<string, LessonCounts>>({});
+  const [readingProgress, setReadingProgress] = useState<Record<string, ReadingProgress>>({});
+  const [counts, setCounts] = useState({ total: 0, completed: 0 });
+  const [cursors, setCursors] = useState<{ next: string | null; prev: string | null }>({ next: null, prev: null });
   const [loading, setLoading] = useState(true);
+  const { can } = useEntitlements();
+  const offline = useOfflineDownloads();
+  const canDownload = can('offline_downloads');
+
+  const sort: LibrarySort = searchParams.get('sort') === 'oldest' ? 'oldest' : 'recent';
+  const pageSize = parsePageSize(searchParams.get('pageSize'), PAGE_SIZES, 9);
+  const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+  const after = searchParams.get('after');
+  const before = searchParams.get('before');
 
   useEffect(() => {
     if (user) {
       fetchLibraryCourses();
     }
-  }, [user]);
+  }, [user, sort, pageSize, after, before]);
 
   const fetchLibraryCourses = async () => {
+    if (!user) return;
     try {
-      const { data, error } = await supabase
-        .from('user_courses')
-        .select(`
-          *,
-          courses(id, title, description, content_type, access_type, image_url, content_url, content_text)
-        `)
-        .eq('user_id', user?.id)
-        .order('added_at', { ascending: false });
+      const [libraryPage, libraryCounts] = await Promise.all([
+        fetchLibraryPage({ userId: user.id, sort, pageSize, after, before }),
+        fetchLibraryCounts(user.id),
+      ]);
 
-      if (error) throw error;
-      setUserCourses(data || []);
+      // The last course on a later page was removed, go back to the first page
+      if (libraryPage.items.length === 0 && (after || before)) {
+        resetPaging();
+        return;
+      }
+
+      const signedCourses = await withContentUrls(libraryPage.items.map(uc => uc.courses));
+      setUserCourses(libraryPage.items.map((uc, index) => ({ ...uc, courses: signedCourses[index] })));
+      setCursors({ next: libraryPage.nextCursor, prev: libraryPage.prevCursor });
+      setCounts(libraryCounts);
+      const courseIds = libraryPage.items.map(uc => uc.courses.id);
+      const [lessonCounts, pdfProgress] = await Promise.all([
+        fetchCourseProgress(courseIds),
+        fetchCourseReadingProgress(user.id, courseIds),
+      ]);
+      setCourseProgress(lessonCounts);
+      setReadingProgress(pdfProgress);
     } catch (error) {
       console.error('Error fetching library courses:', error);
       toast({
@@ -65,14 +111,41 @@ export const Library: React.FC = () => {
     }
   };
 
+  // Changing sort or page size starts again from the first page
+  const resetPaging = (key?: 'sort' | 'pageSize', value?: string) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (key && value) params.set(key, value);
+      ['page', 'after', 'before'].forEach(param => params.delete(param));
+      return params;
+    });
+  };
+
+  const goToPage = (direction: 'next' | 'prev') => {
+    const cursor = direction === 'next' ? cursors.next : cursors.prev;
+    if (!cursor) return;
+
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      const target = direction === 'next' ? page + 1 : page - 1;
+      params.delete('after');
+      params.delete('before');
+      if (target <= 1) {
+        params.delete('page');
+      } else {
+        params.set('page', String(target));
+        params.set(direction === 'next' ? 'after' : 'before', cursor);
+      }
+      return params;
+    });
+    window.scrollTo({ top: 0 });
+  };
+
   const toggleCourseCompletion = async (userCourseId: string, currentStatus: boolean) => {
     try {
       const { error } = await supabase
         .from('user_courses')
-        .update({
-          completed: !currentStatus,
-          completed_at: !currentStatus ? new Date().toISOString() : null
-        })
+        .update({ completed: !currentStatus })
         .eq('id', userCourseId)
         .eq('user_id', user?.id);
 
@@ -130,8 +203,8 @@ export const Library: React.FC = () => {
     );
   }
 
-  const completedCount = userCourses.filter(uc => uc.completed).length;
-  const completionPercentage = userCourses.length > 0 ? Math.round((completedCount / userCourses.length) * 100) : 0;
+  const completionPercentage = counts.total > 0 ? Math.round((counts.completed / counts.total) * 100) : 0;
+  const totalPages = Math.max(Math.ceil(counts.total / pageSize), 1);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -142,15 +215,45 @@ export const Library: React.FC = () => {
         <p className="text-gray-600 dark:text-gray-400">
           Courses you've added to your personal library
         </p>
-        {userCourses.length > 0 && (
-          <div className="mt-4 flex items-center gap-4">
+        {counts.total > 0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-4">
             <Badge variant="outline" className="text-sm">
-              {completedCount} of {userCourses.length} completed ({completionPercentage}%)
+              {counts.completed} of {counts.total} completed ({completionPercentage}%)
             </Badge>
+            <div className="flex gap-2 ml-auto">
+              <Select value={sort} onValueChange={(value) => resetPaging('sort', value)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="recent">Recently added</SelectItem>
+                  <SelectItem value="oldest">Oldest first</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={String(pageSize)} onValueChange={(value) => resetPaging('pageSize', value)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="Per page" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         )}
       </div>
 
+      {offline.supported && (
+        <OfflineDownloads
+          downloads={offline.downloads}
+          usage={offline.usage}
+          canDownload={canDownload}
+          onRemove={offline.remove}
+        />
+      )}
+
       {userCourses.length === 0 ? (
         <Card className="text-center py-12">
           <CardContent>
@@ -203,6 +306,19 @@ export const Library: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  <div>
+                    <div className="flex justify-between items-center mb-1 text-xs text-gray-500">
+                      <span>Progress</span>
+                      <span>{getProgressPercent(courseProgress[userCourse.courses.id], userCourse.completed)}%</span>
+                    </div>
+                    <Progress value={getProgressPercent(courseProgress[userCourse.courses.id], userCourse.completed)} className="h-2" />
+                    {readingProgress[userCourse.courses.id]?.pageCount && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Page {readingProgress[userCourse.courses.id].lastPage} of {readingProgress[userCourse.courses.id].pageCount}
+                      </p>
+                    )}
+                  </div>
+
                   <div className="flex items-center space-x-2">
                     <Checkbox
                       id={`complete-${userCourse.id}`}
@@ -233,7 +349,12 @@ export const Library: React.FC = () => {
                   )}
 
                   <div className="flex gap-2">
-                    <Link to={`/learn/${userCourse.courses.id}`} className="flex-1">
+                    <Link
+                      to={readingProgress[userCourse.courses.id]
+                        ? `/learn/${userCourse.courses.id}?resume=1`
+                        : `/learn/${userCourse.courses.id}`}
+                      className="flex-1"
+                    >
                       <Button className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
                         {userCourse.completed ? 'Review Course' : 'Continue Learning'}
                       </Button>
@@ -249,6 +370,32 @@ export const Library: React.FC = () => {
                         </a>
                       </Button>
                     )}
+                    {offline.supported && canDownload && (
+                      offline.isDownloaded(userCourse.courses.id) ? (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => offline.remove(userCourse.courses.id)}
+                          title="Downloaded. Click to remove the offline copy."
+                          aria-label="Remove offline copy"
+                        >
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => offline.download(userCourse.courses.id)}
+                          disabled={offline.pending.has(userCourse.courses.id)}
+                          title="Download for offline use"
+                          aria-label="Download for offline use"
+                        >
+                          {offline.pending.has(userCourse.courses.id)
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <Download className="h-4 w-4" />}
+                        </Button>
+                      )
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -256,6 +403,40 @@ export const Library: React.FC = () => {
           ))}
         </div>
       )}
+
+      {(cursors.prev || cursors.next) && (
+        <Pagination className="mt-8">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={!cursors.prev}
+                className={!cursors.prev ? 'pointer-events-none opacity-50' : undefined}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToPage('prev');
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <span className="px-4 text-sm text-gray-600 dark:text-gray-400">
+                Page {Math.min(page, totalPages)} of {totalPages}
+              </span>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={!cursors.next}
+                className={!cursors.next ? 'pointer-events-none opacity-50' : undefined}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToPage('next');
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
     </div>
   );
 };
@@ -0,0 +1,397 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Copy, Link2, Trash2, Users } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { OrganizationGroups } from '@/components/OrganizationGroups';
+import { OrganizationAssignments } from '@/components/OrganizationAssignments';
+import {
+  Organization as OrganizationRecord,
+  OrganizationGroup,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationRole,
+  ROLE_LABELS,
+  canManageOrganization,
+  createInvite,
+  deleteOrganization,
+  fetchGroups,
+  fetchInvites,
+  fetchOrganization,
+  fetchOrganizationMembers,
+  fetchSeatLimit,
+  formatSeats,
+  getInviteUrl,
+  hasFreeSeat,
+  removeMember,
+  renameOrganization,
+  revokeInvite,
+  setMemberRole,
+} from '@/lib/organizations';
+
+type InviteRole = Exclude<OrganizationRole, 'owner'>;
+
+export const Organization: React.FC = () => {
+  const { organizationId } = useParams<{ organizationId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [organization, setOrganization] = useState<OrganizationRecord | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [groups, setGroups] = useState<OrganizationGroup[]>([]);
+  const [seatLimit, setSeatLimit] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [inviteRole, setInviteRole] = useState<InviteRole>('member');
+  const [saving, setSaving] = useState(false);
+
+  const myRole = members.find(member => member.user_id === user?.id)?.role;
+  const canManage = canManageOrganization(myRole);
+
+  useEffect(() => {
+    if (!user || !organizationId) return;
+
+    const loadOrganization = async () => {
+      try {
+        const [record, memberList, limit] = await Promise.all([
+          fetchOrganization(organizationId),
+          fetchOrganizationMembers(organizationId),
+          fetchSeatLimit(organizationId),
+        ]);
+        setOrganization(record);
+        setName(record?.name || '');
+        setMembers(memberList);
+        setSeatLimit(limit);
+
+        // Invites, groups and assignments are managed by owners and admins
+        const role = memberList.find(member => member.user_id === user.id)?.role;
+        if (canManageOrganization(role)) {
+          const [inviteList, groupList] = await Promise.all([fetchInvites(organizationId), fetchGroups(organizationId)]);
+          setInvites(inviteList);
+          setGroups(groupList);
+        }
+      } catch (error) {
+        console.error('Error fetching organization:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadOrganization();
+  }, [user, organizationId]);
+
+  // Wraps a change so every action reports failures the same way
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization) return;
+    run(async () => {
+      await renameOrganization(organization.id, name);
+      setOrganization({ ...organization, name: name.trim() });
+      toast({ title: "Saved", description: "Organization renamed." });
+    }, 'Failed to rename the organization');
+  };
+
+  const handleRoleChange = (member: OrganizationMember, role: InviteRole) => {
+    if (!organization) return;
+    run(async () => {
+      await setMemberRole(organization.id, member.user_id, role);
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? { ...m, role } : m)));
+    }, 'Failed to change the member role');
+  };
+
+  const handleRemove = (member: OrganizationMember) => {
+    if (!organization || !user) return;
+    const leaving = member.user_id === user.id;
+    const confirmed = window.confirm(
+      leaving
+        ? `Leave ${organization.name}? You will lose access to its courses.`
+        : `Remove ${member.profiles?.full_name || 'this member'} from ${organization.name}?`
+    );
+    if (!confirmed) return;
+
+    run(async () => {
+      await removeMember(organization.id, member.user_id);
+      if (leaving) {
+        navigate('/organizations');
+      } else {
+        setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+        setGroups(prev => prev.map(g => ({ ...g, member_ids: g.member_ids.filter(id => id !== member.user_id) })));
+      }
+    }, leaving ? 'Failed to leave the organization' : 'Failed to remove the member');
+  };
+
+  const handleCreateInvite = () => {
+    if (!organization || !user) return;
+    run(async () => {
+      const invite = await createInvite(user.id, organization.id, inviteRole);
+      setInvites(prev => [invite, ...prev]);
+      await copyInvite(invite);
+    }, 'Failed to create the invite link');
+  };
+
+  const copyInvite = async (invite: OrganizationInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.token));
+      toast({
+        title: "Link Copied",
+        description: "Anyone with this link can join until it expires.",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = (invite: OrganizationInvite) => {
+    run(async () => {
+      await revokeInvite(invite.id);
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    }, 'Failed to revoke the invite link');
+  };
+
+  const handleDelete = () => {
+    if (!organization) return;
+    const confirmed = window.confirm(
+      `Delete ${organization.name}? Its courses become private courses of their uploaders.`
+    );
+    if (!confirmed) return;
+
+    run(async () => {
+      await deleteOrganization(organization.id);
+      navigate('/organizations');
+    }, 'Failed to delete the organization');
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0 text-center">
+          <CardHeader>
+            <Building2 className="h-12 w-12 mx-auto text-gray-400 mb-2" />
+            <CardTitle>Organization Not Found</CardTitle>
+            <CardDescription>
+              It may have been deleted, or you are not a member.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link to="/organizations">
+              <Button variant="outline">Back to Organizations</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const seatsFree = hasFreeSeat(members.length, seatLimit);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      <div>
+        <Link to="/organizations" className="text-sm text-blue-600 hover:underline">
+          ← All organizations
+        </Link>
+        <h1 className="text-4xl font-bold mt-2 mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          {organization.name}
+        </h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {myRole && <Badge variant="secondary">{ROLE_LABELS[myRole]}</Badge>}
+          <Badge variant="outline">{formatSeats(members.length, seatLimit)}</Badge>
+        </div>
+      </div>
+
+      {/* Members */}
+      <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Members
+          </CardTitle>
+          <CardDescription>
+            Members can open and share courses that are private to this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {members.map(member => (
+            <div key={member.user_id} className="flex flex-wrap items-center gap-3 py-3">
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={member.profiles?.avatar_url || ''} />
+                <AvatarFallback>{(member.profiles?.full_name || '?').charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {member.profiles?.full_name || 'Anonymous'}
+                  {member.user_id === user?.id && <span className="text-gray-500 font-normal"> (you)</span>}
+                </p>
+                <p className="text-sm text-gray-500">Joined {new Date(member.joined_at).toLocaleDateString()}</p>
+              </div>
+              {canManage && member.role !== 'owner' ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => handleRoleChange(member, value as InviteRole)}
+                  disabled={saving}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="admin">{ROLE_LABELS.admin}</SelectItem>
+                    <SelectItem value="member">{ROLE_LABELS.member}</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>{ROLE_LABELS[member.role]}</Badge>
+              )}
+              {member.role !== 'owner' && (canManage || member.user_id === user?.id) && (
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(member)} disabled={saving}>
+                  {member.user_id === user?.id ? 'Leave' : 'Remove'}
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <>
+          <OrganizationGroups
+            organizationId={organization.id}
+            members={members}
+            groups={groups}
+            onGroupsChange={setGroups}
+          />
+          <OrganizationAssignments
+            organizationId={organization.id}
+            organizationName={organization.name}
+            members={members}
+            groups={groups}
+          />
+        </>
+      )}
+
+      {/* Invite links */}
+      {canManage && (
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5" />
+              Invite Links
+            </CardTitle>
+            <CardDescription>
+              Links expire after 7 days. Each person who joins takes a seat.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {seatsFree ? (
+              <div className="flex flex-wrap gap-2">
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="member">Join as {ROLE_LABELS.member}</SelectItem>
+                    <SelectItem value="admin">Join as {ROLE_LABELS.admin}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={handleCreateInvite}
+                  disabled={saving}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  Create Invite Link
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                All seats are taken. The owner can add seats to their Pro subscription on the{' '}
+                <Link to="/premium" className="text-blue-600 hover:underline">plans page</Link>.
+              </p>
+            )}
+
+            {invites.length > 0 && (
+              <div className="space-y-2">
+                {invites.map(invite => (
+                  <div key={invite.id} className="flex flex-wrap items-center gap-2 p-3 border rounded-lg">
+                    <Badge variant="outline">{ROLE_LABELS[invite.role as OrganizationRole]}</Badge>
+                    <span className="flex-1 text-sm text-gray-500">
+                      Expires {new Date(invite.expires_at).toLocaleDateString()}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={() => copyInvite(invite)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite)} disabled={saving}>
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Settings */}
+      {myRole === 'owner' && (
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader>
+            <CardTitle>Settings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleRename} className="flex gap-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} aria-label="Organization name" required />
+              <Button type="submit" variant="outline" disabled={saving || !name.trim() || name.trim() === organization.name}>
+                Rename
+              </Button>
+            </form>
+            <div className="flex flex-wrap items-center justify-between gap-4 p-4 border border-red-200 dark:border-red-900 rounded-lg">
+              <div>
+                <p className="font-medium">Delete organization</p>
+                <p className="text-sm text-gray-500">Members lose access and its courses become private.</p>
+              </div>
+              <Button variant="destructive" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
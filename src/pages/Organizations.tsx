@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Building2, Plus } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import {
+  OrganizationMembership,
+  ROLE_LABELS,
+  createOrganization,
+  fetchUserOrganizations,
+  getOrganizationPath,
+} from '@/lib/organizations';
+
+export const Organizations: React.FC = () => {
+  const { user } = useAuth();
+  const { can } = useEntitlements();
+  const navigate = useNavigate();
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchUserOrganizations(user.id)
+      .then(setOrganizations)
+      .catch((error) => console.error('Error fetching organizations:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const organizationId = await createOrganization(name.trim());
+      navigate(getOrganizationPath(organizationId));
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the organization",
+        variant: "destructive",
+      });
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          Organizations
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Share private courses with your team
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {organizations.length > 0 && (
+          <div className="grid md:grid-cols-2 gap-4">
+            {organizations.map(organization => (
+              <Link key={organization.id} to={getOrganizationPath(organization.id)}>
+                <Card className="h-full hover:shadow-lg transition-shadow bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 min-w-0">
+                        <Building2 className="h-5 w-5 shrink-0" />
+                        <span className="truncate">{organization.name}</span>
+                      </span>
+                      <Badge variant="secondary">{ROLE_LABELS[organization.role]}</Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      Created {new Date(organization.created_at).toLocaleDateString()}
+                    </CardDescription>
+                  </CardHeader>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              New Organization
+            </CardTitle>
+            <CardDescription>
+              Each member takes one seat of your Pro subscription
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {can('team_collaboration') ? (
+              <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="organization-name">Name</Label>
+                  <Input
+                    id="organization-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Acme Inc."
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={creating || !name.trim()}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  {creating ? 'Creating...' : 'Create Organization'}
+                </Button>
+              </form>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Organizations come with the Pro plan.{' '}
+                <Link to="/premium" className="text-blue-600 hover:underline">Upgrade</Link> to invite your team.
+                You can still join an organization through an invite link.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
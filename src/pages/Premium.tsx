@@ -1,90 +1,93 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Check, Star, Zap, Crown, Infinity } from 'lucide-react';
+import { Check, Star, Zap, Crown, Infinity, Loader2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { PLANS, getPlanFeatures, getPlanForRole } from '@/lib/entitlements';
+import { PremiumCoursePreview, fetchTopPremiumCourses, formatCount, formatRating } from '@/lib/reviews';
 
-const plans = [
-	{
-		name: 'Free',
-		price: '$0',
-		period: 'forever',
-		description: 'Perfect for getting started',
-		features: [
-			'Access to public courses',
-			'Basic progress tracking',
-			'Community discussions',
-			'Mobile app access',
-		],
-		current: true,
-		cta: 'Current Plan',
-		icon: Star,
-	},
-	{
-		name: 'Premium',
-		price: '$9.99',
-		period: 'month',
-		description: 'Best for serious learners',
-		features: [
-			'All free features',
-			'Access to premium courses',
-			'Advanced progress analytics',
-			'Priority support',
-			'Offline downloads',
-			'Certificates of completion',
-			'Premium course uploads',
-		],
-		popular: true,
-		cta: 'Upgrade to Premium',
-		icon: Crown,
-	},
-	{
-		name: 'Pro',
-		price: '$19.99',
-		period: 'month',
-		description: 'For professionals and teams',
-		features: [
-			'All premium features',
-			'Unlimited course creation',
-			'Advanced analytics dashboard',
-			'Team collaboration tools',
-			'White-label options',
-			'API access',
-			'Dedicated account manager',
-		],
-		cta: 'Go Pro',
-		icon: Infinity,
-	},
-];
+const planIcons = {
+	free: Star,
+	premium: Crown,
+	pro: Infinity,
+};
+
+const plans = PLANS.map((plan) => ({
+	...plan,
+	features: getPlanFeatures(plan),
+	icon: planIcons[plan.id],
+}));
 
-const premiumCourses = [
-	{
-		title: 'Advanced React Patterns',
-		instructor: 'John Doe',
-		rating: 4.9,
-		image:
-			'https://images.unsplash.com/photo-1633356122544-f134324a6cee?w=300&h=200&fit=crop',
-	},
-	{
-		title: 'Machine Learning Mastery',
-		instructor: 'Dr. Sarah Smith',
-		rating: 4.8,
-		image:
-			'https://images.unsplash.com/photo-1485827404703-89b55fcc595e?w=300&h=200&fit=crop',
-	},
-	{
-		title: 'Full-Stack Development',
-		instructor: 'Mike Johnson',
-		rating: 4.7,
-		image:
-			'https://images.unsplash.com/photo-1461749280684-dccba630e2f6?w=300&h=200&fit=crop',
-	},
-];
+const DEFAULT_IMAGE_URL =
+	'https://www.shutterstock.com/image-photo/elearning-education-internet-lessons-online-600nw-2158034833.jpg';
 
 export const Premium: React.FC = () => {
 	const { user } = useAuth();
+	const navigate = useNavigate();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const { role, can } = useEntitlements();
+	const [checkoutPlan, setCheckoutPlan] = useState<string | null>(null);
+	const [premiumCourses, setPremiumCourses] = useState<PremiumCoursePreview[]>([]);
+	// Pro is billed per organization seat
+	const [proSeats, setProSeats] = useState(1);
+
+	useEffect(() => {
+		fetchTopPremiumCourses()
+			.then(setPremiumCourses)
+			.catch((error) => console.error('Error fetching premium courses:', error));
+	}, []);
+
+	useEffect(() => {
+		const checkout = searchParams.get('checkout');
+		if (checkout === 'success') {
+			toast({
+				title: 'Payment received',
+				description: 'Your plan will be upgraded in a few moments.',
+			});
+		} else if (checkout === 'cancelled') {
+			toast({
+				title: 'Checkout cancelled',
+				description: 'You have not been charged.',
+			});
+		}
+		if (checkout) {
+			setSearchParams({}, { replace: true });
+		}
+	}, [searchParams, setSearchParams]);
+
+	const currentPlan = user ? getPlanForRole(role)?.id : undefined;
+
+	const startCheckout = async (planId: string) => {
+		if (!user) {
+			navigate('/auth');
+			return;
+		}
+
+		setCheckoutPlan(planId);
+		try {
+			const { data, error } = await supabase.functions.invoke('create-checkout', {
+				body: planId === 'pro' ? { plan: planId, seats: proSeats } : { plan: planId },
+			});
+
+			if (error) throw error;
+			window.location.href = data.url;
+		} catch (error) {
+			console.error('Error starting checkout:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to start checkout. Please try again.',
+				variant: 'destructive',
+			});
+			setCheckoutPlan(null);
+		}
+	};
 
 	return (
 		<div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-blue-900 dark:to-purple-900">
@@ -150,19 +153,47 @@ export const Premium: React.FC = () => {
 										))}
 									</ul>
 
-									{plan.current ? (
+									{plan.id === 'pro' && plan.id !== currentPlan && (
+										<div className="mb-4 flex items-center justify-between gap-3">
+											<Label htmlFor="pro-seats" className="text-sm">
+												Team seats
+											</Label>
+											<Input
+												id="pro-seats"
+												type="number"
+												min={1}
+												max={500}
+												value={proSeats}
+												onChange={(e) =>
+													setProSeats(Math.min(Math.max(Math.floor(Number(e.target.value)) || 1, 1), 500))
+												}
+												className="w-24"
+											/>
+										</div>
+									)}
+
+									{plan.id === currentPlan ? (
 										<Button
 											className="w-full bg-gray-300 text-gray-600 cursor-not-allowed"
 											disabled
 										>
-											{plan.cta}
+											Current Plan
 										</Button>
-									) : (
+									) : plan.id === 'free' ? (
 										<Button
 											className="w-full bg-gray-300 text-gray-600 cursor-not-allowed"
 											disabled
 										>
-											Coming Soon
+											Included
+										</Button>
+									) : (
+										<Button
+											className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+											onClick={() => startCheckout(plan.id)}
+											disabled={checkoutPlan !== null}
+										>
+											{checkoutPlan === plan.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+											{plan.cta}
 										</Button>
 									)}
 								</CardContent>
@@ -172,50 +203,72 @@ export const Premium: React.FC = () => {
 				</div>
 
 				{/* Premium Course Preview */}
-				<div className="mb-16">
-					<h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-						Premium Course Preview
-					</h2>
-					<div className="grid md:grid-cols-3 gap-6">
-						{premiumCourses.map((course, index) => (
-							<Card
-								key={index}
-								className="group hover:shadow-xl transition-all duration-300 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0"
-							>
-								<div className="relative">
-									<img
-										src={course.image}
-										alt={course.title}
-										className="w-full h-48 object-cover rounded-t-lg group-hover:scale-105 transition-transform duration-300"
-									/>
-									<div className="absolute top-4 left-4">
-										<Badge variant="secondary">✨ Premium</Badge>
-									</div>
-									<div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-t-lg flex items-center justify-center">
-										<Button
-											size="sm"
-											className="bg-white/90 text-black hover:bg-white"
-										>
-											Preview Course
-										</Button>
-									</div>
-								</div>
-								<CardHeader>
-									<CardTitle className="text-lg">{course.title}</CardTitle>
-									<div className="flex items-center justify-between">
-										<span className="text-sm text-gray-600 dark:text-gray-400">
-											{course.instructor}
-										</span>
-										<div className="flex items-center gap-1">
-											<Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-											<span className="text-sm">{course.rating}</span>
+				{premiumCourses.length > 0 && (
+					<div className="mb-16">
+						<h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+							Premium Course Preview
+						</h2>
+						<div className="grid md:grid-cols-3 gap-6">
+							{premiumCourses.map((course) => (
+								<Card
+									key={course.id}
+									className="group hover:shadow-xl transition-all duration-300 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0"
+								>
+									<div className="relative">
+										<img
+											src={course.image_url || DEFAULT_IMAGE_URL}
+											alt={course.title}
+											className="w-full h-48 object-cover rounded-t-lg group-hover:scale-105 transition-transform duration-300"
+										/>
+										<div className="absolute top-4 left-4">
+											<Badge variant="secondary">✨ Premium</Badge>
+										</div>
+										<div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-t-lg flex items-center justify-center">
+											{can('view_premium_courses') ? (
+												<Link to={`/learn/${course.id}`}>
+													<Button
+														size="sm"
+														className="bg-white/90 text-black hover:bg-white"
+													>
+														View Course
+													</Button>
+												</Link>
+											) : (
+												<Button
+													size="sm"
+													className="bg-white/90 text-black hover:bg-white"
+													onClick={() => startCheckout('premium')}
+													disabled={checkoutPlan !== null}
+												>
+													Unlock Course
+												</Button>
+											)}
 										</div>
 									</div>
-								</CardHeader>
-							</Card>
-						))}
+									<CardHeader>
+										<CardTitle className="text-lg">{course.title}</CardTitle>
+										<div className="flex items-center justify-between">
+											<span className="text-sm text-gray-600 dark:text-gray-400">
+												{course.uploader_name}
+											</span>
+											<div className="flex items-center gap-1">
+												<Star className={`h-4 w-4 ${course.rating_count > 0 ? 'fill-yellow-400 text-yellow-400' : 'text-gray-400'}`} />
+												<span className="text-sm">
+													{course.rating_count > 0
+														? `${formatRating(course.rating_average)} (${course.rating_count.toLocaleString()})`
+														: 'New'}
+												</span>
+											</div>
+										</div>
+										<CardDescription>
+											{formatCount(course.enrollment_count, 'student')}
+										</CardDescription>
+									</CardHeader>
+								</Card>
+							))}
+						</div>
 					</div>
-				</div>
+				)}
 
 				{/* Features Highlight */}
 				<div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-16">
@@ -6,9 +6,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { toast } from '@/components/ui/use-toast';
-import { Loader2, RefreshCw } from 'lucide-react';
+import { Award, Bell, Loader2, RefreshCw } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { ApiKeys } from '@/components/ApiKeys';
+import { WeeklyGoal } from '@/components/WeeklyGoal';
+import { Certificate, claimCertificates, fetchUserCertificates, formatCertificateDate, getCertificatePath } from '@/lib/certificates';
+import {
+  NOTIFICATION_TYPES,
+  NotificationPreferences,
+  NotificationType,
+  fetchNotificationPreferences,
+  setNotificationPreference,
+} from '@/lib/notifications';
 
 interface Profile {
   id: string;
@@ -30,6 +43,10 @@ export const Profile: React.FC = () => {
   const [updating, setUpdating] = useState(false);
   const [fullName, setFullName] = useState('');
   const [avatarSeed, setAvatarSeed] = useState('');
+  const { can, loading: entitlementsLoading } = useEntitlements();
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
+  const location = useLocation();
 
   useEffect(() => {
     if (user) {
@@ -37,6 +54,56 @@ export const Profile: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (!user || entitlementsLoading) return;
+
+    const loadCertificates = async () => {
+      try {
+        // Courses finished before upgrading get their certificates now
+        if (can('certificates')) {
+          await claimCertificates();
+        }
+        setCertificates(await fetchUserCertificates(user.id));
+      } catch (error) {
+        console.error('Error fetching certificates:', error);
+      }
+    };
+    loadCertificates();
+  }, [user, can, entitlementsLoading]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotificationPreferences(user.id)
+      .then(setNotificationPreferences)
+      .catch(error => console.error('Error fetching notification preferences:', error));
+  }, [user]);
+
+  // The bell menu links straight to the notification settings
+  useEffect(() => {
+    if (location.hash === '#notifications' && notificationPreferences) {
+      document.getElementById('notifications')?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [location.hash, notificationPreferences]);
+
+  const toggleNotificationType = async (type: NotificationType, enabled: boolean) => {
+    if (!user || !notificationPreferences) return;
+
+    const previous = notificationPreferences;
+    setNotificationPreferences({ ...previous, [type]: enabled });
+    try {
+      await setNotificationPreference(user.id, type, enabled);
+    } catch (error) {
+      console.error('Error updating notification preference:', error);
+      setNotificationPreferences(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update notification settings",
+        variant: "destructive",
+      });
+    }
+  };
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -273,6 +340,85 @@ export const Profile: React.FC = () => {
             </form>
           </CardContent>
         </Card>
+
+        {/* Weekly learning goal, tracked on the dashboard */}
+        <WeeklyGoal />
+
+        {/* Certificates */}
+        <Card className="lg:col-span-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Award className="h-5 w-5" />
+              Certificates
+            </CardTitle>
+            <CardDescription>
+              Every certificate has a public page anyone can use to verify it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {certificates.length > 0 ? (
+              <div className="space-y-3">
+                {certificates.map(certificate => (
+                  <div key={certificate.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{certificate.course_title}</p>
+                      <p className="text-sm text-gray-500">
+                        {certificate.learning_path_id ? 'Learning path completed' : 'Completed'} {formatCertificateDate(certificate.completed_at)}
+                      </p>
+                    </div>
+                    <Link to={getCertificatePath(certificate.id)}>
+                      <Button variant="outline" size="sm">View</Button>
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            ) : can('certificates') ? (
+              <p className="text-sm text-gray-500">Complete a course or learning path to earn your first certificate.</p>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Certificates of completion come with premium.{' '}
+                <Link to="/premium" className="text-blue-600 hover:underline">Upgrade</Link> to earn them for the courses you finish.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Notification settings */}
+        <Card id="notifications" className="lg:col-span-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Notifications
+            </CardTitle>
+            <CardDescription>
+              Choose what shows up in your notification bell
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {notificationPreferences ? (
+              <div className="space-y-4">
+                {(Object.keys(NOTIFICATION_TYPES) as NotificationType[]).map(type => (
+                  <div key={type} className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5">
+                      <Label htmlFor={`notify-${type}`}>{NOTIFICATION_TYPES[type].label}</Label>
+                      <p className="text-sm text-gray-500">{NOTIFICATION_TYPES[type].description}</p>
+                    </div>
+                    <Switch
+                      id={`notify-${type}`}
+                      checked={notificationPreferences[type]}
+                      onCheckedChange={(checked) => toggleNotificationType(type, checked)}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Loading notification settings...</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* API keys */}
+        {!entitlementsLoading && <ApiKeys hasAccess={can('api_access')} />}
       </div>
     </div>
   );
@@ -0,0 +1,33 @@
+// Paid plans offered on the Premium page, mapped to the provider price configured for each
+export const PAID_PLANS = {
+  premium: "STRIPE_PRICE_PREMIUM",
+  pro: "STRIPE_PRICE_PRO",
+} as const;
+
+export type PaidPlan = keyof typeof PAID_PLANS;
+
+export const isPaidPlan = (plan: unknown): plan is PaidPlan =>
+  typeof plan === "string" && plan in PAID_PLANS;
+
+// Pro subscriptions are bought per organization seat
+export const MAX_SEATS = 500;
+
+export const parseSeats = (plan: PaidPlan, seats: unknown): number | null => {
+  if (plan !== "pro" || seats === undefined) return 1;
+  if (typeof seats !== "number" || !Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS) {
+    return null;
+  }
+  return seats;
+};
+
+export const getPriceId = (plan: PaidPlan): string => {
+  const priceId = Deno.env.get(PAID_PLANS[plan]);
+  if (!priceId) {
+    throw new Error(`${PAID_PLANS[plan]} is not configured`);
+  }
+  return priceId;
+};
+
+// Provider API base, overridable so local runs can point at the payment stand-in
+export const getProviderApiBase = () =>
+  Deno.env.get("STRIPE_API_BASE") ?? "https://api.stripe.com";
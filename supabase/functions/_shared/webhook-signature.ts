@@ -0,0 +1,45 @@
+// Verifies Stripe-style signatures: header "t=<unix>,v1=<hex hmac-sha256 of `${t}.${payload}`>"
+const TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const computeSignature = async (secret: string, timestamp: string, payload: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${payload}`));
+  return toHex(signature);
+};
+
+export const verifySignature = async (secret: string, header: string | null, payload: string) => {
+  if (!header) return false;
+
+  const parts = header.split(",").map((part) => part.split("="));
+  const timestamp = parts.find(([key]) => key === "t")?.[1];
+  const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > TOLERANCE_SECONDS) return false;
+
+  const expected = await computeSignature(secret, timestamp, payload);
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+};
@@ -0,0 +1,478 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SignJWT } from "https://esm.sh/jose@5";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+
+// Deploy with --no-verify-jwt: callers send a personal API key instead of a session.
+// Requests run as the key's owner, with a short-lived token signed with API_JWT_SECRET
+// (the project's JWT secret), so the same row level security applies as in the app.
+
+type Scope = "catalog:read" | "library:read" | "courses:write";
+
+const REQUESTS_PER_MINUTE = 60;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+const COURSE_FIELDS = "id, title, description, content_type, access_type, difficulty, tags, image_url, created_at";
+const UPLOAD_FIELDS =
+  `${COURSE_FIELDS}, content_url, content_text, organization_id, moderation_status, rejection_reason, updated_at`;
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+
+const admin = createClient(SUPABASE_URL, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+const encoder = new TextEncoder();
+
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+interface Context {
+  db: SupabaseClient;
+  userId: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  req: Request;
+}
+
+interface Result {
+  body: unknown;
+  status?: number;
+}
+
+interface Route {
+  method: string;
+  // Segments starting with ":" capture a parameter
+  path: string;
+  scope: Scope;
+  handle: (context: Context) => Promise<Result>;
+}
+
+const hashKey = async (key: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const clientFor = async (userId: string) => {
+  const token = await new SignJWT({ role: "authenticated" })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setSubject(userId)
+    .setAudience("authenticated")
+    .setIssuedAt()
+    .setExpirationTime("1m")
+    .sign(encoder.encode(Deno.env.get("API_JWT_SECRET") ?? ""));
+
+  return createClient(SUPABASE_URL, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false },
+  });
+};
+
+// Database errors the caller can fix are reported; anything else is logged
+const databaseError = (error: { code?: string; message: string }) => {
+  if (error.code === "42501") {
+    return new ApiError(403, "Not allowed");
+  }
+  if (error.code?.startsWith("23") || error.code === "P0001") {
+    return new ApiError(400, error.message);
+  }
+  console.error("api-v1 database error:", error);
+  return new ApiError(500, "Request failed");
+};
+
+// Keyset cursors: the sort values of the last row returned, plus its id
+const encodeCursor = (cursor: Record<string, unknown>) => btoa(JSON.stringify(cursor));
+
+type Cursor = Record<string, string | number | null>;
+
+// Cursors come back from callers, so every field is checked before it reaches a filter
+const decodeCursor = (raw: string | null, fields: Record<string, (value: unknown) => boolean>): Cursor | null => {
+  if (!raw) return null;
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(atob(raw));
+  } catch {
+    throw new ApiError(400, "Invalid cursor");
+  }
+  if (!cursor || typeof cursor !== "object" || Array.isArray(cursor)) {
+    throw new ApiError(400, "Invalid cursor");
+  }
+  const values = cursor as Record<string, unknown>;
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check(values[field])) throw new ApiError(400, "Invalid cursor");
+  }
+  return values as Cursor;
+};
+
+const parseLimit = (query: URLSearchParams) => {
+  const raw = query.get("limit");
+  if (raw === null) return DEFAULT_PAGE_SIZE;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  return limit;
+};
+
+// Rows newer than the cursor, for lists ordered by a timestamp and id, newest first
+const beforeCursor = (column: string, cursor: Cursor) =>
+  `${column}.lt."${cursor[column]}",and(${column}.eq."${cursor[column]}",id.lt.${cursor.id})`;
+
+const oneOf = (values: string[]) => (value: unknown) => typeof value === "string" && values.includes(value);
+
+const nullable = (check: (value: unknown) => boolean) => (value: unknown) => value === null || check(value);
+
+const text = (max: number) => (value: unknown) => typeof value === "string" && value.length <= max;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:\d{2})?)$/;
+
+const uuid = (value: unknown) => typeof value === "string" && UUID_PATTERN.test(value);
+
+const timestamp = (value: unknown) => typeof value === "string" && TIMESTAMP_PATTERN.test(value);
+
+const CATALOG_CURSOR = {
+  rank: nullable((value) => typeof value === "number" && Number.isFinite(value)),
+  created_at: timestamp,
+  title: (value: unknown) => typeof value === "string",
+  id: uuid,
+};
+
+const COURSE_INPUT: Record<string, (value: unknown) => boolean> = {
+  title: (value) => text(200)(value) && (value as string).trim().length > 0,
+  description: nullable(text(5000)),
+  content_type: oneOf(["video", "pdf", "text"]),
+  content_url: nullable(text(2048)),
+  content_text: nullable(text(100000)),
+  access_type: oneOf(["private", "public", "premium", "organization"]),
+  organization_id: nullable(text(36)),
+  difficulty: nullable(oneOf(["beginner", "intermediate", "advanced"])),
+  tags: nullable((value) => Array.isArray(value) && value.length <= 20 && value.every(text(50))),
+  image_url: nullable(text(2048)),
+};
+
+const readCourseInput = async (req: Request, creating: boolean) => {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ApiError(400, "Expected a JSON body");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "Expected a JSON object");
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(body)) {
+    const check = COURSE_INPUT[field];
+    if (!check) throw new ApiError(400, `Unknown field: ${field}`);
+    if (!check(value)) throw new ApiError(400, `Invalid value for ${field}`);
+    values[field] = typeof value === "string" && field === "title" ? value.trim() : value;
+  }
+
+  if (creating) {
+    for (const field of ["title", "content_type"]) {
+      if (values[field] === undefined) throw new ApiError(400, `${field} is required`);
+    }
+  } else if (Object.keys(values).length === 0) {
+    throw new ApiError(400, "Nothing to update");
+  }
+  return values;
+};
+
+const listCourses = async ({ db, query }: Context): Promise<Result> => {
+  const sort = query.get("sort") ?? "relevance";
+  if (!["relevance", "newest", "oldest", "title"].includes(sort)) {
+    throw new ApiError(400, "sort must be relevance, newest, oldest or title");
+  }
+  const limit = parseLimit(query);
+  const cursor = decodeCursor(query.get("cursor"), CATALOG_CURSOR);
+
+  const { data, error } = await db.rpc("search_courses", {
+    search_text: query.get("q")?.trim() || null,
+    difficulty_filter: query.get("difficulty"),
+    content_type_filter: query.get("content_type"),
+    sort_by: sort,
+    page_size: limit + 1,
+    cursor_rank: cursor?.rank ?? null,
+    cursor_created_at: cursor?.created_at ?? null,
+    cursor_title: cursor?.title ?? null,
+    cursor_id: cursor?.id ?? null,
+  });
+  if (error) throw databaseError(error);
+
+  const rows = data ?? [];
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    body: {
+      data: items.map((course: Record<string, unknown>) => ({
+        id: course.id,
+        title: course.title,
+        description: course.description,
+        content_type: course.content_type,
+        access_type: course.access_type,
+        difficulty: course.difficulty,
+        tags: course.tags,
+        image_url: course.image_url,
+        created_at: course.created_at,
+        uploader_name: course.uploader_name,
+        rating_average: course.rating_average,
+        rating_count: course.rating_count,
+        enrollment_count: course.enrollment_count,
+      })),
+      next_cursor: rows.length > limit && last
+        ? encodeCursor({ rank: last.rank, created_at: last.created_at, title: last.title, id: last.id })
+        : null,
+    },
+  };
+};
+
+const getCourse = async ({ db, params }: Context): Promise<Result> => {
+  if (!uuid(params.id)) throw new ApiError(404, "Course not found");
+
+  const { data, error } = await db
+    .from("courses")
+    .select(`${COURSE_FIELDS}, course_modules(title, position, lessons(id, title, position, content_type, duration_minutes))`)
+    .eq("id", params.id)
+    .maybeSingle();
+  if (error) throw databaseError(error);
+  if (!data) throw new ApiError(404, "Course not found");
+
+  const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+  const { course_modules: modules, ...course } = data;
+  return {
+    body: {
+      ...course,
+      modules: [...modules].sort(byPosition).map((module) => ({
+        title: module.title,
+        lessons: [...module.lessons].sort(byPosition).map(({ position: _position, ...lesson }) => lesson),
+      })),
+    },
+  };
+};
+
+const listLibrary = async ({ db, userId, query }: Context): Promise<Result> => {
+  const limit = parseLimit(query);
+  const cursor = decodeCursor(query.get("cursor"), { added_at: timestamp, id: uuid });
+
+  let request = db
+    .from("user_courses")
+    .select(`id, added_at, completed, completed_at, courses(${COURSE_FIELDS})`)
+    .eq("user_id", userId);
+  if (cursor) {
+    request = request.or(beforeCursor("added_at", cursor));
+  }
+  const { data, error } = await request
+    .order("added_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+  if (error) throw databaseError(error);
+
+  const rows = data ?? [];
+  const items = rows.slice(0, limit).filter((row) => row.courses);
+  const { data: progress, error: progressError } = await db.rpc("get_course_progress", {
+    course_ids: items.map((row) => row.courses.id),
+  });
+  if (progressError) throw databaseError(progressError);
+
+  const counts = new Map(
+    (progress ?? []).map((row: { course_id: string; total_lessons: number; completed_lessons: number }) => [
+      row.course_id,
+      row,
+    ]),
+  );
+  const last = rows[Math.min(rows.length, limit) - 1];
+  return {
+    body: {
+      data: items.map((row) => {
+        const lessons = counts.get(row.courses.id);
+        const total = lessons?.total_lessons ?? 0;
+        const done = lessons?.completed_lessons ?? 0;
+        return {
+          course: row.courses,
+          added_at: row.added_at,
+          completed: !!row.completed,
+          completed_at: row.completed_at,
+          progress: {
+            total_lessons: total,
+            completed_lessons: done,
+            // Same rule as the app: completed courses are 100%
+            percent: row.completed ? 100 : total === 0 ? 0 : Math.round((done / total) * 100),
+          },
+        };
+      }),
+      next_cursor: rows.length > limit && last ? encodeCursor({ added_at: last.added_at, id: last.id }) : null,
+    },
+  };
+};
+
+const listUploads = async ({ db, userId, query }: Context): Promise<Result> => {
+  const limit = parseLimit(query);
+  const cursor = decodeCursor(query.get("cursor"), { created_at: timestamp, id: uuid });
+
+  let request = db
+    .from("courses")
+    .select(UPLOAD_FIELDS)
+    .eq("uploader_id", userId);
+  if (cursor) {
+    request = request.or(beforeCursor("created_at", cursor));
+  }
+  const { data, error } = await request
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+  if (error) throw databaseError(error);
+
+  const rows = data ?? [];
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    body: {
+      data: items,
+      next_cursor: rows.length > limit && last ? encodeCursor({ created_at: last.created_at, id: last.id }) : null,
+    },
+  };
+};
+
+// Moderation and organization membership checks run in the database
+const createCourse = async ({ db, userId, req }: Context): Promise<Result> => {
+  const values = await readCourseInput(req, true);
+  const { data: { user } } = await admin.auth.admin.getUserById(userId);
+
+  const { data, error } = await db
+    .from("courses")
+    .insert([{ ...values, uploader_id: userId, uploader_email: user?.email ?? null }])
+    .select(UPLOAD_FIELDS)
+    .single();
+  if (error) throw databaseError(error);
+
+  return { body: data, status: 201 };
+};
+
+const updateCourse = async ({ db, userId, params, req }: Context): Promise<Result> => {
+  if (!uuid(params.id)) throw new ApiError(404, "Course not found among your uploads");
+
+  const values = await readCourseInput(req, false);
+
+  const { data, error } = await db
+    .from("courses")
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq("id", params.id)
+    .eq("uploader_id", userId)
+    .select(UPLOAD_FIELDS)
+    .maybeSingle();
+  if (error) throw databaseError(error);
+  if (!data) throw new ApiError(404, "Course not found among your uploads");
+
+  return { body: data };
+};
+
+const ROUTES: Route[] = [
+  { method: "GET", path: "/courses", scope: "catalog:read", handle: listCourses },
+  { method: "POST", path: "/courses", scope: "courses:write", handle: createCourse },
+  { method: "GET", path: "/courses/:id", scope: "catalog:read", handle: getCourse },
+  { method: "PATCH", path: "/courses/:id", scope: "courses:write", handle: updateCourse },
+  { method: "GET", path: "/library", scope: "library:read", handle: listLibrary },
+  { method: "GET", path: "/uploads", scope: "courses:write", handle: listUploads },
+];
+
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const expected = pattern.split("/");
+  const actual = path.split("/");
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(":")) {
+      params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    } else if (expected[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      headers: { ...corsHeaders, "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS" },
+    });
+  }
+
+  const url = new URL(req.url);
+  // Paths arrive as /api-v1/<route>, or /functions/v1/api-v1/<route> through some proxies
+  const path = url.pathname.replace(/^.*?\/api-v1/, "").replace(/\/$/, "") || "/";
+
+  if (req.method === "GET" && path === "/openapi.json") {
+    return jsonResponse(buildOpenApiDocument(`${SUPABASE_URL}/functions/v1/api-v1`));
+  }
+
+  const candidates = ROUTES.map((route) => ({ route, params: matchPath(route.path, path) }))
+    .filter((candidate) => candidate.params);
+  const match = candidates.find((candidate) => candidate.route.method === req.method);
+  if (!match || !match.params) {
+    return candidates.length > 0
+      ? jsonResponse({ error: "Method not allowed" }, 405)
+      : jsonResponse({ error: "Not found" }, 404);
+  }
+
+  const key = req.headers.get("Authorization")?.match(/^Bearer\s+(ck_\w+)$/)?.[1];
+  if (!key) {
+    return jsonResponse({ error: "Missing API key" }, 401);
+  }
+
+  try {
+    const { data, error } = await admin.rpc("authenticate_api_key", {
+      api_key_hash: await hashKey(key),
+      requests_per_minute: REQUESTS_PER_MINUTE,
+    });
+    if (error) throw error;
+
+    const caller = data?.[0];
+    if (!caller) {
+      return jsonResponse({ error: "Invalid API key, or the account no longer has API access" }, 401);
+    }
+
+    const resetsAt = Math.ceil(new Date(caller.window_resets_at).getTime() / 1000);
+    const rateHeaders = {
+      "X-RateLimit-Limit": String(REQUESTS_PER_MINUTE),
+      "X-RateLimit-Remaining": String(Math.max(caller.requests_remaining, 0)),
+      "X-RateLimit-Reset": String(resetsAt),
+    };
+
+    if (caller.requests_remaining < 0) {
+      return jsonResponse({ error: "Rate limit exceeded" }, 429, {
+        ...rateHeaders,
+        "Retry-After": String(Math.max(resetsAt - Math.floor(Date.now() / 1000), 1)),
+      });
+    }
+
+    if (!caller.key_scopes.includes(match.route.scope)) {
+      return jsonResponse({ error: `This key lacks the ${match.route.scope} scope` }, 403, rateHeaders);
+    }
+
+    try {
+      const result = await match.route.handle({
+        db: await clientFor(caller.owner_id),
+        userId: caller.owner_id,
+        params: match.params,
+        query: url.searchParams,
+        req,
+      });
+      return jsonResponse(result.body, result.status ?? 200, rateHeaders);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return jsonResponse({ error: error.message }, error.status, rateHeaders);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("api-v1 error:", error);
+    return jsonResponse({ error: "Request failed" }, 500);
+  }
+});
@@ -0,0 +1,250 @@
+// OpenAPI description of the v1 API, served at GET /openapi.json
+
+const ref = (schema: string) => ({ $ref: `#/components/schemas/${schema}` });
+
+const json = (schema: unknown) => ({ "application/json": { schema } });
+
+const errorResponse = (description: string) => ({ description, content: json(ref("Error")) });
+
+const page = (item: string) => ({
+  type: "object",
+  required: ["data", "next_cursor"],
+  properties: {
+    data: { type: "array", items: ref(item) },
+    next_cursor: {
+      type: ["string", "null"],
+      description: "Pass as `cursor` to fetch the next page; null on the last page",
+    },
+  },
+});
+
+const pageParameters = [
+  { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 50, default: 20 } },
+  { name: "cursor", in: "query", schema: { type: "string" } },
+];
+
+const idParameter = { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } };
+
+const commonErrors = {
+  401: errorResponse("Missing or invalid API key"),
+  403: errorResponse("The key lacks the required scope, or the action is not allowed"),
+  429: errorResponse("Rate limit exceeded; retry after the Retry-After header"),
+};
+
+export const buildOpenApiDocument = (serverUrl: string) => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Skillcy API",
+    version: "1.0.0",
+    description:
+      "Personal API keys are created on the Profile page and require the Pro plan. " +
+      "Every key is limited to 60 requests per minute; the X-RateLimit-* headers report the current window.",
+  },
+  servers: [{ url: serverUrl }],
+  security: [{ apiKey: [] }],
+  paths: {
+    "/courses": {
+      get: {
+        summary: "List and search the catalogue",
+        description: "Requires the `catalog:read` scope.",
+        parameters: [
+          { name: "q", in: "query", description: "Full-text search", schema: { type: "string" } },
+          { name: "difficulty", in: "query", schema: { enum: ["beginner", "intermediate", "advanced"] } },
+          { name: "content_type", in: "query", schema: { enum: ["video", "pdf", "text"] } },
+          {
+            name: "sort",
+            in: "query",
+            description: "Relevance falls back to newest without a search term",
+            schema: { enum: ["relevance", "newest", "oldest", "title"], default: "relevance" },
+          },
+          ...pageParameters,
+        ],
+        responses: { 200: { description: "A page of courses", content: json(page("CatalogCourse")) }, ...commonErrors },
+      },
+      post: {
+        summary: "Upload a course",
+        description: "Requires the `courses:write` scope. New courses go through moderation like uploads in the app.",
+        requestBody: { required: true, content: json(ref("CourseInput")) },
+        responses: {
+          201: { description: "The created course", content: json(ref("Upload")) },
+          400: errorResponse("Invalid course"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/courses/{id}": {
+      get: {
+        summary: "Get a course with its lesson outline",
+        description: "Requires the `catalog:read` scope.",
+        parameters: [idParameter],
+        responses: {
+          200: { description: "The course", content: json(ref("CourseDetail")) },
+          404: errorResponse("Course not found"),
+          ...commonErrors,
+        },
+      },
+      patch: {
+        summary: "Update one of your uploaded courses",
+        description: "Requires the `courses:write` scope. Content changes are sent back to moderation.",
+        parameters: [idParameter],
+        requestBody: { required: true, content: json(ref("CourseUpdate")) },
+        responses: {
+          200: { description: "The updated course", content: json(ref("Upload")) },
+          400: errorResponse("Invalid course"),
+          404: errorResponse("Course not found among your uploads"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/library": {
+      get: {
+        summary: "List your library with progress",
+        description: "Requires the `library:read` scope. Most recently added first.",
+        parameters: pageParameters,
+        responses: { 200: { description: "A page of library entries", content: json(page("LibraryEntry")) }, ...commonErrors },
+      },
+    },
+    "/uploads": {
+      get: {
+        summary: "List your uploaded courses",
+        description: "Requires the `courses:write` scope. Newest first.",
+        parameters: pageParameters,
+        responses: { 200: { description: "A page of uploaded courses", content: json(page("Upload")) }, ...commonErrors },
+      },
+    },
+    "/openapi.json": {
+      get: {
+        summary: "This document",
+        security: [],
+        responses: { 200: { description: "OpenAPI document", content: json({ type: "object" }) } },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: "http", scheme: "bearer", description: "A personal API key starting with `ck_`" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+      Course: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          title: { type: "string" },
+          description: { type: ["string", "null"] },
+          content_type: { enum: ["video", "pdf", "text"] },
+          access_type: { enum: ["private", "public", "premium", "organization"] },
+          difficulty: { enum: ["beginner", "intermediate", "advanced", null] },
+          tags: { type: ["array", "null"], items: { type: "string" } },
+          image_url: { type: ["string", "null"] },
+          created_at: { type: "string", format: "date-time" },
+        },
+      },
+      CatalogCourse: {
+        allOf: [
+          ref("Course"),
+          {
+            type: "object",
+            properties: {
+              uploader_name: { type: ["string", "null"] },
+              rating_average: { type: ["number", "null"] },
+              rating_count: { type: "integer" },
+              enrollment_count: { type: "integer" },
+            },
+          },
+        ],
+      },
+      CourseDetail: {
+        allOf: [
+          ref("Course"),
+          {
+            type: "object",
+            properties: {
+              modules: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string" },
+                    lessons: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          id: { type: "string", format: "uuid" },
+                          title: { type: "string" },
+                          content_type: { enum: ["video", "pdf", "text"] },
+                          duration_minutes: { type: ["integer", "null"] },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      LibraryEntry: {
+        type: "object",
+        properties: {
+          course: ref("Course"),
+          added_at: { type: "string", format: "date-time" },
+          completed: { type: "boolean" },
+          completed_at: { type: ["string", "null"], format: "date-time" },
+          progress: {
+            type: "object",
+            properties: {
+              total_lessons: { type: "integer" },
+              completed_lessons: { type: "integer" },
+              percent: { type: "integer", minimum: 0, maximum: 100 },
+            },
+          },
+        },
+      },
+      Upload: {
+        allOf: [
+          ref("Course"),
+          {
+            type: "object",
+            properties: {
+              content_url: { type: ["string", "null"] },
+              content_text: { type: ["string", "null"] },
+              organization_id: { type: ["string", "null"], format: "uuid" },
+              moderation_status: { enum: ["pending", "approved", "rejected"] },
+              rejection_reason: { type: ["string", "null"] },
+              updated_at: { type: "string", format: "date-time" },
+            },
+          },
+        ],
+      },
+      CourseUpdate: {
+        type: "object",
+        minProperties: 1,
+        additionalProperties: false,
+        properties: {
+          title: { type: "string", minLength: 1, maxLength: 200 },
+          description: { type: ["string", "null"], maxLength: 5000 },
+          content_type: { enum: ["video", "pdf", "text"] },
+          content_url: { type: ["string", "null"], format: "uri" },
+          content_text: { type: ["string", "null"] },
+          access_type: {
+            enum: ["private", "public", "premium", "organization"],
+            description: "Premium uploads need the Pro plan; organization courses need organization_id",
+          },
+          organization_id: { type: ["string", "null"], format: "uuid" },
+          difficulty: { enum: ["beginner", "intermediate", "advanced", null] },
+          tags: { type: ["array", "null"], maxItems: 20, items: { type: "string", maxLength: 50 } },
+          image_url: { type: ["string", "null"], format: "uri" },
+        },
+      },
+      CourseInput: {
+        allOf: [ref("CourseUpdate"), { type: "object", required: ["title", "content_type"] }],
+      },
+    },
+  },
+});
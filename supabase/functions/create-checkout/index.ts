@@ -0,0 +1,72 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getPriceId, getProviderApiBase, isPaidPlan, parseSeats } from "../_shared/plans.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Resolve the signed-in user from the caller's JWT
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { plan, seats: requestedSeats } = await req.json();
+    if (!isPaidPlan(plan)) {
+      return jsonResponse({ error: "Unknown plan" }, 400);
+    }
+
+    const seats = parseSeats(plan, requestedSeats);
+    if (seats === null) {
+      return jsonResponse({ error: "Invalid seat count" }, 400);
+    }
+
+    const origin = req.headers.get("origin") ?? Deno.env.get("SITE_URL") ?? "http://localhost:8080";
+
+    // Metadata on the subscription lets the webhook map provider events back to the user
+    const params = new URLSearchParams({
+      mode: "subscription",
+      "line_items[0][price]": getPriceId(plan),
+      "line_items[0][quantity]": String(seats),
+      success_url: `${origin}/premium?checkout=success`,
+      cancel_url: `${origin}/premium?checkout=cancelled`,
+      client_reference_id: user.id,
+      "metadata[user_id]": user.id,
+      "metadata[plan]": plan,
+      "subscription_data[metadata][user_id]": user.id,
+      "subscription_data[metadata][plan]": plan,
+    });
+    if (user.email) {
+      params.set("customer_email", user.email);
+    }
+
+    const response = await fetch(`${getProviderApiBase()}/v1/checkout/sessions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${Deno.env.get("STRIPE_SECRET_KEY") ?? ""}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+    });
+
+    const session = await response.json();
+    if (!response.ok) {
+      console.error("Checkout session error:", session);
+      return jsonResponse({ error: "Failed to create checkout session" }, 502);
+    }
+
+    return jsonResponse({ id: session.id, url: session.url });
+  } catch (error) {
+    console.error("create-checkout error:", error);
+    return jsonResponse({ error: "Failed to create checkout session" }, 500);
+  }
+});
@@ -0,0 +1,114 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/cors.ts";
+import { isPaidPlan } from "../_shared/plans.ts";
+import { verifySignature } from "../_shared/webhook-signature.ts";
+
+// Deploy with --no-verify-jwt: the provider authenticates with the signature header instead
+
+interface ProviderSubscription {
+  id: string;
+  customer: string | null;
+  status: string;
+  current_period_end: number | null;
+  cancel_at_period_end: boolean;
+  // The line item quantity is the number of organization seats on the Pro plan
+  items?: { data?: { quantity?: number }[] };
+  metadata: { user_id?: string; plan?: string };
+}
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+);
+
+// Without a secret any HMAC made with an empty key would verify, so refuse to run at all
+const WEBHOOK_SECRET = Deno.env.get("STRIPE_WEBHOOK_SECRET") ?? "";
+
+const toTimestamp = (unix: number | null | undefined) =>
+  unix ? new Date(unix * 1000).toISOString() : null;
+
+// Upserting a subscription fires the trigger that updates profiles.role
+const saveSubscription = async (subscription: ProviderSubscription, status = subscription.status) => {
+  const { user_id: userId, plan } = subscription.metadata ?? {};
+  if (!userId || !isPaidPlan(plan)) {
+    console.warn("Ignoring subscription without user metadata:", subscription.id);
+    return;
+  }
+
+  const { error } = await supabase
+    .from("subscriptions")
+    .upsert({
+      user_id: userId,
+      plan,
+      status,
+      provider_customer_id: subscription.customer,
+      provider_subscription_id: subscription.id,
+      current_period_end: toTimestamp(subscription.current_period_end),
+      cancel_at_period_end: subscription.cancel_at_period_end ?? false,
+      seats: Math.max(subscription.items?.data?.[0]?.quantity ?? 1, 1),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "provider_subscription_id" });
+
+  if (error) throw error;
+};
+
+// Only extends the period: the status comes from the subscription events, so a late
+// invoice can't reactivate a canceled subscription
+const renewSubscription = async (subscriptionId: string, periodEnd: number | null | undefined) => {
+  const { error } = await supabase
+    .from("subscriptions")
+    .update({
+      current_period_end: toTimestamp(periodEnd),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("provider_subscription_id", subscriptionId)
+    .neq("status", "canceled");
+
+  if (error) throw error;
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!WEBHOOK_SECRET) {
+    console.error("payment-webhook: STRIPE_WEBHOOK_SECRET is not set");
+    return jsonResponse({ error: "Webhook is not configured" }, 500);
+  }
+
+  const payload = await req.text();
+  const valid = await verifySignature(WEBHOOK_SECRET, req.headers.get("stripe-signature"), payload);
+  if (!valid) {
+    return jsonResponse({ error: "Invalid signature" }, 400);
+  }
+
+  try {
+    const event = JSON.parse(payload);
+    const object = event.data?.object;
+
+    switch (event.type) {
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+        await saveSubscription(object);
+        break;
+      case "customer.subscription.deleted":
+        // Cancelled immediately or expired at the end of the paid period
+        await saveSubscription(object, "canceled");
+        break;
+      case "invoice.paid":
+        if (object.subscription) {
+          await renewSubscription(object.subscription, object.lines?.data?.[0]?.period?.end);
+        }
+        break;
+      default:
+        // Other events (checkout.session.completed, ...) carry nothing we store
+        break;
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    console.error("payment-webhook error:", error);
+    return jsonResponse({ error: "Failed to process event" }, 500);
+  }
+});
@@ -0,0 +1,96 @@
+
+-- Create course_modules table to group lessons inside a course
+CREATE TABLE public.course_modules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create lessons table, each lesson carries its own content
+CREATE TABLE public.lessons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  module_id UUID REFERENCES public.course_modules ON DELETE CASCADE NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+  content_type TEXT NOT NULL CHECK (content_type IN ('video', 'pdf', 'text')),
+  content_url TEXT,
+  content_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_course_modules_course_position ON public.course_modules (course_id, position);
+CREATE INDEX idx_lessons_module_position ON public.lessons (module_id, position);
+CREATE INDEX idx_lessons_course ON public.lessons (course_id);
+
+-- Keep lessons.course_id in sync with the parent module
+CREATE OR REPLACE FUNCTION set_lesson_course_id()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT course_id INTO NEW.course_id
+  FROM public.course_modules
+  WHERE id = NEW.module_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_lessons_course_id
+  BEFORE INSERT OR UPDATE OF module_id ON public.lessons
+  FOR EACH ROW EXECUTE FUNCTION set_lesson_course_id();
+
+-- Enable Row Level Security
+ALTER TABLE public.course_modules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lessons ENABLE ROW LEVEL SECURITY;
+
+-- Modules and lessons are visible whenever the parent course is visible
+-- (the courses policies are applied to the subquery)
+CREATE POLICY "Anyone can view modules of visible courses" ON public.course_modules
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_modules.course_id)
+  );
+
+CREATE POLICY "Uploaders can insert modules" ON public.course_modules
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Uploaders can update modules" ON public.course_modules
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Uploaders can delete modules" ON public.course_modules
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Anyone can view lessons of visible courses" ON public.lessons
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = lessons.course_id)
+  );
+
+CREATE POLICY "Uploaders can insert lessons" ON public.lessons
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.course_modules m
+      JOIN public.courses c ON c.id = m.course_id
+      WHERE m.id = module_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Uploaders can update lessons" ON public.lessons
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Uploaders can delete lessons" ON public.lessons
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
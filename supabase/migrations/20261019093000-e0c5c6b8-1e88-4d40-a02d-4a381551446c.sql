@@ -0,0 +1,94 @@
+
+-- Create lesson_progress table recording which lessons a user has finished
+CREATE TABLE public.lesson_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE CASCADE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, lesson_id)
+);
+
+ALTER TABLE public.lesson_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own lesson progress" ON public.lesson_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record progress in enrolled courses" ON public.lesson_progress
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.lessons l
+      JOIN public.user_courses uc ON uc.course_id = l.course_id
+      WHERE l.id = lesson_id AND uc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove own lesson progress" ON public.lesson_progress
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Per-course lesson counts for the current user
+CREATE OR REPLACE FUNCTION get_course_progress(course_ids UUID[])
+RETURNS TABLE (course_id UUID, total_lessons INTEGER, completed_lessons INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    l.course_id,
+    COUNT(*)::INTEGER AS total_lessons,
+    COUNT(lp.id)::INTEGER AS completed_lessons
+  FROM public.lessons l
+  LEFT JOIN public.lesson_progress lp ON lp.lesson_id = l.id AND lp.user_id = auth.uid()
+  WHERE l.course_id = ANY(course_ids)
+  GROUP BY l.course_id;
+$$;
+
+-- Update profile stats, completing enrolled courses whose lessons are all finished first
+CREATE OR REPLACE FUNCTION update_profile_stats(user_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only touches rows that are still incomplete, so the nested
+  -- user_courses trigger finds nothing left to update
+  UPDATE public.user_courses uc
+  SET completed = TRUE, completed_at = now()
+  WHERE uc.user_id = user_uuid
+    AND COALESCE(uc.completed, FALSE) = FALSE
+    AND EXISTS (
+      SELECT 1 FROM public.lessons l WHERE l.course_id = uc.course_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.lessons l
+      WHERE l.course_id = uc.course_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.lesson_progress lp
+          WHERE lp.lesson_id = l.id AND lp.user_id = user_uuid
+        )
+    );
+
+  UPDATE public.profiles
+  SET
+    completed = (
+      SELECT COUNT(*)
+      FROM public.user_courses
+      WHERE user_id = user_uuid AND completed = TRUE
+    ),
+    enrolled = (
+      SELECT COUNT(*)
+      FROM public.user_courses
+      WHERE user_id = user_uuid
+    ),
+    uploads = (
+      SELECT COUNT(*)
+      FROM public.courses
+      WHERE uploader_id = user_uuid
+    )
+  WHERE user_id = user_uuid;
+END;
+$$;
+
+-- Recalculate stats whenever a lesson is finished or reset
+DROP TRIGGER IF EXISTS trigger_lesson_progress_stats ON public.lesson_progress;
+CREATE TRIGGER trigger_lesson_progress_stats
+  AFTER INSERT OR DELETE ON public.lesson_progress
+  FOR EACH ROW EXECUTE FUNCTION trigger_update_profile_stats();
@@ -0,0 +1,93 @@
+
+-- Allow the pro role alongside the existing ones
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_role_check CHECK (role IN ('user', 'premium', 'pro', 'admin'));
+
+-- Create subscriptions table, written only by the payment webhook (service role)
+CREATE TABLE public.subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  plan TEXT NOT NULL CHECK (plan IN ('premium', 'pro')),
+  status TEXT NOT NULL,
+  provider_customer_id TEXT,
+  provider_subscription_id TEXT NOT NULL UNIQUE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_subscriptions_user ON public.subscriptions (user_id);
+
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own subscriptions" ON public.subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Derive profiles.role from the user's active subscriptions
+CREATE OR REPLACE FUNCTION sync_profile_role(user_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_role TEXT;
+BEGIN
+  SELECT CASE
+    WHEN bool_or(plan = 'pro') THEN 'pro'
+    WHEN bool_or(plan = 'premium') THEN 'premium'
+    ELSE 'user'
+  END
+  INTO new_role
+  FROM public.subscriptions
+  WHERE user_id = user_uuid
+    AND status IN ('active', 'trialing');
+
+  -- Admins are managed by hand and never downgraded by billing
+  UPDATE public.profiles
+  SET role = COALESCE(new_role, 'user'), updated_at = now()
+  WHERE user_id = user_uuid AND role <> 'admin';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_sync_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR TG_OP = 'UPDATE' THEN
+    PERFORM sync_profile_role(NEW.user_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM sync_profile_role(OLD.user_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_subscriptions_role ON public.subscriptions;
+CREATE TRIGGER trigger_subscriptions_role
+  AFTER INSERT OR UPDATE OR DELETE ON public.subscriptions
+  FOR EACH ROW EXECUTE FUNCTION trigger_sync_profile_role();
+
+-- Users may still edit their own profile, but not grant themselves a role
+CREATE OR REPLACE FUNCTION prevent_profile_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.role() = 'authenticated' THEN
+    NEW.role := OLD.role;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_profiles_role_guard ON public.profiles;
+CREATE TRIGGER trigger_profiles_role_guard
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_profile_role_change();
@@ -0,0 +1,89 @@
+
+-- Role to capability mapping, mirrored by src/lib/entitlements.ts
+CREATE TABLE public.role_capabilities (
+  role TEXT NOT NULL CHECK (role IN ('user', 'premium', 'pro', 'admin')),
+  capability TEXT NOT NULL,
+  PRIMARY KEY (role, capability)
+);
+
+ALTER TABLE public.role_capabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view role capabilities" ON public.role_capabilities
+  FOR SELECT USING (true);
+
+INSERT INTO public.role_capabilities (role, capability)
+SELECT r.role, c.capability
+FROM (VALUES ('user'), ('premium'), ('pro'), ('admin')) AS r(role)
+CROSS JOIN (VALUES
+  ('view_public_courses'),
+  ('basic_progress_tracking'),
+  ('community_discussions'),
+  ('mobile_access')
+) AS c(capability);
+
+INSERT INTO public.role_capabilities (role, capability)
+SELECT r.role, c.capability
+FROM (VALUES ('premium'), ('pro'), ('admin')) AS r(role)
+CROSS JOIN (VALUES
+  ('view_premium_courses'),
+  ('advanced_progress_analytics'),
+  ('priority_support'),
+  ('offline_downloads'),
+  ('certificates'),
+  ('upload_premium_courses')
+) AS c(capability);
+
+INSERT INTO public.role_capabilities (role, capability)
+SELECT r.role, c.capability
+FROM (VALUES ('pro'), ('admin')) AS r(role)
+CROSS JOIN (VALUES
+  ('unlimited_course_creation'),
+  ('creator_analytics'),
+  ('team_collaboration'),
+  ('white_label'),
+  ('api_access'),
+  ('account_manager')
+) AS c(capability);
+
+INSERT INTO public.role_capabilities (role, capability) VALUES
+  ('admin', 'moderate_courses');
+
+-- Whether a user (the caller by default) has a capability through profiles.role
+CREATE OR REPLACE FUNCTION has_capability(capability_name TEXT, user_uuid UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_capabilities rc ON rc.role = p.role
+    WHERE p.user_id = user_uuid AND rc.capability = capability_name
+  );
+$$;
+
+-- Course policies now go through has_capability instead of listing roles
+DROP POLICY IF EXISTS "Premium users can view premium courses" ON public.courses;
+CREATE POLICY "Premium users can view premium courses" ON public.courses
+  FOR SELECT USING (
+    is_approved = true AND
+    (access_type = 'public' OR
+     (access_type = 'premium' AND has_capability('view_premium_courses')))
+  );
+
+DROP POLICY IF EXISTS "Users can insert own courses" ON public.courses;
+CREATE POLICY "Users can insert own courses" ON public.courses
+  FOR INSERT WITH CHECK (
+    auth.uid() = uploader_id AND
+    (access_type <> 'premium' OR has_capability('upload_premium_courses'))
+  );
+
+DROP POLICY IF EXISTS "Users can update own courses" ON public.courses;
+CREATE POLICY "Users can update own courses" ON public.courses
+  FOR UPDATE USING (auth.uid() = uploader_id)
+  WITH CHECK (
+    auth.uid() = uploader_id AND
+    (access_type <> 'premium' OR has_capability('upload_premium_courses'))
+  );
@@ -0,0 +1,96 @@
+
+-- Application-wide settings editable by admins
+CREATE TABLE public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view app settings" ON public.app_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Moderators can update app settings" ON public.app_settings
+  FOR UPDATE USING (has_capability('moderate_courses'));
+
+INSERT INTO public.app_settings (key, value) VALUES ('moderation_enabled', 'true');
+
+CREATE OR REPLACE FUNCTION moderation_enabled()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT (value #>> '{}')::BOOLEAN FROM public.app_settings WHERE key = 'moderation_enabled'),
+    FALSE
+  );
+$$;
+
+-- Track the review state of each course; is_approved is kept in sync for existing queries
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (moderation_status IN ('pending', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.courses
+SET moderation_status = CASE WHEN is_approved IS FALSE THEN 'pending' ELSE 'approved' END;
+
+CREATE INDEX idx_courses_moderation_status ON public.courses (moderation_status, updated_at);
+
+-- Uploads and content edits go back into the queue; only moderators decide the outcome
+CREATE OR REPLACE FUNCTION apply_course_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR has_capability('moderate_courses') THEN
+    IF TG_OP = 'UPDATE' AND NEW.moderation_status IS DISTINCT FROM OLD.moderation_status THEN
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.moderation_status := CASE WHEN moderation_enabled() THEN 'pending' ELSE 'approved' END;
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSIF moderation_enabled() AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.content_type IS DISTINCT FROM OLD.content_type OR
+    NEW.content_url IS DISTINCT FROM OLD.content_url OR
+    NEW.content_text IS DISTINCT FROM OLD.content_text OR
+    NEW.image_url IS DISTINCT FROM OLD.image_url OR
+    NEW.access_type IS DISTINCT FROM OLD.access_type OR
+    NEW.tags IS DISTINCT FROM OLD.tags
+  ) THEN
+    NEW.moderation_status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSE
+    NEW.moderation_status := OLD.moderation_status;
+    NEW.rejection_reason := OLD.rejection_reason;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  NEW.is_approved := NEW.moderation_status = 'approved';
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_courses_moderation ON public.courses;
+CREATE TRIGGER trigger_courses_moderation
+  BEFORE INSERT OR UPDATE ON public.courses
+  FOR EACH ROW EXECUTE FUNCTION apply_course_moderation();
+
+-- Moderators can see and review every course
+CREATE POLICY "Moderators can view all courses" ON public.courses
+  FOR SELECT USING (has_capability('moderate_courses'));
+
+CREATE POLICY "Moderators can update courses" ON public.courses
+  FOR UPDATE USING (has_capability('moderate_courses'));
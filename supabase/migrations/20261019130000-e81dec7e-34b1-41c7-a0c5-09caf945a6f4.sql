@@ -0,0 +1,142 @@
+
+-- Weighted full-text search over title (A), tags (B), description (C) and uploader name (D)
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION build_course_search_vector(
+  course_title TEXT,
+  course_tags TEXT[],
+  course_description TEXT,
+  uploader_name TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(course_title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(course_tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(course_description, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(uploader_name, '')), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_course_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := build_course_search_vector(
+    NEW.title,
+    NEW.tags,
+    NEW.description,
+    (SELECT full_name FROM public.profiles WHERE user_id = NEW.uploader_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_courses_search_vector ON public.courses;
+CREATE TRIGGER trigger_courses_search_vector
+  BEFORE INSERT OR UPDATE OF title, tags, description, uploader_id ON public.courses
+  FOR EACH ROW EXECUTE FUNCTION trigger_course_search_vector();
+
+-- Renaming an uploader refreshes the vectors of their courses
+CREATE OR REPLACE FUNCTION trigger_profile_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.full_name IS DISTINCT FROM OLD.full_name THEN
+    UPDATE public.courses
+    SET search_vector = build_course_search_vector(title, tags, description, NEW.full_name)
+    WHERE uploader_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_profiles_search_vector ON public.profiles;
+CREATE TRIGGER trigger_profiles_search_vector
+  AFTER UPDATE OF full_name ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION trigger_profile_search_vector();
+
+UPDATE public.courses c
+SET search_vector = build_course_search_vector(c.title, c.tags, c.description, p.full_name)
+FROM public.profiles p
+WHERE p.user_id = c.uploader_id;
+
+CREATE INDEX IF NOT EXISTS idx_courses_search_vector ON public.courses USING GIN (search_vector);
+
+-- Turns free text into a prefix query so partial words match ("reac" finds "React")
+CREATE OR REPLACE FUNCTION build_prefix_tsquery(search_text TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(term || ':*', ' & '))
+  FROM (
+    SELECT regexp_replace(word, '[^[:alnum:]]', '', 'g') AS term
+    FROM regexp_split_to_table(lower(COALESCE(search_text, '')), '\s+') AS word
+  ) terms
+  WHERE term <> '';
+$$;
+
+-- Ranked catalogue search; runs with the caller's rights so course RLS still applies
+CREATE OR REPLACE FUNCTION search_courses(
+  search_text TEXT DEFAULT NULL,
+  difficulty_filter TEXT DEFAULT NULL,
+  content_type_filter TEXT DEFAULT NULL,
+  result_limit INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  content_type TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  uploader_email TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT build_prefix_tsquery(search_text) AS q
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.description,
+    c.content_type,
+    c.access_type,
+    c.difficulty,
+    c.tags,
+    c.image_url,
+    c.created_at,
+    c.uploader_email,
+    p.full_name AS uploader_name,
+    CASE WHEN query.q IS NULL THEN 0 ELSE ts_rank_cd(c.search_vector, query.q) END AS rank,
+    CASE WHEN query.q IS NULL THEN c.title
+      ELSE ts_headline('english', c.title, query.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN query.q IS NULL THEN c.description
+      ELSE ts_headline('english', COALESCE(c.description, ''), query.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')
+    END AS description_snippet
+  FROM public.courses c
+  CROSS JOIN query
+  LEFT JOIN public.profiles p ON p.user_id = c.uploader_id
+  WHERE c.is_approved = true
+    AND (query.q IS NULL OR c.search_vector @@ query.q)
+    AND (difficulty_filter IS NULL OR c.difficulty = difficulty_filter)
+    AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+  ORDER BY rank DESC, c.created_at DESC
+  LIMIT result_limit;
+$$;
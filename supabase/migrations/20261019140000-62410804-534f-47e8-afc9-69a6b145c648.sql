@@ -0,0 +1,97 @@
+
+-- Replace search_courses with a keyset-paginated version supporting several sort orders
+DROP FUNCTION IF EXISTS search_courses(TEXT, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_courses(
+  search_text TEXT DEFAULT NULL,
+  difficulty_filter TEXT DEFAULT NULL,
+  content_type_filter TEXT DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INTEGER DEFAULT 24,
+  cursor_rank REAL DEFAULT NULL,
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_title TEXT DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  content_type TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  uploader_email TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT
+      build_prefix_tsquery(search_text) AS q,
+      -- Relevance means nothing without a search term, fall back to newest first
+      CASE
+        WHEN sort_by IN ('newest', 'oldest', 'title') THEN sort_by
+        WHEN build_prefix_tsquery(search_text) IS NULL THEN 'newest'
+        ELSE 'relevance'
+      END AS sort_key
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      query.q,
+      query.sort_key,
+      CASE WHEN query.q IS NULL THEN 0 ELSE ts_rank_cd(c.search_vector, query.q) END::REAL AS match_rank
+    FROM public.courses c
+    CROSS JOIN query
+    WHERE c.is_approved = true
+      AND (query.q IS NULL OR c.search_vector @@ query.q)
+      AND (difficulty_filter IS NULL OR c.difficulty = difficulty_filter)
+      AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.content_type,
+    m.access_type,
+    m.difficulty,
+    m.tags,
+    m.image_url,
+    m.created_at,
+    m.uploader_email,
+    p.full_name AS uploader_name,
+    m.match_rank AS rank,
+    CASE WHEN m.q IS NULL THEN m.title
+      ELSE ts_headline('english', m.title, m.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN m.q IS NULL THEN m.description
+      ELSE ts_headline('english', COALESCE(m.description, ''), m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')
+    END AS description_snippet
+  FROM matches m
+  LEFT JOIN public.profiles p ON p.user_id = m.uploader_id
+  WHERE cursor_id IS NULL OR CASE m.sort_key
+    WHEN 'newest' THEN (m.created_at, m.id) < (cursor_created_at, cursor_id)
+    WHEN 'oldest' THEN (m.created_at, m.id) > (cursor_created_at, cursor_id)
+    WHEN 'title' THEN (lower(m.title), m.id) > (lower(cursor_title), cursor_id)
+    ELSE (m.match_rank, m.id) < (cursor_rank, cursor_id)
+  END
+  ORDER BY
+    CASE WHEN m.sort_key = 'relevance' THEN m.match_rank END DESC,
+    CASE WHEN m.sort_key = 'newest' THEN m.created_at END DESC,
+    CASE WHEN m.sort_key = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN m.sort_key = 'title' THEN lower(m.title) END ASC,
+    CASE WHEN m.sort_key IN ('relevance', 'newest') THEN m.id END DESC,
+    CASE WHEN m.sort_key IN ('oldest', 'title') THEN m.id END ASC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- Keyset indexes for the paginated catalogue and library queries
+CREATE INDEX IF NOT EXISTS idx_courses_approved_created ON public.courses (created_at DESC, id DESC) WHERE is_approved = true;
+CREATE INDEX IF NOT EXISTS idx_user_courses_user_added ON public.user_courses (user_id, added_at DESC, id DESC);
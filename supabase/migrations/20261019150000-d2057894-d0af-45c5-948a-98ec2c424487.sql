@@ -0,0 +1,175 @@
+
+-- Storage buckets for uploaded course files. Covers are shown on public cards, so that
+-- bucket is public; course content is private and only served through signed URLs.
+-- The bucket limits are the ceiling for every role, upload_limits narrows them per role.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+  ('course-covers', 'course-covers', true, 10485760,
+   ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']),
+  ('course-content', 'course-content', false, 5368709120,
+   ARRAY['application/pdf', 'video/mp4', 'video/webm', 'video/quicktime'])
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Per-role upload size limits, mirrored by src/lib/storage.ts
+CREATE TABLE public.upload_limits (
+  kind TEXT NOT NULL CHECK (kind IN ('cover', 'pdf', 'video')),
+  role TEXT NOT NULL CHECK (role IN ('user', 'premium', 'pro', 'admin')),
+  max_bytes BIGINT NOT NULL,
+  PRIMARY KEY (kind, role)
+);
+
+ALTER TABLE public.upload_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view upload limits" ON public.upload_limits
+  FOR SELECT USING (true);
+
+INSERT INTO public.upload_limits (kind, role, max_bytes) VALUES
+  ('cover', 'user', 2097152),
+  ('cover', 'premium', 5242880),
+  ('cover', 'pro', 10485760),
+  ('cover', 'admin', 10485760),
+  ('pdf', 'user', 26214400),
+  ('pdf', 'premium', 104857600),
+  ('pdf', 'pro', 262144000),
+  ('pdf', 'admin', 262144000),
+  ('video', 'user', 262144000),
+  ('video', 'premium', 2147483648),
+  ('video', 'pro', 5368709120),
+  ('video', 'admin', 5368709120);
+
+CREATE OR REPLACE FUNCTION upload_kind(bucket TEXT, mime_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN bucket = 'course-covers' THEN 'cover'
+    WHEN mime_type = 'application/pdf' THEN 'pdf'
+    WHEN mime_type LIKE 'video/%' THEN 'video'
+  END;
+$$;
+
+-- Reject objects above the owner's limit once storage records their size
+CREATE OR REPLACE FUNCTION enforce_upload_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  object_size BIGINT := (NEW.metadata->>'size')::BIGINT;
+  size_limit BIGINT;
+BEGIN
+  IF NEW.bucket_id NOT IN ('course-covers', 'course-content') OR object_size IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT ul.max_bytes INTO size_limit
+  FROM public.upload_limits ul
+  WHERE ul.kind = upload_kind(NEW.bucket_id, NEW.metadata->>'mimetype')
+    AND ul.role = COALESCE((SELECT role FROM public.profiles WHERE user_id = NEW.owner), 'user');
+
+  IF size_limit IS NOT NULL AND object_size > size_limit THEN
+    RAISE EXCEPTION 'File of % bytes exceeds the % byte upload limit for your plan', object_size, size_limit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_upload_limit ON storage.objects;
+CREATE TRIGGER trigger_enforce_upload_limit
+  BEFORE INSERT OR UPDATE OF metadata ON storage.objects
+  FOR EACH ROW EXECUTE FUNCTION enforce_upload_limit();
+
+-- Uploaded content is referenced by its object path rather than a URL
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS content_path TEXT;
+
+-- Files are uploaded into a folder named after the uploader's user id
+CREATE POLICY "Users can upload course covers" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'course-covers' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update own course covers" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'course-covers' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own course covers" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'course-covers' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can upload course content" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'course-content' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update own course content" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'course-content' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own course content" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'course-content' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Content files follow the course's access rules: the subquery runs under the courses
+-- policies, so a premium file is only readable by callers who can see the premium course
+CREATE POLICY "Users can view content of visible courses" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'course-content' AND (
+      (storage.foldername(name))[1] = auth.uid()::text OR
+      EXISTS (SELECT 1 FROM public.courses c WHERE c.content_path = storage.objects.name)
+    )
+  );
+
+-- Replacing the uploaded file is a content edit for moderation purposes
+CREATE OR REPLACE FUNCTION apply_course_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR has_capability('moderate_courses') THEN
+    IF TG_OP = 'UPDATE' AND NEW.moderation_status IS DISTINCT FROM OLD.moderation_status THEN
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.moderation_status := CASE WHEN moderation_enabled() THEN 'pending' ELSE 'approved' END;
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSIF moderation_enabled() AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.content_type IS DISTINCT FROM OLD.content_type OR
+    NEW.content_url IS DISTINCT FROM OLD.content_url OR
+    NEW.content_path IS DISTINCT FROM OLD.content_path OR
+    NEW.content_text IS DISTINCT FROM OLD.content_text OR
+    NEW.image_url IS DISTINCT FROM OLD.image_url OR
+    NEW.access_type IS DISTINCT FROM OLD.access_type OR
+    NEW.tags IS DISTINCT FROM OLD.tags
+  ) THEN
+    NEW.moderation_status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSE
+    NEW.moderation_status := OLD.moderation_status;
+    NEW.rejection_reason := OLD.rejection_reason;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  NEW.is_approved := NEW.moderation_status = 'approved';
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,88 @@
+
+-- Playback position and watched coverage per user for a course video or a video lesson.
+-- Coverage is stored as the set of 1% buckets of the video that were actually played,
+-- so skipping to the end does not count as watching it.
+CREATE TABLE public.media_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE CASCADE,
+  position_seconds REAL NOT NULL DEFAULT 0,
+  duration_seconds REAL,
+  watched_buckets SMALLINT[] NOT NULL DEFAULT '{}',
+  watched_percent SMALLINT GENERATED ALWAYS AS (cardinality(watched_buckets)) STORED,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, course_id, lesson_id)
+);
+
+ALTER TABLE public.media_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own media progress" ON public.media_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record media progress in enrolled courses" ON public.media_progress
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.user_courses uc
+      WHERE uc.course_id = media_progress.course_id AND uc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own media progress" ON public.media_progress
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Union of two bucket sets, limited to the valid 0-99 range
+CREATE OR REPLACE FUNCTION merge_watched_buckets(current_buckets SMALLINT[], new_buckets SMALLINT[])
+RETURNS SMALLINT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT bucket ORDER BY bucket), '{}')
+  FROM unnest(COALESCE(current_buckets, '{}') || COALESCE(new_buckets, '{}')) AS bucket
+  WHERE bucket BETWEEN 0 AND 99;
+$$;
+
+-- Saves the caller's position and merges newly watched buckets. Once 90% of a video has
+-- been watched the lesson (or, for a course-level video, the course) is completed.
+CREATE OR REPLACE FUNCTION save_media_progress(
+  target_course_id UUID,
+  position REAL,
+  duration REAL,
+  buckets SMALLINT[],
+  target_lesson_id UUID DEFAULT NULL
+)
+RETURNS SMALLINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  percent SMALLINT;
+BEGIN
+  INSERT INTO public.media_progress AS mp
+    (user_id, course_id, lesson_id, position_seconds, duration_seconds, watched_buckets)
+  VALUES
+    (auth.uid(), target_course_id, target_lesson_id, position, duration, merge_watched_buckets('{}', buckets))
+  ON CONFLICT (user_id, course_id, lesson_id) DO UPDATE
+  SET
+    position_seconds = EXCLUDED.position_seconds,
+    duration_seconds = COALESCE(EXCLUDED.duration_seconds, mp.duration_seconds),
+    watched_buckets = merge_watched_buckets(mp.watched_buckets, EXCLUDED.watched_buckets),
+    updated_at = now()
+  RETURNING watched_percent INTO percent;
+
+  IF percent >= 90 THEN
+    IF target_lesson_id IS NOT NULL THEN
+      INSERT INTO public.lesson_progress (user_id, lesson_id)
+      VALUES (auth.uid(), target_lesson_id)
+      ON CONFLICT (user_id, lesson_id) DO NOTHING;
+    ELSE
+      UPDATE public.user_courses
+      SET completed = TRUE, completed_at = now()
+      WHERE user_id = auth.uid()
+        AND course_id = target_course_id
+        AND COALESCE(completed, FALSE) = FALSE;
+    END IF;
+  END IF;
+
+  RETURN percent;
+END;
+$$;
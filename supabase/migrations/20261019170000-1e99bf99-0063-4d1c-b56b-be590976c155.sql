@@ -0,0 +1,54 @@
+
+-- Last page read and the pages viewed per user for a course PDF or a PDF lesson
+CREATE TABLE public.reading_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE CASCADE,
+  last_page INTEGER NOT NULL DEFAULT 1 CHECK (last_page >= 1),
+  page_count INTEGER CHECK (page_count >= 1),
+  pages_viewed INTEGER[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, course_id, lesson_id)
+);
+
+ALTER TABLE public.reading_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reading progress" ON public.reading_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record reading progress in enrolled courses" ON public.reading_progress
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.user_courses uc
+      WHERE uc.course_id = reading_progress.course_id AND uc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own reading progress" ON public.reading_progress
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Records that the caller is on a page, adding it to the set of pages viewed
+CREATE OR REPLACE FUNCTION save_reading_progress(
+  target_course_id UUID,
+  page INTEGER,
+  total_pages INTEGER,
+  target_lesson_id UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO public.reading_progress AS rp
+    (user_id, course_id, lesson_id, last_page, page_count, pages_viewed)
+  VALUES
+    (auth.uid(), target_course_id, target_lesson_id, page, total_pages, ARRAY[page])
+  ON CONFLICT (user_id, course_id, lesson_id) DO UPDATE
+  SET
+    last_page = EXCLUDED.last_page,
+    page_count = EXCLUDED.page_count,
+    pages_viewed = CASE
+      WHEN EXCLUDED.last_page = ANY(rp.pages_viewed) THEN rp.pages_viewed
+      ELSE array_append(rp.pages_viewed, EXCLUDED.last_page)
+    END,
+    updated_at = now();
+$$;
@@ -0,0 +1,405 @@
+
+-- Quizzes attached to a whole course (lesson_id NULL) or to a single lesson
+CREATE TABLE public.quizzes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  pass_percent SMALLINT NOT NULL DEFAULT 70 CHECK (pass_percent BETWEEN 0 AND 100),
+  required_for_completion BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (course_id, lesson_id)
+);
+
+-- Questions are visible to learners; the answers live in quiz_answer_keys
+CREATE TABLE public.quiz_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID REFERENCES public.quizzes ON DELETE CASCADE NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  question_type TEXT NOT NULL CHECK (question_type IN ('multiple_choice', 'multi_select', 'short_answer', 'code_output')),
+  prompt TEXT NOT NULL,
+  code TEXT,
+  options TEXT[] NOT NULL DEFAULT '{}',
+  points INTEGER NOT NULL DEFAULT 1 CHECK (points >= 1),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Correct option indexes for choice questions, accepted answers for typed ones
+CREATE TABLE public.quiz_answer_keys (
+  question_id UUID REFERENCES public.quiz_questions ON DELETE CASCADE NOT NULL PRIMARY KEY,
+  correct_options SMALLINT[] NOT NULL DEFAULT '{}',
+  accepted_answers TEXT[] NOT NULL DEFAULT '{}'
+);
+
+-- Graded attempts, written only by submit_quiz_attempt
+CREATE TABLE public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID REFERENCES public.quizzes ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}',
+  results JSONB NOT NULL DEFAULT '{}',
+  score INTEGER NOT NULL,
+  max_score INTEGER NOT NULL,
+  score_percent SMALLINT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quiz_questions_quiz_position ON public.quiz_questions (quiz_id, position);
+CREATE INDEX idx_quiz_attempts_user_quiz ON public.quiz_attempts (user_id, quiz_id, submitted_at DESC);
+
+-- Keep quizzes.course_id in sync with the lesson they belong to
+CREATE OR REPLACE FUNCTION set_quiz_course_id()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.lesson_id IS NOT NULL THEN
+    SELECT course_id INTO NEW.course_id
+    FROM public.lessons
+    WHERE id = NEW.lesson_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_quizzes_course_id
+  BEFORE INSERT OR UPDATE OF lesson_id ON public.quizzes
+  FOR EACH ROW EXECUTE FUNCTION set_quiz_course_id();
+
+-- Enable Row Level Security
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_answer_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view quizzes of visible courses" ON public.quizzes
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = quizzes.course_id)
+  );
+
+CREATE POLICY "Uploaders can insert quizzes" ON public.quizzes
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Uploaders can update quizzes" ON public.quizzes
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Uploaders can delete quizzes" ON public.quizzes
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid())
+  );
+
+CREATE POLICY "Anyone can view questions of visible quizzes" ON public.quiz_questions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.quizzes WHERE quizzes.id = quiz_questions.quiz_id)
+  );
+
+CREATE POLICY "Uploaders can insert quiz questions" ON public.quiz_questions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.quizzes q
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE q.id = quiz_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Uploaders can update quiz questions" ON public.quiz_questions
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.quizzes q
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE q.id = quiz_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Uploaders can delete quiz questions" ON public.quiz_questions
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.quizzes q
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE q.id = quiz_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+-- Answer keys are only ever readable by the course uploader
+CREATE POLICY "Uploaders can view answer keys" ON public.quiz_answer_keys
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.quiz_questions qq
+      JOIN public.quizzes q ON q.id = qq.quiz_id
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE qq.id = question_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Uploaders can insert answer keys" ON public.quiz_answer_keys
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.quiz_questions qq
+      JOIN public.quizzes q ON q.id = qq.quiz_id
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE qq.id = question_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Uploaders can update answer keys" ON public.quiz_answer_keys
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.quiz_questions qq
+      JOIN public.quizzes q ON q.id = qq.quiz_id
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE qq.id = question_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own quiz attempts" ON public.quiz_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Uploaders can view attempts on their quizzes" ON public.quiz_attempts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.quizzes q
+      JOIN public.courses c ON c.id = q.course_id
+      WHERE q.id = quiz_id AND c.uploader_id = auth.uid()
+    )
+  );
+
+-- Typed answers are compared case- and spacing-insensitively; code output must match
+-- exactly apart from line endings, trailing whitespace and surrounding blank lines
+CREATE OR REPLACE FUNCTION normalize_quiz_answer(question_type TEXT, answer TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE question_type
+    WHEN 'code_output' THEN
+      btrim(regexp_replace(replace(answer, E'\r\n', E'\n'), E'[ \t]+(\n|$)', E'\\1', 'g'), E'\n')
+    ELSE
+      lower(regexp_replace(btrim(answer), '\s+', ' ', 'g'))
+  END;
+$$;
+
+-- Whether one submitted answer is correct. Choice answers are arrays of option
+-- indexes and must select exactly the correct options; typed answers are strings.
+CREATE OR REPLACE FUNCTION grade_quiz_answer(
+  question_type TEXT,
+  answer JSONB,
+  correct_options SMALLINT[],
+  accepted_answers TEXT[]
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN question_type IN ('multiple_choice', 'multi_select') THEN
+      CASE
+        WHEN jsonb_typeof(answer) IS DISTINCT FROM 'array' OR cardinality(correct_options) = 0 THEN FALSE
+        ELSE
+          (SELECT array_agg(DISTINCT o.idx ORDER BY o.idx) FROM unnest(correct_options) AS o(idx))
+          IS NOT DISTINCT FROM
+          (SELECT array_agg(DISTINCT a.value::SMALLINT ORDER BY a.value::SMALLINT)
+           FROM jsonb_array_elements_text(answer) AS a(value)
+           WHERE a.value ~ '^\d{1,4}$')
+      END
+    WHEN jsonb_typeof(answer) IS DISTINCT FROM 'string' THEN FALSE
+    ELSE EXISTS (
+      SELECT 1 FROM unnest(accepted_answers) AS accepted
+      WHERE normalize_quiz_answer(question_type, accepted) = normalize_quiz_answer(question_type, answer #>> '{}')
+    )
+  END;
+$$;
+
+-- Whether a user has passed every quiz the course requires for completion
+CREATE OR REPLACE FUNCTION required_quizzes_passed(user_uuid UUID, course_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quizzes q
+    WHERE q.course_id = course_uuid
+      AND q.required_for_completion
+      AND NOT EXISTS (
+        SELECT 1 FROM public.quiz_attempts a
+        WHERE a.quiz_id = q.id AND a.user_id = user_uuid AND a.passed
+      )
+  );
+$$;
+
+-- Grades the caller's answers ({"<question id>": [option indexes] | "text"}) against
+-- the answer keys and records the attempt
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(target_quiz_id UUID, answers JSONB)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz public.quizzes;
+  attempt public.quiz_attempts;
+  graded JSONB;
+  earned INTEGER;
+  total INTEGER;
+BEGIN
+  SELECT * INTO quiz FROM public.quizzes WHERE id = target_quiz_id;
+
+  IF quiz.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.user_courses uc
+    WHERE uc.course_id = quiz.course_id AND uc.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Add this course to your library before taking its quiz';
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_object_agg(g.id, g.correct), '{}'),
+    COALESCE(SUM(g.points) FILTER (WHERE g.correct), 0),
+    COALESCE(SUM(g.points), 0)
+  INTO graded, earned, total
+  FROM (
+    SELECT
+      qq.id,
+      qq.points,
+      grade_quiz_answer(qq.question_type, answers -> qq.id::TEXT, k.correct_options, k.accepted_answers) AS correct
+    FROM public.quiz_questions qq
+    LEFT JOIN public.quiz_answer_keys k ON k.question_id = qq.id
+    WHERE qq.quiz_id = target_quiz_id
+  ) g;
+
+  IF total = 0 THEN
+    RAISE EXCEPTION 'This quiz has no questions yet';
+  END IF;
+
+  INSERT INTO public.quiz_attempts
+    (quiz_id, user_id, answers, results, score, max_score, score_percent, passed)
+  VALUES
+    (target_quiz_id, auth.uid(), answers, graded, earned, total,
+     ROUND(earned * 100.0 / total), earned * 100 >= quiz.pass_percent * total)
+  RETURNING * INTO attempt;
+
+  -- Passing may be all that was left before the course counts as completed
+  IF attempt.passed AND quiz.required_for_completion THEN
+    PERFORM update_profile_stats(auth.uid());
+  END IF;
+
+  RETURN attempt;
+END;
+$$;
+
+-- Courses with a required quiz can't be completed until it is passed
+CREATE OR REPLACE FUNCTION enforce_required_quizzes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.completed
+    AND (TG_OP = 'INSERT' OR COALESCE(OLD.completed, FALSE) = FALSE)
+    AND NOT required_quizzes_passed(NEW.user_id, NEW.course_id)
+  THEN
+    RAISE EXCEPTION 'Pass the required quizzes before completing this course';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_user_courses_required_quizzes
+  BEFORE INSERT OR UPDATE OF completed ON public.user_courses
+  FOR EACH ROW EXECUTE FUNCTION enforce_required_quizzes();
+
+-- Automatic completion (all lessons finished) now also waits for required quizzes
+CREATE OR REPLACE FUNCTION update_profile_stats(user_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only touches rows that are still incomplete, so the nested
+  -- user_courses trigger finds nothing left to update
+  UPDATE public.user_courses uc
+  SET completed = TRUE, completed_at = now()
+  WHERE uc.user_id = user_uuid
+    AND COALESCE(uc.completed, FALSE) = FALSE
+    AND EXISTS (
+      SELECT 1 FROM public.lessons l WHERE l.course_id = uc.course_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.lessons l
+      WHERE l.course_id = uc.course_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.lesson_progress lp
+          WHERE lp.lesson_id = l.id AND lp.user_id = user_uuid
+        )
+    )
+    AND required_quizzes_passed(user_uuid, uc.course_id);
+
+  UPDATE public.profiles
+  SET
+    completed = (
+      SELECT COUNT(*)
+      FROM public.user_courses
+      WHERE user_id = user_uuid AND completed = TRUE
+    ),
+    enrolled = (
+      SELECT COUNT(*)
+      FROM public.user_courses
+      WHERE user_id = user_uuid
+    ),
+    uploads = (
+      SELECT COUNT(*)
+      FROM public.courses
+      WHERE uploader_id = user_uuid
+    )
+  WHERE user_id = user_uuid;
+END;
+$$;
+
+-- Watching a course-level video to the end likewise waits for required quizzes
+CREATE OR REPLACE FUNCTION save_media_progress(
+  target_course_id UUID,
+  position REAL,
+  duration REAL,
+  buckets SMALLINT[],
+  target_lesson_id UUID DEFAULT NULL
+)
+RETURNS SMALLINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  percent SMALLINT;
+BEGIN
+  INSERT INTO public.media_progress AS mp
+    (user_id, course_id, lesson_id, position_seconds, duration_seconds, watched_buckets)
+  VALUES
+    (auth.uid(), target_course_id, target_lesson_id, position, duration, merge_watched_buckets('{}', buckets))
+  ON CONFLICT (user_id, course_id, lesson_id) DO UPDATE
+  SET
+    position_seconds = EXCLUDED.position_seconds,
+    duration_seconds = COALESCE(EXCLUDED.duration_seconds, mp.duration_seconds),
+    watched_buckets = merge_watched_buckets(mp.watched_buckets, EXCLUDED.watched_buckets),
+    updated_at = now()
+  RETURNING watched_percent INTO percent;
+
+  IF percent >= 90 THEN
+    IF target_lesson_id IS NOT NULL THEN
+      INSERT INTO public.lesson_progress (user_id, lesson_id)
+      VALUES (auth.uid(), target_lesson_id)
+      ON CONFLICT (user_id, lesson_id) DO NOTHING;
+    ELSE
+      UPDATE public.user_courses
+      SET completed = TRUE, completed_at = now()
+      WHERE user_id = auth.uid()
+        AND course_id = target_course_id
+        AND COALESCE(completed, FALSE) = FALSE
+        AND required_quizzes_passed(auth.uid(), target_course_id);
+    END IF;
+  END IF;
+
+  RETURN percent;
+END;
+$$;
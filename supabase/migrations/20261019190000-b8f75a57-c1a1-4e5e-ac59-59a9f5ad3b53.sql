@@ -0,0 +1,110 @@
+
+-- Certificates of completion. Names and the course title are copied at issue time so a
+-- certificate keeps saying what it said when it was earned.
+CREATE TABLE public.certificates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE SET NULL,
+  recipient_name TEXT NOT NULL,
+  course_title TEXT NOT NULL,
+  uploader_name TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, course_id)
+);
+
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+-- Certificates are written by issue_certificate only; anyone else checks one
+-- through verify_certificate
+CREATE POLICY "Users can view own certificates" ON public.certificates
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Issues the certificate for a completed course, if the user's plan includes certificates
+CREATE OR REPLACE FUNCTION issue_certificate(user_uuid UUID, course_uuid UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.certificates (user_id, course_id, recipient_name, course_title, uploader_name, completed_at)
+  SELECT
+    uc.user_id,
+    c.id,
+    COALESCE(NULLIF(btrim(p.full_name), ''), u.email),
+    c.title,
+    COALESCE(NULLIF(btrim(up.full_name), ''), c.uploader_email),
+    COALESCE(uc.completed_at, now())
+  FROM public.user_courses uc
+  JOIN public.courses c ON c.id = uc.course_id
+  JOIN auth.users u ON u.id = uc.user_id
+  LEFT JOIN public.profiles p ON p.user_id = uc.user_id
+  LEFT JOIN public.profiles up ON up.user_id = c.uploader_id
+  WHERE uc.user_id = user_uuid
+    AND uc.course_id = course_uuid
+    AND uc.completed = TRUE
+    AND has_capability('certificates', user_uuid)
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_issue_certificate()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM issue_certificate(NEW.user_id, NEW.course_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_user_courses_certificate
+  AFTER INSERT OR UPDATE OF completed ON public.user_courses
+  FOR EACH ROW
+  WHEN (NEW.completed = TRUE)
+  EXECUTE FUNCTION trigger_issue_certificate();
+
+-- Issues certificates for courses the caller completed before their plan included them.
+-- Returns how many were issued.
+CREATE OR REPLACE FUNCTION claim_certificates()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  before_count INTEGER;
+  after_count INTEGER;
+  course RECORD;
+BEGIN
+  SELECT COUNT(*) INTO before_count FROM public.certificates WHERE user_id = auth.uid();
+
+  FOR course IN
+    SELECT uc.course_id FROM public.user_courses uc
+    WHERE uc.user_id = auth.uid() AND uc.completed = TRUE
+  LOOP
+    PERFORM issue_certificate(auth.uid(), course.course_id);
+  END LOOP;
+
+  SELECT COUNT(*) INTO after_count FROM public.certificates WHERE user_id = auth.uid();
+  RETURN after_count - before_count;
+END;
+$$;
+
+-- Public lookup used by the /certificates/:id verification page
+CREATE OR REPLACE FUNCTION verify_certificate(certificate_id UUID)
+RETURNS TABLE (
+  id UUID,
+  course_id UUID,
+  recipient_name TEXT,
+  course_title TEXT,
+  uploader_name TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  issued_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.course_id, c.recipient_name, c.course_title, c.uploader_name, c.completed_at, c.issued_at
+  FROM public.certificates c
+  WHERE c.id = certificate_id;
+$$;
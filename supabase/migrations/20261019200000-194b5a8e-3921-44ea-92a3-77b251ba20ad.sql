@@ -0,0 +1,365 @@
+
+-- Course reviews: one per learner who has the course in their library, with a public
+-- reply from the course uploader
+CREATE TABLE public.course_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body TEXT,
+  helpful_count INTEGER NOT NULL DEFAULT 0,
+  uploader_reply TEXT,
+  replied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (course_id, user_id)
+);
+
+-- Earlier versions of a review, written whenever its rating or text changes
+CREATE TABLE public.course_review_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID REFERENCES public.course_reviews ON DELETE CASCADE NOT NULL,
+  rating SMALLINT NOT NULL,
+  body TEXT,
+  written_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  replaced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.review_votes (
+  review_id UUID REFERENCES public.course_reviews ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (review_id, user_id)
+);
+
+-- Aggregates shown on course cards, kept current by the triggers below
+CREATE TABLE public.course_stats (
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE PRIMARY KEY,
+  rating_count INTEGER NOT NULL DEFAULT 0,
+  rating_average NUMERIC(3, 2),
+  enrollment_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_course_review_revisions_review ON public.course_review_revisions (review_id, replaced_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_courses_course ON public.user_courses (course_id);
+
+ALTER TABLE public.course_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_review_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reviews of visible courses" ON public.course_reviews
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id)
+  );
+
+-- Uploaders can't review their own courses
+CREATE POLICY "Enrolled users can insert own review" ON public.course_reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.user_courses
+      WHERE user_courses.user_id = auth.uid() AND user_courses.course_id = course_reviews.course_id
+    ) AND
+    NOT EXISTS (
+      SELECT 1 FROM public.courses
+      WHERE courses.id = course_reviews.course_id AND courses.uploader_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own review" ON public.course_reviews
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own review" ON public.course_reviews
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view revisions of visible reviews" ON public.course_review_revisions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.course_reviews WHERE course_reviews.id = review_id)
+  );
+
+CREATE POLICY "Users can view own review votes" ON public.review_votes
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Voting on your own review doesn't count
+CREATE POLICY "Users can vote on others' reviews" ON public.review_votes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.course_reviews
+      WHERE course_reviews.id = review_id AND course_reviews.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove own review votes" ON public.review_votes
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view stats of visible courses" ON public.course_stats
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id)
+  );
+
+-- Reviewers may change their rating and text only; the reply and the vote count are
+-- written by reply_to_review and the vote trigger. Every change of rating or text
+-- keeps the previous version.
+CREATE OR REPLACE FUNCTION guard_course_review_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() = OLD.user_id THEN
+    NEW.course_id := OLD.course_id;
+    NEW.user_id := OLD.user_id;
+    NEW.helpful_count := OLD.helpful_count;
+    NEW.uploader_reply := OLD.uploader_reply;
+    NEW.replied_at := OLD.replied_at;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF NEW.rating IS DISTINCT FROM OLD.rating OR NEW.body IS DISTINCT FROM OLD.body THEN
+    INSERT INTO public.course_review_revisions (review_id, rating, body, written_at)
+    VALUES (OLD.id, OLD.rating, OLD.body, OLD.updated_at);
+    NEW.updated_at := now();
+  ELSE
+    NEW.updated_at := OLD.updated_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_course_reviews_guard
+  BEFORE UPDATE ON public.course_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_course_review_update();
+
+CREATE OR REPLACE FUNCTION update_review_helpful_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_review UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.review_id ELSE NEW.review_id END;
+BEGIN
+  UPDATE public.course_reviews
+  SET helpful_count = (SELECT COUNT(*) FROM public.review_votes WHERE review_id = target_review)
+  WHERE id = target_review;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_review_votes_count
+  AFTER INSERT OR DELETE ON public.review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_review_helpful_count();
+
+-- Sets or, with an empty reply, clears the uploader's public reply to a review
+CREATE OR REPLACE FUNCTION reply_to_review(target_review_id UUID, reply TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.course_reviews r
+  SET uploader_reply = NULLIF(btrim(reply), ''),
+      replied_at = CASE WHEN NULLIF(btrim(reply), '') IS NULL THEN NULL ELSE now() END
+  FROM public.courses c
+  WHERE r.id = target_review_id
+    AND c.id = r.course_id
+    AND c.uploader_id = auth.uid()
+    AND r.user_id <> auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the course uploader can reply to this review';
+  END IF;
+END;
+$$;
+
+-- Recounts a course's ratings and enrollments. Courses that no longer exist are skipped,
+-- which happens while a course delete cascades to its reviews and library entries.
+CREATE OR REPLACE FUNCTION refresh_course_stats(course_uuid UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.course_stats (course_id, rating_count, rating_average, enrollment_count, updated_at)
+  SELECT
+    c.id,
+    (SELECT COUNT(*) FROM public.course_reviews r WHERE r.course_id = c.id),
+    (SELECT ROUND(AVG(r.rating), 2) FROM public.course_reviews r WHERE r.course_id = c.id),
+    (SELECT COUNT(*) FROM public.user_courses uc WHERE uc.course_id = c.id),
+    now()
+  FROM public.courses c
+  WHERE c.id = course_uuid
+  ON CONFLICT (course_id) DO UPDATE SET
+    rating_count = EXCLUDED.rating_count,
+    rating_average = EXCLUDED.rating_average,
+    enrollment_count = EXCLUDED.enrollment_count,
+    updated_at = EXCLUDED.updated_at;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_refresh_course_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_course_stats(OLD.course_id);
+  ELSE
+    PERFORM refresh_course_stats(NEW.course_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_course_reviews_stats
+  AFTER INSERT OR DELETE OR UPDATE OF rating ON public.course_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_refresh_course_stats();
+
+CREATE TRIGGER trigger_user_courses_course_stats
+  AFTER INSERT OR DELETE ON public.user_courses
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_refresh_course_stats();
+
+SELECT refresh_course_stats(id) FROM public.courses;
+
+-- search_courses gains the course aggregates for the Browse cards
+DROP FUNCTION IF EXISTS search_courses(TEXT, TEXT, TEXT, TEXT, INTEGER, REAL, TIMESTAMP WITH TIME ZONE, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION search_courses(
+  search_text TEXT DEFAULT NULL,
+  difficulty_filter TEXT DEFAULT NULL,
+  content_type_filter TEXT DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INTEGER DEFAULT 24,
+  cursor_rank REAL DEFAULT NULL,
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_title TEXT DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  content_type TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  uploader_email TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  enrollment_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT
+      build_prefix_tsquery(search_text) AS q,
+      -- Relevance means nothing without a search term, fall back to newest first
+      CASE
+        WHEN sort_by IN ('newest', 'oldest', 'title') THEN sort_by
+        WHEN build_prefix_tsquery(search_text) IS NULL THEN 'newest'
+        ELSE 'relevance'
+      END AS sort_key
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      query.q,
+      query.sort_key,
+      CASE WHEN query.q IS NULL THEN 0 ELSE ts_rank_cd(c.search_vector, query.q) END::REAL AS match_rank
+    FROM public.courses c
+    CROSS JOIN query
+    WHERE c.is_approved = true
+      AND (query.q IS NULL OR c.search_vector @@ query.q)
+      AND (difficulty_filter IS NULL OR c.difficulty = difficulty_filter)
+      AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.content_type,
+    m.access_type,
+    m.difficulty,
+    m.tags,
+    m.image_url,
+    m.created_at,
+    m.uploader_email,
+    p.full_name AS uploader_name,
+    m.match_rank AS rank,
+    CASE WHEN m.q IS NULL THEN m.title
+      ELSE ts_headline('english', m.title, m.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN m.q IS NULL THEN m.description
+      ELSE ts_headline('english', COALESCE(m.description, ''), m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')
+    END AS description_snippet,
+    s.rating_average,
+    COALESCE(s.rating_count, 0) AS rating_count,
+    COALESCE(s.enrollment_count, 0) AS enrollment_count
+  FROM matches m
+  LEFT JOIN public.profiles p ON p.user_id = m.uploader_id
+  LEFT JOIN public.course_stats s ON s.course_id = m.id
+  WHERE cursor_id IS NULL OR CASE m.sort_key
+    WHEN 'newest' THEN (m.created_at, m.id) < (cursor_created_at, cursor_id)
+    WHEN 'oldest' THEN (m.created_at, m.id) > (cursor_created_at, cursor_id)
+    WHEN 'title' THEN (lower(m.title), m.id) > (lower(cursor_title), cursor_id)
+    ELSE (m.match_rank, m.id) < (cursor_rank, cursor_id)
+  END
+  ORDER BY
+    CASE WHEN m.sort_key = 'relevance' THEN m.match_rank END DESC,
+    CASE WHEN m.sort_key = 'newest' THEN m.created_at END DESC,
+    CASE WHEN m.sort_key = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN m.sort_key = 'title' THEN lower(m.title) END ASC,
+    CASE WHEN m.sort_key IN ('relevance', 'newest') THEN m.id END DESC,
+    CASE WHEN m.sort_key IN ('oldest', 'title') THEN m.id END ASC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- Best-rated premium courses for the Premium page. Learners without premium can't read
+-- premium courses, so this exposes just what a preview card needs.
+CREATE OR REPLACE FUNCTION top_premium_courses(max_results INTEGER DEFAULT 3)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  image_url TEXT,
+  uploader_name TEXT,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  enrollment_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.title,
+    c.image_url,
+    COALESCE(NULLIF(btrim(p.full_name), ''), 'Anonymous') AS uploader_name,
+    s.rating_average,
+    COALESCE(s.rating_count, 0) AS rating_count,
+    COALESCE(s.enrollment_count, 0) AS enrollment_count
+  FROM public.courses c
+  LEFT JOIN public.profiles p ON p.user_id = c.uploader_id
+  LEFT JOIN public.course_stats s ON s.course_id = c.id
+  WHERE c.is_approved = true AND c.access_type = 'premium'
+  ORDER BY s.rating_average DESC NULLS LAST, s.rating_count DESC NULLS LAST, c.created_at DESC
+  LIMIT LEAST(GREATEST(max_results, 1), 12);
+$$;
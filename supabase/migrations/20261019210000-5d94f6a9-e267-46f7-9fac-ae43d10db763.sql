@@ -0,0 +1,298 @@
+
+-- Course discussions. A thread belongs to a course, or to one of its lessons, and opens
+-- with a post of its own; every other post replies to a post in the same thread.
+CREATE TABLE public.discussion_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE SET NULL,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (length(btrim(title)) > 0),
+  accepted_post_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.discussion_posts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID REFERENCES public.discussion_threads ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.discussion_posts ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL,
+  upvote_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  CHECK (deleted_at IS NOT NULL OR length(btrim(body)) > 0)
+);
+
+ALTER TABLE public.discussion_threads
+  ADD CONSTRAINT discussion_threads_accepted_post_id_fkey
+  FOREIGN KEY (accepted_post_id) REFERENCES public.discussion_posts ON DELETE SET NULL;
+
+CREATE TABLE public.discussion_votes (
+  post_id UUID REFERENCES public.discussion_posts ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX idx_discussion_threads_course ON public.discussion_threads (course_id, created_at DESC);
+CREATE INDEX idx_discussion_posts_thread ON public.discussion_posts (thread_id, created_at);
+-- One opening post per thread
+CREATE UNIQUE INDEX idx_discussion_posts_opening ON public.discussion_posts (thread_id) WHERE parent_id IS NULL;
+
+-- Keep discussion_threads.course_id in sync with the lesson they belong to
+CREATE OR REPLACE FUNCTION set_discussion_thread_course_id()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.lesson_id IS NOT NULL THEN
+    SELECT course_id INTO NEW.course_id
+    FROM public.lessons
+    WHERE id = NEW.lesson_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_discussion_threads_course_id
+  BEFORE INSERT OR UPDATE OF lesson_id ON public.discussion_threads
+  FOR EACH ROW EXECUTE FUNCTION set_discussion_thread_course_id();
+
+-- Whether a user (the caller by default) may post in a course's discussions: the
+-- uploader, learners with the course in their library, and anyone else who can open
+-- the course, which for premium courses means a premium-entitled plan
+CREATE OR REPLACE FUNCTION can_post_discussion(course_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_capability('community_discussions', user_uuid) AND EXISTS (
+    SELECT 1
+    FROM public.courses c
+    WHERE c.id = course_uuid
+      AND (
+        c.uploader_id = user_uuid
+        OR EXISTS (
+          SELECT 1 FROM public.user_courses uc
+          WHERE uc.user_id = user_uuid AND uc.course_id = c.id
+        )
+        OR (c.is_approved AND (
+          c.access_type = 'public' OR
+          (c.access_type = 'premium' AND has_capability('view_premium_courses', user_uuid))
+        ))
+      )
+  );
+$$;
+
+ALTER TABLE public.discussion_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discussion_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discussion_votes ENABLE ROW LEVEL SECURITY;
+
+-- Threads are read by anyone who can see the course, and by learners who may still post
+-- in it after their plan changed
+CREATE POLICY "Users can view discussions of visible courses" ON public.discussion_threads
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id) OR
+    can_post_discussion(course_id)
+  );
+
+CREATE POLICY "Entitled users can start threads" ON public.discussion_threads
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND can_post_discussion(course_id)
+  );
+
+-- Authors can delete a thread nobody has replied to; uploaders and moderators any thread
+CREATE POLICY "Authors, uploaders and moderators can delete threads" ON public.discussion_threads
+  FOR DELETE USING (
+    (auth.uid() = user_id AND NOT EXISTS (
+      SELECT 1 FROM public.discussion_posts
+      WHERE discussion_posts.thread_id = discussion_threads.id AND discussion_posts.parent_id IS NOT NULL
+    )) OR
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id AND courses.uploader_id = auth.uid()) OR
+    has_capability('moderate_courses')
+  );
+
+CREATE POLICY "Users can view posts of visible threads" ON public.discussion_posts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.discussion_threads WHERE discussion_threads.id = thread_id)
+  );
+
+CREATE POLICY "Entitled users can post" ON public.discussion_posts
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.discussion_threads
+      WHERE discussion_threads.id = thread_id AND can_post_discussion(discussion_threads.course_id)
+    )
+  );
+
+-- Authors edit their posts, and delete them by setting deleted_at so replies stay in place
+CREATE POLICY "Users can update own posts" ON public.discussion_posts
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Uploaders and moderators can remove posts" ON public.discussion_posts
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.discussion_threads
+      JOIN public.courses ON courses.id = discussion_threads.course_id
+      WHERE discussion_threads.id = thread_id AND courses.uploader_id = auth.uid()
+    ) OR
+    has_capability('moderate_courses')
+  );
+
+CREATE POLICY "Users can view own discussion votes" ON public.discussion_votes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Entitled users can upvote others' posts" ON public.discussion_votes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.discussion_posts
+      JOIN public.discussion_threads ON discussion_threads.id = discussion_posts.thread_id
+      WHERE discussion_posts.id = post_id
+        AND discussion_posts.user_id <> auth.uid()
+        AND discussion_posts.deleted_at IS NULL
+        AND can_post_discussion(discussion_threads.course_id)
+    )
+  );
+
+CREATE POLICY "Users can remove own discussion votes" ON public.discussion_votes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Replies must stay inside the thread of the post they answer
+CREATE OR REPLACE FUNCTION check_discussion_post_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.discussion_posts
+    WHERE id = NEW.parent_id AND thread_id = NEW.thread_id
+  ) THEN
+    RAISE EXCEPTION 'A reply must belong to the same thread as the post it answers';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_discussion_posts_parent
+  BEFORE INSERT ON public.discussion_posts
+  FOR EACH ROW EXECUTE FUNCTION check_discussion_post_parent();
+
+-- Authors may change the body only. Deleting blanks the body for good, and edits are
+-- stamped with edited_at.
+CREATE OR REPLACE FUNCTION guard_discussion_post_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() = OLD.user_id THEN
+    NEW.thread_id := OLD.thread_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.user_id := OLD.user_id;
+    NEW.upvote_count := OLD.upvote_count;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    NEW.body := OLD.body;
+    NEW.deleted_at := OLD.deleted_at;
+    NEW.edited_at := OLD.edited_at;
+  ELSIF NEW.deleted_at IS NOT NULL THEN
+    NEW.body := '';
+    NEW.deleted_at := now();
+    NEW.edited_at := OLD.edited_at;
+  ELSIF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_discussion_posts_guard
+  BEFORE UPDATE ON public.discussion_posts
+  FOR EACH ROW EXECUTE FUNCTION guard_discussion_post_update();
+
+CREATE OR REPLACE FUNCTION update_discussion_upvote_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_post UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.post_id ELSE NEW.post_id END;
+BEGIN
+  UPDATE public.discussion_posts
+  SET upvote_count = (SELECT COUNT(*) FROM public.discussion_votes WHERE post_id = target_post)
+  WHERE id = target_post;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_discussion_votes_count
+  AFTER INSERT OR DELETE ON public.discussion_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_discussion_upvote_count();
+
+-- Creates a thread together with its opening post and returns the thread id
+CREATE OR REPLACE FUNCTION start_discussion_thread(
+  target_course_id UUID,
+  thread_title TEXT,
+  thread_body TEXT,
+  target_lesson_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_thread_id UUID;
+BEGIN
+  INSERT INTO public.discussion_threads (course_id, lesson_id, user_id, title)
+  VALUES (target_course_id, target_lesson_id, auth.uid(), btrim(thread_title))
+  RETURNING id INTO new_thread_id;
+
+  INSERT INTO public.discussion_posts (thread_id, user_id, body)
+  VALUES (new_thread_id, auth.uid(), thread_body);
+
+  RETURN new_thread_id;
+END;
+$$;
+
+-- Marks a reply as the thread's accepted answer, or clears it when no post is given.
+-- Only the course uploader decides.
+CREATE OR REPLACE FUNCTION accept_discussion_answer(target_thread_id UUID, target_post_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF target_post_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.discussion_posts
+    WHERE id = target_post_id
+      AND thread_id = target_thread_id
+      AND parent_id IS NOT NULL
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only replies in this thread can be accepted';
+  END IF;
+
+  UPDATE public.discussion_threads t
+  SET accepted_post_id = target_post_id
+  FROM public.courses c
+  WHERE t.id = target_thread_id
+    AND c.id = t.course_id
+    AND c.uploader_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the course uploader can accept answers';
+  END IF;
+END;
+$$;
@@ -0,0 +1,190 @@
+
+-- In-app notifications. Types are mirrored by src/lib/notifications.ts; keep both in sync.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('discussion_reply', 'course_moderation', 'course_review', 'course_updated')),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- App path the notification opens
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A missing row means the type is enabled
+CREATE TABLE public.notification_preferences (
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('discussion_reply', 'course_moderation', 'course_review', 'course_updated')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  PRIMARY KEY (user_id, type)
+);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications (user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON public.notifications (user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by the triggers below only
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notification preferences" ON public.notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences" ON public.notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences" ON public.notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notification preferences" ON public.notification_preferences
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The bell menu listens for new rows
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Notifies a user unless they turned the type off. Nobody is notified about their own actions.
+CREATE OR REPLACE FUNCTION notify_user(
+  user_uuid UUID,
+  notification_type TEXT,
+  notification_title TEXT,
+  notification_body TEXT DEFAULT NULL,
+  notification_link TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT user_uuid, notification_type, notification_title, notification_body, notification_link
+  WHERE user_uuid IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_preferences np
+      WHERE np.user_id = user_uuid AND np.type = notification_type AND np.enabled = false
+    );
+$$;
+
+-- Only the triggers below may notify; clients calling it could message anyone
+REVOKE EXECUTE ON FUNCTION notify_user(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_discussion_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_author UUID;
+  thread RECORD;
+BEGIN
+  SELECT user_id INTO parent_author FROM public.discussion_posts WHERE id = NEW.parent_id;
+  SELECT t.id, t.course_id, t.title INTO thread FROM public.discussion_threads t WHERE t.id = NEW.thread_id;
+
+  PERFORM notify_user(
+    parent_author,
+    'discussion_reply',
+    'New reply in "' || thread.title || '"',
+    left(NEW.body, 140),
+    '/learn/' || thread.course_id || '?thread=' || thread.id
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_discussion_posts_notify
+  AFTER INSERT ON public.discussion_posts
+  FOR EACH ROW
+  WHEN (NEW.parent_id IS NOT NULL)
+  EXECUTE FUNCTION notify_discussion_reply();
+
+CREATE OR REPLACE FUNCTION notify_course_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course RECORD;
+BEGIN
+  SELECT c.id, c.title, c.uploader_id INTO course FROM public.courses c WHERE c.id = NEW.course_id;
+
+  PERFORM notify_user(
+    course.uploader_id,
+    'course_review',
+    'New ' || NEW.rating || '-star review on "' || course.title || '"',
+    left(NEW.body, 140),
+    '/learn/' || course.id
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_course_reviews_notify
+  AFTER INSERT ON public.course_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_course_review();
+
+-- Tells uploaders how moderation went, and learners with the course in their library
+-- when an approved course changes
+CREATE OR REPLACE FUNCTION notify_course_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.moderation_status IS DISTINCT FROM OLD.moderation_status
+    AND NEW.moderation_status IN ('approved', 'rejected') THEN
+    PERFORM notify_user(
+      NEW.uploader_id,
+      'course_moderation',
+      CASE WHEN NEW.moderation_status = 'approved'
+        THEN '"' || NEW.title || '" was approved'
+        ELSE '"' || NEW.title || '" was rejected'
+      END,
+      CASE WHEN NEW.moderation_status = 'approved'
+        THEN 'Your course is now listed in Browse.'
+        ELSE NEW.rejection_reason
+      END,
+      CASE WHEN NEW.moderation_status = 'approved' THEN '/learn/' || NEW.id ELSE '/dashboard' END
+    );
+  END IF;
+
+  -- With moderation on, edits reach learners once the course is approved again
+  IF NEW.moderation_status = 'approved' AND (
+    OLD.moderation_status IS DISTINCT FROM 'approved' OR
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.content_type IS DISTINCT FROM OLD.content_type OR
+    NEW.content_url IS DISTINCT FROM OLD.content_url OR
+    NEW.content_path IS DISTINCT FROM OLD.content_path OR
+    NEW.content_text IS DISTINCT FROM OLD.content_text
+  ) THEN
+    PERFORM notify_user(
+      uc.user_id,
+      'course_updated',
+      '"' || NEW.title || '" was updated',
+      'A course in your library has new or changed content.',
+      '/learn/' || NEW.id
+    )
+    FROM public.user_courses uc
+    WHERE uc.course_id = NEW.id AND uc.user_id <> NEW.uploader_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_courses_notify
+  AFTER UPDATE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_course_changes();
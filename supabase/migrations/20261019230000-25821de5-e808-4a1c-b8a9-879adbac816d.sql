@@ -0,0 +1,313 @@
+
+-- Teams for the Pro plan. Seats come from the owner's Pro subscription quantity.
+ALTER TABLE public.subscriptions
+ADD COLUMN IF NOT EXISTS seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0);
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  owner_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Members are added by create_organization and accept_organization_invite only
+CREATE TABLE public.organization_members (
+  organization_id UUID REFERENCES public.organizations ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE UNIQUE INDEX idx_organization_members_owner ON public.organization_members (organization_id) WHERE role = 'owner';
+CREATE INDEX idx_organization_members_user ON public.organization_members (user_id);
+
+-- Invite links; anyone holding the token can join until it expires or is revoked
+CREATE TABLE public.organization_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  created_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_invites_org ON public.organization_invites (organization_id);
+
+-- A user's role in an organization (the caller by default), NULL when not a member
+CREATE OR REPLACE FUNCTION organization_role(org_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = org_uuid AND user_id = user_uuid;
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_member(org_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_role(org_uuid, user_uuid) IS NOT NULL;
+$$;
+
+-- Seats bought with the owner's active Pro subscriptions; NULL means unlimited (admin owners)
+CREATE OR REPLACE FUNCTION organization_seat_limit(org_uuid UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = o.owner_id AND p.role = 'admin') THEN NULL
+    ELSE COALESCE((
+      SELECT SUM(s.seats)::INTEGER
+      FROM public.subscriptions s
+      WHERE s.user_id = o.owner_id AND s.plan = 'pro' AND s.status IN ('active', 'trialing')
+    ), 0)
+  END
+  FROM public.organizations o
+  WHERE o.id = org_uuid;
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT USING (is_organization_member(id));
+
+CREATE POLICY "Owners can update their organizations" ON public.organizations
+  FOR UPDATE USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete their organizations" ON public.organizations
+  FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE POLICY "Members can view fellow members" ON public.organization_members
+  FOR SELECT USING (is_organization_member(organization_id));
+
+-- Members can leave and managers can remove them; the owner stays until the organization is deleted
+CREATE POLICY "Members can leave and managers can remove members" ON public.organization_members
+  FOR DELETE USING (
+    role <> 'owner' AND
+    (auth.uid() = user_id OR organization_role(organization_id) IN ('owner', 'admin'))
+  );
+
+CREATE POLICY "Managers can view invites" ON public.organization_invites
+  FOR SELECT USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Managers can create invites" ON public.organization_invites
+  FOR INSERT WITH CHECK (
+    auth.uid() = created_by AND
+    organization_role(organization_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Managers can revoke invites" ON public.organization_invites
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE OR REPLACE FUNCTION create_organization(organization_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF NOT has_capability('team_collaboration') THEN
+    RAISE EXCEPTION 'Organizations require the Pro plan';
+  END IF;
+
+  INSERT INTO public.organizations (name, owner_id)
+  VALUES (btrim(organization_name), auth.uid())
+  RETURNING id INTO new_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (new_id, auth.uid(), 'owner');
+
+  RETURN new_id;
+END;
+$$;
+
+-- What the join page shows before the invite is accepted
+CREATE OR REPLACE FUNCTION get_organization_invite(invite_token TEXT)
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  role TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  member_count INTEGER,
+  seat_limit INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.name,
+    i.role,
+    i.expires_at,
+    (SELECT count(*)::INTEGER FROM public.organization_members m WHERE m.organization_id = o.id),
+    organization_seat_limit(o.id)
+  FROM public.organization_invites i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.token = invite_token AND auth.uid() IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_organization_invite(invite_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite RECORD;
+  seat_limit INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invite';
+  END IF;
+
+  SELECT * INTO invite FROM public.organization_invites WHERE token = invite_token;
+  IF NOT FOUND OR invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite link is invalid or has expired';
+  END IF;
+
+  IF is_organization_member(invite.organization_id) THEN
+    RETURN invite.organization_id;
+  END IF;
+
+  -- Serialize joins so two people cannot take the last seat
+  PERFORM 1 FROM public.organizations WHERE id = invite.organization_id FOR UPDATE;
+
+  seat_limit := organization_seat_limit(invite.organization_id);
+  IF seat_limit IS NOT NULL AND (
+    SELECT count(*) FROM public.organization_members WHERE organization_id = invite.organization_id
+  ) >= seat_limit THEN
+    RAISE EXCEPTION 'This organization has no free seats';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (invite.organization_id, auth.uid(), invite.role);
+
+  RETURN invite.organization_id;
+END;
+$$;
+
+-- Owners and admins promote or demote members; ownership itself does not move
+CREATE OR REPLACE FUNCTION set_organization_member_role(target_organization_id UUID, target_user_id UUID, new_role TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF new_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Unknown member role';
+  END IF;
+
+  IF COALESCE(organization_role(target_organization_id), 'none') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can change member roles';
+  END IF;
+
+  UPDATE public.organization_members
+  SET role = new_role
+  WHERE organization_id = target_organization_id AND user_id = target_user_id AND role <> 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+END;
+$$;
+
+-- Org-private courses: visible to members of the organization they belong to
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations;
+
+ALTER TABLE public.courses DROP CONSTRAINT IF EXISTS courses_access_type_check;
+ALTER TABLE public.courses
+ADD CONSTRAINT courses_access_type_check CHECK (access_type IN ('private', 'public', 'premium', 'organization')),
+ADD CONSTRAINT courses_organization_check CHECK ((access_type = 'organization') = (organization_id IS NOT NULL));
+
+CREATE INDEX idx_courses_organization ON public.courses (organization_id) WHERE organization_id IS NOT NULL;
+
+-- Deleting an organization turns its courses back into their uploaders' private courses
+CREATE OR REPLACE FUNCTION release_organization_courses()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.courses
+  SET access_type = 'private', organization_id = NULL
+  WHERE organization_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER trigger_organizations_release_courses
+  BEFORE DELETE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION release_organization_courses();
+
+CREATE POLICY "Organization members can view organization courses" ON public.courses
+  FOR SELECT USING (
+    is_approved = true AND
+    access_type = 'organization' AND
+    is_organization_member(organization_id)
+  );
+
+DROP POLICY IF EXISTS "Users can insert own courses" ON public.courses;
+CREATE POLICY "Users can insert own courses" ON public.courses
+  FOR INSERT WITH CHECK (
+    auth.uid() = uploader_id AND
+    (access_type <> 'premium' OR has_capability('upload_premium_courses')) AND
+    (access_type <> 'organization' OR is_organization_member(organization_id))
+  );
+
+DROP POLICY IF EXISTS "Users can update own courses" ON public.courses;
+CREATE POLICY "Users can update own courses" ON public.courses
+  FOR UPDATE USING (auth.uid() = uploader_id)
+  WITH CHECK (
+    auth.uid() = uploader_id AND
+    (access_type <> 'premium' OR has_capability('upload_premium_courses')) AND
+    (access_type <> 'organization' OR is_organization_member(organization_id))
+  );
+
+-- Organization members may discuss the organization's courses too
+CREATE OR REPLACE FUNCTION can_post_discussion(course_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_capability('community_discussions', user_uuid) AND EXISTS (
+    SELECT 1
+    FROM public.courses c
+    WHERE c.id = course_uuid
+      AND (
+        c.uploader_id = user_uuid
+        OR EXISTS (
+          SELECT 1 FROM public.user_courses uc
+          WHERE uc.user_id = user_uuid AND uc.course_id = c.id
+        )
+        OR (c.is_approved AND (
+          c.access_type = 'public' OR
+          (c.access_type = 'premium' AND has_capability('view_premium_courses', user_uuid)) OR
+          (c.access_type = 'organization' AND is_organization_member(c.organization_id, user_uuid))
+        ))
+      )
+  );
+$$;
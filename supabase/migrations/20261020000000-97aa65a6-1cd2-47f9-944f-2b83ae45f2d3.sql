@@ -0,0 +1,258 @@
+
+-- Groups of organization members that courses can be assigned to
+CREATE TABLE public.organization_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name),
+  UNIQUE (id, organization_id)
+);
+
+-- Leaving the organization also leaves its groups
+CREATE TABLE public.organization_group_members (
+  group_id UUID NOT NULL,
+  organization_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id),
+  FOREIGN KEY (group_id, organization_id) REFERENCES public.organization_groups (id, organization_id) ON DELETE CASCADE,
+  FOREIGN KEY (organization_id, user_id) REFERENCES public.organization_members (organization_id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_organization_group_members_user ON public.organization_group_members (user_id);
+
+-- A course assigned to one member or to a group, with an optional due date
+CREATE TABLE public.course_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations ON DELETE CASCADE NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  user_id UUID,
+  group_id UUID,
+  due_at TIMESTAMP WITH TIME ZONE,
+  assigned_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((user_id IS NULL) <> (group_id IS NULL)),
+  FOREIGN KEY (organization_id, user_id) REFERENCES public.organization_members (organization_id, user_id) ON DELETE CASCADE,
+  FOREIGN KEY (group_id, organization_id) REFERENCES public.organization_groups (id, organization_id) ON DELETE CASCADE,
+  UNIQUE (course_id, organization_id, user_id),
+  UNIQUE (course_id, organization_id, group_id)
+);
+
+CREATE INDEX idx_course_assignments_org ON public.course_assignments (organization_id);
+CREATE INDEX idx_course_assignments_user ON public.course_assignments (user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX idx_course_assignments_group ON public.course_assignments (group_id) WHERE group_id IS NOT NULL;
+
+ALTER TABLE public.organization_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view groups" ON public.organization_groups
+  FOR SELECT USING (is_organization_member(organization_id));
+
+CREATE POLICY "Managers can create groups" ON public.organization_groups
+  FOR INSERT WITH CHECK (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Managers can rename groups" ON public.organization_groups
+  FOR UPDATE USING (organization_role(organization_id) IN ('owner', 'admin'))
+  WITH CHECK (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Managers can delete groups" ON public.organization_groups
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Members can view group members" ON public.organization_group_members
+  FOR SELECT USING (is_organization_member(organization_id));
+
+CREATE POLICY "Managers can add group members" ON public.organization_group_members
+  FOR INSERT WITH CHECK (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Managers can remove group members" ON public.organization_group_members
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+-- Learners see what was assigned to them; managers see everything in their organization
+CREATE POLICY "Users can view own assignments" ON public.course_assignments
+  FOR SELECT USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.organization_group_members gm
+      WHERE gm.group_id = course_assignments.group_id AND gm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can view assignments" ON public.course_assignments
+  FOR SELECT USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+-- Only courses every member can open: approved public courses and the organization's own
+CREATE POLICY "Managers can assign courses" ON public.course_assignments
+  FOR INSERT WITH CHECK (
+    auth.uid() = assigned_by AND
+    organization_role(organization_id) IN ('owner', 'admin') AND
+    EXISTS (
+      SELECT 1 FROM public.courses c
+      WHERE c.id = course_id
+        AND c.is_approved = true
+        AND (c.access_type = 'public' OR
+             (c.access_type = 'organization' AND c.organization_id = course_assignments.organization_id))
+    )
+  );
+
+CREATE POLICY "Managers can update assignments" ON public.course_assignments
+  FOR UPDATE USING (organization_role(organization_id) IN ('owner', 'admin'))
+  WITH CHECK (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Managers can delete assignments" ON public.course_assignments
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+-- Only the due date of an assignment changes after it is made
+CREATE OR REPLACE FUNCTION guard_course_assignment_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.organization_id := OLD.organization_id;
+  NEW.course_id := OLD.course_id;
+  NEW.user_id := OLD.user_id;
+  NEW.group_id := OLD.group_id;
+  NEW.assigned_by := OLD.assigned_by;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_course_assignments_guard
+  BEFORE UPDATE ON public.course_assignments
+  FOR EACH ROW EXECUTE FUNCTION guard_course_assignment_update();
+
+-- Assigning a course puts it in the learners' libraries
+CREATE OR REPLACE FUNCTION enroll_course_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_courses (user_id, course_id)
+  SELECT learner.user_id, NEW.course_id
+  FROM (
+    SELECT NEW.user_id AS user_id WHERE NEW.user_id IS NOT NULL
+    UNION
+    SELECT gm.user_id FROM public.organization_group_members gm WHERE gm.group_id = NEW.group_id
+  ) learner
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_course_assignments_enroll
+  AFTER INSERT ON public.course_assignments
+  FOR EACH ROW EXECUTE FUNCTION enroll_course_assignment();
+
+-- People added to a group pick up the courses already assigned to it
+CREATE OR REPLACE FUNCTION enroll_group_assignments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_courses (user_id, course_id)
+  SELECT NEW.user_id, a.course_id
+  FROM public.course_assignments a
+  WHERE a.group_id = NEW.group_id
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_organization_group_members_enroll
+  AFTER INSERT ON public.organization_group_members
+  FOR EACH ROW EXECUTE FUNCTION enroll_group_assignments();
+
+-- Every assignment that reaches a member, directly or through a group, one row per
+-- organization and course with the earliest due date
+CREATE OR REPLACE VIEW public.member_course_assignments
+WITH (security_invoker = true)
+AS
+SELECT
+  a.organization_id,
+  a.course_id,
+  learner.user_id,
+  min(a.due_at) AS due_at
+FROM public.course_assignments a
+CROSS JOIN LATERAL (
+  SELECT a.user_id WHERE a.user_id IS NOT NULL
+  UNION
+  SELECT gm.user_id FROM public.organization_group_members gm WHERE gm.group_id = a.group_id
+) learner(user_id)
+GROUP BY a.organization_id, a.course_id, learner.user_id;
+
+-- The caller's assigned courses for the Dashboard
+CREATE OR REPLACE FUNCTION get_assigned_courses()
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  course_id UUID,
+  course_title TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  completed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    mca.organization_id,
+    o.name,
+    mca.course_id,
+    c.title,
+    mca.due_at,
+    COALESCE(uc.completed, false)
+  FROM public.member_course_assignments mca
+  JOIN public.organizations o ON o.id = mca.organization_id
+  JOIN public.courses c ON c.id = mca.course_id
+  LEFT JOIN public.user_courses uc ON uc.user_id = mca.user_id AND uc.course_id = mca.course_id
+  WHERE mca.user_id = auth.uid()
+  ORDER BY mca.due_at ASC NULLS LAST, c.title;
+$$;
+
+-- One row per assigned learner and course for the manager report
+CREATE OR REPLACE FUNCTION get_assignment_report(target_organization_id UUID)
+RETURNS TABLE (
+  course_id UUID,
+  course_title TEXT,
+  user_id UUID,
+  learner_name TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  enrolled BOOLEAN,
+  completed BOOLEAN,
+  completed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(organization_role(target_organization_id), 'none') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can view assignment reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    mca.course_id,
+    c.title,
+    mca.user_id,
+    p.full_name,
+    mca.due_at,
+    uc.id IS NOT NULL,
+    COALESCE(uc.completed, false),
+    uc.completed_at
+  FROM public.member_course_assignments mca
+  JOIN public.courses c ON c.id = mca.course_id
+  LEFT JOIN public.profiles p ON p.user_id = mca.user_id
+  LEFT JOIN public.user_courses uc ON uc.user_id = mca.user_id AND uc.course_id = mca.course_id
+  WHERE mca.organization_id = target_organization_id
+  ORDER BY c.title, p.full_name;
+END;
+$$;
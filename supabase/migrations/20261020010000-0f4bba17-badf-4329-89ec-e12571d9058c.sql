@@ -0,0 +1,111 @@
+
+-- Personal keys for the public REST API (the api-v1 edge function). Only a SHA-256
+-- hash is stored; the key itself is returned once, when it is created.
+-- Scopes are mirrored by src/lib/apiKeys.ts; keep both in sync.
+CREATE TABLE public.api_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  -- Shown in the key list so users can tell their keys apart
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0 AND scopes <@ ARRAY['catalog:read', 'library:read', 'courses:write']
+  ),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Requests per key in fixed one-minute windows
+CREATE TABLE public.api_request_counts (
+  key_id UUID REFERENCES public.api_keys ON DELETE CASCADE NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+CREATE INDEX idx_api_keys_user ON public.api_keys (user_id, created_at);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+-- No policies: only the API function reads and writes request counts
+ALTER TABLE public.api_request_counts ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created through create_api_key below; deleting a key revokes it
+CREATE POLICY "Users can view own API keys" ON public.api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own API keys" ON public.api_keys
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Returns the new key; it cannot be read back afterwards
+CREATE OR REPLACE FUNCTION create_api_key(key_name TEXT, key_scopes TEXT[])
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_key TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_capability('api_access') THEN
+    RAISE EXCEPTION 'API access requires the Pro plan';
+  END IF;
+
+  IF (SELECT count(*) FROM public.api_keys WHERE user_id = auth.uid()) >= 10 THEN
+    RAISE EXCEPTION 'You can have at most 10 API keys';
+  END IF;
+
+  new_key := 'ck_' || replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+
+  INSERT INTO public.api_keys (user_id, name, key_prefix, key_hash, scopes)
+  VALUES (
+    auth.uid(),
+    trim(key_name),
+    left(new_key, 10),
+    encode(sha256(convert_to(new_key, 'UTF8')), 'hex'),
+    key_scopes
+  );
+
+  RETURN new_key;
+END;
+$$;
+
+-- Resolves a key by its hash and counts the request against the key's rate limit.
+-- Returns no row for unknown keys and for owners who no longer have API access;
+-- requests_remaining goes negative once the limit is exceeded.
+CREATE OR REPLACE FUNCTION authenticate_api_key(api_key_hash TEXT, requests_per_minute INTEGER)
+RETURNS TABLE (
+  owner_id UUID,
+  key_scopes TEXT[],
+  requests_remaining INTEGER,
+  window_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  api_key public.api_keys%ROWTYPE;
+  current_window TIMESTAMP WITH TIME ZONE := date_trunc('minute', now());
+  used INTEGER;
+BEGIN
+  SELECT * INTO api_key FROM public.api_keys k WHERE k.key_hash = api_key_hash;
+  IF NOT FOUND OR NOT has_capability('api_access', api_key.user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.api_request_counts AS rc (key_id, window_start, request_count)
+  VALUES (api_key.id, current_window, 1)
+  ON CONFLICT (key_id, window_start) DO UPDATE SET request_count = rc.request_count + 1
+  RETURNING rc.request_count INTO used;
+
+  DELETE FROM public.api_request_counts rc
+  WHERE rc.key_id = api_key.id AND rc.window_start < current_window;
+
+  UPDATE public.api_keys k SET last_used_at = now() WHERE k.id = api_key.id;
+
+  RETURN QUERY SELECT api_key.user_id, api_key.scopes, requests_per_minute - used, current_window + INTERVAL '1 minute';
+END;
+$$;
+
+-- Called with the service role by the API function only
+REVOKE EXECUTE ON FUNCTION authenticate_api_key(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,236 @@
+
+-- Content views: one row per learner, course or lesson content and day
+CREATE TABLE public.content_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  viewed_on DATE NOT NULL DEFAULT current_date
+);
+
+CREATE INDEX idx_content_views_course_day ON public.content_views (course_id, viewed_on);
+CREATE INDEX idx_content_views_user ON public.content_views (user_id, course_id, viewed_on);
+CREATE INDEX IF NOT EXISTS idx_user_courses_course_added ON public.user_courses (course_id, added_at);
+
+ALTER TABLE public.content_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own content views" ON public.content_views
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record views of visible courses" ON public.content_views
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = course_id)
+  );
+
+-- Counts a view at most once per learner, content and day
+CREATE OR REPLACE FUNCTION record_content_view(target_course_id UUID, target_lesson_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO public.content_views (course_id, lesson_id, user_id)
+  SELECT target_course_id, target_lesson_id, auth.uid()
+  WHERE auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.content_views v
+    WHERE v.user_id = auth.uid()
+      AND v.course_id = target_course_id
+      AND v.lesson_id IS NOT DISTINCT FROM target_lesson_id
+      AND v.viewed_on = current_date
+  );
+$$;
+
+-- Uploaders on a plan with creator analytics see their own courses; moderators see all
+CREATE OR REPLACE FUNCTION can_view_course_analytics(course_uuid UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_capability('moderate_courses') OR (
+    has_capability('creator_analytics') AND EXISTS (
+      SELECT 1 FROM public.courses c WHERE c.id = course_uuid AND c.uploader_id = auth.uid()
+    )
+  );
+$$;
+
+-- One row per course the caller uploaded
+CREATE OR REPLACE FUNCTION get_creator_course_stats()
+RETURNS TABLE (
+  course_id UUID,
+  title TEXT,
+  moderation_status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  enrollments INTEGER,
+  completions INTEGER,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  views INTEGER,
+  viewers INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('creator_analytics') THEN
+    RAISE EXCEPTION 'Creator analytics require the Pro plan';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.title,
+    c.moderation_status,
+    c.created_at,
+    (SELECT count(*)::INTEGER FROM public.user_courses uc WHERE uc.course_id = c.id),
+    (SELECT count(*)::INTEGER FROM public.user_courses uc WHERE uc.course_id = c.id AND uc.completed),
+    s.rating_average,
+    COALESCE(s.rating_count, 0),
+    (SELECT count(*)::INTEGER FROM public.content_views v WHERE v.course_id = c.id),
+    (SELECT count(DISTINCT v.user_id)::INTEGER FROM public.content_views v WHERE v.course_id = c.id)
+  FROM public.courses c
+  LEFT JOIN public.course_stats s ON s.course_id = c.id
+  WHERE c.uploader_id = auth.uid()
+  ORDER BY c.created_at DESC;
+END;
+$$;
+
+-- Daily enrollments, completions and content views for the last days_back days.
+-- Enrollments count learners who still have the course in their library.
+CREATE OR REPLACE FUNCTION get_course_daily_activity(target_course_id UUID, days_back INTEGER DEFAULT 30)
+RETURNS TABLE (
+  day DATE,
+  enrollments INTEGER,
+  completions INTEGER,
+  views INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_view_course_analytics(target_course_id) THEN
+    RAISE EXCEPTION 'Course analytics require the Pro plan';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::DATE,
+    (SELECT count(*)::INTEGER FROM public.user_courses uc
+      WHERE uc.course_id = target_course_id AND uc.added_at::DATE = d.day::DATE),
+    (SELECT count(*)::INTEGER FROM public.user_courses uc
+      WHERE uc.course_id = target_course_id AND uc.completed AND uc.completed_at::DATE = d.day::DATE),
+    (SELECT count(*)::INTEGER FROM public.content_views v
+      WHERE v.course_id = target_course_id AND v.viewed_on = d.day::DATE)
+  FROM generate_series(
+    current_date - (LEAST(GREATEST(days_back, 1), 365) - 1),
+    current_date,
+    INTERVAL '1 day'
+  ) AS d(day)
+  ORDER BY d.day;
+END;
+$$;
+
+-- Learners at each stage: enrolled, opened the content, halfway through, completed
+CREATE OR REPLACE FUNCTION get_course_funnel(target_course_id UUID)
+RETURNS TABLE (
+  enrolled INTEGER,
+  started INTEGER,
+  halfway INTEGER,
+  completed INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_view_course_analytics(target_course_id) THEN
+    RAISE EXCEPTION 'Course analytics require the Pro plan';
+  END IF;
+
+  RETURN QUERY
+  WITH lesson_total AS (
+    SELECT count(*) AS total FROM public.lessons WHERE course_id = target_course_id
+  ),
+  learners AS (
+    SELECT
+      uc.user_id,
+      COALESCE(uc.completed, false) AS is_completed,
+      (
+        SELECT count(*) FROM public.lesson_progress lp
+        JOIN public.lessons l ON l.id = lp.lesson_id
+        WHERE lp.user_id = uc.user_id AND l.course_id = target_course_id
+      ) AS lessons_done,
+      (
+        SELECT max(mp.watched_percent) FROM public.media_progress mp
+        WHERE mp.user_id = uc.user_id AND mp.course_id = target_course_id AND mp.lesson_id IS NULL
+      ) AS watched_percent,
+      (
+        SELECT max(cardinality(rp.pages_viewed)::NUMERIC / NULLIF(rp.page_count, 0)) FROM public.reading_progress rp
+        WHERE rp.user_id = uc.user_id AND rp.course_id = target_course_id AND rp.lesson_id IS NULL
+      ) AS read_fraction,
+      EXISTS (
+        SELECT 1 FROM public.content_views v
+        WHERE v.user_id = uc.user_id AND v.course_id = target_course_id
+      ) AS viewed
+    FROM public.user_courses uc
+    WHERE uc.course_id = target_course_id
+  ),
+  stages AS (
+    SELECT
+      l.is_completed,
+      l.is_completed OR l.viewed OR l.lessons_done > 0
+        OR l.watched_percent > 0 OR l.read_fraction > 0 AS has_started,
+      l.is_completed
+        OR (t.total > 0 AND l.lessons_done * 2 >= t.total)
+        OR l.watched_percent >= 50
+        OR l.read_fraction >= 0.5 AS is_halfway
+    FROM learners l CROSS JOIN lesson_total t
+  )
+  SELECT
+    count(*)::INTEGER,
+    count(*) FILTER (WHERE s.has_started)::INTEGER,
+    count(*) FILTER (WHERE s.is_halfway)::INTEGER,
+    count(*) FILTER (WHERE s.is_completed)::INTEGER
+  FROM stages s;
+END;
+$$;
+
+-- Per lesson, in outline order: how many learners completed it and opened it
+CREATE OR REPLACE FUNCTION get_lesson_dropoff(target_course_id UUID)
+RETURNS TABLE (
+  lesson_id UUID,
+  lesson_title TEXT,
+  module_title TEXT,
+  lesson_number INTEGER,
+  completions INTEGER,
+  viewers INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_view_course_analytics(target_course_id) THEN
+    RAISE EXCEPTION 'Course analytics require the Pro plan';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.title,
+    m.title,
+    (row_number() OVER (ORDER BY m.position, l.position, l.created_at))::INTEGER,
+    (SELECT count(*)::INTEGER FROM public.lesson_progress lp WHERE lp.lesson_id = l.id),
+    (SELECT count(DISTINCT v.user_id)::INTEGER FROM public.content_views v WHERE v.lesson_id = l.id)
+  FROM public.lessons l
+  JOIN public.course_modules m ON m.id = l.module_id
+  WHERE l.course_id = target_course_id
+  ORDER BY m.position, l.position, l.created_at;
+END;
+$$;
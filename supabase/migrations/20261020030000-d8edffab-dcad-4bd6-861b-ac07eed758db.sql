@@ -0,0 +1,297 @@
+
+-- Learner analytics: a log of learning sessions, daily streaks and a weekly goal.
+-- Days follow the learner's local calendar, using the time zone their browser reports
+-- with each session.
+CREATE TABLE public.learning_goals (
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL PRIMARY KEY,
+  weekly_goal_minutes INTEGER CHECK (weekly_goal_minutes BETWEEN 10 AND 3000),
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  -- Local date of the last streak reminder, so nobody gets more than one a day
+  streak_reminded_on DATE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per stretch of time on a course or lesson; the client picks the id and
+-- reports active time every minute
+CREATE TABLE public.learning_sessions (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons ON DELETE SET NULL,
+  -- Local date the session started on
+  activity_date DATE NOT NULL,
+  active_seconds INTEGER NOT NULL DEFAULT 0 CHECK (active_seconds >= 0),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_learning_sessions_user_date ON public.learning_sessions (user_id, activity_date);
+
+ALTER TABLE public.learning_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Both tables are written by set_weekly_goal and record_learning_time only
+CREATE POLICY "Users can view own learning goals" ON public.learning_goals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own learning sessions" ON public.learning_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Pass NULL to clear the goal
+CREATE OR REPLACE FUNCTION set_weekly_goal(goal_minutes INTEGER)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.learning_goals (user_id, weekly_goal_minutes)
+  VALUES (auth.uid(), goal_minutes)
+  ON CONFLICT (user_id) DO UPDATE
+  SET weekly_goal_minutes = EXCLUDED.weekly_goal_minutes, updated_at = now();
+$$;
+
+-- Adds active seconds to a session, starting it on the first call. Each call is credited
+-- with at most the time since the previous one, so a client cannot inflate its totals.
+CREATE OR REPLACE FUNCTION record_learning_time(
+  session_uuid UUID,
+  target_course_id UUID,
+  elapsed_seconds INTEGER,
+  client_time_zone TEXT,
+  target_lesson_id UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  zone TEXT := 'UTC';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_courses uc
+    WHERE uc.user_id = auth.uid() AND uc.course_id = target_course_id
+  ) THEN
+    RAISE EXCEPTION 'Only courses in your library count towards learning time';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = client_time_zone) THEN
+    zone := client_time_zone;
+  END IF;
+
+  INSERT INTO public.learning_goals AS g (user_id, time_zone)
+  VALUES (auth.uid(), zone)
+  ON CONFLICT (user_id) DO UPDATE
+  SET time_zone = EXCLUDED.time_zone, updated_at = now()
+  WHERE g.time_zone IS DISTINCT FROM EXCLUDED.time_zone;
+
+  INSERT INTO public.learning_sessions AS s
+    (id, user_id, course_id, lesson_id, activity_date, active_seconds)
+  VALUES (
+    session_uuid,
+    auth.uid(),
+    target_course_id,
+    target_lesson_id,
+    (now() AT TIME ZONE zone)::DATE,
+    LEAST(GREATEST(elapsed_seconds, 0), 120)
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    active_seconds = s.active_seconds + LEAST(
+      EXCLUDED.active_seconds,
+      GREATEST(ceil(extract(epoch FROM now() - s.last_active_at))::INTEGER, 0) + 5
+    ),
+    last_active_at = now()
+  WHERE s.user_id = auth.uid();
+END;
+$$;
+
+-- Every day the user learned on: time spent in sessions and lessons finished, by local date
+CREATE OR REPLACE FUNCTION learning_days(user_uuid UUID)
+RETURNS TABLE (day DATE, seconds INTEGER, sessions INTEGER, lessons_completed INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT COALESCE((SELECT g.time_zone FROM public.learning_goals g WHERE g.user_id = user_uuid), 'UTC') AS zone
+  ),
+  time_spent AS (
+    SELECT s.activity_date AS day, sum(s.active_seconds)::INTEGER AS seconds, count(*)::INTEGER AS sessions
+    FROM public.learning_sessions s
+    WHERE s.user_id = user_uuid AND s.active_seconds > 0
+    GROUP BY s.activity_date
+  ),
+  lessons AS (
+    SELECT (lp.completed_at AT TIME ZONE st.zone)::DATE AS day, count(*)::INTEGER AS lessons_completed
+    FROM public.lesson_progress lp CROSS JOIN settings st
+    WHERE lp.user_id = user_uuid
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(t.day, l.day),
+    COALESCE(t.seconds, 0),
+    COALESCE(t.sessions, 0),
+    COALESCE(l.lessons_completed, 0)
+  FROM time_spent t
+  FULL JOIN lessons l ON l.day = t.day;
+$$;
+
+-- Runs of consecutive learning days
+CREATE OR REPLACE FUNCTION learning_streaks(user_uuid UUID)
+RETURNS TABLE (first_day DATE, last_day DATE, length INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT min(d.day), max(d.day), count(*)::INTEGER
+  FROM (
+    SELECT ld.day, ld.day - (row_number() OVER (ORDER BY ld.day))::INTEGER AS run
+    FROM learning_days(user_uuid) ld
+  ) d
+  GROUP BY d.run;
+$$;
+
+CREATE OR REPLACE FUNCTION learner_today(user_uuid UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT g.time_zone FROM public.learning_goals g WHERE g.user_id = user_uuid),
+    'UTC'
+  ))::DATE;
+$$;
+
+-- Used by the functions below only; clients could otherwise read anyone's activity
+REVOKE EXECUTE ON FUNCTION learning_days(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION learning_streaks(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION learner_today(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The caller's streaks and progress towards this week's goal. A streak that ended
+-- yesterday is still current until today is over. Weeks start on Monday.
+CREATE OR REPLACE FUNCTION get_learning_summary()
+RETURNS TABLE (
+  current_streak INTEGER,
+  longest_streak INTEGER,
+  active_today BOOLEAN,
+  week_seconds INTEGER,
+  week_lessons INTEGER,
+  weekly_goal_minutes INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH today AS (
+    SELECT learner_today(auth.uid()) AS day
+  ),
+  days AS (
+    SELECT * FROM learning_days(auth.uid())
+  ),
+  streaks AS (
+    SELECT * FROM learning_streaks(auth.uid())
+  )
+  SELECT
+    COALESCE((SELECT s.length FROM streaks s, today t WHERE s.last_day >= t.day - 1), 0),
+    COALESCE((SELECT max(s.length) FROM streaks s), 0),
+    EXISTS (SELECT 1 FROM days d, today t WHERE d.day = t.day),
+    COALESCE((SELECT sum(d.seconds)::INTEGER FROM days d, today t WHERE d.day >= date_trunc('week', t.day)::DATE), 0),
+    COALESCE((SELECT sum(d.lessons_completed)::INTEGER FROM days d, today t WHERE d.day >= date_trunc('week', t.day)::DATE), 0),
+    (SELECT g.weekly_goal_minutes FROM public.learning_goals g WHERE g.user_id = auth.uid());
+$$;
+
+-- The caller's activity for each of the last days_back days, for the heatmap and charts
+CREATE OR REPLACE FUNCTION get_learning_activity(days_back INTEGER DEFAULT 365)
+RETURNS TABLE (
+  day DATE,
+  seconds INTEGER,
+  sessions INTEGER,
+  lessons_completed INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := learner_today(auth.uid());
+BEGIN
+  IF NOT has_capability('advanced_progress_analytics') THEN
+    RAISE EXCEPTION 'Learning analytics require the Premium plan';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::DATE,
+    COALESCE(ld.seconds, 0),
+    COALESCE(ld.sessions, 0),
+    COALESCE(ld.lessons_completed, 0)
+  FROM generate_series(
+    today - (LEAST(GREATEST(days_back, 1), 371) - 1),
+    today,
+    INTERVAL '1 day'
+  ) AS d(day)
+  LEFT JOIN learning_days(auth.uid()) ld ON ld.day = d.day::DATE
+  ORDER BY d.day;
+END;
+$$;
+
+-- Streak reminders are a notification type of their own so learners can turn them off
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('discussion_reply', 'course_moderation', 'course_review', 'course_updated', 'streak_reminder'));
+
+ALTER TABLE public.notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN ('discussion_reply', 'course_moderation', 'course_review', 'course_updated', 'streak_reminder'));
+
+-- From 6pm local time, reminds learners whose streak of two or more days ends yesterday.
+-- Returns how many were reminded.
+CREATE OR REPLACE FUNCTION send_streak_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  learner RECORD;
+  streak_length INTEGER;
+  reminded INTEGER := 0;
+BEGIN
+  FOR learner IN
+    SELECT g.user_id, (now() AT TIME ZONE g.time_zone)::DATE AS today
+    FROM public.learning_goals g
+    WHERE extract(hour FROM now() AT TIME ZONE g.time_zone) >= 18
+      AND g.streak_reminded_on IS DISTINCT FROM (now() AT TIME ZONE g.time_zone)::DATE
+  LOOP
+    SELECT s.length INTO streak_length
+    FROM learning_streaks(learner.user_id) s
+    WHERE s.last_day = learner.today - 1;
+
+    IF streak_length >= 2 THEN
+      PERFORM notify_user(
+        learner.user_id,
+        'streak_reminder',
+        'Keep your ' || streak_length || '-day streak going',
+        'Learn something today so your streak does not reset at midnight.',
+        '/library'
+      );
+      UPDATE public.learning_goals SET streak_reminded_on = learner.today WHERE user_id = learner.user_id;
+      reminded := reminded + 1;
+    END IF;
+  END LOOP;
+
+  RETURN reminded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_streak_reminders() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('send-streak-reminders', '0 * * * *', 'SELECT public.send_streak_reminders()');
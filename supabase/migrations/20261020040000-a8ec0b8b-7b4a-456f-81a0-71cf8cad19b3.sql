@@ -0,0 +1,216 @@
+
+-- Categories return as a two-level taxonomy (category → subcategory) managed by admins.
+-- A course points at the most specific category that fits it.
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  parent_id UUID REFERENCES public.categories ON DELETE RESTRICT,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  -- Used in /browse/:categorySlug
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (parent_id, name)
+);
+
+CREATE INDEX idx_categories_parent ON public.categories (parent_id);
+
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.categories ON DELETE SET NULL;
+
+CREATE INDEX idx_courses_category ON public.courses (category_id) WHERE category_id IS NOT NULL;
+
+INSERT INTO public.role_capabilities (role, capability) VALUES
+  ('admin', 'manage_categories');
+
+-- Keeps the taxonomy two levels deep
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    IF NEW.parent_id = NEW.id THEN
+      RAISE EXCEPTION 'A category cannot be its own parent';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.categories WHERE id = NEW.parent_id AND parent_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'Subcategories cannot have subcategories of their own';
+    END IF;
+    IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM public.categories WHERE parent_id = NEW.id) THEN
+      RAISE EXCEPTION 'A category with subcategories cannot become a subcategory';
+    END IF;
+  END IF;
+
+  NEW.slug := lower(btrim(NEW.slug));
+  NEW.name := btrim(NEW.name);
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_categories_parent
+  BEFORE INSERT OR UPDATE ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories" ON public.categories
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can create categories" ON public.categories
+  FOR INSERT WITH CHECK (has_capability('manage_categories'));
+
+CREATE POLICY "Admins can update categories" ON public.categories
+  FOR UPDATE USING (has_capability('manage_categories'));
+
+CREATE POLICY "Admins can delete categories" ON public.categories
+  FOR DELETE USING (has_capability('manage_categories'));
+
+-- The categories the original schema shipped with
+INSERT INTO public.categories (name, slug, description) VALUES
+  ('Web Development', 'web-development', 'HTML, CSS, JavaScript, React, and more'),
+  ('Data Structures & Algorithms', 'data-structures-algorithms', 'DSA concepts and problem solving'),
+  ('Artificial Intelligence', 'artificial-intelligence', 'AI, ML, and related technologies'),
+  ('Mobile Development', 'mobile-development', 'iOS, Android, and cross-platform development'),
+  ('Database Systems', 'database-systems', 'SQL, NoSQL, and database design'),
+  ('Computer Networks', 'computer-networks', 'Networking protocols and concepts');
+
+-- search_courses gains a category filter and the category for the Browse cards.
+-- Filtering by a category includes the courses in its subcategories.
+DROP FUNCTION IF EXISTS search_courses(TEXT, TEXT, TEXT, TEXT, INTEGER, REAL, TIMESTAMP WITH TIME ZONE, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION search_courses(
+  search_text TEXT DEFAULT NULL,
+  difficulty_filter TEXT DEFAULT NULL,
+  content_type_filter TEXT DEFAULT NULL,
+  category_filter UUID DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INTEGER DEFAULT 24,
+  cursor_rank REAL DEFAULT NULL,
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_title TEXT DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  content_type TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  uploader_email TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  enrollment_count INTEGER,
+  category_id UUID,
+  category_name TEXT,
+  category_slug TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT
+      build_prefix_tsquery(search_text) AS q,
+      -- Relevance means nothing without a search term, fall back to newest first
+      CASE
+        WHEN sort_by IN ('newest', 'oldest', 'title') THEN sort_by
+        WHEN build_prefix_tsquery(search_text) IS NULL THEN 'newest'
+        ELSE 'relevance'
+      END AS sort_key
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      query.q,
+      query.sort_key,
+      CASE WHEN query.q IS NULL THEN 0 ELSE ts_rank_cd(c.search_vector, query.q) END::REAL AS match_rank
+    FROM public.courses c
+    CROSS JOIN query
+    WHERE c.is_approved = true
+      AND (query.q IS NULL OR c.search_vector @@ query.q)
+      AND (difficulty_filter IS NULL OR c.difficulty = difficulty_filter)
+      AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+      AND (category_filter IS NULL OR c.category_id IN (
+        SELECT cat.id FROM public.categories cat
+        WHERE cat.id = category_filter OR cat.parent_id = category_filter
+      ))
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.content_type,
+    m.access_type,
+    m.difficulty,
+    m.tags,
+    m.image_url,
+    m.created_at,
+    m.uploader_email,
+    p.full_name AS uploader_name,
+    m.match_rank AS rank,
+    CASE WHEN m.q IS NULL THEN m.title
+      ELSE ts_headline('english', m.title, m.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN m.q IS NULL THEN m.description
+      ELSE ts_headline('english', COALESCE(m.description, ''), m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')
+    END AS description_snippet,
+    s.rating_average,
+    COALESCE(s.rating_count, 0) AS rating_count,
+    COALESCE(s.enrollment_count, 0) AS enrollment_count,
+    m.category_id,
+    cat.name AS category_name,
+    cat.slug AS category_slug
+  FROM matches m
+  LEFT JOIN public.profiles p ON p.user_id = m.uploader_id
+  LEFT JOIN public.course_stats s ON s.course_id = m.id
+  LEFT JOIN public.categories cat ON cat.id = m.category_id
+  WHERE cursor_id IS NULL OR CASE m.sort_key
+    WHEN 'newest' THEN (m.created_at, m.id) < (cursor_created_at, cursor_id)
+    WHEN 'oldest' THEN (m.created_at, m.id) > (cursor_created_at, cursor_id)
+    WHEN 'title' THEN (lower(m.title), m.id) > (lower(cursor_title), cursor_id)
+    ELSE (m.match_rank, m.id) < (cursor_rank, cursor_id)
+  END
+  ORDER BY
+    CASE WHEN m.sort_key = 'relevance' THEN m.match_rank END DESC,
+    CASE WHEN m.sort_key = 'newest' THEN m.created_at END DESC,
+    CASE WHEN m.sort_key = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN m.sort_key = 'title' THEN lower(m.title) END ASC,
+    CASE WHEN m.sort_key IN ('relevance', 'newest') THEN m.id END DESC,
+    CASE WHEN m.sort_key IN ('oldest', 'title') THEN m.id END ASC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- Browse facet: how many listed courses matching the other filters each category holds.
+-- A category's count includes its subcategories; empty categories are left out.
+CREATE OR REPLACE FUNCTION get_category_counts(
+  search_text TEXT DEFAULT NULL,
+  difficulty_filter TEXT DEFAULT NULL,
+  content_type_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (category_id UUID, course_count INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT build_prefix_tsquery(search_text) AS q
+  )
+  SELECT counted.id, count(*)::INTEGER
+  FROM public.courses c
+  CROSS JOIN query
+  JOIN public.categories cat ON cat.id = c.category_id
+  CROSS JOIN LATERAL (VALUES (cat.id), (cat.parent_id)) AS counted(id)
+  WHERE c.is_approved = true
+    AND counted.id IS NOT NULL
+    AND (query.q IS NULL OR c.search_vector @@ query.q)
+    AND (difficulty_filter IS NULL OR c.difficulty = difficulty_filter)
+    AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+  GROUP BY counted.id;
+$$;
@@ -0,0 +1,457 @@
+
+-- Learning paths: ordered sequences of existing courses that form a curriculum.
+-- Anyone signed in can author one; admins can edit or remove any path.
+CREATE TABLE public.learning_paths (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  author_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (length(btrim(title)) > 0),
+  description TEXT,
+  is_published BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_learning_paths_author ON public.learning_paths (author_id);
+
+-- The courses of a path in order. A step may name earlier steps of the same path as
+-- prerequisites; set_learning_path_courses is the only writer and keeps that true.
+CREATE TABLE public.learning_path_courses (
+  path_id UUID REFERENCES public.learning_paths ON DELETE CASCADE NOT NULL,
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  prerequisite_course_ids UUID[] NOT NULL DEFAULT '{}',
+  PRIMARY KEY (path_id, course_id),
+  UNIQUE (path_id, position)
+);
+
+CREATE INDEX idx_learning_path_courses_course ON public.learning_path_courses (course_id);
+
+-- Learners following a path; completed_at is the path badge
+CREATE TABLE public.learning_path_enrollments (
+  path_id UUID REFERENCES public.learning_paths ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (path_id, user_id)
+);
+
+CREATE INDEX idx_learning_path_enrollments_user ON public.learning_path_enrollments (user_id);
+
+INSERT INTO public.role_capabilities (role, capability) VALUES
+  ('admin', 'manage_learning_paths');
+
+-- Whether the caller can see a path: published ones, their own drafts, and everything for admins
+CREATE OR REPLACE FUNCTION can_view_learning_path(path_uuid UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.learning_paths p
+    WHERE p.id = path_uuid
+      AND (p.is_published OR p.author_id = auth.uid() OR has_capability('manage_learning_paths'))
+  );
+$$;
+
+ALTER TABLE public.learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_path_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_path_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view published learning paths" ON public.learning_paths
+  FOR SELECT USING (is_published OR auth.uid() = author_id OR has_capability('manage_learning_paths'));
+
+CREATE POLICY "Users can create learning paths" ON public.learning_paths
+  FOR INSERT WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Authors and admins can update learning paths" ON public.learning_paths
+  FOR UPDATE USING (auth.uid() = author_id OR has_capability('manage_learning_paths'));
+
+CREATE POLICY "Authors and admins can delete learning paths" ON public.learning_paths
+  FOR DELETE USING (auth.uid() = author_id OR has_capability('manage_learning_paths'));
+
+CREATE POLICY "Anyone can view the courses of visible learning paths" ON public.learning_path_courses
+  FOR SELECT USING (can_view_learning_path(path_id));
+
+-- Enrolling goes through enroll_learning_path; leaving keeps the courses in the library
+CREATE POLICY "Users can view own path enrollments" ON public.learning_path_enrollments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can leave learning paths" ON public.learning_path_enrollments
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The author and creation time never change
+CREATE OR REPLACE FUNCTION guard_learning_path_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.author_id := OLD.author_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_learning_paths_guard
+  BEFORE UPDATE ON public.learning_paths
+  FOR EACH ROW EXECUTE FUNCTION guard_learning_path_update();
+
+-- Path certificates live next to course certificates; course_title holds the path title
+ALTER TABLE public.certificates
+ADD COLUMN IF NOT EXISTS learning_path_id UUID REFERENCES public.learning_paths ON DELETE SET NULL;
+
+ALTER TABLE public.certificates
+ADD CONSTRAINT certificates_user_id_learning_path_id_key UNIQUE (user_id, learning_path_id);
+
+-- Issues the certificate for a completed path, if the user's plan includes certificates
+CREATE OR REPLACE FUNCTION issue_learning_path_certificate(user_uuid UUID, path_uuid UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.certificates (user_id, learning_path_id, recipient_name, course_title, uploader_name, completed_at)
+  SELECT
+    e.user_id,
+    lp.id,
+    COALESCE(NULLIF(btrim(p.full_name), ''), u.email),
+    lp.title,
+    NULLIF(btrim(ap.full_name), ''),
+    e.completed_at
+  FROM public.learning_path_enrollments e
+  JOIN public.learning_paths lp ON lp.id = e.path_id
+  JOIN auth.users u ON u.id = e.user_id
+  LEFT JOIN public.profiles p ON p.user_id = e.user_id
+  LEFT JOIN public.profiles ap ON ap.user_id = lp.author_id
+  WHERE e.user_id = user_uuid
+    AND e.path_id = path_uuid
+    AND e.completed_at IS NOT NULL
+    AND has_capability('certificates', user_uuid)
+  ON CONFLICT (user_id, learning_path_id) DO NOTHING;
+$$;
+
+-- Marks a learner's paths (one, or all they follow) complete once every listed course in
+-- them is complete, and issues the path certificates. A completed path stays completed
+-- when courses are added to it later.
+CREATE OR REPLACE FUNCTION complete_learning_paths(user_uuid UUID, path_uuid UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  finished RECORD;
+BEGIN
+  FOR finished IN
+    UPDATE public.learning_path_enrollments e
+    SET completed_at = now()
+    WHERE e.user_id = user_uuid
+      AND e.completed_at IS NULL
+      AND (path_uuid IS NULL OR e.path_id = path_uuid)
+      AND EXISTS (
+        SELECT 1 FROM public.learning_path_courses lpc
+        JOIN public.courses c ON c.id = lpc.course_id
+        WHERE lpc.path_id = e.path_id AND c.is_approved = true
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.learning_path_courses lpc
+        JOIN public.courses c ON c.id = lpc.course_id
+        LEFT JOIN public.user_courses uc ON uc.user_id = e.user_id AND uc.course_id = lpc.course_id
+        WHERE lpc.path_id = e.path_id
+          AND c.is_approved = true
+          AND COALESCE(uc.completed, false) = false
+      )
+    RETURNING e.path_id
+  LOOP
+    PERFORM issue_learning_path_certificate(user_uuid, finished.path_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_learning_paths(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION trigger_complete_learning_paths()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM complete_learning_paths(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_user_courses_learning_paths
+  AFTER INSERT OR UPDATE OF completed ON public.user_courses
+  FOR EACH ROW
+  WHEN (NEW.completed = TRUE)
+  EXECUTE FUNCTION trigger_complete_learning_paths();
+
+-- Replaces the courses of a path. steps is an ordered JSON array of
+-- { "course_id": UUID, "prerequisite_course_ids": [UUID, ...] }; prerequisites must be
+-- earlier steps. Only listed public and premium courses can be part of a path.
+CREATE OR REPLACE FUNCTION set_learning_path_courses(target_path_id UUID, steps JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  step RECORD;
+  earlier UUID[] := '{}';
+  learner RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.learning_paths
+    WHERE id = target_path_id AND (author_id = auth.uid() OR has_capability('manage_learning_paths'))
+  ) THEN
+    RAISE EXCEPTION 'Only the author or an admin can change this learning path';
+  END IF;
+
+  IF jsonb_typeof(steps) <> 'array' THEN
+    RAISE EXCEPTION 'Steps must be a list';
+  END IF;
+
+  IF jsonb_array_length(steps) > 50 THEN
+    RAISE EXCEPTION 'A learning path can have at most 50 courses';
+  END IF;
+
+  DELETE FROM public.learning_path_courses WHERE path_id = target_path_id;
+
+  FOR step IN
+    SELECT
+      (s.value->>'course_id')::UUID AS course_id,
+      ARRAY(
+        SELECT DISTINCT p::UUID
+        FROM jsonb_array_elements_text(COALESCE(s.value->'prerequisite_course_ids', '[]')) p
+      ) AS prerequisite_course_ids,
+      (s.ordinality - 1)::INTEGER AS position
+    FROM jsonb_array_elements(steps) WITH ORDINALITY s
+    ORDER BY s.ordinality
+  LOOP
+    IF step.course_id = ANY(earlier) THEN
+      RAISE EXCEPTION 'A course can only appear once in a learning path';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.courses
+      WHERE id = step.course_id AND is_approved = true AND access_type IN ('public', 'premium')
+    ) THEN
+      RAISE EXCEPTION 'Only listed public and premium courses can be added to a learning path';
+    END IF;
+
+    IF NOT step.prerequisite_course_ids <@ earlier THEN
+      RAISE EXCEPTION 'Prerequisites must come earlier in the learning path';
+    END IF;
+
+    INSERT INTO public.learning_path_courses (path_id, course_id, position, prerequisite_course_ids)
+    VALUES (target_path_id, step.course_id, step.position, step.prerequisite_course_ids);
+
+    earlier := earlier || step.course_id;
+  END LOOP;
+
+  UPDATE public.learning_paths SET updated_at = now() WHERE id = target_path_id;
+
+  -- Removing the courses a learner still had left finishes the path for them
+  FOR learner IN
+    SELECT user_id FROM public.learning_path_enrollments
+    WHERE path_id = target_path_id AND completed_at IS NULL
+  LOOP
+    PERFORM complete_learning_paths(learner.user_id, target_path_id);
+  END LOOP;
+END;
+$$;
+
+-- Enrolls the caller in a path and adds every path course they can open to their library.
+-- Returns how many courses were added.
+CREATE OR REPLACE FUNCTION enroll_learning_path(target_path_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  added INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to follow a learning path';
+  END IF;
+
+  IF NOT can_view_learning_path(target_path_id) THEN
+    RAISE EXCEPTION 'Learning path not found';
+  END IF;
+
+  INSERT INTO public.learning_path_enrollments (path_id, user_id)
+  VALUES (target_path_id, auth.uid())
+  ON CONFLICT (path_id, user_id) DO NOTHING;
+
+  INSERT INTO public.user_courses (user_id, course_id)
+  SELECT auth.uid(), c.id
+  FROM public.learning_path_courses lpc
+  JOIN public.courses c ON c.id = lpc.course_id
+  WHERE lpc.path_id = target_path_id
+    AND c.is_approved = true
+    AND (c.access_type = 'public' OR (c.access_type = 'premium' AND has_capability('view_premium_courses')))
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+
+  GET DIAGNOSTICS added = ROW_COUNT;
+
+  -- Learners who already finished every course get the badge straight away
+  PERFORM complete_learning_paths(auth.uid(), target_path_id);
+
+  RETURN added;
+END;
+$$;
+
+-- Visible paths with their author, size and the caller's progress. Pass a path to get
+-- only that one, or enrolled_only for the paths the caller follows.
+CREATE OR REPLACE FUNCTION get_learning_paths(target_path_id UUID DEFAULT NULL, enrolled_only BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  author_id UUID,
+  author_name TEXT,
+  is_published BOOLEAN,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  course_count INTEGER,
+  learner_count INTEGER,
+  enrolled BOOLEAN,
+  completed_count INTEGER,
+  completed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    lp.id,
+    lp.title,
+    lp.description,
+    lp.author_id,
+    ap.full_name,
+    lp.is_published,
+    lp.updated_at,
+    COALESCE(courses.total, 0),
+    (SELECT count(*)::INTEGER FROM public.learning_path_enrollments e WHERE e.path_id = lp.id),
+    me.user_id IS NOT NULL,
+    COALESCE(courses.completed, 0),
+    me.completed_at
+  FROM public.learning_paths lp
+  LEFT JOIN public.profiles ap ON ap.user_id = lp.author_id
+  LEFT JOIN public.learning_path_enrollments me ON me.path_id = lp.id AND me.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*)::INTEGER AS total,
+      count(*) FILTER (WHERE uc.completed)::INTEGER AS completed
+    FROM public.learning_path_courses lpc
+    JOIN public.courses c ON c.id = lpc.course_id
+    LEFT JOIN public.user_courses uc ON uc.user_id = auth.uid() AND uc.course_id = lpc.course_id
+    WHERE lpc.path_id = lp.id AND c.is_approved = true
+  ) courses ON true
+  WHERE (lp.is_published OR lp.author_id = auth.uid() OR has_capability('manage_learning_paths'))
+    AND (target_path_id IS NULL OR lp.id = target_path_id)
+    AND (NOT enrolled_only OR me.user_id IS NOT NULL)
+  ORDER BY me.completed_at IS NOT NULL, lp.updated_at DESC;
+$$;
+
+-- The listed courses of a path in order, with the caller's library status for each
+CREATE OR REPLACE FUNCTION get_learning_path_courses(target_path_id UUID)
+RETURNS TABLE (
+  course_id UUID,
+  position INTEGER,
+  prerequisite_course_ids UUID[],
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  content_type TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  in_library BOOLEAN,
+  completed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    lpc.position,
+    lpc.prerequisite_course_ids,
+    c.title,
+    c.description,
+    c.image_url,
+    c.content_type,
+    c.access_type,
+    c.difficulty,
+    uc.id IS NOT NULL,
+    COALESCE(uc.completed, false)
+  FROM public.learning_path_courses lpc
+  JOIN public.courses c ON c.id = lpc.course_id
+  LEFT JOIN public.user_courses uc ON uc.user_id = auth.uid() AND uc.course_id = c.id
+  WHERE lpc.path_id = target_path_id
+    AND c.is_approved = true
+    AND can_view_learning_path(target_path_id)
+  ORDER BY lpc.position;
+$$;
+
+-- claim_certificates also covers paths completed before the user's plan included certificates
+CREATE OR REPLACE FUNCTION claim_certificates()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  before_count INTEGER;
+  after_count INTEGER;
+  course RECORD;
+  path RECORD;
+BEGIN
+  SELECT COUNT(*) INTO before_count FROM public.certificates WHERE user_id = auth.uid();
+
+  FOR course IN
+    SELECT uc.course_id FROM public.user_courses uc
+    WHERE uc.user_id = auth.uid() AND uc.completed = TRUE
+  LOOP
+    PERFORM issue_certificate(auth.uid(), course.course_id);
+  END LOOP;
+
+  FOR path IN
+    SELECT e.path_id FROM public.learning_path_enrollments e
+    WHERE e.user_id = auth.uid() AND e.completed_at IS NOT NULL
+  LOOP
+    PERFORM issue_learning_path_certificate(auth.uid(), path.path_id);
+  END LOOP;
+
+  SELECT COUNT(*) INTO after_count FROM public.certificates WHERE user_id = auth.uid();
+  RETURN after_count - before_count;
+END;
+$$;
+
+-- The verification page links path certificates to their path
+DROP FUNCTION IF EXISTS verify_certificate(UUID);
+
+CREATE OR REPLACE FUNCTION verify_certificate(certificate_id UUID)
+RETURNS TABLE (
+  id UUID,
+  course_id UUID,
+  learning_path_id UUID,
+  recipient_name TEXT,
+  course_title TEXT,
+  uploader_name TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  issued_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.course_id, c.learning_path_id, c.recipient_name, c.course_title, c.uploader_name, c.completed_at, c.issued_at
+  FROM public.certificates c
+  WHERE c.id = certificate_id;
+$$;
@@ -0,0 +1,189 @@
+
+-- Courses a learner should finish before starting another. The uploader picks them in
+-- the course editor and chooses the gating: 'soft' only warns, 'hard' keeps the course
+-- out of the learner's library until every prerequisite is complete.
+CREATE TABLE public.course_prerequisites (
+  course_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  prerequisite_id UUID REFERENCES public.courses ON DELETE CASCADE NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (course_id, prerequisite_id),
+  CHECK (course_id <> prerequisite_id)
+);
+
+CREATE INDEX idx_course_prerequisites_prerequisite ON public.course_prerequisites (prerequisite_id);
+
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS prerequisite_gating TEXT NOT NULL DEFAULT 'soft'
+  CHECK (prerequisite_gating IN ('soft', 'hard'));
+
+ALTER TABLE public.course_prerequisites ENABLE ROW LEVEL SECURITY;
+
+-- Written by set_course_prerequisites only
+CREATE POLICY "Anyone can view course prerequisites" ON public.course_prerequisites
+  FOR SELECT USING (true);
+
+-- Whether a user has completed every listed prerequisite of a course
+CREATE OR REPLACE FUNCTION prerequisites_met(course_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.course_prerequisites cp
+    JOIN public.courses c ON c.id = cp.prerequisite_id
+    LEFT JOIN public.user_courses uc ON uc.user_id = user_uuid AND uc.course_id = cp.prerequisite_id
+    WHERE cp.course_id = course_uuid
+      AND c.is_approved = true
+      AND COALESCE(uc.completed, false) = false
+  );
+$$;
+
+-- Hard-gated courses can only be added once their prerequisites are complete; the
+-- uploader can always add their own course
+CREATE OR REPLACE FUNCTION can_add_course_to_library(course_uuid UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT c.prerequisite_gating = 'soft' OR c.uploader_id = auth.uid() FROM public.courses c WHERE c.id = course_uuid),
+    true
+  ) OR prerequisites_met(course_uuid);
+$$;
+
+-- Organization assignments still enroll learners directly; they run as the definer
+DROP POLICY IF EXISTS "Users can enroll in courses" ON public.user_courses;
+CREATE POLICY "Users can enroll in courses" ON public.user_courses
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND can_add_course_to_library(course_id));
+
+-- Replaces the prerequisites of a course, in the given order. Only listed public and
+-- premium courses qualify, and a prerequisite may not lead back to the course itself.
+CREATE OR REPLACE FUNCTION set_course_prerequisites(target_course_id UUID, prerequisite_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.courses WHERE id = target_course_id AND uploader_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the uploader can change the prerequisites of a course';
+  END IF;
+
+  IF cardinality(prerequisite_ids) > 10 THEN
+    RAISE EXCEPTION 'A course can have at most 10 prerequisites';
+  END IF;
+
+  IF target_course_id = ANY(prerequisite_ids) THEN
+    RAISE EXCEPTION 'A course cannot be its own prerequisite';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(prerequisite_ids) p(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.courses c
+      WHERE c.id = p.id AND c.is_approved = true AND c.access_type IN ('public', 'premium')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only listed public and premium courses can be prerequisites';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE required(id) AS (
+      SELECT unnest(prerequisite_ids)
+      UNION
+      SELECT cp.prerequisite_id
+      FROM public.course_prerequisites cp
+      JOIN required r ON cp.course_id = r.id
+    )
+    SELECT 1 FROM required WHERE id = target_course_id
+  ) THEN
+    RAISE EXCEPTION 'These prerequisites would require this course before itself';
+  END IF;
+
+  DELETE FROM public.course_prerequisites WHERE course_id = target_course_id;
+
+  INSERT INTO public.course_prerequisites (course_id, prerequisite_id, position)
+  SELECT target_course_id, p.id, min(p.ordinality)::INTEGER - 1
+  FROM unnest(prerequisite_ids) WITH ORDINALITY p(id, ordinality)
+  GROUP BY p.id;
+END;
+$$;
+
+-- The listed prerequisites of a course with the caller's library status for each
+CREATE OR REPLACE FUNCTION get_course_prerequisites(target_course_id UUID)
+RETURNS TABLE (
+  course_id UUID,
+  title TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  in_library BOOLEAN,
+  completed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.title,
+    c.access_type,
+    c.difficulty,
+    uc.id IS NOT NULL,
+    COALESCE(uc.completed, false)
+  FROM public.course_prerequisites cp
+  JOIN public.courses c ON c.id = cp.prerequisite_id
+  LEFT JOIN public.user_courses uc ON uc.user_id = auth.uid() AND uc.course_id = c.id
+  WHERE cp.course_id = target_course_id
+    AND c.is_approved = true
+  ORDER BY cp.position;
+$$;
+
+-- Following a learning path skips hard-gated courses until their prerequisites are done;
+-- enrolling again later adds them
+CREATE OR REPLACE FUNCTION enroll_learning_path(target_path_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  added INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to follow a learning path';
+  END IF;
+
+  IF NOT can_view_learning_path(target_path_id) THEN
+    RAISE EXCEPTION 'Learning path not found';
+  END IF;
+
+  INSERT INTO public.learning_path_enrollments (path_id, user_id)
+  VALUES (target_path_id, auth.uid())
+  ON CONFLICT (path_id, user_id) DO NOTHING;
+
+  INSERT INTO public.user_courses (user_id, course_id)
+  SELECT auth.uid(), c.id
+  FROM public.learning_path_courses lpc
+  JOIN public.courses c ON c.id = lpc.course_id
+  WHERE lpc.path_id = target_path_id
+    AND c.is_approved = true
+    AND (c.access_type = 'public' OR (c.access_type = 'premium' AND has_capability('view_premium_courses')))
+    AND can_add_course_to_library(c.id)
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+
+  GET DIAGNOSTICS added = ROW_COUNT;
+
+  -- Learners who already finished every course get the badge straight away
+  PERFORM complete_learning_paths(auth.uid(), target_path_id);
+
+  RETURN added;
+END;
+$$;
@@ -0,0 +1,123 @@
+
+-- Module and lesson edits are content edits too. The outline trigger below asks for a
+-- review again by setting the course back to 'pending', which uploaders may always do.
+CREATE OR REPLACE FUNCTION apply_course_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR has_capability('moderate_courses') THEN
+    IF TG_OP = 'UPDATE' AND NEW.moderation_status IS DISTINCT FROM OLD.moderation_status THEN
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.moderation_status := CASE WHEN moderation_enabled() THEN 'pending' ELSE 'approved' END;
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSIF moderation_enabled() AND (
+    NEW.moderation_status = 'pending' OR
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.content_type IS DISTINCT FROM OLD.content_type OR
+    NEW.content_url IS DISTINCT FROM OLD.content_url OR
+    NEW.content_path IS DISTINCT FROM OLD.content_path OR
+    NEW.content_text IS DISTINCT FROM OLD.content_text OR
+    NEW.image_url IS DISTINCT FROM OLD.image_url OR
+    NEW.access_type IS DISTINCT FROM OLD.access_type OR
+    NEW.tags IS DISTINCT FROM OLD.tags
+  ) THEN
+    NEW.moderation_status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSE
+    NEW.moderation_status := OLD.moderation_status;
+    NEW.rejection_reason := OLD.rejection_reason;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  NEW.is_approved := NEW.moderation_status = 'approved';
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- With moderation on, an outline edit sends an approved course back to the queue and
+-- learners hear about it once it is approved again. With moderation off they are told
+-- right away, once per unread notification rather than once per edited lesson.
+CREATE OR REPLACE FUNCTION apply_outline_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_course_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_course_id := OLD.course_id;
+  ELSE
+    target_course_id := NEW.course_id;
+  END IF;
+
+  IF auth.uid() IS NULL OR has_capability('moderate_courses') THEN
+    RETURN NULL;
+  END IF;
+
+  IF moderation_enabled() THEN
+    UPDATE public.courses
+    SET moderation_status = 'pending'
+    WHERE id = target_course_id AND moderation_status = 'approved';
+  ELSE
+    PERFORM notify_user(
+      uc.user_id,
+      'course_updated',
+      '"' || c.title || '" was updated',
+      'A course in your library has new or changed content.',
+      '/learn/' || c.id
+    )
+    FROM public.user_courses uc
+    JOIN public.courses c ON c.id = uc.course_id
+    WHERE uc.course_id = target_course_id
+      AND uc.user_id <> c.uploader_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.user_id = uc.user_id
+          AND n.type = 'course_updated'
+          AND n.link = '/learn/' || c.id
+          AND n.read_at IS NULL
+      );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_course_modules_moderation
+  AFTER INSERT OR DELETE ON public.course_modules
+  FOR EACH ROW EXECUTE FUNCTION apply_outline_moderation();
+
+-- Reordering is not a content change, so only these columns count
+CREATE TRIGGER trigger_course_modules_moderation_update
+  AFTER UPDATE ON public.course_modules
+  FOR EACH ROW
+  WHEN (NEW.title IS DISTINCT FROM OLD.title)
+  EXECUTE FUNCTION apply_outline_moderation();
+
+CREATE TRIGGER trigger_lessons_moderation
+  AFTER INSERT OR DELETE ON public.lessons
+  FOR EACH ROW EXECUTE FUNCTION apply_outline_moderation();
+
+CREATE TRIGGER trigger_lessons_moderation_update
+  AFTER UPDATE ON public.lessons
+  FOR EACH ROW
+  WHEN (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.content_type IS DISTINCT FROM OLD.content_type OR
+    NEW.content_url IS DISTINCT FROM OLD.content_url OR
+    NEW.content_text IS DISTINCT FROM OLD.content_text
+  )
+  EXECUTE FUNCTION apply_outline_moderation();
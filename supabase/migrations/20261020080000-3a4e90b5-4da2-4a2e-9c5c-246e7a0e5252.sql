@@ -0,0 +1,24 @@
+
+-- A course may only point at a file in its uploader's own folder. Otherwise anyone could
+-- aim their own course at another uploader's premium file and read it through the
+-- content policy below.
+UPDATE public.courses
+SET content_path = NULL
+WHERE content_path IS NOT NULL AND split_part(content_path, '/', 1) <> uploader_id::text;
+
+ALTER TABLE public.courses
+ADD CONSTRAINT courses_content_path_in_uploader_folder
+  CHECK (content_path IS NULL OR split_part(content_path, '/', 1) = uploader_id::text);
+
+DROP POLICY IF EXISTS "Users can view content of visible courses" ON storage.objects;
+CREATE POLICY "Users can view content of visible courses" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'course-content' AND (
+      (storage.foldername(name))[1] = auth.uid()::text OR
+      EXISTS (
+        SELECT 1 FROM public.courses c
+        WHERE c.content_path = storage.objects.name
+          AND (storage.foldername(storage.objects.name))[1] = c.uploader_id::text
+      )
+    )
+  );
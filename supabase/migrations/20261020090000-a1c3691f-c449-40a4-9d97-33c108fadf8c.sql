@@ -0,0 +1,63 @@
+
+-- Deleting an account removes its certificates instead of being blocked by them
+ALTER TABLE public.certificates
+DROP CONSTRAINT IF EXISTS certificates_user_id_fkey,
+ADD CONSTRAINT certificates_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users ON DELETE CASCADE;
+
+-- verify_certificate is public, so a learner without a display name must not be
+-- published by email. Certificates already issued that way are blanked too.
+UPDATE public.certificates c
+SET recipient_name = 'Skillcy learner'
+FROM auth.users u
+WHERE u.id = c.user_id AND c.recipient_name = u.email;
+
+CREATE OR REPLACE FUNCTION issue_certificate(user_uuid UUID, course_uuid UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.certificates (user_id, course_id, recipient_name, course_title, uploader_name, completed_at)
+  SELECT
+    uc.user_id,
+    c.id,
+    COALESCE(NULLIF(btrim(p.full_name), ''), 'Skillcy learner'),
+    c.title,
+    COALESCE(NULLIF(btrim(up.full_name), ''), c.uploader_email),
+    COALESCE(uc.completed_at, now())
+  FROM public.user_courses uc
+  JOIN public.courses c ON c.id = uc.course_id
+  LEFT JOIN public.profiles p ON p.user_id = uc.user_id
+  LEFT JOIN public.profiles up ON up.user_id = c.uploader_id
+  WHERE uc.user_id = user_uuid
+    AND uc.course_id = course_uuid
+    AND uc.completed = TRUE
+    AND has_capability('certificates', user_uuid)
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_learning_path_certificate(user_uuid UUID, path_uuid UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.certificates (user_id, learning_path_id, recipient_name, course_title, uploader_name, completed_at)
+  SELECT
+    e.user_id,
+    lp.id,
+    COALESCE(NULLIF(btrim(p.full_name), ''), 'Skillcy learner'),
+    lp.title,
+    NULLIF(btrim(ap.full_name), ''),
+    e.completed_at
+  FROM public.learning_path_enrollments e
+  JOIN public.learning_paths lp ON lp.id = e.path_id
+  LEFT JOIN public.profiles p ON p.user_id = e.user_id
+  LEFT JOIN public.profiles ap ON ap.user_id = lp.author_id
+  WHERE e.user_id = user_uuid
+    AND e.path_id = path_uuid
+    AND e.completed_at IS NOT NULL
+    AND has_capability('certificates', user_uuid)
+  ON CONFLICT (user_id, learning_path_id) DO NOTHING;
+$$;
@@ -0,0 +1,16 @@
+
+-- Reviews feed course_stats and the Premium ranking, so only learners who can open the
+-- course may write one. The courses policies apply to the subquery.
+DROP POLICY IF EXISTS "Enrolled users can insert own review" ON public.course_reviews;
+CREATE POLICY "Enrolled users can insert own review" ON public.course_reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.user_courses
+      WHERE user_courses.user_id = auth.uid() AND user_courses.course_id = course_reviews.course_id
+    ) AND
+    EXISTS (
+      SELECT 1 FROM public.courses
+      WHERE courses.id = course_reviews.course_id AND courses.uploader_id <> auth.uid()
+    )
+  );
@@ -0,0 +1,11 @@
+
+-- A library row unlocks discussions and reviews, so users may only add courses they can
+-- see. The courses policies apply to the subquery, which keeps premium courses out of
+-- free users' libraries even though their ids are public through top_premium_courses.
+DROP POLICY IF EXISTS "Users can enroll in courses" ON public.user_courses;
+CREATE POLICY "Users can enroll in courses" ON public.user_courses
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM public.courses WHERE courses.id = user_courses.course_id) AND
+    can_add_course_to_library(course_id)
+  );
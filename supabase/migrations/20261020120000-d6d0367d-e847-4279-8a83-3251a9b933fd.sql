@@ -0,0 +1,75 @@
+
+-- When the user last reported learning time on any session. Credit is capped by the time
+-- since then, so parallel sessions or rapid calls can't add up to more than wall time.
+ALTER TABLE public.learning_goals
+ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMP WITH TIME ZONE;
+
+-- Adds active seconds to a session, starting it on the first call. Each call is credited
+-- with at most the time since the user's previous call on any session.
+CREATE OR REPLACE FUNCTION record_learning_time(
+  session_uuid UUID,
+  target_course_id UUID,
+  elapsed_seconds INTEGER,
+  client_time_zone TEXT,
+  target_lesson_id UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  zone TEXT := 'UTC';
+  last_active TIMESTAMP WITH TIME ZONE;
+  credited INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_courses uc
+    WHERE uc.user_id = auth.uid() AND uc.course_id = target_course_id
+  ) THEN
+    RAISE EXCEPTION 'Only courses in your library count towards learning time';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = client_time_zone) THEN
+    zone := client_time_zone;
+  END IF;
+
+  INSERT INTO public.learning_goals AS g (user_id, time_zone)
+  VALUES (auth.uid(), zone)
+  ON CONFLICT (user_id) DO UPDATE
+  SET time_zone = EXCLUDED.time_zone, updated_at = now()
+  WHERE g.time_zone IS DISTINCT FROM EXCLUDED.time_zone;
+
+  -- Concurrent calls wait here so each one sees the previous call's time
+  SELECT g.last_active_at INTO last_active
+  FROM public.learning_goals g
+  WHERE g.user_id = auth.uid()
+  FOR UPDATE;
+
+  credited := LEAST(
+    GREATEST(elapsed_seconds, 0),
+    120,
+    COALESCE(GREATEST(floor(extract(epoch FROM now() - last_active))::INTEGER, 0), 120)
+  );
+
+  UPDATE public.learning_goals
+  SET last_active_at = now()
+  WHERE user_id = auth.uid();
+
+  INSERT INTO public.learning_sessions AS s
+    (id, user_id, course_id, lesson_id, activity_date, active_seconds)
+  VALUES (
+    session_uuid,
+    auth.uid(),
+    target_course_id,
+    target_lesson_id,
+    (now() AT TIME ZONE zone)::DATE,
+    credited
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    active_seconds = s.active_seconds + EXCLUDED.active_seconds,
+    last_active_at = now()
+  WHERE s.user_id = auth.uid();
+END;
+$$;
@@ -0,0 +1,118 @@
+
+-- search_courses gains the prerequisite gating and whether the caller has met the
+-- prerequisites, so Browse can lock "Add to Library" on hard-gated courses the way Learn
+-- does. Uploaders count as having met the prerequisites of their own courses.
+DROP FUNCTION IF EXISTS search_courses(TEXT, TEXT, TEXT, UUID, TEXT, INTEGER, REAL, TIMESTAMP WITH TIME ZONE, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION search_courses(
+  search_text TEXT DEFAULT NULL,
+  difficulty_filter TEXT DEFAULT NULL,
+  content_type_filter TEXT DEFAULT NULL,
+  category_filter UUID DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INTEGER DEFAULT 24,
+  cursor_rank REAL DEFAULT NULL,
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_title TEXT DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  content_type TEXT,
+  access_type TEXT,
+  difficulty TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  uploader_email TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  enrollment_count INTEGER,
+  category_id UUID,
+  category_name TEXT,
+  category_slug TEXT,
+  prerequisite_gating TEXT,
+  prerequisites_met BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT
+      build_prefix_tsquery(search_text) AS q,
+      -- Relevance means nothing without a search term, fall back to newest first
+      CASE
+        WHEN sort_by IN ('newest', 'oldest', 'title') THEN sort_by
+        WHEN build_prefix_tsquery(search_text) IS NULL THEN 'newest'
+        ELSE 'relevance'
+      END AS sort_key
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      query.q,
+      query.sort_key,
+      CASE WHEN query.q IS NULL THEN 0 ELSE ts_rank_cd(c.search_vector, query.q) END::REAL AS match_rank
+    FROM public.courses c
+    CROSS JOIN query
+    WHERE c.is_approved = true
+      AND (query.q IS NULL OR c.search_vector @@ query.q)
+      AND (difficulty_filter IS NULL OR c.difficulty = difficulty_filter)
+      AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+      AND (category_filter IS NULL OR c.category_id IN (
+        SELECT cat.id FROM public.categories cat
+        WHERE cat.id = category_filter OR cat.parent_id = category_filter
+      ))
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.content_type,
+    m.access_type,
+    m.difficulty,
+    m.tags,
+    m.image_url,
+    m.created_at,
+    m.uploader_email,
+    p.full_name AS uploader_name,
+    m.match_rank AS rank,
+    CASE WHEN m.q IS NULL THEN m.title
+      ELSE ts_headline('english', m.title, m.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN m.q IS NULL THEN m.description
+      ELSE ts_headline('english', COALESCE(m.description, ''), m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')
+    END AS description_snippet,
+    s.rating_average,
+    COALESCE(s.rating_count, 0) AS rating_count,
+    COALESCE(s.enrollment_count, 0) AS enrollment_count,
+    m.category_id,
+    cat.name AS category_name,
+    cat.slug AS category_slug,
+    m.prerequisite_gating,
+    m.uploader_id IS NOT DISTINCT FROM auth.uid() OR prerequisites_met(m.id) AS prerequisites_met
+  FROM matches m
+  LEFT JOIN public.profiles p ON p.user_id = m.uploader_id
+  LEFT JOIN public.course_stats s ON s.course_id = m.id
+  LEFT JOIN public.categories cat ON cat.id = m.category_id
+  WHERE cursor_id IS NULL OR CASE m.sort_key
+    WHEN 'newest' THEN (m.created_at, m.id) < (cursor_created_at, cursor_id)
+    WHEN 'oldest' THEN (m.created_at, m.id) > (cursor_created_at, cursor_id)
+    WHEN 'title' THEN (lower(m.title), m.id) > (lower(cursor_title), cursor_id)
+    ELSE (m.match_rank, m.id) < (cursor_rank, cursor_id)
+  END
+  ORDER BY
+    CASE WHEN m.sort_key = 'relevance' THEN m.match_rank END DESC,
+    CASE WHEN m.sort_key = 'newest' THEN m.created_at END DESC,
+    CASE WHEN m.sort_key = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN m.sort_key = 'title' THEN lower(m.title) END ASC,
+    CASE WHEN m.sort_key IN ('relevance', 'newest') THEN m.id END DESC,
+    CASE WHEN m.sort_key IN ('oldest', 'title') THEN m.id END ASC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
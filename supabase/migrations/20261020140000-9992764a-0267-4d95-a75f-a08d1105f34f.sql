@@ -0,0 +1,17 @@
+
+-- Any uploader may publish a premium course again. upload_premium_courses stays a listed
+-- plan feature, but the courses policies no longer check it.
+DROP POLICY IF EXISTS "Users can insert own courses" ON public.courses;
+CREATE POLICY "Users can insert own courses" ON public.courses
+  FOR INSERT WITH CHECK (
+    auth.uid() = uploader_id AND
+    (access_type <> 'organization' OR is_organization_member(organization_id))
+  );
+
+DROP POLICY IF EXISTS "Users can update own courses" ON public.courses;
+CREATE POLICY "Users can update own courses" ON public.courses
+  FOR UPDATE USING (auth.uid() = uploader_id)
+  WITH CHECK (
+    auth.uid() = uploader_id AND
+    (access_type <> 'organization' OR is_organization_member(organization_id))
+  );
@@ -0,0 +1,91 @@
+
+-- Per-question results let a learner find every answer in a few retakes, so attempts
+-- only keep the score and a learner has to wait between attempts at the same quiz
+ALTER TABLE public.quiz_attempts DROP COLUMN IF EXISTS results;
+
+-- Runs inside the user_courses completion trigger, where the learner's own RLS would
+-- otherwise hide quizzes they can no longer see and let the course complete without them
+CREATE OR REPLACE FUNCTION required_quizzes_passed(user_uuid UUID, course_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quizzes q
+    WHERE q.course_id = course_uuid
+      AND q.required_for_completion
+      AND NOT EXISTS (
+        SELECT 1 FROM public.quiz_attempts a
+        WHERE a.quiz_id = q.id AND a.user_id = user_uuid AND a.passed
+      )
+  );
+$$;
+
+-- Grades the caller's answers ({"<question id>": [option indexes] | "text"}) against
+-- the answer keys and records the attempt. Only the total score is returned.
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(target_quiz_id UUID, answers JSONB)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz public.quizzes;
+  attempt public.quiz_attempts;
+  earned INTEGER;
+  total INTEGER;
+BEGIN
+  SELECT * INTO quiz FROM public.quizzes WHERE id = target_quiz_id;
+
+  -- Locking the library row makes concurrent submissions wait for the cooldown check
+  PERFORM 1 FROM public.user_courses uc
+  WHERE uc.course_id = quiz.course_id AND uc.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Add this course to your library before taking its quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.quiz_attempts a
+    WHERE a.quiz_id = target_quiz_id
+      AND a.user_id = auth.uid()
+      AND a.submitted_at > now() - INTERVAL '5 minutes'
+  ) THEN
+    RAISE EXCEPTION 'You can retake this quiz 5 minutes after your last attempt';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(g.points) FILTER (WHERE g.correct), 0),
+    COALESCE(SUM(g.points), 0)
+  INTO earned, total
+  FROM (
+    SELECT
+      qq.points,
+      grade_quiz_answer(qq.question_type, answers -> qq.id::TEXT, k.correct_options, k.accepted_answers) AS correct
+    FROM public.quiz_questions qq
+    LEFT JOIN public.quiz_answer_keys k ON k.question_id = qq.id
+    WHERE qq.quiz_id = target_quiz_id
+  ) g;
+
+  IF total = 0 THEN
+    RAISE EXCEPTION 'This quiz has no questions yet';
+  END IF;
+
+  INSERT INTO public.quiz_attempts
+    (quiz_id, user_id, answers, score, max_score, score_percent, passed)
+  VALUES
+    (target_quiz_id, auth.uid(), answers, earned, total,
+     ROUND(earned * 100.0 / total), earned * 100 >= quiz.pass_percent * total)
+  RETURNING * INTO attempt;
+
+  -- Passing may be all that was left before the course counts as completed
+  IF attempt.passed AND quiz.required_for_completion THEN
+    PERFORM update_profile_stats(auth.uid());
+  END IF;
+
+  RETURN attempt;
+END;
+$$;
@@ -0,0 +1,35 @@
+
+-- Completion dates already sent by clients can't be checked, but they can at least be
+-- kept between adding the course and now, or the certificate being issued
+UPDATE public.user_courses
+SET completed_at = LEAST(GREATEST(completed_at, added_at), now())
+WHERE completed_at < added_at OR completed_at > now();
+
+UPDATE public.certificates ce
+SET completed_at = LEAST(GREATEST(ce.completed_at, uc.added_at), ce.issued_at)
+FROM public.user_courses uc
+WHERE uc.user_id = ce.user_id
+  AND uc.course_id = ce.course_id
+  AND (ce.completed_at < uc.added_at OR ce.completed_at > ce.issued_at);
+
+-- Certificates copy user_courses.completed_at, so the completion time is set here rather
+-- than taken from the client. Marking a course incomplete clears it again.
+CREATE OR REPLACE FUNCTION set_course_completed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT COALESCE(NEW.completed, FALSE) THEN
+    NEW.completed_at := NULL;
+  ELSIF TG_OP = 'INSERT' OR NOT COALESCE(OLD.completed, FALSE) THEN
+    NEW.completed_at := now();
+  ELSE
+    NEW.completed_at := OLD.completed_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_user_courses_completed_at
+  BEFORE INSERT OR UPDATE OF completed, completed_at ON public.user_courses
+  FOR EACH ROW EXECUTE FUNCTION set_course_completed_at();
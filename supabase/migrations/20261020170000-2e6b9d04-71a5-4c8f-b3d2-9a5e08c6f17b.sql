@@ -0,0 +1,32 @@
+
+-- Uploaders without a display name were named on certificates by their email, which
+-- verify_certificate publishes. They are left unnamed instead, as on path certificates.
+UPDATE public.certificates ce
+SET uploader_name = NULL
+WHERE ce.uploader_name IN (SELECT u.email FROM auth.users u)
+   OR ce.uploader_name IN (SELECT c.uploader_email FROM public.courses c);
+
+CREATE OR REPLACE FUNCTION issue_certificate(user_uuid UUID, course_uuid UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.certificates (user_id, course_id, recipient_name, course_title, uploader_name, completed_at)
+  SELECT
+    uc.user_id,
+    c.id,
+    COALESCE(NULLIF(btrim(p.full_name), ''), 'Skillcy learner'),
+    c.title,
+    NULLIF(btrim(up.full_name), ''),
+    COALESCE(uc.completed_at, now())
+  FROM public.user_courses uc
+  JOIN public.courses c ON c.id = uc.course_id
+  LEFT JOIN public.profiles p ON p.user_id = uc.user_id
+  LEFT JOIN public.profiles up ON up.user_id = c.uploader_id
+  WHERE uc.user_id = user_uuid
+    AND uc.course_id = course_uuid
+    AND uc.completed = TRUE
+    AND has_capability('certificates', user_uuid)
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+$$;